@@ -10,6 +10,7 @@ import type {
   TxLogEntry,
   PoolAnalysis,
   EpochSnapshot,
+  RpcHealth,
 } from "@btr-supply/shared/types";
 
 const BASE = "/api";
@@ -103,7 +104,8 @@ export const api = {
     put<{ ok: boolean }>(`/config/pools/${pairId}`, { pools }),
   deleteConfigPools: (pairId: string) => del<{ ok: boolean }>(`/config/pools/${pairId}`),
 
-  configRpcs: () => get<Record<number, { rpcs: string[]; source: string }>>("/config/rpcs"),
+  configRpcs: () =>
+    get<Record<number, { rpcs: string[]; source: string; health: RpcHealth[] }>>("/config/rpcs"),
   saveConfigRpc: (chainId: number, rpcs: string[]) =>
     put<{ ok: boolean }>(`/config/rpcs/${chainId}`, { rpcs }),
   deleteConfigRpc: (chainId: number) => del<{ ok: boolean }>(`/config/rpcs/${chainId}`),
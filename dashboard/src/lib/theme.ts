@@ -45,6 +45,7 @@ export function chartColors() { return _cc ??= buildChartColors(); }
 export function chartDecisionColor(d: string): string {
   if (d === "HOLD") return cssVar("--chart-hold");
   if (d === "PRA") return cssVar("--chart-pra-marker");
+  if (d === "COMPOUND") return cssVar("--chart-compound-marker");
   return cssVar("--chart-rs-marker");
 }
 
@@ -23,7 +23,13 @@ import {
   waitForArrival,
   type SwapBackend,
 } from "../src/execution/swap";
-import { getPublicClient, getAccount, sendAndWait, approveIfNeeded } from "../src/execution/tx";
+import {
+  getPublicClient,
+  getAccount,
+  eoaSigner,
+  sendAndWait,
+  approveIfNeeded,
+} from "../src/execution/tx";
 import { getChain } from "../src/config/chains";
 import { USDC, USDT, tokenDecimals } from "../src/config/tokens";
 import { log } from "../src/utils";
@@ -138,7 +144,7 @@ async function swapNative(p: {
       : await getBalance(p.toChain, p.toToken as `0x${string}`, addr);
   }
 
-  const result = await sendAndWait(p.fromChain, p.pk, {
+  const result = await sendAndWait(p.fromChain, eoaSigner(getAccount(p.pk)), {
     to: quote.transactionRequest.to as `0x${string}`,
     data: quote.transactionRequest.data as `0x${string}`,
     value: quote.transactionRequest.value ? BigInt(quote.transactionRequest.value) : p.amount,
@@ -194,7 +200,7 @@ async function swapErc20(p: {
 
   const spender = (quote.estimate.approvalAddress ||
     "0x1231DEB6f5749EF6cE6943a275A1D3E7486F4EaE") as `0x${string}`;
-  await approveIfNeeded(p.fromChain, p.fromToken, spender, p.amount, p.pk);
+  await approveIfNeeded(p.fromChain, p.fromToken, spender, p.amount, eoaSigner(getAccount(p.pk)));
 
   const isCross = p.fromChain !== p.toChain;
   const verified = await verifyCalldata(
@@ -212,7 +218,7 @@ async function swapErc20(p: {
     balBefore = await getBalance(p.toChain, p.toToken, addr);
   }
 
-  const result = await sendAndWait(p.fromChain, p.pk, {
+  const result = await sendAndWait(p.fromChain, eoaSigner(getAccount(p.pk)), {
     to: quote.transactionRequest.to as `0x${string}`,
     data: quote.transactionRequest.data as `0x${string}`,
     value: quote.transactionRequest.value ? BigInt(quote.transactionRequest.value) : undefined,
@@ -0,0 +1,102 @@
+/**
+ * Write an encrypted V3 keystore into KEYSTORE_DIR for workers to unlock at start.
+ *
+ * Key mode: encrypts a private key as <name>.json (strategy name, or pair ID for `cycle`).
+ * Mnemonic mode: encrypts an HD mnemonic as mnemonic.json; strategies then set hdIndex.
+ *
+ * The secret and the password are read from stdin with echo off, never from argv or env; when
+ * stdin is a pipe, one per line (password first). KEYSTORE_PASSWORD_FILE, if set, supplies the
+ * password instead: it must be the one workers get via KEYSTORE_PASSWORD_FILE (or KEYSTORE_PASSWORD).
+ *
+ * Usage: KEYSTORE_DIR=secrets/keystore bun scripts/keystore.ts <name>
+ *        KEYSTORE_DIR=secrets/keystore bun scripts/keystore.ts --mnemonic
+ */
+
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { hexToBytes, isHex } from "viem";
+import { english, generateMnemonic, mnemonicToAccount, privateKeyToAccount } from "viem/accounts";
+import { encryptKeystore } from "../src/execution/keys";
+import { HD_PATH_PREFIX, KEYSTORE_MNEMONIC_FILE } from "../src/config/params";
+import { log } from "../src/utils";
+
+let piped: string[] | undefined;
+
+/** Read one line from stdin without echo: raw mode on a terminal, the next line of a pipe. */
+async function readSecret(question: string): Promise<string> {
+  process.stderr.write(`${question} `);
+  const stdin = process.stdin;
+  if (!stdin.isTTY) {
+    piped ??= (await Bun.stdin.text()).split(/\r?\n/);
+    process.stderr.write("\n");
+    return piped.shift() ?? "";
+  }
+  return new Promise((resolve, reject) => {
+    let line = "";
+    const done = () => {
+      stdin.off("data", onData);
+      stdin.setRawMode(false);
+      stdin.pause();
+      process.stderr.write("\n");
+    };
+    const onData = (buf: Buffer) => {
+      for (const ch of buf.toString("utf8")) {
+        if (ch === "\r" || ch === "\n" || ch === "\u0003") {
+          done();
+          if (ch === "\u0003") reject(new Error("Aborted"));
+          else resolve(line);
+          return;
+        }
+        line = ch === "\u007f" || ch === "\b" ? line.slice(0, -1) : line + ch;
+      }
+    };
+    stdin.setRawMode(true);
+    stdin.resume();
+    stdin.on("data", onData);
+  });
+}
+
+/** Keystore password: KEYSTORE_PASSWORD_FILE (as workers read it), else typed twice on a terminal. */
+async function readPassword(): Promise<string> {
+  const path = process.env.KEYSTORE_PASSWORD_FILE;
+  if (path) return readFileSync(path, "utf8").replace(/\r?\n$/, "");
+  const password = await readSecret("Keystore password:");
+  if (!password) throw new Error("Empty password");
+  if (process.stdin.isTTY && (await readSecret("Repeat password:")) !== password)
+    throw new Error("Passwords differ");
+  return password;
+}
+
+async function main() {
+  const dir = process.env.KEYSTORE_DIR;
+  const arg = process.argv[2];
+  if (!dir || !arg)
+    throw new Error("Usage: KEYSTORE_DIR=<dir> bun scripts/keystore.ts <name> | --mnemonic");
+  mkdirSync(dir, { recursive: true, mode: 0o700 });
+
+  const password = await readPassword();
+
+  if (arg === "--mnemonic") {
+    let mnemonic = (await readSecret("Mnemonic (empty: generate one):")).trim();
+    if (!mnemonic) {
+      mnemonic = generateMnemonic(english);
+      console.log(`\nGenerated mnemonic, back it up offline:\n\n  ${mnemonic}\n`);
+    }
+    const first = mnemonicToAccount(mnemonic, { path: `${HD_PATH_PREFIX}/0` });
+    const ks = encryptKeystore(new TextEncoder().encode(mnemonic), password);
+    writeFileSync(`${dir}/${KEYSTORE_MNEMONIC_FILE}`, JSON.stringify(ks), { mode: 0o600 });
+    log.info(`Wrote ${dir}/${KEYSTORE_MNEMONIC_FILE} (hdIndex 0: ${first.address})`);
+    return;
+  }
+
+  const pk = (await readSecret("Private key (0x...):")).trim();
+  if (!pk || !isHex(pk) || pk.length !== 66) throw new Error("Invalid private key");
+  const account = privateKeyToAccount(pk);
+  const ks = encryptKeystore(hexToBytes(pk), password, undefined, account.address);
+  writeFileSync(`${dir}/${arg}.json`, JSON.stringify(ks), { mode: 0o600 });
+  log.info(`Wrote ${dir}/${arg}.json (${account.address})`);
+}
+
+main().catch((e) => {
+  log.error(`Fatal: ${e instanceof Error ? e.message : String(e)}`);
+  process.exit(1);
+});
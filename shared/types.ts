@@ -5,7 +5,10 @@
 // ---- Primitives ----
 
 export type ChainId = number;
-export type DecisionType = "PRA" | "RS" | "HOLD";
+export type DecisionType = "PRA" | "RS" | "COMPOUND" | "HOLD";
+export type StrategyMode = "live" | "paper"; // paper: simulated fills, no private key
+export type OptimizerId = "nelder-mead" | "cma-es" | "differential-evolution";
+export type OptSpace = "range" | "extended"; // extended: also tunes force-model params
 
 // ---- Force Model ----
 
@@ -100,19 +103,27 @@ export interface Position {
   entryTs: number;
   entryApr: number;
   entryValueUsd: number;
+  feesCollected0?: string; // fees collected by COMPOUND/decrease so far, pair token order
+  feesCollected1?: string;
+  feesCollectedUsd?: number; // valued when collected
+  compoundTs?: number; // last fee collection (COMPOUND or decrease)
+  withdrawn0?: string; // principal withdrawn by partial decreases, pair token order
+  withdrawn1?: string;
+  withdrawnUsd?: number; // valued when withdrawn
 }
 
 export interface TxLogEntry {
   id?: number;
   ts: number;
   decisionType: DecisionType;
-  opType: "burn" | "mint" | "swap";
+  opType: "burn" | "decrease" | "mint" | "increase" | "swap" | "compound";
   pool: string;
   chain: ChainId;
   txHash: string;
   status: "success" | "reverted";
   gasUsed: string;
   gasPrice: string;
+  gasUsd?: number; // receipt gas in USD at the native token price when logged
   inputToken: string;
   inputAmount: string;
   inputUsd: number;
@@ -122,6 +133,8 @@ export interface TxLogEntry {
   targetAllocationPct: number;
   actualAllocationPct: number;
   allocationErrorPct: number;
+  paper?: boolean;
+  error?: string; // revert reason (reverted receipt, or a mint that reverted in simulation)
 }
 
 // ---- Epoch Snapshot ----
@@ -140,6 +153,10 @@ export interface EpochSnapshot {
   currentApr: number;
   optimalApr: number;
   positionsCount: number;
+  paper?: boolean;
+  feesUncollectedUsd?: number; // marked runs: fees accrued in open positions, not yet collected
+  hodlValueUsd?: number; // marked runs: entry amounts of open positions at the current price
+  marked?: boolean; // PnL read from chain/ledger state (false: modeled from APR and entry values)
 }
 
 // ---- Config wire types (shared between backend and dashboard) ----
@@ -151,6 +168,12 @@ export interface PairConfigEntry {
   maxPositions: number;
   thresholds: { pra: number; rs: number };
   forceParams?: Record<string, unknown>;
+  maxPriceDeviation?: number;
+  slippageBps?: Record<string, number>;
+  spendCaps?: Record<string, number>;
+  optimizer?: OptimizerId;
+  optSpace?: OptSpace;
+  optBounds?: Record<string, { lo: number; hi: number }>;
 }
 
 export interface StrategyConfigEntry {
@@ -162,9 +185,32 @@ export interface StrategyConfigEntry {
   maxPositions: number;
   thresholds: { pra: number; rs: number };
   forceParams?: Record<string, unknown>;
+  maxPriceDeviation?: number;
+  slippageBps?: Record<string, number>;
+  spendCaps?: Record<string, number>;
+  optimizer?: OptimizerId;
+  optSpace?: OptSpace;
+  optBounds?: Record<string, { lo: number; hi: number }>;
   gasReserves?: Record<number, number>;
   allocationPct?: number;
   rpcOverrides?: Record<number, string[]>;
+  mode?: StrategyMode;
+  hdIndex?: number;
+  signer?: "eoa" | "safe";
+  safe?: { address: string; modules?: Record<number, string> };
+}
+
+/** Observed health of one RPC endpoint (lower score is better). */
+export interface RpcHealth {
+  url: string;
+  latencyMs: number; // EWMA over requests and probes
+  errorRate: number; // EWMA of transport failures, 0..1
+  blockNumber: number; // last head seen
+  blockLag: number; // blocks behind the chain's best head
+  score: number;
+  samples: number;
+  ejected: boolean;
+  ts: number;
 }
 
 export interface DexMetadata {
@@ -4,6 +4,7 @@ import { ABIS, getDexFamily, V4_STATE_VIEW, PCS_V4_CL_MANAGER } from "../config/
 import { requireAddress } from "../execution/tx";
 import { ZERO_ADDR, LB_BIN_ID_OFFSET, LB_BIN_STEP_DIVISOR, FEE_PRECISION } from "../config/params";
 import { getPublicClient } from "../execution/tx";
+import { readContracts, type ContractRead } from "../execution/multicall";
 import { sortTokens } from "../utils";
 
 /** Convert sqrtPriceX96 → token1/token0 price. */
@@ -37,17 +38,17 @@ async function queryV3Style(
   address: `0x${string}`,
   cfg: V3StyleConfig,
 ): Promise<PoolState> {
-  const reads: Promise<unknown>[] = [
-    client.readContract({ address, abi: [ABIS.pool.token0], functionName: "token0" }),
-    client.readContract({ address, abi: [ABIS.pool.token1], functionName: "token1" }),
-    client.readContract({ address, abi: [cfg.stateAbi], functionName: cfg.stateFn as any }),
-    client.readContract({ address, abi: [ABIS.pool.liquidity], functionName: "liquidity" }),
-    client.readContract({ address, abi: [ABIS.pool.tickSpacing], functionName: "tickSpacing" }),
+  const reads: ContractRead[] = [
+    { address, abi: [ABIS.pool.token0], functionName: "token0" },
+    { address, abi: [ABIS.pool.token1], functionName: "token1" },
+    { address, abi: [cfg.stateAbi], functionName: cfg.stateFn },
+    { address, abi: [ABIS.pool.liquidity], functionName: "liquidity" },
+    { address, abi: [ABIS.pool.tickSpacing], functionName: "tickSpacing" },
   ];
   if (cfg.feeFromState === undefined)
-    reads.push(client.readContract({ address, abi: [ABIS.pool.fee], functionName: "fee" }));
+    reads.push({ address, abi: [ABIS.pool.fee], functionName: "fee" });
 
-  const r = await Promise.all(reads);
+  const r = await readContracts<unknown[]>(client, reads);
   const s = r[2] as readonly [bigint, number, ...unknown[]];
   const fee = cfg.feeFromState !== undefined ? Number(s[cfg.feeFromState]) : Number(r[5]);
   return {
@@ -70,32 +71,19 @@ async function queryV4Family(
   readTickSpacing: boolean,
   pairTokens?: [TokenConfig, TokenConfig],
 ): Promise<PoolState> {
-  const calls: [Promise<unknown>, Promise<unknown>, Promise<unknown> | null] = [
-    client.readContract({
-      address: lens,
-      abi: [ABIS.v4.getSlot0],
-      functionName: "getSlot0",
-      args: [poolId],
-    }),
-    client.readContract({
+  const reads: ContractRead[] = [
+    { address: lens, abi: [ABIS.v4.getSlot0], functionName: "getSlot0", args: [poolId] },
+    { address: lens, abi: [ABIS.v4.getLiquidity], functionName: "getLiquidity", args: [poolId] },
+  ];
+  if (readTickSpacing)
+    reads.push({
       address: lens,
-      abi: [ABIS.v4.getLiquidity],
-      functionName: "getLiquidity",
+      abi: [ABIS.v4.getTickSpacing],
+      functionName: "getTickSpacing",
       args: [poolId],
-    }),
-    readTickSpacing
-      ? client.readContract({
-          address: lens,
-          abi: [ABIS.v4.getTickSpacing],
-          functionName: "getTickSpacing",
-          args: [poolId],
-        })
-      : null,
-  ];
+    });
 
-  const [slot0, liquidity, tickSpacing] = await Promise.all(
-    calls.filter((c): c is Promise<unknown> => c !== null),
-  );
+  const [slot0, liquidity, tickSpacing] = await readContracts<unknown[]>(client, reads);
   const s = slot0 as readonly [bigint, number, number, number];
   const sqrtPriceX96 = s[0];
 
@@ -136,12 +124,12 @@ async function queryV4Variant(
 }
 
 async function queryLB(client: PublicClient, address: `0x${string}`): Promise<PoolState> {
-  const [tokenX, tokenY, activeId, binStep, reserves] = await Promise.all([
-    client.readContract({ address, abi: [ABIS.lb.getTokenX], functionName: "getTokenX" }),
-    client.readContract({ address, abi: [ABIS.lb.getTokenY], functionName: "getTokenY" }),
-    client.readContract({ address, abi: [ABIS.lb.getActiveId], functionName: "getActiveId" }),
-    client.readContract({ address, abi: [ABIS.lb.getBinStep], functionName: "getBinStep" }),
-    client.readContract({ address, abi: [ABIS.lb.getReserves], functionName: "getReserves" }),
+  const [tokenX, tokenY, activeId, binStep, reserves] = await readContracts<unknown[]>(client, [
+    { address, abi: [ABIS.lb.getTokenX], functionName: "getTokenX" },
+    { address, abi: [ABIS.lb.getTokenY], functionName: "getTokenY" },
+    { address, abi: [ABIS.lb.getActiveId], functionName: "getActiveId" },
+    { address, abi: [ABIS.lb.getBinStep], functionName: "getBinStep" },
+    { address, abi: [ABIS.lb.getReserves], functionName: "getReserves" },
   ]);
 
   const id = Number(activeId);
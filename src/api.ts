@@ -1,15 +1,21 @@
 import { allPairIds, getPair } from "./state";
-import { DragonflyStore } from "./data/store-dragonfly";
+import { DragonflyStore, strategyPrefix } from "./data/store-dragonfly";
 import * as o2q from "./data/store-o2";
 import { defaultRangeParams } from "./strategy/optimizer";
 import {
   DEFAULT_API_PORT,
   DEFAULT_CANDLE_WINDOW_MS,
   DEFAULT_TXLOG_LIMIT,
+  CLOSED_POSITIONS_MAX,
+  JOURNAL_HISTORY_MAX,
   POOL_ADDRESS_RE,
   INTERVAL_SEC_RANGE,
   MAX_POSITIONS_RANGE,
+  BPS_DIVISOR,
+  OPTIMIZER_IDS,
+  OPT_PARAM_BOUNDS,
 } from "./config/params";
+import { isAddress } from "viem";
 import { DexId } from "./types";
 import { TOKENS } from "./config/tokens";
 import { log, bigintReplacer } from "./utils";
@@ -30,6 +36,7 @@ import {
   dexCfg,
   getAllRpcConfigs,
   getRpcConfig,
+  getRpcHealth,
   setRpcConfig,
   deleteRpcConfig,
   getConfigPools,
@@ -37,9 +44,10 @@ import {
   deleteConfigPools,
   readCollectedCandles,
 } from "./infra/redis";
-import type { PairConfigEntry, StrategyConfigEntry, DexMetadata } from "../shared/types";
+import type { PairConfigEntry, StrategyConfigEntry, DexMetadata, RpcHealth, OptimizerId, OptSpace } from "../shared/types";
 import type { RedisClient } from "bun";
 import { DEFAULT_RPCS, resolveRpcs } from "./config/chains";
+import { rpcHealth } from "./execution/rpc-health";
 
 const startTime = Date.now();
 
@@ -97,8 +105,19 @@ function validatePairId(pairId: string): string | null {
   return null;
 }
 
-/** Validate shared config body fields (pools, intervals, thresholds). Returns {validated, error}. */
-function validateConfigBody(body: { pools?: any[]; intervalSec?: number; maxPositions?: number; thresholds?: { pra: number; rs: number } }) {
+/** Validate signer mode and Safe: "safe" needs a Safe address, modules are keyed by chain ID. */
+function validateSigner(body: Pick<StrategyConfigEntry, "signer" | "safe">): string | null {
+  if (body.signer !== undefined && body.signer !== "eoa" && body.signer !== "safe") return "signer must be eoa or safe";
+  if (body.signer === "safe" && !body.safe) return "safe required when signer is safe";
+  if (!body.safe) return null;
+  if (!isAddress(body.safe.address)) return `Invalid safe address: ${body.safe.address}`;
+  for (const [chain, module] of Object.entries(body.safe.modules ?? {}))
+    if (!Number.isInteger(Number(chain)) || !isAddress(module)) return `Invalid safe module: ${chain}:${module}`;
+  return null;
+}
+
+/** Validate shared config body fields (pools, intervals, thresholds, deviation limit, slippage, optimizer). Returns {validated, error}. */
+function validateConfigBody(body: { pools?: any[]; intervalSec?: number; maxPositions?: number; thresholds?: { pra: number; rs: number }; maxPriceDeviation?: number; slippageBps?: Record<string, number>; spendCaps?: Record<string, number>; optimizer?: OptimizerId; optSpace?: OptSpace; optBounds?: Record<string, { lo: number; hi: number }> }) {
   if (!body.pools?.length) return { error: "pools required" };
   const poolErr = validatePoolEntries(body.pools);
   if (poolErr) return { error: poolErr };
@@ -109,7 +128,30 @@ function validateConfigBody(body: { pools?: any[]; intervalSec?: number; maxPosi
   const thresholds = body.thresholds ?? { pra: 0.05, rs: 0.25 };
   const thrErr = validateThresholds(thresholds);
   if (thrErr) return { error: thrErr };
-  return { intervalSec, maxPositions, thresholds };
+  const { maxPriceDeviation } = body;
+  if (maxPriceDeviation !== undefined && !(maxPriceDeviation > 0 && maxPriceDeviation < 1))
+    return { error: "maxPriceDeviation must be in (0, 1)" };
+  const { slippageBps } = body;
+  for (const [pool, bps] of Object.entries(slippageBps ?? {})) {
+    if (!POOL_ADDRESS_RE.test(pool)) return { error: `Invalid slippageBps pool: ${pool}` };
+    if (!Number.isInteger(bps) || bps < 0 || bps >= Number(BPS_DIVISOR))
+      return { error: `slippageBps for ${pool} must be an integer in [0, 10000)` };
+  }
+  const { spendCaps } = body;
+  for (const [symbol, cap] of Object.entries(spendCaps ?? {}))
+    if (!(Number.isFinite(cap) && cap > 0)) return { error: `spendCaps for ${symbol} must be a positive number` };
+  const { optimizer } = body;
+  if (optimizer !== undefined && !OPTIMIZER_IDS.includes(optimizer))
+    return { error: `optimizer must be one of ${OPTIMIZER_IDS.join(", ")}` };
+  const { optSpace, optBounds } = body;
+  if (optSpace !== undefined && optSpace !== "range" && optSpace !== "extended")
+    return { error: "optSpace must be range or extended" };
+  for (const [key, b] of Object.entries(optBounds ?? {})) {
+    if (!(key in OPT_PARAM_BOUNDS)) return { error: `Unknown optBounds key: ${key}` };
+    if (!(Number.isFinite(b?.lo) && Number.isFinite(b?.hi) && b.lo < b.hi))
+      return { error: `optBounds for ${key} must have finite lo < hi` };
+  }
+  return { intervalSec, maxPositions, thresholds, maxPriceDeviation, slippageBps, spendCaps, optimizer, optSpace, optBounds };
 }
 
 /** Parse JSON body, returning a Response on failure. */
@@ -161,16 +203,37 @@ export function startApi(port = DEFAULT_API_PORT, redis?: RedisClient) {
     return getWorkerState(redis!, name);
   }
 
+  // Helper: RPC endpoint health (published by workers, or tracked in this process)
+  async function readRpcHealth(chainId: number): Promise<RpcHealth[]> {
+    if (!orchestrated) return rpcHealth(chainId);
+    return getRpcHealth(redis!, chainId);
+  }
+
   // Shared data handlers for strategy sub-routes
   type DataHandler = (pairId: string, name: string, url: URL) => Promise<Response>;
 
   const dataHandlers: Record<string, DataHandler> = {
     positions: async (_pairId, name) => {
-      const store = getStore(name, "btr:strategy");
+      const store = getStore(name, strategyPrefix((await workerState(name))?.mode));
       if (!store) return json({ error: "Strategy not found" }, 404);
       return json(await store.getPositions());
     },
 
+    journal: async (_pairId, name, url) => {
+      const store = getStore(name, strategyPrefix((await workerState(name))?.mode));
+      if (!store) return json({ error: "Strategy not found" }, 404);
+      const limit = intOr(url.searchParams.get("limit"), JOURNAL_HISTORY_MAX);
+      const [active, history] = await Promise.all([store.getJournal(), store.getJournalHistory(limit)]);
+      return json({ active, history });
+    },
+
+    closed: async (_pairId, name, url) => {
+      const store = getStore(name, strategyPrefix((await workerState(name))?.mode));
+      if (!store) return json({ error: "Strategy not found" }, 404);
+      const limit = intOr(url.searchParams.get("limit"), CLOSED_POSITIONS_MAX);
+      return json(await store.getClosedPositions(limit));
+    },
+
     candles: async (pairId, _name, url) => {
       const from = intOr(url.searchParams.get("from"), Date.now() - DEFAULT_CANDLE_WINDOW_MS);
       const to = intOr(url.searchParams.get("to"), Date.now());
@@ -188,7 +251,7 @@ export function startApi(port = DEFAULT_API_PORT, redis?: RedisClient) {
       return json(await o2q.getTxLogs(pairId, limit));
     },
 
-    snapshots: async (pairId, _name, url) => {
+    snapshots: async (pairId, name, url) => {
       const from = url.searchParams.get("from");
       const to = url.searchParams.get("to");
       const limit = url.searchParams.get("limit");
@@ -198,6 +261,7 @@ export function startApi(port = DEFAULT_API_PORT, redis?: RedisClient) {
           from ? intOr(from, 0) : undefined,
           to ? intOr(to, Date.now()) : undefined,
           limit ? intOr(limit, 100) : undefined,
+          (await workerState(name))?.mode === "paper",
         ),
       );
     },
@@ -299,11 +363,9 @@ export function startApi(port = DEFAULT_API_PORT, redis?: RedisClient) {
         const names = await strategyNames();
         const strategies = await Promise.all(
           names.map(async (name) => {
-            const store = getStore(name, "btr:strategy");
-            const [state, positions] = await Promise.all([
-              workerState(name),
-              store ? store.getPositions() : Promise.resolve([]),
-            ]);
+            const state = await workerState(name);
+            const store = getStore(name, strategyPrefix(state?.mode));
+            const positions = store ? await store.getPositions() : [];
             const pairId = state?.pairId ?? name;
             const alloc = await o2q.getLatestPairAllocation(pairId);
             const tvlUsd = positions.reduce(
@@ -388,12 +450,18 @@ export function startApi(port = DEFAULT_API_PORT, redis?: RedisClient) {
           if (pairErr) return json({ error: pairErr }, 400);
           const v = validateConfigBody(body);
           if ("error" in v) return json({ error: v.error }, 400);
+          const signerErr = validateSigner(body);
+          if (signerErr) return json({ error: signerErr }, 400);
+          if (body.hdIndex !== undefined && !(Number.isInteger(body.hdIndex) && body.hdIndex >= 0))
+            return json({ error: "hdIndex must be a non-negative integer" }, 400);
           const entry: StrategyConfigEntry = {
             name: cfgName, pairId: body.pairId,
             pkEnvVar: body.pkEnvVar ?? `PK_${cfgName.replace(/([a-z])([A-Z])/g, "$1_$2").toUpperCase()}`,
             pools: body.pools!, ...v,
             forceParams: body.forceParams, gasReserves: body.gasReserves,
             allocationPct: body.allocationPct, rpcOverrides: body.rpcOverrides,
+            mode: body.mode === "paper" ? "paper" : undefined,
+            hdIndex: body.hdIndex, signer: body.signer, safe: body.safe,
           };
           await strategyCfg.set(redis!, entry);
           return json({ ok: true, config: entry });
@@ -647,14 +715,15 @@ export function startApi(port = DEFAULT_API_PORT, redis?: RedisClient) {
       // ---- RPC Config ----
       if (path === "/api/config/rpcs" && method === "GET") {
         const overrides = orchestrated ? await getAllRpcConfigs(redis!) : {};
-        const result: Record<number, { rpcs: string[]; source: string }> = {};
-        for (const idStr of Object.keys(DEFAULT_RPCS)) {
-          const chainId = Number(idStr);
+        const chainIds = Object.keys(DEFAULT_RPCS).map(Number);
+        const health = await Promise.all(chainIds.map(readRpcHealth));
+        const result: Record<number, { rpcs: string[]; source: string; health: RpcHealth[] }> = {};
+        chainIds.forEach((chainId, i) => {
           const dragonfly = overrides[chainId];
           result[chainId] = dragonfly
-            ? { rpcs: dragonfly, source: "dragonfly" }
-            : { rpcs: resolveRpcs(chainId), source: "env" };
-        }
+            ? { rpcs: dragonfly, source: "dragonfly", health: health[i] }
+            : { rpcs: resolveRpcs(chainId), source: "env", health: health[i] };
+        });
         return json(result);
       }
 
@@ -670,6 +739,7 @@ export function startApi(port = DEFAULT_API_PORT, redis?: RedisClient) {
             rpcs,
             source: dragonfly ? "dragonfly" : "env",
             defaults: DEFAULT_RPCS[chainId] ?? [],
+            health: await readRpcHealth(chainId),
           });
         }
 
@@ -0,0 +1,496 @@
+import type {
+  PairConfig,
+  StrategyConfig,
+  Candle,
+  DecisionType,
+  PoolAnalysis,
+  PoolApr,
+  PoolSnapshot,
+  Position,
+} from "./types";
+import { DexFamily } from "./types";
+import type { EpochSnapshot } from "../shared/types";
+import type { DragonflyStore } from "./data/store-dragonfly";
+import {
+  DEFAULT_CAPITAL_USD,
+  DEFAULT_FEE,
+  SECONDS_PER_YEAR,
+  SECONDS_PER_DAY,
+  DAY_MS,
+  BACKTEST_WARMUP_MS,
+  BACKTEST_CANDLE_CHUNK_MS,
+  BACKTEST_POOL_CHUNK_MS,
+  BACKTEST_LB_BIN_STEP,
+} from "./config/params";
+import * as o2q from "./data/store-o2";
+import { getDexFamily } from "./config/dexs";
+import { fixedClock, type CycleContext, type O2Source } from "./context";
+import { paperExecutor } from "./executor";
+import { PaperLedger } from "./execution/paper";
+import { priceToBinId } from "./execution/positions-lb";
+import { staticGasUnitUsd } from "./execution/gas";
+import { setO2Sink, type O2Sink } from "./infra/o2";
+import { resetOptimizer } from "./strategy/optimizer";
+import { poolClusters, runSingleCycle } from "./scheduler";
+import { registerPair } from "./state";
+import { priceToTick } from "../shared/format";
+import { log, upperBound } from "./utils";
+
+// ---- Types ----
+
+export interface BacktestData {
+  candles: Candle[]; // M1, ascending, including warm-up history before fromTs
+  snapshots: PoolSnapshot[]; // pool_snapshots rows, ascending
+  analyses: PoolAnalysis[]; // pool_analyses rows, fallback when a pool has no snapshot
+  aprs?: PoolApr[]; // pool APR per M15 bucket, for the optimizer's fee series (default: constant APR)
+}
+
+export interface BacktestOptions {
+  fromTs: number;
+  toTs: number;
+  capitalUsd?: number;
+  optimize?: boolean; // run the optimizer + kill switches (default true)
+  optimizeEvery?: number; // re-optimize every N epochs (default 1, like the live loop)
+}
+
+/** One ledger row per replayed epoch. */
+export interface BacktestEpoch {
+  epoch: number;
+  ts: number;
+  price: number;
+  decision: DecisionType;
+  txCount: number;
+  feesEarnedUsd: number;
+  ilUsd: number; // value lost besides gas: fees - gas - net PnL (IL, swap and bridge costs)
+  gasSpentUsd: number;
+  netPnlUsd: number;
+  portfolioValueUsd: number; // paper ledger value (positions + idle tokens) net of gas spent
+  currentApr: number;
+  optimalApr: number;
+  positionsCount: number;
+  inRangePct: number; // share of deployed (entry) value whose range contains the price
+  regime: string; // regime suppression reason ("" when normal)
+  killSwitch: string; // kill-switch reason ("" when inactive)
+}
+
+export interface BacktestSummary {
+  fromTs: number;
+  toTs: number;
+  epochs: number;
+  initialCapitalUsd: number;
+  finalValueUsd: number;
+  totalFeesUsd: number;
+  totalIlUsd: number;
+  totalGasUsd: number;
+  netPnlUsd: number;
+  returnPct: number;
+  annualizedReturn: number;
+  maxDrawdownPct: number;
+  txCount: number;
+  decisions: Record<DecisionType, number>;
+  timeInRangePct: number;
+  suppressedEpochs: number;
+  killSwitchEpochs: number;
+}
+
+export interface BacktestResult {
+  ledger: BacktestEpoch[];
+  summary: BacktestSummary;
+}
+
+// ---- Data loading ----
+
+/** Load rows of [fromTs, toTs] in `chunkMs` windows, oldest first, each under the O2 page size. */
+async function loadChunked<T>(
+  fromTs: number,
+  toTs: number,
+  chunkMs: number,
+  load: (fromTs: number, toTs: number) => Promise<T[]>,
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let t = fromTs; t <= toTs; t += chunkMs) {
+    rows.push(...(await load(t, Math.min(t + chunkMs - 1, toTs))));
+  }
+  return rows;
+}
+
+/**
+ * Load M1 candles, pool snapshots and pool analyses (chunked to stay under the O2 page size)
+ * and pool APRs for a replay window. Candles and APRs include BACKTEST_WARMUP_MS of history.
+ */
+export async function loadBacktestData(
+  pairId: string,
+  fromTs: number,
+  toTs: number,
+): Promise<BacktestData> {
+  const candles = await loadChunked(
+    fromTs - BACKTEST_WARMUP_MS,
+    toTs,
+    BACKTEST_CANDLE_CHUNK_MS,
+    (from, to) => o2q.getCandles(pairId, from, to),
+  );
+  const snapshots = await loadChunked(fromTs - DAY_MS, toTs, BACKTEST_POOL_CHUNK_MS, (from, to) =>
+    o2q.getPoolSnapshotsByPair(pairId, from, to),
+  );
+  const analyses = await loadChunked(fromTs - DAY_MS, toTs, BACKTEST_POOL_CHUNK_MS, (from, to) =>
+    o2q.getPoolAnalysesByPair(pairId, from, to),
+  );
+  const aprs = await o2q.getPoolAprs(pairId, fromTs - BACKTEST_WARMUP_MS, toTs);
+  return { candles, snapshots, analyses, aprs };
+}
+
+// ---- Replay sources ----
+
+const poolKey = (p: { chain: number; pool: string }) => `${p.chain}:${p.pool}`;
+
+/** Group rows by pool, preserving ascending ts order. */
+function groupByPool<T extends { chain: number; pool: string; ts: number }>(
+  rows: T[],
+): Map<string, T[]> {
+  const out = new Map<string, T[]>();
+  for (const r of [...rows].sort((a, b) => a.ts - b.ts)) {
+    const k = poolKey(r);
+    const list = out.get(k);
+    if (list) list.push(r);
+    else out.set(k, [r]);
+  }
+  return out;
+}
+
+/** Index of the last row with ts <= target, or -1. */
+function lastAtOrBefore(rows: { ts: number }[], target: number): number {
+  let lo = 0,
+    hi = rows.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (rows[mid].ts <= target) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo - 1;
+}
+
+/** Snapshot whose 24h volume reproduces a stored analysis's APR (pools replayed from analyses). */
+function analysisSnapshot(a: PoolAnalysis): PoolSnapshot {
+  const feePct = a.feePct || DEFAULT_FEE;
+  const tvl = a.tvl || 1;
+  const exchangeRate = a.exchangeRate || 0;
+  const basePriceUsd = a.basePriceUsd || 0;
+  return {
+    pool: a.pool,
+    chain: a.chain,
+    ts: a.ts,
+    volume24h: (a.apr * tvl * SECONDS_PER_DAY) / (feePct * SECONDS_PER_YEAR),
+    tvl,
+    feePct,
+    basePriceUsd,
+    quotePriceUsd: exchangeRate > 0 ? basePriceUsd / exchangeRate : 0,
+    exchangeRate,
+    priceChangeH1: 0,
+    priceChangeH24: 0,
+  };
+}
+
+/** Same formula as o2q.getRecentYields: cost annualized against portfolio value. */
+function annualize(costUsd: number, portfolioValueUsd: number, cycleSec: number): number {
+  return portfolioValueUsd > 0 ? (costUsd / portfolioValueUsd) * (SECONDS_PER_YEAR / cycleSec) : 0;
+}
+
+type AllocationRow = { ts: number; decision: DecisionType; currentApr: number };
+type TxRow = { ts: number; chain: number; gasUsed: bigint; gasUsd?: number };
+
+/**
+ * Market data and O2 history of a replay, served to runSingleCycle at the replayed time.
+ * The rows the cycles ingest (epoch snapshots, allocations, tx logs) are captured instead of
+ * reaching O2, and answer the cycle's history queries (kill-switch yields, RS count, gas).
+ */
+class Replay {
+  readonly epochs: EpochSnapshot[] = [];
+  readonly allocations: AllocationRow[] = [];
+  readonly txs: TxRow[] = [];
+  private snapsByPool: Map<string, PoolSnapshot[]>;
+  private analysesByPool: Map<string, PoolAnalysis[]>;
+  private served = new Map<string, PoolSnapshot>(); // this step's snapshot per pool
+  private synthesized = new Set<string>(); // pools served from an analysis this step
+  private nextCandle = 0;
+
+  constructor(
+    private store: DragonflyStore,
+    private pair: PairConfig | StrategyConfig,
+    private data: BacktestData,
+    private capitalUsd: number,
+    private optimizeEvery: number,
+  ) {
+    this.snapsByPool = groupByPool(data.snapshots);
+    this.analysesByPool = groupByPool(data.analyses);
+  }
+
+  /** Keeps the rows the replay reads back; everything else is dropped. */
+  readonly sink: O2Sink = (stream, entries) => {
+    if (stream === "epoch_snapshots") this.epochs.push(...(entries as unknown as EpochSnapshot[]));
+    else if (stream === "pair_allocations")
+      this.allocations.push(...(entries as unknown as AllocationRow[]));
+    else if (stream === "tx_log") this.txs.push(...(entries as unknown as TxRow[]));
+  };
+
+  /** Close of the last M1 candle at or before `ts` (1 before the first). */
+  priceAt(ts: number): number {
+    const i = upperBound(this.data.candles, ts);
+    return i > 0 ? this.data.candles[i - 1].c : 1;
+  }
+
+  /** Latest snapshot of each pool within two intervals of `ts`, else its latest analysis. */
+  private snapshotsAt(ts: number): PoolSnapshot[] {
+    const maxAge = 2 * this.pair.intervalSec * 1000;
+    this.served.clear();
+    this.synthesized.clear();
+    for (const pool of this.pair.pools) {
+      const k = poolKey({ chain: pool.chain, pool: pool.address });
+      const rows = this.snapsByPool.get(k) ?? [];
+      const i = lastAtOrBefore(rows, ts);
+      if (i >= 0 && ts - rows[i].ts < maxAge) {
+        this.served.set(k, rows[i]);
+        continue;
+      }
+      const aRows = this.analysesByPool.get(k) ?? [];
+      const j = lastAtOrBefore(aRows, ts);
+      if (j >= 0 && ts - aRows[j].ts < maxAge) {
+        this.served.set(k, analysisSnapshot(aRows[j]));
+        this.synthesized.add(k);
+      }
+    }
+    return [...this.served.values()];
+  }
+
+  private o2(): O2Source {
+    return {
+      // Previous real snapshot for volume diffing; none for pools served from analyses
+      getLastSnapshot: async (pool, chain, beforeTs) => {
+        const k = poolKey({ chain, pool });
+        if (this.synthesized.has(k)) return null;
+        const rows = this.snapsByPool.get(k) ?? [];
+        return rows[lastAtOrBefore(rows, beforeTs - 1)] ?? null;
+      },
+      getRecentYields: async (_pairId, limit = 24, cycleSec = 900) => {
+        if (this.epochs.length >= limit) {
+          return this.epochs
+            .slice(-limit)
+            .map(
+              (r) =>
+                r.currentApr -
+                annualize(r.gasSpentUsd, r.portfolioValueUsd, cycleSec) -
+                annualize(r.ilUsd, r.portfolioValueUsd, cycleSec),
+            );
+        }
+        return this.allocations.slice(-limit).map((r) => r.currentApr);
+      },
+      getRecentRsTimestamps: async (_pairId, sinceTs) =>
+        this.allocations.filter((r) => r.decision === "RS" && r.ts > sinceTs).map((r) => r.ts),
+      getTrailingGasUsd: async (_pairId, sinceTs) => {
+        let gasUsd = 0;
+        const unpriced: Record<number, number> = {};
+        for (const tx of this.txs) {
+          if (tx.ts <= sinceTs) continue;
+          if (tx.gasUsd != null) gasUsd += tx.gasUsd;
+          else unpriced[tx.chain] = (unpriced[tx.chain] ?? 0) + Number(tx.gasUsed);
+        }
+        return { gasUsd, unpriced };
+      },
+      getEpochSnapshots: async (_pairId, fromTs, toTs, limit = 1000) =>
+        this.epochs
+          .filter(
+            (r) => (fromTs === undefined || r.ts >= fromTs) && (toTs === undefined || r.ts <= toTs),
+          )
+          .slice(0, limit),
+      getPoolAprs: async (_pairId, fromTs, toTs) =>
+        (this.data.aprs ?? []).filter((a) => a.ts >= fromTs && a.ts <= toTs),
+    };
+  }
+
+  /**
+   * Cycle context at `ts`: fixed clock, the candles since the previous step, this step's
+   * snapshots, and a paper executor whose ledger fills at the candle close and pays the static
+   * per-chain gas estimate (gas price in USD per unit, native price 1).
+   */
+  context(ts: number): CycleContext {
+    const ledger = new PaperLedger(this.store, this.pair, {
+      capitalUsd: this.capitalUsd,
+      clock: fixedClock(ts),
+      readPool: async (_pair, pool) => ({
+        price: this.priceAt(ts),
+        fee:
+          this.served.get(poolKey({ chain: pool.chain, pool: pool.address }))?.feePct ||
+          DEFAULT_FEE,
+        tickSpacing: 1,
+        binStep: BACKTEST_LB_BIN_STEP,
+      }),
+      readGasPrice: async (chain) => BigInt(Math.round(staticGasUnitUsd(chain) * 1e18)),
+      readNativeUsd: async () => 1,
+    });
+    return {
+      clock: fixedClock(ts),
+      candles: {
+        fetchLatestM1: async () => {
+          const end = upperBound(this.data.candles, ts);
+          const candles = this.data.candles.slice(this.nextCandle, end);
+          this.nextCandle = Math.max(this.nextCandle, end);
+          return candles;
+        },
+      },
+      snapshots: { fetchPoolSnapshots: async () => this.snapshotsAt(ts) },
+      o2: this.o2(),
+      executor: paperExecutor(ledger),
+      valuer: ledger,
+      optimizeEvery: this.optimizeEvery,
+    };
+  }
+}
+
+/** Share of positions' entry value whose range contains `price` (bin ids for LB, as paper-minted). */
+function inRangeShare(positions: Position[], price: number): number {
+  const tick = priceToTick(price);
+  const bin = priceToBinId(price, BACKTEST_LB_BIN_STEP);
+  let inRange = 0,
+    deployed = 0;
+  for (const p of positions) {
+    deployed += p.entryValueUsd;
+    const hit =
+      getDexFamily(p.dex) === DexFamily.LB
+        ? bin >= p.tickLower && bin <= p.tickUpper
+        : tick >= p.tickLower && tick < p.tickUpper;
+    if (hit) inRange += p.entryValueUsd;
+  }
+  return deployed > 0 ? inRange / deployed : 0;
+}
+
+// ---- Engine ----
+
+/**
+ * Replay a pair through runSingleCycle, one cycle per interval of [fromTs, toTs] at the
+ * replayed time, executing against a paper ledger. The replay's state lives in `store`, which
+ * is cleared first: pass one no worker uses. Nothing is written to O2 while it runs.
+ */
+export async function runBacktest(
+  store: DragonflyStore,
+  pair: PairConfig | StrategyConfig,
+  data: BacktestData,
+  opts: BacktestOptions,
+): Promise<BacktestResult> {
+  const id = "name" in pair ? pair.name : pair.id;
+  const cycleSec = pair.intervalSec;
+  const capitalUsd = opts.capitalUsd ?? DEFAULT_CAPITAL_USD;
+  const optimizeEvery = opts.optimize === false ? 0 : Math.max(1, opts.optimizeEvery ?? 1);
+
+  await store.deleteAll();
+  const rt = registerPair(id, store, pair);
+  // Cold optimizer: no warm-start left over from a previous replay of the pair
+  for (const c of poolClusters(pair.pools, data.snapshots, data.analyses)) {
+    resetOptimizer(`${id}:${c.key}`);
+  }
+
+  const replay = new Replay(store, pair, data, capitalUsd, optimizeEvery);
+  const ledger: BacktestEpoch[] = [];
+  let prevValueUsd = capitalUsd;
+  let gasSpentTotalUsd = 0; // paper fills do not debit gas from the ledger
+  setO2Sink(replay.sink);
+  try {
+    for (let ts = opts.fromTs; ts <= opts.toTs; ts += cycleSec * 1000) {
+      const txFrom = replay.txs.length;
+      const decision = await runSingleCycle(store, pair, null, undefined, replay.context(ts));
+      const snap = replay.epochs[replay.epochs.length - 1];
+      const txs = replay.txs.slice(txFrom);
+      const gasSpentUsd = txs.reduce((s, tx) => s + (tx.gasUsd ?? 0), 0);
+      gasSpentTotalUsd += gasSpentUsd;
+      const price = replay.priceAt(ts);
+      const portfolioValueUsd = snap.portfolioValueUsd - gasSpentTotalUsd;
+      const netPnlUsd = portfolioValueUsd - prevValueUsd;
+      prevValueUsd = portfolioValueUsd;
+
+      ledger.push({
+        epoch: snap.epoch,
+        ts,
+        price,
+        decision: decision.type,
+        txCount: txs.length,
+        feesEarnedUsd: snap.feesEarnedUsd,
+        ilUsd: snap.feesEarnedUsd - gasSpentUsd - netPnlUsd,
+        gasSpentUsd,
+        netPnlUsd,
+        portfolioValueUsd,
+        currentApr: decision.currentApr,
+        optimalApr: decision.optimalApr,
+        positionsCount: snap.positionsCount,
+        inRangePct: inRangeShare(await store.getPositions(), price),
+        regime: rt.regime?.suppressed ? rt.regime.reason : "",
+        killSwitch: rt.killSwitch?.reason ?? "",
+      });
+    }
+  } finally {
+    setO2Sink(null);
+  }
+
+  const summary = summarize(ledger, opts, capitalUsd, cycleSec);
+  log.info(
+    `${id}: backtest ${summary.epochs} epochs — net=$${summary.netPnlUsd.toFixed(2)} fees=$${summary.totalFeesUsd.toFixed(2)} il=$${summary.totalIlUsd.toFixed(2)} gas=$${summary.totalGasUsd.toFixed(2)}`,
+  );
+  return { ledger, summary };
+}
+
+/** Aggregate ledger rows into summary metrics. */
+export function summarize(
+  ledger: BacktestEpoch[],
+  opts: Pick<BacktestOptions, "fromTs" | "toTs">,
+  initialCapitalUsd: number,
+  cycleSec: number,
+): BacktestSummary {
+  const decisions: Record<DecisionType, number> = { PRA: 0, RS: 0, COMPOUND: 0, HOLD: 0 };
+  let totalFeesUsd = 0,
+    totalIlUsd = 0,
+    totalGasUsd = 0,
+    txCount = 0;
+  let inRange = 0,
+    deployed = 0,
+    suppressedEpochs = 0,
+    killSwitchEpochs = 0;
+  let peak = initialCapitalUsd,
+    maxDrawdownPct = 0;
+  for (const e of ledger) {
+    decisions[e.decision]++;
+    totalFeesUsd += e.feesEarnedUsd;
+    totalIlUsd += e.ilUsd;
+    totalGasUsd += e.gasSpentUsd;
+    txCount += e.txCount;
+    if (e.positionsCount > 0) {
+      deployed++;
+      inRange += e.inRangePct;
+    }
+    if (e.regime) suppressedEpochs++;
+    if (e.killSwitch) killSwitchEpochs++;
+    peak = Math.max(peak, e.portfolioValueUsd);
+    if (peak > 0) maxDrawdownPct = Math.max(maxDrawdownPct, (peak - e.portfolioValueUsd) / peak);
+  }
+  const finalValueUsd = ledger.length
+    ? ledger[ledger.length - 1].portfolioValueUsd
+    : initialCapitalUsd;
+  const netPnlUsd = finalValueUsd - initialCapitalUsd;
+  const returnPct = initialCapitalUsd > 0 ? netPnlUsd / initialCapitalUsd : 0;
+  const years = (ledger.length * cycleSec) / SECONDS_PER_YEAR;
+  return {
+    fromTs: opts.fromTs,
+    toTs: opts.toTs,
+    epochs: ledger.length,
+    initialCapitalUsd,
+    finalValueUsd,
+    totalFeesUsd,
+    totalIlUsd,
+    totalGasUsd,
+    netPnlUsd,
+    returnPct,
+    annualizedReturn: years > 0 ? returnPct / years : 0,
+    maxDrawdownPct,
+    txCount,
+    decisions,
+    timeInRangePct: deployed > 0 ? inRange / deployed : 0,
+    suppressedEpochs,
+    killSwitchEpochs,
+  };
+}
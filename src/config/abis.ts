@@ -55,6 +55,30 @@ export const ABIS = {
       stateMutability: "payable",
       type: "function",
     },
+    increaseLiquidity: {
+      inputs: [
+        {
+          name: "params",
+          type: "tuple",
+          components: [
+            { name: "tokenId", type: "uint256" },
+            { name: "amount0Desired", type: "uint256" },
+            { name: "amount1Desired", type: "uint256" },
+            { name: "amount0Min", type: "uint256" },
+            { name: "amount1Min", type: "uint256" },
+            { name: "deadline", type: "uint256" },
+          ],
+        },
+      ],
+      name: "increaseLiquidity",
+      outputs: [
+        { name: "liquidity", type: "uint128" },
+        { name: "amount0", type: "uint256" },
+        { name: "amount1", type: "uint256" },
+      ],
+      stateMutability: "payable",
+      type: "function",
+    },
     collect: {
       inputs: [
         {
@@ -96,6 +120,24 @@ export const ABIS = {
       stateMutability: "view",
       type: "function",
     },
+    // ERC721Enumerable (position enumeration for reconciliation)
+    balanceOf: {
+      inputs: [{ name: "owner", type: "address" }],
+      name: "balanceOf",
+      outputs: [{ name: "", type: "uint256" }],
+      stateMutability: "view",
+      type: "function",
+    },
+    tokenOfOwnerByIndex: {
+      inputs: [
+        { name: "owner", type: "address" },
+        { name: "index", type: "uint256" },
+      ],
+      name: "tokenOfOwnerByIndex",
+      outputs: [{ name: "", type: "uint256" }],
+      stateMutability: "view",
+      type: "function",
+    },
   },
   pool: {
     slot0: {
@@ -164,6 +206,17 @@ export const ABIS = {
       stateMutability: "view",
       type: "function",
     },
+    // V3 / Aerodrome oracle: tick cumulatives `secondsAgos` back
+    observe: {
+      inputs: [{ name: "secondsAgos", type: "uint32[]" }],
+      name: "observe",
+      outputs: [
+        { name: "tickCumulatives", type: "int56[]" },
+        { name: "secondsPerLiquidityCumulativeX128s", type: "uint160[]" },
+      ],
+      stateMutability: "view",
+      type: "function",
+    },
     // Aerodrome slot0 (6 returns, no feeProtocol)
     aeroSlot0: {
       inputs: [],
@@ -208,6 +261,37 @@ export const ABIS = {
       stateMutability: "view",
       type: "function",
     },
+    getPositionInfo: {
+      inputs: [
+        { name: "poolId", type: "bytes32" },
+        { name: "owner", type: "address" },
+        { name: "tickLower", type: "int24" },
+        { name: "tickUpper", type: "int24" },
+        { name: "salt", type: "bytes32" },
+      ],
+      name: "getPositionInfo",
+      outputs: [
+        { name: "liquidity", type: "uint128" },
+        { name: "feeGrowthInside0LastX128", type: "uint256" },
+        { name: "feeGrowthInside1LastX128", type: "uint256" },
+      ],
+      stateMutability: "view",
+      type: "function",
+    },
+    getFeeGrowthInside: {
+      inputs: [
+        { name: "poolId", type: "bytes32" },
+        { name: "tickLower", type: "int24" },
+        { name: "tickUpper", type: "int24" },
+      ],
+      name: "getFeeGrowthInside",
+      outputs: [
+        { name: "feeGrowthInside0X128", type: "uint256" },
+        { name: "feeGrowthInside1X128", type: "uint256" },
+      ],
+      stateMutability: "view",
+      type: "function",
+    },
   },
   // LB (ILBPair)
   lb: {
@@ -249,6 +333,33 @@ export const ABIS = {
       stateMutability: "view",
       type: "function",
     },
+    getBin: {
+      inputs: [{ name: "id", type: "uint24" }],
+      name: "getBin",
+      outputs: [
+        { name: "binReserveX", type: "uint128" },
+        { name: "binReserveY", type: "uint128" },
+      ],
+      stateMutability: "view",
+      type: "function",
+    },
+    totalSupply: {
+      inputs: [{ name: "id", type: "uint256" }],
+      name: "totalSupply",
+      outputs: [{ name: "", type: "uint256" }],
+      stateMutability: "view",
+      type: "function",
+    },
+    balanceOfBatch: {
+      inputs: [
+        { name: "accounts", type: "address[]" },
+        { name: "ids", type: "uint256[]" },
+      ],
+      name: "balanceOfBatch",
+      outputs: [{ name: "", type: "uint256[]" }],
+      stateMutability: "view",
+      type: "function",
+    },
   },
   // Algebra NonfungiblePositionManager (no fee field in mint/positions)
   algebra: {
@@ -432,6 +543,20 @@ export const ABIS = {
       stateMutability: "payable",
       type: "function",
     },
+    getPositionLiquidity: {
+      inputs: [{ name: "tokenId", type: "uint256" }],
+      name: "getPositionLiquidity",
+      outputs: [{ name: "liquidity", type: "uint128" }],
+      stateMutability: "view",
+      type: "function",
+    },
+    ownerOf: {
+      inputs: [{ name: "tokenId", type: "uint256" }],
+      name: "ownerOf",
+      outputs: [{ name: "", type: "address" }],
+      stateMutability: "view",
+      type: "function",
+    },
   },
   // V4 PoolKey tuple components for ABI encoding
   v4PoolKey: {
@@ -480,4 +605,107 @@ export const ABIS = {
       type: "function",
     },
   },
+  // Safe smart account (v1.3+) and the BTRPolicyModule (docs/migration-smart-accounts.md)
+  safe: {
+    execTransaction: {
+      inputs: [
+        { name: "to", type: "address" },
+        { name: "value", type: "uint256" },
+        { name: "data", type: "bytes" },
+        { name: "operation", type: "uint8" },
+        { name: "safeTxGas", type: "uint256" },
+        { name: "baseGas", type: "uint256" },
+        { name: "gasPrice", type: "uint256" },
+        { name: "gasToken", type: "address" },
+        { name: "refundReceiver", type: "address" },
+        { name: "signatures", type: "bytes" },
+      ],
+      name: "execTransaction",
+      outputs: [{ name: "success", type: "bool" }],
+      stateMutability: "payable",
+      type: "function",
+    },
+    getTransactionHash: {
+      inputs: [
+        { name: "to", type: "address" },
+        { name: "value", type: "uint256" },
+        { name: "data", type: "bytes" },
+        { name: "operation", type: "uint8" },
+        { name: "safeTxGas", type: "uint256" },
+        { name: "baseGas", type: "uint256" },
+        { name: "gasPrice", type: "uint256" },
+        { name: "gasToken", type: "address" },
+        { name: "refundReceiver", type: "address" },
+        { name: "_nonce", type: "uint256" },
+      ],
+      name: "getTransactionHash",
+      outputs: [{ name: "", type: "bytes32" }],
+      stateMutability: "view",
+      type: "function",
+    },
+    nonce: {
+      inputs: [],
+      name: "nonce",
+      outputs: [{ name: "", type: "uint256" }],
+      stateMutability: "view",
+      type: "function",
+    },
+  },
+  policyModule: {
+    execute: {
+      inputs: [
+        { name: "adapterId", type: "bytes32" },
+        { name: "to", type: "address" },
+        { name: "data", type: "bytes" },
+        { name: "value", type: "uint256" },
+        { name: "expectedReceiver", type: "address" },
+        { name: "expectedDstChainId", type: "uint256" },
+      ],
+      name: "execute",
+      outputs: [],
+      stateMutability: "nonpayable",
+      type: "function",
+    },
+  },
+  // Li.Fi CalldataVerificationFacet (diamond views decoding swap/bridge calldata)
+  lifi: {
+    extractMainParameters: {
+      inputs: [{ name: "data", type: "bytes" }],
+      name: "extractMainParameters",
+      outputs: [
+        { name: "bridge", type: "string" },
+        { name: "sendingAssetId", type: "address" },
+        { name: "receiver", type: "address" },
+        { name: "minAmount", type: "uint256" },
+        { name: "destinationChainId", type: "uint256" },
+        { name: "hasSourceSwaps", type: "bool" },
+        { name: "hasDestinationCall", type: "bool" },
+      ],
+      stateMutability: "view",
+      type: "function",
+    },
+    extractGenericSwapParameters: {
+      inputs: [{ name: "data", type: "bytes" }],
+      name: "extractGenericSwapParameters",
+      outputs: [
+        { name: "sendingAssetId", type: "address" },
+        { name: "amount", type: "uint256" },
+        { name: "receiver", type: "address" },
+        { name: "receivingAssetId", type: "address" },
+        { name: "receivingAmount", type: "uint256" },
+      ],
+      stateMutability: "view",
+      type: "function",
+    },
+  },
+  // OP-stack GasPriceOracle predeploy (L1 data fee of a transaction)
+  opGasPriceOracle: {
+    getL1Fee: {
+      inputs: [{ name: "_data", type: "bytes" }],
+      name: "getL1Fee",
+      outputs: [{ name: "", type: "uint256" }],
+      stateMutability: "view",
+      type: "function",
+    },
+  },
 } as const;
@@ -1,7 +1,9 @@
-import type { PoolConfig, DexId, TokenConfig } from "../types";
+import type { PoolConfig, DexId, TokenConfig, SafeConfig, OptimizerId, OptSpace, OptParamKey, ParamBounds } from "../types";
+import { isAddress } from "viem";
 import { TOKENS } from "./tokens";
 import { POOL_REGISTRY, toPoolConfigs } from "./pools";
-import { DEFAULT_PRA_THRESHOLD, DEFAULT_RS_THRESHOLD } from "./params";
+import { DEFAULT_PRA_THRESHOLD, DEFAULT_RS_THRESHOLD, OPTIMIZER_IDS, OPT_PARAM_BOUNDS, PRICE_DEVIATION_MAX } from "./params";
+import { log } from "../utils";
 
 /** Parse "TOKEN0-TOKEN1" into token configs. Returns null if unknown. */
 export function parsePairTokens(pairId: string): [TokenConfig, TokenConfig] | null {
@@ -63,3 +65,68 @@ export function loadThresholds(prefix?: string): { pra: number; rs: number } {
     ),
   };
 }
+
+/** Oracle deviation limit from env vars with optional strategy prefix. */
+export function loadMaxPriceDeviation(prefix?: string): number {
+  return envFloat(
+    (prefix && process.env[`${prefix}_MAX_PRICE_DEVIATION`]) || process.env.MAX_PRICE_DEVIATION,
+    PRICE_DEVIATION_MAX,
+  );
+}
+
+/** Range optimizer: `<prefix>_OPTIMIZER`, else `OPTIMIZER`; unknown names fall back to the default. */
+export function loadOptimizer(prefix?: string): OptimizerId | undefined {
+  const raw = (prefix && process.env[`${prefix}_OPTIMIZER`]) || process.env.OPTIMIZER;
+  if (!raw) return undefined;
+  if (OPTIMIZER_IDS.includes(raw as OptimizerId)) return raw as OptimizerId;
+  log.warn(`Unknown optimizer ${raw}${prefix ? ` for ${prefix}` : ""}, using the default`);
+  return undefined;
+}
+
+/** Optimizer param space: `<prefix>_OPT_SPACE`, else `OPT_SPACE` ("range" | "extended"). */
+export function loadOptSpace(prefix?: string): OptSpace | undefined {
+  const raw = (prefix && process.env[`${prefix}_OPT_SPACE`]) || process.env.OPT_SPACE;
+  if (!raw) return undefined;
+  if (raw === "extended" || raw === "range") return raw;
+  log.warn(`Unknown optimizer space ${raw}${prefix ? ` for ${prefix}` : ""}, using the default`);
+  return undefined;
+}
+
+/** Optimizer bound overrides: `<prefix>_OPT_BOUNDS` as "key:lo:hi,..."; unknown keys and lo >= hi are skipped. */
+export function loadOptBounds(prefix?: string): Partial<Record<OptParamKey, ParamBounds>> | undefined {
+  const raw = (prefix && process.env[`${prefix}_OPT_BOUNDS`]) || process.env.OPT_BOUNDS;
+  if (!raw) return undefined;
+  const bounds: Partial<Record<OptParamKey, ParamBounds>> = {};
+  for (const entry of raw.split(",")) {
+    const [key, lo, hi] = entry.trim().split(":");
+    const b = { lo: parseFloat(lo), hi: parseFloat(hi) };
+    if (key in OPT_PARAM_BOUNDS && b.lo < b.hi) bounds[key as OptParamKey] = b;
+    else log.warn(`Invalid optimizer bound ${entry.trim()}${prefix ? ` for ${prefix}` : ""}, skipping`);
+  }
+  return Object.keys(bounds).length ? bounds : undefined;
+}
+
+/**
+ * Safe of a "safe"-mode strategy: `<prefix>_SAFE` address, `<prefix>_SAFE_MODULES` as "chain:module,...".
+ * An invalid Safe address disables the Safe; malformed module entries are skipped.
+ */
+export function loadSafe(prefix: string): SafeConfig | undefined {
+  const address = process.env[`${prefix}_SAFE`];
+  if (!address) return undefined;
+  if (!isAddress(address)) { log.warn(`Invalid ${prefix}_SAFE address ${address}, skipping`); return undefined; }
+  const modulesRaw = process.env[`${prefix}_SAFE_MODULES`];
+  let modules: Record<number, `0x${string}`> | undefined;
+  if (modulesRaw) {
+    modules = {};
+    for (const entry of modulesRaw.split(",")) {
+      const [chain, module] = entry.trim().split(":");
+      const chainId = Number(chain);
+      if (!chain || !Number.isInteger(chainId) || !module || !isAddress(module)) {
+        log.warn(`Invalid ${prefix}_SAFE_MODULES entry ${entry.trim()}, skipping`);
+        continue;
+      }
+      modules[chainId] = module;
+    }
+  }
+  return { address, modules };
+}
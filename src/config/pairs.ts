@@ -1,7 +1,7 @@
 import type { PairConfig } from "../types";
 import type { PairConfigEntry } from "../../shared/types";
 import { log } from "../utils";
-import { parsePairTokens, loadPoolsFromEnv, envInt, loadThresholds, toPoolConfigsFromEntry, toPoolEntries } from "./config-utils";
+import { parsePairTokens, loadPoolsFromEnv, envInt, loadThresholds, loadMaxPriceDeviation, loadOptimizer, loadOptSpace, loadOptBounds, toPoolConfigsFromEntry, toPoolEntries } from "./config-utils";
 import { DEFAULT_CYCLE_SEC, DEFAULT_MAX_POSITIONS } from "./params";
 
 export function loadPairConfigs(): PairConfig[] {
@@ -18,6 +18,10 @@ export function loadPairConfigs(): PairConfig[] {
       intervalSec: envInt(process.env.INTERVAL_SEC, DEFAULT_CYCLE_SEC, 1),
       maxPositions: envInt(process.env.MAX_POSITIONS, DEFAULT_MAX_POSITIONS, 1),
       thresholds: loadThresholds(),
+      maxPriceDeviation: loadMaxPriceDeviation(),
+      optimizer: loadOptimizer(),
+      optSpace: loadOptSpace(),
+      optBounds: loadOptBounds(),
     });
   }
   return pairs;
@@ -32,6 +36,9 @@ export function configEntryToPair(entry: PairConfigEntry): PairConfig | null {
     pools: toPoolConfigsFromEntry(entry.pools),
     intervalSec: entry.intervalSec, maxPositions: entry.maxPositions,
     thresholds: entry.thresholds, forceParams: entry.forceParams as any,
+    maxPriceDeviation: entry.maxPriceDeviation, slippageBps: entry.slippageBps,
+    spendCaps: entry.spendCaps, optimizer: entry.optimizer,
+    optSpace: entry.optSpace, optBounds: entry.optBounds,
   };
 }
 
@@ -41,5 +48,8 @@ export function pairToConfigEntry(pair: PairConfig): PairConfigEntry {
     pools: toPoolEntries(pair.pools),
     intervalSec: pair.intervalSec, maxPositions: pair.maxPositions,
     thresholds: pair.thresholds, forceParams: pair.forceParams as any,
+    maxPriceDeviation: pair.maxPriceDeviation, slippageBps: pair.slippageBps,
+    spendCaps: pair.spendCaps, optimizer: pair.optimizer,
+    optSpace: pair.optSpace, optBounds: pair.optBounds,
   };
 }
@@ -1,4 +1,4 @@
-import type { ForceParams } from "../types";
+import type { ForceParams, OptimizerId, OptParamKey, ParamBounds } from "../types";
 
 // ---- Force & Strategy Parameters ----
 
@@ -39,19 +39,31 @@ export const DEFAULT_MAX_POSITIONS = 3;
 export const MIN_ABSOLUTE_APR_GAIN = 0.005; // 0.5% absolute floor
 export const PRA_GAS_MULT = 1.5; // Gas-cost safety multiplier for PRA
 export const RS_GAS_MULT = 2.0; // Gas-cost safety multiplier for RS
+export const COMPOUND_GAS_MULT = 3.0; // Uncollected fees must exceed this multiple of gas to compound
 export const AMORTIZE_DAYS = 7; // Days to amortize gas cost over
 
-// ---- Optimizer (Nelder-Mead) ----
+// ---- Optimizer ----
 
 export const M1_PER_HOUR = 60; // M1 candles in 1 hour
 
-export const OPT_BOUNDS: { lo: number; hi: number }[] = [
-  { lo: 0.0001, hi: 0.005 }, // baseMin
-  { lo: 0.005, hi: 0.1 }, // baseMax
-  { lo: -1.0, hi: -0.05 }, // vforceExp
-  { lo: 50, hi: 1000 }, // vforceDivider
-  { lo: 0.1, hi: 0.35 }, // rsThreshold
-];
+// Default search bounds per dimension; per-strategy `optBounds` override them
+export const OPT_PARAM_BOUNDS: Record<OptParamKey, ParamBounds> = {
+  // Range space
+  baseMin: { lo: 0.0001, hi: 0.005 },
+  baseMax: { lo: 0.005, hi: 0.1 },
+  vforceExp: { lo: -1.0, hi: -0.05 },
+  vforceDivider: { lo: 50, hi: 1000 },
+  rsThreshold: { lo: 0.1, hi: 0.35 },
+  // Extended space: force model
+  momentumLookback: { lo: 6, hi: 48 }, // bars; RSI period is min(14, lookback)
+  oversoldFrom: { lo: 20, hi: 48 },
+  overboughtFrom: { lo: 52, hi: 80 },
+  trendLookback: { lo: 12, hi: 72 }, // bars
+  biasExp: { lo: 0, hi: 0.05 },
+  mtfM15: { lo: 0.05, hi: 1 }, // MTF weights, normalized to sum 1
+  mtfH1: { lo: 0.05, hi: 1 },
+  mtfH4: { lo: 0.05, hi: 1 },
+};
 
 export const NM_ALPHA = 1.0; // reflection
 export const NM_GAMMA = 2.0; // expansion
@@ -61,6 +73,18 @@ export const NM_MAX_EVALS = 300;
 export const NM_RESTARTS = 3; // total NM runs: 1 warm-start + (N-1) random starts
 export const NM_TOL = 1e-8;
 
+export const OPTIMIZER_IDS: OptimizerId[] = ["nelder-mead", "cma-es", "differential-evolution"];
+export const DEFAULT_OPTIMIZER: OptimizerId = "nelder-mead";
+export const OPT_MAX_EVALS = NM_MAX_EVALS * NM_RESTARTS; // fitness evaluations per optimize(), any algorithm
+
+export const CMAES_SIGMA0 = 0.3; // initial step size, as a fraction of each bound's width
+export const CMAES_TOL = 1e-8; // stop once sigma * max axis length (normalized) falls below this
+
+export const DE_POP_SIZE = 20;
+export const DE_F = 0.6; // differential weight
+export const DE_CR = 0.9; // crossover probability
+export const DE_TOL = 1e-8; // stop once the population's fitness spread falls below this
+
 // ---- Fitness Simulation ----
 
 export const SIM_BAR_SEC = 900; // M15 bar period (simulation always receives M15 candles)
@@ -104,6 +128,7 @@ export const ALLOC_MIN_PCT = 0.001;
 export const DEFAULT_CAPITAL_USD = 10_000;
 export const CASH_RESERVE_PCT = 0.05;
 export const IMBALANCE_THRESHOLD = 0.05;
+export const PRA_KEEP_TOLERANCE = 0.1; // PRA leaves a position alone within ±10% of its target value
 
 // ---- M1 Candle Constants ----
 
@@ -153,15 +178,58 @@ export const BPS_DIVISOR = 10000n;
 export const GAS_BUFFER_NUM = 120n;
 export const GAS_BUFFER_DEN = 100n;
 export const TX_RECEIPT_TIMEOUT_MS = 120_000;
+export const TX_REPLACE_AFTER_BLOCKS = 5; // speed up a tx still pending after this many blocks
+export const TX_REPLACE_MIN_MS = 15_000; // replacement delay floor on fast chains
+export const TX_MAX_SPEEDUPS = 3; // speed-ups before the nonce is cancelled
+export const TX_FEE_BUMP_NUM = 1125n; // +12.5% per replacement (nodes require >= 10%)
+export const TX_FEE_BUMP_DEN = 1000n;
+export const TX_CANCEL_GAS = 21_000n; // 0-value self-transfer
 export const PERMIT2_EXPIRY_SEC = SECONDS_PER_DAY * 30; // 30 days
 
 export const txDeadline = () => BigInt(Math.floor(Date.now() / 1000) + TX_DEADLINE_SEC);
 
+// ---- Read Batching ----
+
+export const MULTICALL_WAIT_MS = 0; // reads issued within this window share one Multicall3 call
+export const MULTICALL_BATCH_BYTES = 4_096; // calldata per aggregate3 call (larger batches are split)
+
+// ---- RPC Health ----
+
+export const RPC_HEALTH_ALPHA = 0.2; // EWMA weight of the latest latency / error sample
+export const RPC_HEALTH_MIN_SAMPLES = 3; // samples before an endpoint can be ejected or promoted
+export const RPC_EJECT_ERROR_RATE = 0.5; // eject above this (EWMA) transport error rate
+export const RPC_EJECT_LAG_MS = 30_000; // eject when this far behind the chain's best head
+export const RPC_REORDER_MARGIN = 0.25; // a new primary must score 25% better than the current one
+export const RPC_PROBE_TIMEOUT_MS = 5_000; // eth_blockNumber probe timeout
+export const RPC_HEALTH_TTL_MS = 120_000; // published scores expire with their worker
+
+// ---- Quorum Reads ----
+
+export const QUORUM_DEFAULT_RPCS = 1; // endpoints cross-checked per critical read (RPC_QUORUM env; 1 = off)
+export const QUORUM_MAX_LAG_MS = 6_000; // refuse when endpoint heads are further apart (at least 1 block)
+export const QUORUM_TOLERANCE = 0; // relative difference allowed between numeric values at the same block
+
+// ---- Oracle Deviation Guard ----
+
+export const PRICE_DEVIATION_MAX = 0.02; // default per-pair gap allowed between pool spot, TWAP, quotes and the M1 close
+export const ORACLE_TWAP_SEC = 300; // on-chain TWAP window (pools exposing observe())
+
+// ---- Transaction Policy ----
+
+export const POLICY_EPOCH_SEC = 86_400; // per-token spend caps reset every epoch (UTC days)
+
+// ---- Keystore ----
+
+export const KEYSTORE_SCRYPT = { n: 131_072, r: 8, p: 1 } as const; // V3 keystore KDF (128 MiB per unlock)
+export const KEYSTORE_MNEMONIC_FILE = "mnemonic.json"; // encrypted HD mnemonic in KEYSTORE_DIR
+export const HD_PATH_PREFIX = "m/44'/60'/0'/0"; // strategy accounts at <prefix>/<hdIndex>
+
 // ---- Addresses ----
 
 export const ZERO_ADDR = "0x0000000000000000000000000000000000000000" as `0x${string}`;
 export const PERMIT2 = "0x000000000022D473030F116dDEE9F6B43aC78BA3" as `0x${string}`;
 export const LIFI_DIAMOND = "0x1231DEB6f5749EF6cE6943a275A1D3E7486F4EaE" as `0x${string}`;
+export const MULTICALL3 = "0xcA11bde05977b3631167028862bE2a173976CA11" as `0x${string}`;
 
 // ---- BigInt Constants ----
 
@@ -194,6 +262,8 @@ export const LB_BIN_STEP_DIVISOR = 10000;
 
 // ---- V4 Protocol (Uniswap / PancakeSwap) ----
 
+export const V4_INCREASE_LIQUIDITY = 0x00;
+export const V4_DECREASE_LIQUIDITY = 0x01;
 export const V4_MINT_POSITION = 0x02;
 export const V4_BURN_POSITION = 0x03;
 export const V4_SETTLE_PAIR = 0x0d;
@@ -208,6 +278,63 @@ export const FEE_PRECISION = 1_000_000;
 
 export const CATCHUP_MAX_MS = 7 * DAY_MS; // max strategy catch-up window
 
+// ---- Backtest ----
+
+export const BACKTEST_DEFAULT_DAYS = 7; // default replay window
+export const BACKTEST_WARMUP_MS = 14 * DAY_MS; // M1 history loaded before the window (forces + regime)
+export const BACKTEST_CANDLE_CHUNK_MS = 30 * DAY_MS; // O2 candle page size (< 50k M1 rows)
+export const BACKTEST_POOL_CHUNK_MS = 6 * HOUR_MS; // O2 pool snapshot/analysis page size
+export const BACKTEST_LB_BIN_STEP = 1; // bin step assumed for replayed LB pools (paper fills)
+
+// ---- Execution Journal ----
+
+export const JOURNAL_RESUME_MAX_AGE_MS = 60 * 60_000; // older interrupted plans are aborted, not resumed
+export const JOURNAL_HISTORY_MAX = 50; // finished journals kept per strategy
+export const CLOSED_POSITIONS_MAX = 500; // closed-position records kept per strategy
+
+// ---- Mark-to-Market Valuation ----
+
+export const NATIVE_PRICE_EXCHANGES = ["binance", "bybit", "okx"]; // tried in order for <native>/USDT
+export const NATIVE_PRICE_TTL_MS = 10 * 60_000; // cached native token USD price lifetime
+
+// ---- Gas Oracle ----
+
+export const GAS_ORACLE_TTL_MS = 60_000; // cached base/priority fee lifetime per chain
+export const GAS_UNITS = {
+  burn: 250_000n,
+  mint: 450_000n,
+  swap: 300_000n,
+  bridge: 350_000n,
+} as const; // typical gas usage per operation (CLMM positions, aggregator routes)
+export const GAS_CALLDATA_BYTES = {
+  burn: 300,
+  mint: 500,
+  swap: 1_200,
+  bridge: 1_500,
+} as const; // typical signed transaction size per operation (L1 data fee quotes)
+export const OP_STACK_CHAINS = [10, 8453]; // Optimism, Base: transactions also pay an L1 data fee
+export const GAS_PRICE_ORACLE = "0x420000000000000000000000000000000000000F"; // OP-stack predeploy
+
+// ---- Position Reconciliation ----
+
+export const RECONCILE_MAX_NFTS = 500; // newest PM NFTs inspected per DEX and chain
+export const RECONCILE_LB_SCAN_BINS = 100; // LB bins scanned on each side of the active bin
+export const RECONCILE_LIQUIDITY_TOLERANCE = 0.001; // relative drift reported as a mismatch
+export const RECONCILE_READ_BATCH = 20; // concurrent contract reads
+
+// ---- Paper Trading ----
+
+export const PAPER_SWAP_COST_BPS = 5; // aggregator fee + slippage haircut on top of the pool fee
+export const PAPER_BRIDGE_COST_BPS = 10; // bridge fee haircut on cross-chain transfers
+export const PAPER_GAS_UNITS = {
+  mint: 450_000n,
+  burn: 250_000n,
+  decrease: 250_000n,
+  increase: 300_000n,
+  compound: 300_000n,
+} as const; // typical CLMM gas usage
+export const PAPER_AMOUNT_DECIMALS = 18; // amounts normalized to 18 decimals for liquidity math
+
 // ---- Orchestrator / Worker ----
 
 export const ORCHESTRATOR_LOCK_TTL = 30_000;
@@ -245,6 +372,7 @@ export const O2_FLUSH_INTERVAL_MS = 5000;
 export const O2_BUFFER_SIZE = 100;
 export const O2_FETCH_TIMEOUT_MS = 10_000;
 export const O2_MAX_BUFFER_PER_STREAM = 10_000;
+export const O2_APR_CHUNK_MS = 7 * DAY_MS; // pool APR query window (672 M15 buckets per pool)
 export const FETCH_TIMEOUT_MS = 30_000;
 
 // ---- Retry Defaults ----
@@ -1,13 +1,13 @@
-import type { StrategyConfig } from "../types";
+import type { SafeConfig, StrategyConfig } from "../types";
 import type { StrategyConfigEntry } from "../../shared/types";
 import { log } from "../utils";
-import { parsePairTokens, loadPoolsFromEnv, envInt, loadThresholds, toPoolConfigsFromEntry, toPoolEntries } from "./config-utils";
+import { parsePairTokens, loadPoolsFromEnv, envInt, loadThresholds, loadMaxPriceDeviation, loadOptimizer, loadOptSpace, loadOptBounds, loadSafe, toPoolConfigsFromEntry, toPoolEntries } from "./config-utils";
 import { DEFAULT_CYCLE_SEC, DEFAULT_MAX_POSITIONS } from "./params";
 
 /**
  * Load strategy configs from env vars.
  * Supports two modes:
- * 1. STRATEGIES=V1,V2 with V1_PAIR=USDC-USDT, V1_PK=0x..., etc.
+ * 1. STRATEGIES=V1,V2 with V1_PAIR=USDC-USDT, V1_HD_INDEX=0, V1_MODE=paper, V1_SIGNER=safe, V1_OPTIMIZER=cma-es, etc.
  * 2. Fallback: auto-create one strategy per pair from PAIRS env var (legacy compat)
  */
 export function loadStrategyConfigs(): StrategyConfig[] {
@@ -26,6 +26,7 @@ export function loadStrategyConfigs(): StrategyConfig[] {
       if (!pools.length) { log.warn(`Strategy ${name}: no pools for ${pairId}, skipping`); continue; }
 
       const allocPctRaw = process.env[`${name}_ALLOCATION_PCT`];
+      const hdIndexRaw = process.env[`${name}_HD_INDEX`];
       configs.push({
         name, pairId,
         pkEnvVar: `PK_${name.replace(/([a-z])([A-Z])/g, "$1_$2").toUpperCase()}`,
@@ -33,7 +34,15 @@ export function loadStrategyConfigs(): StrategyConfig[] {
         intervalSec: envInt(process.env[`${name}_INTERVAL`] || process.env.INTERVAL_SEC, DEFAULT_CYCLE_SEC, 1),
         maxPositions: envInt(process.env[`${name}_MAX_POSITIONS`] || process.env.MAX_POSITIONS, DEFAULT_MAX_POSITIONS, 1),
         thresholds: loadThresholds(name),
+        maxPriceDeviation: loadMaxPriceDeviation(name),
+        optimizer: loadOptimizer(name),
+        optSpace: loadOptSpace(name),
+        optBounds: loadOptBounds(name),
         allocationPct: allocPctRaw ? parseFloat(allocPctRaw) : undefined,
+        mode: process.env[`${name}_MODE`] === "paper" ? "paper" : undefined,
+        hdIndex: hdIndexRaw ? parseInt(hdIndexRaw) : undefined,
+        signer: process.env[`${name}_SIGNER`] === "safe" ? "safe" : undefined,
+        safe: loadSafe(name),
       });
     }
     return configs;
@@ -53,6 +62,10 @@ export function loadStrategyConfigs(): StrategyConfig[] {
       intervalSec: envInt(process.env.INTERVAL_SEC, DEFAULT_CYCLE_SEC, 1),
       maxPositions: envInt(process.env.MAX_POSITIONS, DEFAULT_MAX_POSITIONS, 1),
       thresholds: loadThresholds(),
+      maxPriceDeviation: loadMaxPriceDeviation(),
+      optimizer: loadOptimizer(),
+      optSpace: loadOptSpace(),
+      optBounds: loadOptBounds(),
     });
   }
   return configs;
@@ -67,8 +80,12 @@ export function configEntryToStrategy(entry: StrategyConfigEntry): StrategyConfi
     pools: toPoolConfigsFromEntry(entry.pools),
     intervalSec: entry.intervalSec, maxPositions: entry.maxPositions,
     thresholds: entry.thresholds, forceParams: entry.forceParams,
+    maxPriceDeviation: entry.maxPriceDeviation, slippageBps: entry.slippageBps,
+    spendCaps: entry.spendCaps, optimizer: entry.optimizer,
+    optSpace: entry.optSpace, optBounds: entry.optBounds,
     gasReserves: entry.gasReserves, allocationPct: entry.allocationPct,
-    rpcOverrides: entry.rpcOverrides,
+    rpcOverrides: entry.rpcOverrides, mode: entry.mode,
+    hdIndex: entry.hdIndex, signer: entry.signer, safe: entry.safe as SafeConfig | undefined,
   };
 }
 
@@ -78,7 +95,11 @@ export function strategyToConfigEntry(config: StrategyConfig): StrategyConfigEnt
     pools: toPoolEntries(config.pools),
     intervalSec: config.intervalSec, maxPositions: config.maxPositions,
     thresholds: config.thresholds, forceParams: config.forceParams,
+    maxPriceDeviation: config.maxPriceDeviation, slippageBps: config.slippageBps,
+    spendCaps: config.spendCaps, optimizer: config.optimizer,
+    optSpace: config.optSpace, optBounds: config.optBounds,
     gasReserves: config.gasReserves, allocationPct: config.allocationPct,
-    rpcOverrides: config.rpcOverrides,
+    rpcOverrides: config.rpcOverrides, mode: config.mode,
+    hdIndex: config.hdIndex, signer: config.signer, safe: config.safe,
   };
 }
@@ -53,6 +53,23 @@ export function tokenDecimals(token: TokenConfig, chain: number): number {
   return token.chainDecimals?.[chain] ?? token.decimals;
 }
 
+/**
+ * Value of raw pair amounts at `price` (token1 per token0, decimal-adjusted), in token1 units:
+ * USD for USD-quoted pairs, and equal to computeEntryValueUsd for stable pairs at peg.
+ */
+export function computeValueUsd(
+  pair: { token0: TokenConfig; token1: TokenConfig },
+  chain: number,
+  amount0: bigint,
+  amount1: bigint,
+  price: number,
+): number {
+  return (
+    (Number(amount0) / 10 ** tokenDecimals(pair.token0, chain)) * price +
+    Number(amount1) / 10 ** tokenDecimals(pair.token1, chain)
+  );
+}
+
 export function computeEntryValueUsd(
   pair: { token0: TokenConfig; token1: TokenConfig },
   chain: number,
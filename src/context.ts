@@ -0,0 +1,175 @@
+import type {
+  AllocationEntry,
+  Candle,
+  Decision,
+  DecisionType,
+  Forces,
+  PairConfig,
+  PoolConfig,
+  PoolSnapshot,
+  Position,
+  PositionMark,
+  Range,
+} from "./types";
+import type { DragonflyStore } from "./data/store-dragonfly";
+import { fetchLatestM1, fetchNativeUsd } from "./data/ohlc";
+import { fetchPoolSnapshots } from "./data/gecko";
+import * as o2q from "./data/store-o2";
+import { executeCompound, executePRA, executeRS, resumeExecution } from "./executor";
+import { markPositions } from "./execution/valuation";
+import { chainGasUnitUsd, pairOpGasUsd, type OpGasUsd } from "./execution/gas";
+import type { Signer } from "./execution/tx";
+import { getBalance } from "./execution/swap";
+import { log } from "./utils";
+
+// ---- Cycle context ----
+// Everything runSingleCycle reads from the outside world (time, market data, O2
+// history, execution), so a cycle can be driven by live data, a replay of stored
+// history, or test fixtures without monkey-patching modules.
+
+export interface Clock {
+  now(): number;
+}
+
+export interface CandleSource {
+  /** New M1 candles since the store's candle cursor. */
+  fetchLatestM1(store: DragonflyStore, pairId: string): Promise<Candle[]>;
+}
+
+export interface SnapshotSource {
+  fetchPoolSnapshots(pairId: string, pools: PoolConfig[], now: number): Promise<PoolSnapshot[]>;
+}
+
+/** Subset of store-o2 queries consumed by the scheduler. */
+export type O2Source = Pick<
+  typeof o2q,
+  | "getLastSnapshot"
+  | "getRecentYields"
+  | "getRecentRsTimestamps"
+  | "getTrailingGasUsd"
+  | "getEpochSnapshots"
+  | "getPoolAprs"
+>;
+
+/**
+ * PRA/RS/COMPOUND execution backend. Live executors require a private key; paper executors
+ * (`paper: true`) simulate fills in-process and run without one.
+ */
+export interface CycleExecutor {
+  paper?: boolean;
+  executePRA(
+    store: DragonflyStore,
+    pair: PairConfig,
+    allocations: AllocationEntry[],
+    decisionType: DecisionType,
+    signer: Signer | null,
+    forces?: Forces | null,
+    price?: number,
+    ranges?: Map<string, Range>, // target range per pool ("chain:pool") for mints
+  ): Promise<number>;
+  executeRS(
+    store: DragonflyStore,
+    pair: PairConfig,
+    shifts: { pool: `0x${string}`; chain: number; oldRange: Range; newRange: Range }[],
+    decisionType: DecisionType,
+    signer: Signer | null,
+  ): Promise<number>;
+  executeCompound(
+    store: DragonflyStore,
+    pair: PairConfig,
+    targets: NonNullable<Decision["compounds"]>,
+    decisionType: DecisionType,
+    signer: Signer | null,
+    price?: number,
+  ): Promise<number>;
+  /** Resume or abort a PRA/RS journal left running by a previous process. Returns tx count. */
+  resume?(store: DragonflyStore, pair: PairConfig, signer: Signer | null): Promise<number>;
+}
+
+/** Mark-to-market source for epoch snapshots. Without one, PnL is modeled from APR and entry values. */
+export interface PositionValuer {
+  /** Current amounts, uncollected fees and value of `positions`; null when they cannot be read. */
+  markPositions(
+    pair: PairConfig,
+    positions: Position[],
+    signer: Signer | null,
+  ): Promise<PositionMark[] | null>;
+  /** USD price of a chain's native gas token; null when unknown. */
+  nativeUsd(chain: number): Promise<number | null>;
+  /** Raw wallet balance of `token` on `chain`; null when it cannot be read. */
+  getBalance(chain: number, token: `0x${string}`, signer: Signer | null): Promise<bigint | null>;
+}
+
+/** Execution cost estimates at current fees. Without one, static per-chain estimates are used. */
+export interface GasSource {
+  /** USD cost of each operation type, averaged across the chains `pools` span. */
+  pairOpGasUsd(pools: PoolConfig[]): Promise<OpGasUsd>;
+  /** USD cost of one gas unit on `chain`. */
+  gasUnitUsd(chain: number): Promise<number>;
+}
+
+export interface CycleContext {
+  clock: Clock;
+  candles: CandleSource;
+  snapshots: SnapshotSource;
+  o2: O2Source;
+  executor: CycleExecutor;
+  valuer?: PositionValuer;
+  gas?: GasSource;
+  /** Run the optimizer on every Nth epoch (default 1; 0 never), e.g. to speed up replays. */
+  optimizeEvery?: number;
+}
+
+export const systemClock: Clock = { now: () => Date.now() };
+
+/** Clock frozen at `ts` (replays, incident investigations, tests). */
+export function fixedClock(ts: number): Clock {
+  return { now: () => ts };
+}
+
+/** Live valuer: on-chain reads for the signer's account (positions are unmarked without a key). */
+export const chainValuer: PositionValuer = {
+  markPositions: async (pair, positions, signer) =>
+    signer ? markPositions(pair, positions, signer.address) : null,
+  nativeUsd: fetchNativeUsd,
+  getBalance: async (chain, token, signer) =>
+    signer ? getBalance(chain, token, signer.address) : null,
+};
+
+/**
+ * Live context: wall clock, CCXT/GeckoTerminal fetchers, O2 queries, on-chain executor, valuer
+ * and gas oracle.
+ */
+export function liveCycleContext(): CycleContext {
+  return {
+    clock: systemClock,
+    candles: { fetchLatestM1 },
+    snapshots: { fetchPoolSnapshots },
+    o2: {
+      getLastSnapshot: o2q.getLastSnapshot,
+      getRecentYields: o2q.getRecentYields,
+      getRecentRsTimestamps: o2q.getRecentRsTimestamps,
+      getTrailingGasUsd: o2q.getTrailingGasUsd,
+      getEpochSnapshots: o2q.getEpochSnapshots,
+      getPoolAprs: o2q.getPoolAprs,
+    },
+    executor: {
+      executePRA,
+      executeRS,
+      executeCompound,
+      resume: async (store, pair, signer) => {
+        if (signer) return resumeExecution(store, pair, signer);
+        if (await store.getJournal())
+          log.warn(`${pair.id}: journal left unresumed (no private key)`);
+        return 0;
+      },
+    },
+    valuer: chainValuer,
+    gas: { pairOpGasUsd, gasUnitUsd: chainGasUnitUsd },
+  };
+}
+
+/** Live context with selected providers replaced. */
+export function withContext(overrides: Partial<CycleContext>): CycleContext {
+  return { ...liveCycleContext(), ...overrides };
+}
@@ -3,13 +3,14 @@ import type { PoolConfig } from "../types";
 import { type DexId, DexFamily } from "../types";
 import { getDexFamily, ABIS, V4_STATE_VIEW, PCS_V4_CL_MANAGER } from "../config/dexs";
 import { getPublicClient } from "../execution/tx";
+import { batchRead } from "../execution/multicall";
 import { DEFAULT_FEE, FEE_PRECISION, LB_BIN_STEP_DIVISOR } from "../config/params";
 import { withFallback } from "../utils";
 
 type FeeReader = (c: PublicClient, p: PoolConfig) => Promise<number>;
 
 const readPoolFee: FeeReader = async (c, p) =>
-  Number(await c.readContract({ address: p.address, abi: [ABIS.pool.fee], functionName: "fee" })) /
+  Number(await batchRead(c, { address: p.address, abi: [ABIS.pool.fee], functionName: "fee" })) /
   FEE_PRECISION;
 
 const readV4Fee =
@@ -20,7 +21,7 @@ const readV4Fee =
     return (
       Number(
         (
-          (await c.readContract({
+          (await batchRead(c, {
             address: addr,
             abi: [ABIS.v4.getSlot0],
             functionName: "getSlot0",
@@ -35,7 +36,7 @@ const FEE_READERS: Partial<Record<DexFamily, FeeReader>> = {
   [DexFamily.ALGEBRA]: async (c, p) =>
     Number(
       (
-        (await c.readContract({
+        (await batchRead(c, {
           address: p.address,
           abi: [ABIS.pool.globalState],
           functionName: "globalState",
@@ -48,7 +49,7 @@ const FEE_READERS: Partial<Record<DexFamily, FeeReader>> = {
   [DexFamily.PCS_V4]: readV4Fee(PCS_V4_CL_MANAGER),
   [DexFamily.LB]: async (c, p) =>
     Number(
-      await c.readContract({
+      await batchRead(c, {
         address: p.address,
         abi: [ABIS.lb.getBinStep],
         functionName: "getBinStep",
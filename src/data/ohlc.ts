@@ -12,8 +12,11 @@ import {
   OHLC_LATEST_LOOKBACK_CANDLES,
   FETCH_TIMEOUT_MS,
   EXCHANGE_RATE_LIMIT_MS,
+  NATIVE_PRICE_EXCHANGES,
+  NATIVE_PRICE_TTL_MS,
 } from "../config/params";
-import { log } from "../utils";
+import { CHAINS } from "../../shared/chains";
+import { log, errMsg } from "../utils";
 import { ingestToO2 } from "../infra/o2";
 import { reserveExchangeSlot } from "../infra/redis";
 
@@ -206,3 +209,32 @@ export async function fetchLatestM1(store: DragonflyStore, pair: string): Promis
   }
   return candles;
 }
+
+// ---- Native gas token price ----
+
+const nativePrices = new Map<string, { usd: number; ts: number }>();
+
+/**
+ * USD price of a chain's native gas token from the first exchange quoting `<symbol>/USDT`,
+ * cached for NATIVE_PRICE_TTL_MS. Null when the chain has no native symbol or no quote.
+ */
+export async function fetchNativeUsd(chain: number): Promise<number | null> {
+  const symbol = CHAINS[chain]?.nativeSymbol;
+  if (!symbol) return null;
+  const cached = nativePrices.get(symbol);
+  if (cached && Date.now() - cached.ts < NATIVE_PRICE_TTL_MS) return cached.usd;
+  for (const exchange of NATIVE_PRICE_EXCHANGES) {
+    try {
+      await throttleExchange(exchange);
+      const ticker = await getExchange(exchange).fetchTicker(`${symbol}/USDT`);
+      const usd = Number(ticker.last);
+      if (usd > 0) {
+        nativePrices.set(symbol, { usd, ts: Date.now() });
+        return usd;
+      }
+    } catch (e) {
+      log.debug(`${exchange}: ${symbol}/USDT ticker unavailable (${errMsg(e)})`);
+    }
+  }
+  return cached?.usd ?? null;
+}
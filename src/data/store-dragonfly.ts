@@ -1,6 +1,7 @@
 import type { RedisClient } from "bun";
-import type { Position } from "../types";
+import type { ClosedPosition, ExecutionJournal, PoolParams, Position, StrategyMode } from "../types";
 import { bigintReplacer } from "../utils";
+import { CLOSED_POSITIONS_MAX, JOURNAL_HISTORY_MAX } from "../config/params";
 
 /** Deserialize a Position from DragonflyDB JSON. */
 function parsePosition(raw: string): Position {
@@ -10,27 +11,68 @@ function parsePosition(raw: string): Position {
     liquidity: BigInt(p.liquidity),
     amount0: BigInt(p.amount0),
     amount1: BigInt(p.amount1),
+    ...(p.feesCollected0 != null && {
+      feesCollected0: BigInt(p.feesCollected0),
+      feesCollected1: BigInt(p.feesCollected1),
+    }),
+    ...(p.withdrawn0 != null && {
+      withdrawn0: BigInt(p.withdrawn0),
+      withdrawn1: BigInt(p.withdrawn1),
+    }),
   };
 }
 
+const CLOSED_BIGINTS = [
+  "principalIn0",
+  "principalIn1",
+  "principalOut0",
+  "principalOut1",
+  "fees0",
+  "fees1",
+] as const;
+
+/** Deserialize a ClosedPosition from DragonflyDB JSON. */
+function parseClosed(raw: string): ClosedPosition {
+  const c = JSON.parse(raw);
+  for (const k of CLOSED_BIGINTS) c[k] = BigInt(c[k]);
+  return c;
+}
+
+/** Key prefix for a strategy runner's store; paper runs never share keys with live ones. */
+export function strategyPrefix(mode: StrategyMode = "live"): string {
+  return mode === "paper" ? "btr:paper" : "btr:strategy";
+}
+
 /**
  * DragonflyDB-backed CRUD store for per-entity hot state.
  * One instance per worker, bound to a single entityId (strategy name or pair ID).
  *
  * Key layout:
  *   {prefix}:{entityId}:positions        HASH  field=id -> JSON(Position)
- *   {prefix}:{entityId}:optimizer        STRING  JSON({vec, fitness})
+ *   {prefix}:{entityId}:pool_params      HASH  field=chain:pool -> JSON(PoolParams)
+ *   {prefix}:{entityId}:optimizer        STRING  legacy pair-level warm-start, dropped on start
  *   {prefix}:{entityId}:epoch            STRING  integer
  *   {prefix}:{entityId}:regime_suppress  STRING  integer (suppress-until-epoch)
  *   {prefix}:{entityId}:candle_cursor    STRING  integer (latest candle ts)
+ *   {prefix}:{entityId}:ledger           STRING  JSON({"chain:token": raw balance}) (paper mode)
+ *   {prefix}:{entityId}:journal          STRING  JSON(ExecutionJournal) (in-flight PRA/RS)
+ *   {prefix}:{entityId}:journal_history  LIST    JSON(ExecutionJournal), newest first
+ *   {prefix}:{entityId}:closed_positions LIST    JSON(ClosedPosition), newest first
+ *   {prefix}:{entityId}:fee_marks        STRING  JSON({positionId: uncollected fees USD}) (last epoch)
  */
 export class DragonflyStore {
   private keys: {
     positions: string;
-    optimizer: string;
+    poolParams: string;
+    legacyOptimizer: string;
     epoch: string;
     regimeSuppress: string;
     candleCursor: string;
+    ledger: string;
+    journal: string;
+    journalHistory: string;
+    closedPositions: string;
+    feeMarks: string;
   };
 
   constructor(
@@ -41,10 +83,16 @@ export class DragonflyStore {
     const base = `${prefix}:${entityId}`;
     this.keys = {
       positions: `${base}:positions`,
-      optimizer: `${base}:optimizer`,
+      poolParams: `${base}:pool_params`,
+      legacyOptimizer: `${base}:optimizer`,
       epoch: `${base}:epoch`,
       regimeSuppress: `${base}:regime_suppress`,
       candleCursor: `${base}:candle_cursor`,
+      ledger: `${base}:ledger`,
+      journal: `${base}:journal`,
+      journalHistory: `${base}:journal_history`,
+      closedPositions: `${base}:closed_positions`,
+      feeMarks: `${base}:fee_marks`,
     };
   }
 
@@ -86,8 +134,20 @@ export class DragonflyStore {
 
   // ---- Optimizer State ----
 
-  getOptimizerState() { return this.getJson<{ vec: number[]; fitness: number }>(this.keys.optimizer); }
-  saveOptimizerState(vec: number[], fitness: number) { return this.setJson(this.keys.optimizer, { vec, fitness }); }
+  async savePoolParams(key: string, p: PoolParams): Promise<void> {
+    await this.redis.send("HSET", [this.keys.poolParams, key, JSON.stringify(p)]);
+  }
+
+  /** Tuned params per pool, keyed "chain:pool". */
+  async getPoolParams(): Promise<Record<string, PoolParams>> {
+    const all = (await this.redis.hgetall(this.keys.poolParams)) ?? {};
+    return Object.fromEntries(Object.entries(all).map(([k, v]) => [k, JSON.parse(v) as PoolParams]));
+  }
+
+  /** Delete the pair-level warm-start superseded by pool params. True if one existed. */
+  async dropLegacyOptimizer(): Promise<boolean> {
+    return Number(await this.redis.send("DEL", [this.keys.legacyOptimizer])) > 0;
+  }
 
   // ---- Epoch Counter ----
 
@@ -108,6 +168,47 @@ export class DragonflyStore {
   getLatestCandleTs() { return this.getNum(this.keys.candleCursor); }
   setLatestCandleTs(ts: number) { return this.setNum(this.keys.candleCursor, ts); }
 
+  // ---- Paper Ledger (simulated token balances, raw units as decimal strings) ----
+
+  getLedger() { return this.getJson<Record<string, string>>(this.keys.ledger); }
+  saveLedger(balances: Record<string, string>) { return this.setJson(this.keys.ledger, balances); }
+
+  // ---- Execution Journal ----
+
+  getJournal() { return this.getJson<ExecutionJournal>(this.keys.journal); }
+  saveJournal(j: ExecutionJournal) { return this.setJson(this.keys.journal, j); }
+
+  /** Move a finished (completed/aborted) journal into the capped history list. */
+  async archiveJournal(j: ExecutionJournal): Promise<void> {
+    await this.redis.send("LPUSH", [this.keys.journalHistory, JSON.stringify(j)]);
+    await this.redis.send("LTRIM", [this.keys.journalHistory, "0", String(JOURNAL_HISTORY_MAX - 1)]);
+    await this.redis.send("DEL", [this.keys.journal]);
+  }
+
+  async getJournalHistory(limit = JOURNAL_HISTORY_MAX): Promise<ExecutionJournal[]> {
+    const raw = await this.redis.send("LRANGE", [this.keys.journalHistory, "0", String(limit - 1)]);
+    if (!raw || !Array.isArray(raw)) return [];
+    return (raw as string[]).map((r) => JSON.parse(r) as ExecutionJournal);
+  }
+
+  // ---- Closed Positions ----
+
+  async archiveClosedPosition(c: ClosedPosition): Promise<void> {
+    await this.redis.send("LPUSH", [this.keys.closedPositions, JSON.stringify(c, bigintReplacer)]);
+    await this.redis.send("LTRIM", [this.keys.closedPositions, "0", String(CLOSED_POSITIONS_MAX - 1)]);
+  }
+
+  async getClosedPositions(limit = CLOSED_POSITIONS_MAX): Promise<ClosedPosition[]> {
+    const raw = await this.redis.send("LRANGE", [this.keys.closedPositions, "0", String(limit - 1)]);
+    if (!raw || !Array.isArray(raw)) return [];
+    return (raw as string[]).map(parseClosed);
+  }
+
+  // ---- Fee Marks (uncollected fees per position at the last epoch snapshot) ----
+
+  getFeeMarks() { return this.getJson<Record<string, number>>(this.keys.feeMarks); }
+  saveFeeMarks(marks: Record<string, number>) { return this.setJson(this.keys.feeMarks, marks); }
+
   // ---- Cleanup (for worker shutdown / entity removal) ----
 
   async deleteAll(): Promise<void> {
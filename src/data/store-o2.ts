@@ -2,13 +2,14 @@ import type {
   Candle,
   PoolSnapshot,
   PoolAnalysis,
+  PoolApr,
   PairAllocation,
   TxLogEntry,
   AllocationEntry,
   DecisionType,
 } from "../types";
 import type { EpochSnapshot } from "../../shared/types";
-import { O2_FETCH_TIMEOUT_MS, SECONDS_PER_YEAR } from "../config/params";
+import { M15_MS, O2_APR_CHUNK_MS, O2_FETCH_TIMEOUT_MS, SECONDS_PER_YEAR } from "../config/params";
 import { errMsg } from "../../shared/format";
 
 // ---- O2 Column Remapping ----
@@ -47,6 +48,8 @@ const O2_REMAP: Record<string, string> = {
   txhash: "txHash",
   gasused: "gasUsed",
   gasprice: "gasPrice",
+  gasusd: "gasUsd",
+  unpricedgas: "unpricedGas",
   inputtoken: "inputToken",
   inputamount: "inputAmount",
   inputusd: "inputUsd",
@@ -68,6 +71,14 @@ function esc(s: string): string {
 /** Query window in microseconds — 1 year to avoid O2 partition scan gaps at intermediate ranges */
 const QUERY_WINDOW_US = 365 * 86_400_000 * 1000;
 
+/**
+ * Rows of one execution mode: paper runs log `paper = true`; live rows log false, or predate
+ * the column.
+ */
+function modeFilter(paper: boolean): string {
+  return paper ? "paper = true" : "(paper IS NULL OR paper = false)";
+}
+
 async function queryO2<T>(sql: string, size = 1000): Promise<T[]> {
   const url = process.env.O2_URL;
   const org = process.env.O2_ORG || "default";
@@ -138,6 +149,28 @@ export async function getLastSnapshot(
   return rows[0] ?? null;
 }
 
+const SNAPSHOT_PAGE_SIZE = 50000;
+
+/**
+ * Pool snapshots of a pair in [fromTs, toTs], oldest first.
+ * Throws when the result fills a page (the newest rows would be cut): query shorter windows.
+ */
+export async function getPoolSnapshotsByPair(
+  pairId: string,
+  fromTs: number,
+  toTs: number,
+): Promise<PoolSnapshot[]> {
+  const rows = await queryO2<PoolSnapshot>(
+    `SELECT pool, chain, ts, volume24h, tvl, feepct, basepriceusd, quotepriceusd, exchangerate, pricechangeh1, pricechangeh24 FROM pool_snapshots WHERE pairid = '${esc(pairId)}' AND ts >= ${fromTs} AND ts <= ${toTs} ORDER BY ts ASC`,
+    SNAPSHOT_PAGE_SIZE,
+  );
+  if (rows.length >= SNAPSHOT_PAGE_SIZE)
+    throw new Error(
+      `pool_snapshots page full for ${pairId} in [${fromTs}, ${toTs}]: query a shorter window`,
+    );
+  return rows;
+}
+
 // ---- Pool Analyses ----
 
 const POOL_ANALYSIS_COLS =
@@ -156,15 +189,56 @@ export async function getPoolAnalyses(
   return queryO2<PoolAnalysis>(sql);
 }
 
+const POOL_ANALYSIS_PAGE_SIZE = 5000;
+
+/**
+ * Pool analyses of a pair in [fromTs, toTs], oldest first.
+ * Throws when the result fills a page (the newest rows would be cut): query shorter windows.
+ */
 export async function getPoolAnalysesByPair(
   pairId: string,
   fromTs: number,
   toTs: number,
 ): Promise<PoolAnalysis[]> {
-  return queryO2<PoolAnalysis>(
+  const rows = await queryO2<PoolAnalysis>(
     `SELECT ${POOL_ANALYSIS_COLS}, pairid FROM pool_analyses WHERE pairid = '${esc(pairId)}' AND ts >= ${fromTs} AND ts <= ${toTs} ORDER BY ts ASC`,
-    5000,
+    POOL_ANALYSIS_PAGE_SIZE,
   );
+  if (rows.length >= POOL_ANALYSIS_PAGE_SIZE)
+    throw new Error(
+      `pool_analyses page full for ${pairId} in [${fromTs}, ${toTs}]: query a shorter window`,
+    );
+  return rows;
+}
+
+const APR_PAGE_SIZE = 50000;
+
+/**
+ * Mean APR and TVL of each pool of a pair per M15 bucket (`ts` = bucket start), oldest first.
+ * Queried in O2_APR_CHUNK_MS windows aligned to M15 buckets; throws when a window fills a page.
+ */
+export async function getPoolAprs(
+  pairId: string,
+  fromTs: number,
+  toTs: number,
+): Promise<PoolApr[]> {
+  const bucket = `CAST(ts / ${M15_MS} AS BIGINT) * ${M15_MS}`;
+  const aprs: PoolApr[] = [];
+  for (let from = fromTs; from <= toTs; ) {
+    // Chunk ends on a bucket boundary so no bucket is averaged across two windows
+    const end = Math.min(Math.floor((from + O2_APR_CHUNK_MS) / M15_MS) * M15_MS - 1, toTs);
+    const rows = await queryO2<Omit<PoolApr, "ts"> & { bucket: number }>(
+      `SELECT pool, chain, ${bucket} AS bucket, AVG(apr) AS apr, AVG(tvl) AS tvl FROM pool_analyses WHERE pairid = '${esc(pairId)}' AND ts >= ${from} AND ts <= ${end} GROUP BY pool, chain, ${bucket} ORDER BY bucket ASC`,
+      APR_PAGE_SIZE,
+    );
+    if (rows.length >= APR_PAGE_SIZE)
+      throw new Error(
+        `pool_analyses APR page full for ${pairId} in [${from}, ${end}]: lower O2_APR_CHUNK_MS`,
+      );
+    for (const { bucket, ...r } of rows) aprs.push({ ...r, ts: bucket });
+    from = end + 1;
+  }
+  return aprs;
 }
 
 export async function getLatestAnalysesForPools(pairId: string): Promise<PoolAnalysis[]> {
@@ -295,8 +369,9 @@ export async function getEpochSnapshots(
   fromTs?: number,
   toTs?: number,
   limit?: number,
+  paper = false,
 ): Promise<EpochSnapshot[]> {
-  let sql = `SELECT pairid, epoch, ts, decision, portfoliovalueusd, feesearnedusd, gasspentusd, ilusd, netpnlusd, rangeefficiency, currentapr, optimalapr, positionscount FROM epoch_snapshots WHERE pairid = '${esc(pairId)}'`;
+  let sql = `SELECT pairid, epoch, ts, decision, portfoliovalueusd, feesearnedusd, gasspentusd, ilusd, netpnlusd, rangeefficiency, currentapr, optimalapr, positionscount FROM epoch_snapshots WHERE pairid = '${esc(pairId)}' AND ${modeFilter(paper)}`;
   if (fromTs !== undefined) sql += ` AND ts >= ${fromTs}`;
   if (toTs !== undefined) sql += ` AND ts <= ${toTs}`;
   sql += ` ORDER BY ts ASC`;
@@ -310,14 +385,19 @@ function annualize(costUsd: number, portfolioValueUsd: number, cycleSec: number)
   return portfolioValueUsd > 0 ? (costUsd / portfolioValueUsd) * intervalsPerYear : 0;
 }
 
-export async function getRecentYields(pairId: string, limit = 24, cycleSec = 900): Promise<number[]> {
+export async function getRecentYields(
+  pairId: string,
+  limit = 24,
+  cycleSec = 900,
+  paper = false,
+): Promise<number[]> {
   const rows = await queryO2<{
     currentApr: number;
     gasSpentUsd: number;
     ilUsd: number;
     portfolioValueUsd: number;
   }>(
-    `SELECT currentapr, gasspentusd, ilusd, portfoliovalueusd FROM epoch_snapshots WHERE pairid = '${esc(pairId)}' ORDER BY ts DESC`,
+    `SELECT currentapr, gasspentusd, ilusd, portfoliovalueusd FROM epoch_snapshots WHERE pairid = '${esc(pairId)}' AND ${modeFilter(paper)} ORDER BY ts DESC`,
     limit,
   );
   if (rows.length >= limit) {
@@ -330,23 +410,38 @@ export async function getRecentYields(pairId: string, limit = 24, cycleSec = 900
       .reverse();
   }
   const allocRows = await queryO2<{ currentApr: number }>(
-    `SELECT currentapr FROM pair_allocations WHERE pairid = '${esc(pairId)}' ORDER BY ts DESC`,
+    `SELECT currentapr FROM pair_allocations WHERE pairid = '${esc(pairId)}' AND ${modeFilter(paper)} ORDER BY ts DESC`,
     limit,
   );
   return allocRows.map((r) => r.currentApr).reverse();
 }
 
-export async function getRecentRsTimestamps(pairId: string, sinceTs: number): Promise<number[]> {
+export async function getRecentRsTimestamps(
+  pairId: string,
+  sinceTs: number,
+  paper = false,
+): Promise<number[]> {
   const rows = await queryO2<{ ts: number }>(
-    `SELECT ts FROM pair_allocations WHERE pairid = '${esc(pairId)}' AND decision = 'RS' AND ts > ${sinceTs} ORDER BY ts ASC`,
+    `SELECT ts FROM pair_allocations WHERE pairid = '${esc(pairId)}' AND ${modeFilter(paper)} AND decision = 'RS' AND ts > ${sinceTs} ORDER BY ts ASC`,
   );
   return rows.map((r) => r.ts);
 }
 
-export async function getTrailingTxCount(pairId: string, sinceTs: number): Promise<number> {
-  const rows = await queryO2<{ cnt: number }>(
-    `SELECT COUNT(*) as cnt FROM tx_log WHERE pairid = '${esc(pairId)}' AND ts > ${sinceTs}`,
-    1,
+/**
+ * USD gas recorded in tx_log since `sinceTs`, and the receipt gas units of the rows logged without
+ * it (no native price, or before gasUsd was recorded), by chain.
+ */
+export async function getTrailingGasUsd(
+  pairId: string,
+  sinceTs: number,
+  paper = false,
+): Promise<{ gasUsd: number; unpriced: Record<number, number> }> {
+  const rows = await queryO2<{ chain: number; gasUsd: number | null; unpricedGas: number | null }>(
+    `SELECT chain, SUM(gasusd) as gasusd, SUM(CASE WHEN gasusd IS NULL THEN CAST(gasused AS DOUBLE) ELSE 0 END) as unpricedgas FROM tx_log WHERE pairid = '${esc(pairId)}' AND ${modeFilter(paper)} AND ts > ${sinceTs} GROUP BY chain`,
+    100,
   );
-  return rows[0]?.cnt ?? 0;
+  return {
+    gasUsd: rows.reduce((s, r) => s + (r.gasUsd ?? 0), 0),
+    unpriced: Object.fromEntries(rows.map((r) => [r.chain, r.unpricedGas ?? 0])),
+  };
 }
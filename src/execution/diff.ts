@@ -0,0 +1,77 @@
+import type { AllocationEntry, Position } from "../types";
+import { DexFamily } from "../types";
+import { getDexFamily } from "../config/dexs";
+import { CASH_RESERVE_PCT, PRA_KEEP_TOLERANCE } from "../config/params";
+
+// ---- Incremental PRA planning ----
+// A PRA only touches the pools whose position differs from its target: matching positions are
+// kept, resized in place (increase/decrease), burned when their pool leaves the allocation, and
+// new pools are minted. Values are in the executor's book units (entry value, wallet balances).
+
+export type PoolAction = "keep" | "increase" | "decrease" | "burn" | "mint";
+
+export interface PoolDiff {
+  action: PoolAction;
+  chain: number;
+  pool: `0x${string}`;
+  position?: Position; // keep/increase/decrease/burn
+  alloc?: AllocationEntry; // keep/increase/decrease/mint
+  currentUsd: number; // position book value (0 for mints)
+  targetUsd: number; // allocation share of investable capital (0 for burns)
+}
+
+/** Book value of an open position: entry value (incl. reinvested fees) net of partial withdrawals. */
+export function positionValueUsd(p: Position): number {
+  return Math.max(0, p.entryValueUsd - (p.withdrawnUsd ?? 0));
+}
+
+/**
+ * Diff open positions against target allocations. Investable capital is the positions' book
+ * value plus `idleUsd` in the wallet, less the cash reserve. A position within `tolerance` of its
+ * target (relative) is kept; LB positions grow in place but cannot shrink pro rata, so an oversized
+ * one is burned + re-minted.
+ * Positions without a target (or a duplicate in the same pool) are burned.
+ */
+export function diffAllocations(
+  positions: Position[],
+  allocations: AllocationEntry[],
+  idleUsd: number,
+  tolerance = PRA_KEEP_TOLERANCE,
+): PoolDiff[] {
+  const totalUsd = positions.reduce((sum, p) => sum + positionValueUsd(p), idleUsd);
+  const investable = totalUsd * (1 - CASH_RESERVE_PCT);
+  const matched = new Set<string>();
+  const diffs: PoolDiff[] = [];
+
+  for (const alloc of allocations) {
+    const targetUsd = alloc.pct * investable;
+    const { pool, chain } = alloc;
+    const pos = positions.find((p) => !matched.has(p.id) && p.pool === pool && p.chain === chain);
+    if (!pos) {
+      diffs.push({ action: "mint", chain, pool, alloc, currentUsd: 0, targetUsd });
+      continue;
+    }
+    matched.add(pos.id);
+    const currentUsd = positionValueUsd(pos);
+    const gap = targetUsd - currentUsd;
+    const diff = { chain, pool, position: pos, alloc, currentUsd, targetUsd };
+    if (Math.abs(gap) <= tolerance * targetUsd) diffs.push({ ...diff, action: "keep" });
+    else if (targetUsd <= 0) diffs.push({ ...diff, action: "burn", targetUsd: 0 });
+    else if (gap < 0 && getDexFamily(pos.dex) === DexFamily.LB) {
+      diffs.push({ ...diff, action: "burn", targetUsd: 0 });
+      diffs.push({ action: "mint", chain, pool, alloc, currentUsd: 0, targetUsd });
+    } else diffs.push({ ...diff, action: gap > 0 ? "increase" : "decrease" });
+  }
+
+  for (const pos of positions.filter((p) => !matched.has(p.id))) {
+    diffs.push({
+      action: "burn",
+      chain: pos.chain,
+      pool: pos.pool,
+      position: pos,
+      currentUsd: positionValueUsd(pos),
+      targetUsd: 0,
+    });
+  }
+  return diffs;
+}
@@ -0,0 +1,151 @@
+import { keccak256, toHex, type PublicClient } from "viem";
+import { ABIS } from "../config/dexs";
+import {
+  GAS_CALLDATA_BYTES,
+  GAS_ORACLE_TTL_MS,
+  GAS_PRICE_ORACLE,
+  GAS_UNITS,
+  OP_STACK_CHAINS,
+} from "../config/params";
+import { chainGasCostUsd } from "../../shared/chains";
+import { fetchNativeUsd } from "../data/ohlc";
+import { getPublicClient } from "./tx";
+import { readContracts } from "./multicall";
+import { log, errMsg } from "../utils";
+
+// ---- Gas oracle ----
+// Execution cost at current fees: the chain's base fee plus priority fee, priced with the native
+// token's USD price, times typical gas units per operation (GAS_UNITS). OP-stack chains add the L1
+// data fee of a typical transaction of each operation (GasPriceOracle.getL1Fee). Quotes are cached
+// per chain for GAS_ORACLE_TTL_MS. Chains whose fees or native price cannot be read fall back to
+// the static per-rebalance estimate (CHAINS[].gasCostUsd), split across operations by gas units.
+
+export type GasOp = keyof typeof GAS_UNITS;
+
+/** USD cost of one transaction of each operation type. */
+export type OpGasUsd = Record<GasOp, number>;
+
+/** Operations of one rebalance (burn, swap to the target ratio, mint): the unit of the gas gates. */
+export const REBALANCE_OPS: GasOp[] = ["burn", "swap", "mint"];
+
+export interface GasQuote {
+  chain: number;
+  baseFeePerGas: bigint; // 0 on chains without EIP-1559
+  priorityFeePerGas: bigint; // gas price on chains without EIP-1559
+  l1FeeWei?: Record<GasOp, bigint>; // OP-stack chains: L1 data fee per operation
+  nativeUsd: number;
+  ts: number;
+}
+
+const quotes = new Map<number, GasQuote>();
+const OPS = Object.keys(GAS_UNITS) as GasOp[];
+const REBALANCE_UNITS = REBALANCE_OPS.reduce((s, op) => s + GAS_UNITS[op], 0n);
+
+/** USD cost of `gasUsed` units at `gasPrice` wei. */
+export function gasUsd(gasUsed: bigint, gasPrice: bigint, nativeUsd: number): number {
+  return (Number(gasUsed * gasPrice) / 1e18) * nativeUsd;
+}
+
+/** `bytes` of incompressible filler: OP-stack L1 fees price calldata by its compressed size. */
+function fillerCalldata(bytes: number): `0x${string}` {
+  let hex = "";
+  for (let i = 0; hex.length < bytes * 2; i++) hex += keccak256(toHex(i)).slice(2);
+  return `0x${hex.slice(0, bytes * 2)}`;
+}
+
+/** L1 data fee (wei) of a typical transaction of each operation, from the GasPriceOracle. */
+async function readL1Fees(pub: PublicClient): Promise<Record<GasOp, bigint>> {
+  const fees = await readContracts<bigint[]>(
+    pub,
+    OPS.map((op) => ({
+      address: GAS_PRICE_ORACLE,
+      abi: [ABIS.opGasPriceOracle.getL1Fee],
+      functionName: "getL1Fee",
+      args: [fillerCalldata(GAS_CALLDATA_BYTES[op])],
+    })),
+  );
+  return Object.fromEntries(OPS.map((op, i) => [op, fees[i]])) as Record<GasOp, bigint>;
+}
+
+/** Current fees and native price of `chain` (cached). Null when either cannot be read. */
+export async function fetchGasQuote(chain: number): Promise<GasQuote | null> {
+  const cached = quotes.get(chain);
+  if (cached && Date.now() - cached.ts < GAS_ORACLE_TTL_MS) return cached;
+  const nativeUsd = await fetchNativeUsd(chain);
+  if (nativeUsd == null) return null;
+  try {
+    const pub = getPublicClient(chain);
+    const block = await pub.getBlock({ blockTag: "latest" });
+    const fees =
+      block.baseFeePerGas != null
+        ? {
+            baseFeePerGas: block.baseFeePerGas,
+            priorityFeePerGas: await pub.estimateMaxPriorityFeePerGas(),
+          }
+        : { baseFeePerGas: 0n, priorityFeePerGas: await pub.getGasPrice() };
+    const quote: GasQuote = {
+      chain,
+      ...fees,
+      ...(OP_STACK_CHAINS.includes(chain) && { l1FeeWei: await readL1Fees(pub) }),
+      nativeUsd,
+      ts: Date.now(),
+    };
+    quotes.set(chain, quote);
+    return quote;
+  } catch (e) {
+    log.debug(`gas oracle: chain ${chain} fees unavailable (${errMsg(e)})`);
+    return cached ?? null;
+  }
+}
+
+/** USD cost of each operation at `quote`'s fees, L1 data fee included. */
+export function quoteOpGasUsd(quote: GasQuote): OpGasUsd {
+  const price = quote.baseFeePerGas + quote.priorityFeePerGas;
+  return Object.fromEntries(
+    OPS.map((op) => [
+      op,
+      gasUsd(GAS_UNITS[op], price, quote.nativeUsd) +
+        (Number(quote.l1FeeWei?.[op] ?? 0n) / 1e18) * quote.nativeUsd,
+    ]),
+  ) as OpGasUsd;
+}
+
+/** USD per gas unit of the static per-chain estimate (one rebalance = gasCostUsd). */
+export function staticGasUnitUsd(chain: number): number {
+  return chainGasCostUsd(chain) / Number(REBALANCE_UNITS);
+}
+
+/** Static per-chain estimate split across operations by gas units. */
+export function staticOpGasUsd(chain: number): OpGasUsd {
+  const perUnit = staticGasUnitUsd(chain);
+  return Object.fromEntries(OPS.map((op) => [op, Number(GAS_UNITS[op]) * perUnit])) as OpGasUsd;
+}
+
+/** USD per gas unit on `chain` at current fees (L2 execution only), or the static rate. */
+export async function chainGasUnitUsd(chain: number): Promise<number> {
+  const quote = await fetchGasQuote(chain);
+  return quote
+    ? gasUsd(1n, quote.baseFeePerGas + quote.priorityFeePerGas, quote.nativeUsd)
+    : staticGasUnitUsd(chain);
+}
+
+/** USD cost of each operation on `chain` at current fees, or the static estimate. */
+export async function chainOpGasUsd(chain: number): Promise<OpGasUsd> {
+  const quote = await fetchGasQuote(chain);
+  return quote ? quoteOpGasUsd(quote) : staticOpGasUsd(chain);
+}
+
+/** Per-operation cost averaged across the unique chains of `pools` (live counterpart of pairGasCost). */
+export async function pairOpGasUsd(pools: { chain: number }[]): Promise<OpGasUsd> {
+  const chains = [...new Set(pools.map((p) => p.chain))];
+  const costs = await Promise.all(chains.map(chainOpGasUsd));
+  const n = Math.max(chains.length, 1);
+  return Object.fromEntries(
+    OPS.map((op) => [op, costs.reduce((s, c) => s + c[op], 0) / n]),
+  ) as OpGasUsd;
+}
+
+/** USD cost of one rebalance (REBALANCE_OPS). */
+export function rebalanceGasUsd(costs: OpGasUsd): number {
+  return REBALANCE_OPS.reduce((s, op) => s + costs[op], 0);
+}
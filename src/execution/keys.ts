@@ -0,0 +1,232 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  pbkdf2Sync,
+  randomBytes,
+  scryptSync,
+  timingSafeEqual,
+} from "node:crypto";
+import { hexToBytes, keccak256, toHex, type LocalAccount } from "viem";
+import { mnemonicToAccount, privateKeyToAccount } from "viem/accounts";
+import { HD_PATH_PREFIX, KEYSTORE_MNEMONIC_FILE, KEYSTORE_SCRYPT } from "../config/params";
+import { log } from "../utils";
+
+// ---- Key providers ----
+// A strategy's signing account is unlocked once at worker start, from the first provider that
+// holds it: an encrypted V3 keystore (KEYSTORE_DIR/<name>.json), an account derived from the
+// encrypted HD mnemonic (KEYSTORE_DIR/mnemonic.json, at the strategy's hdIndex), or, legacy,
+// a plaintext key in the strategy's pkEnvVar. Keystores are unlocked with the password in
+// KEYSTORE_PASSWORD_FILE (or KEYSTORE_PASSWORD). The account never leaves the worker process:
+// executors get a Signer handle and spawned workers get no key material in their environment.
+
+export class KeystoreError extends Error {
+  constructor(
+    public readonly file: string,
+    reason: string,
+  ) {
+    super(`Keystore ${file}: ${reason}`);
+    this.name = "KeystoreError";
+  }
+}
+
+/** Web3 Secret Storage (V3) keystore; hex fields carry no 0x prefix. */
+export interface KeystoreV3 {
+  version: 3;
+  id?: string;
+  address?: string;
+  crypto: {
+    cipher: "aes-128-ctr";
+    cipherparams: { iv: string };
+    ciphertext: string;
+    kdf: "scrypt" | "pbkdf2";
+    kdfparams:
+      | { dklen: number; salt: string; n: number; r: number; p: number }
+      | { dklen: number; salt: string; c: number; prf: "hmac-sha256" };
+    mac: string;
+  };
+}
+
+/** What the providers look a strategy's key up by. */
+export interface KeyTarget {
+  name: string;
+  pkEnvVar: string;
+  hdIndex?: number;
+}
+
+export interface KeyProvider {
+  source: string;
+  account(target: KeyTarget): Promise<LocalAccount | null>;
+}
+
+const unhex = (hex: string) => hexToBytes(`0x${hex.replace(/^0x/, "")}`);
+const plainHex = (bytes: Uint8Array) => toHex(bytes).slice(2);
+
+function deriveKey(crypto: KeystoreV3["crypto"], password: string): Buffer {
+  const kp = crypto.kdfparams;
+  const salt = unhex(kp.salt);
+  if (crypto.kdf === "scrypt" && "n" in kp) {
+    // Node's scrypt refuses more than 32 MiB unless told: 128 * N * r bytes, doubled for headroom
+    const maxmem = 256 * kp.n * kp.r;
+    return scryptSync(password, salt, kp.dklen, { N: kp.n, r: kp.r, p: kp.p, maxmem });
+  }
+  if (crypto.kdf === "pbkdf2" && "c" in kp && kp.prf === "hmac-sha256")
+    return pbkdf2Sync(password, salt, kp.c, kp.dklen, "sha256");
+  throw new Error(`unsupported kdf ${crypto.kdf}`);
+}
+
+const keystoreMac = (key: Buffer, ciphertext: Uint8Array) =>
+  hexToBytes(keccak256(Buffer.concat([key.subarray(16, 32), ciphertext])));
+
+/** Decrypt a V3 keystore: the private key, or whatever secret it wraps. Throws on a wrong password. */
+export function decryptKeystore(
+  keystore: KeystoreV3,
+  password: string,
+  file = "keystore",
+): Uint8Array {
+  const { crypto } = keystore;
+  if (keystore.version !== 3)
+    throw new KeystoreError(file, `unsupported version ${keystore.version}`);
+  if (crypto.cipher !== "aes-128-ctr")
+    throw new KeystoreError(file, `unsupported cipher ${crypto.cipher}`);
+  let key: Buffer;
+  try {
+    key = deriveKey(crypto, password);
+  } catch (e: unknown) {
+    throw new KeystoreError(file, e instanceof Error ? e.message : String(e));
+  }
+  const ciphertext = unhex(crypto.ciphertext);
+  const mac = unhex(crypto.mac);
+  const expected = keystoreMac(key, ciphertext);
+  if (mac.length !== expected.length || !timingSafeEqual(mac, expected))
+    throw new KeystoreError(file, "wrong password (MAC mismatch)");
+  const decipher = createDecipheriv(
+    "aes-128-ctr",
+    key.subarray(0, 16),
+    unhex(crypto.cipherparams.iv),
+  );
+  return new Uint8Array(Buffer.concat([decipher.update(ciphertext), decipher.final()]));
+}
+
+/** Encrypt `secret` (a private key, or a mnemonic's UTF-8 bytes) into a scrypt V3 keystore. */
+export function encryptKeystore(
+  secret: Uint8Array,
+  password: string,
+  scrypt: { n: number; r: number; p: number } = KEYSTORE_SCRYPT,
+  address?: `0x${string}`,
+): KeystoreV3 {
+  const kdfparams = { dklen: 32, salt: plainHex(randomBytes(32)), ...scrypt };
+  const iv = randomBytes(16);
+  const crypto = {
+    cipher: "aes-128-ctr" as const,
+    cipherparams: { iv: plainHex(iv) },
+    ciphertext: "",
+    kdf: "scrypt" as const,
+    kdfparams,
+    mac: "",
+  };
+  const key = deriveKey(crypto, password);
+  const cipher = createCipheriv("aes-128-ctr", key.subarray(0, 16), iv);
+  const ciphertext = Buffer.concat([cipher.update(secret), cipher.final()]);
+  crypto.ciphertext = plainHex(ciphertext);
+  crypto.mac = plainHex(keystoreMac(key, ciphertext));
+  return {
+    version: 3,
+    id: globalThis.crypto.randomUUID(),
+    ...(address && { address: address.slice(2).toLowerCase() }),
+    crypto,
+  };
+}
+
+/** Keystore password: KEYSTORE_PASSWORD_FILE (e.g. a Docker secret), else KEYSTORE_PASSWORD. */
+async function keystorePassword(file: string): Promise<string> {
+  const path = process.env.KEYSTORE_PASSWORD_FILE;
+  if (path) return (await Bun.file(path).text()).replace(/\r?\n$/, "");
+  const password = process.env.KEYSTORE_PASSWORD;
+  if (password === undefined)
+    throw new KeystoreError(file, "no KEYSTORE_PASSWORD_FILE or KEYSTORE_PASSWORD");
+  return password;
+}
+
+/** Read and decrypt `KEYSTORE_DIR/<name>`; null when there is no such file. */
+async function unlockFile(
+  name: string,
+): Promise<{ secret: Uint8Array; keystore: KeystoreV3 } | null> {
+  const dir = process.env.KEYSTORE_DIR;
+  if (!dir) return null;
+  const path = `${dir.replace(/\/$/, "")}/${name}`;
+  const file = Bun.file(path);
+  if (!(await file.exists())) return null;
+  const keystore = (await file.json()) as KeystoreV3;
+  return { secret: decryptKeystore(keystore, await keystorePassword(path), path), keystore };
+}
+
+/** Encrypted private key at KEYSTORE_DIR/<strategy name>.json. */
+export const keystoreProvider: KeyProvider = {
+  source: "keystore",
+  async account({ name }) {
+    const unlocked = await unlockFile(`${name}.json`);
+    if (!unlocked) return null;
+    const account = privateKeyToAccount(toHex(unlocked.secret));
+    const { address } = unlocked.keystore;
+    if (address && `0x${address}`.toLowerCase() !== account.address.toLowerCase())
+      throw new KeystoreError(`${name}.json`, `decrypts to ${account.address}, not 0x${address}`);
+    return account;
+  },
+};
+
+/** Account `hdIndex` of the encrypted HD mnemonic at KEYSTORE_DIR/mnemonic.json. */
+export const mnemonicProvider: KeyProvider = {
+  source: "mnemonic",
+  async account({ hdIndex }) {
+    if (hdIndex === undefined) return null;
+    const unlocked = await unlockFile(KEYSTORE_MNEMONIC_FILE);
+    if (!unlocked) return null;
+    const mnemonic = new TextDecoder().decode(unlocked.secret);
+    return mnemonicToAccount(mnemonic, { path: `${HD_PATH_PREFIX}/${hdIndex}` });
+  },
+};
+
+/** Legacy plaintext key in the strategy's pkEnvVar. */
+export const envProvider: KeyProvider = {
+  source: "env",
+  async account({ name, pkEnvVar }) {
+    const pk = process.env[pkEnvVar] as `0x${string}` | undefined;
+    if (!pk) return null;
+    log.warn(`${name}: plaintext private key in ${pkEnvVar}, move it to an encrypted keystore`);
+    return privateKeyToAccount(pk);
+  },
+};
+
+export const KEY_PROVIDERS: KeyProvider[] = [keystoreProvider, mnemonicProvider, envProvider];
+
+/** Signing account of `target` from the first provider holding it; null when none does. */
+export async function unlockAccount(
+  target: KeyTarget,
+  providers: KeyProvider[] = KEY_PROVIDERS,
+): Promise<LocalAccount | null> {
+  for (const provider of providers) {
+    const account = await provider.account(target);
+    if (account) {
+      log.info(`${target.name}: signing as ${account.address} (${provider.source})`);
+      return account;
+    }
+  }
+  return null;
+}
+
+/**
+ * Env var carrying key material, never forwarded to spawned workers: PK_* / *_PK, or one of
+ * `keyVars` (configured strategies' `pkEnvVar`, whatever their name).
+ */
+export function isKeyEnvVar(name: string, keyVars: ReadonlySet<string> = new Set()): boolean {
+  return name.startsWith("PK_") || name.endsWith("_PK") || keyVars.has(name);
+}
+
+/** `env` without key material; `keyVars` lists the configured strategies' `pkEnvVar`. */
+export function withoutKeys(
+  env: Record<string, string | undefined>,
+  keyVars: Iterable<string> = [],
+): Record<string, string | undefined> {
+  const vars = new Set(keyVars);
+  return Object.fromEntries(Object.entries(env).filter(([k]) => !isKeyEnvVar(k, vars)));
+}
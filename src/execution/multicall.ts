@@ -0,0 +1,82 @@
+import {
+  BaseError,
+  ContractFunctionZeroDataError,
+  type ContractFunctionParameters,
+  type PublicClient,
+} from "viem";
+import { MULTICALL_BATCH_BYTES, MULTICALL_WAIT_MS } from "../config/params";
+import { log, errMsg } from "../utils";
+
+// ---- Read batching ----
+// Contract reads go through a per-client (i.e. per-chain) queue: reads issued within
+// MULTICALL_WAIT_MS of each other are sent as one Multicall3 aggregate3 call, so pool queries,
+// balances, allowances and position reads across all pools of a chain share round-trips. A failing
+// read rejects alone. Chains without Multicall3 in their viem config, or whose Multicall3 call
+// returns no data (not deployed), fall back to one eth_call per read.
+
+/** A contract view call, as passed to viem's readContract. */
+export type ContractRead = ContractFunctionParameters;
+
+/** Client surface used by the batcher (a viem PublicClient). */
+export type ReadClient = Pick<PublicClient, "chain" | "multicall" | "readContract">;
+
+interface QueuedRead {
+  read: ContractRead;
+  resolve: (value: unknown) => void;
+  reject: (reason: unknown) => void;
+}
+
+const queues = new Map<ReadClient, QueuedRead[]>();
+const noMulticall = new WeakSet<ReadClient>();
+
+function readOne(client: ReadClient, q: QueuedRead): void {
+  client.readContract(q.read).then(q.resolve, q.reject);
+}
+
+async function flush(client: ReadClient): Promise<void> {
+  const batch = queues.get(client) ?? [];
+  queues.delete(client);
+  const multicallAddress = client.chain?.contracts?.multicall3?.address;
+  if (batch.length === 1 || !multicallAddress || noMulticall.has(client)) {
+    for (const q of batch) readOne(client, q);
+    return;
+  }
+  try {
+    const results = await client.multicall({
+      contracts: batch.map((q) => q.read),
+      allowFailure: true,
+      multicallAddress,
+      batchSize: MULTICALL_BATCH_BYTES,
+    });
+    results.forEach((r, i) =>
+      r.status === "success" ? batch[i].resolve(r.result) : batch[i].reject(r.error),
+    );
+  } catch (e) {
+    if (e instanceof BaseError && e.walk((c) => c instanceof ContractFunctionZeroDataError)) {
+      noMulticall.add(client);
+    }
+    log.debug(`multicall failed on chain ${client.chain?.id} (${errMsg(e)}), reading one by one`);
+    for (const q of batch) readOne(client, q);
+  }
+}
+
+/** Read a contract view through `client`'s batch queue (same result as readContract). */
+export function batchRead<T = unknown>(client: ReadClient, read: ContractRead): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    let queue = queues.get(client);
+    if (!queue) {
+      queue = [];
+      queues.set(client, queue);
+      setTimeout(() => void flush(client), MULTICALL_WAIT_MS);
+    }
+    queue.push({ read, resolve: resolve as (value: unknown) => void, reject });
+  });
+}
+
+/** Read several contract views in one round-trip where Multicall3 is available. */
+export function readContracts<T extends readonly unknown[]>(
+  client: ReadClient,
+  reads: ContractRead[],
+): Promise<T> {
+  return Promise.all(reads.map((r) => batchRead(client, r))) as Promise<unknown> as Promise<T>;
+}
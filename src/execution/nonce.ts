@@ -0,0 +1,164 @@
+import type { RedisClient } from "bun";
+import { KEYS } from "../infra/redis";
+import { bigintReplacer } from "../utils";
+
+// ---- Per-chain nonce manager ----
+// Nonces are assigned here rather than by the RPC, whose pending count lags on load-balanced
+// endpoints. Every transaction holding a nonce (reserved, broadcast, replaced) is persisted in
+// DragonflyDB (in memory when no client is bound) until its nonce is mined or released, along with
+// the next nonce known not to be mined yet. A restarted worker thus replaces a stuck transaction
+// instead of queueing new ones behind it. One worker owns each sender (worker lock); reservations
+// within the process are serialized per chain and sender.
+
+/** EIP-1559 fees; legacy chains carry their gas price in both fields. */
+export interface TxFees {
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+  legacy?: boolean;
+}
+
+/** A transaction holding a nonce until mined, with the replacements sent for it. */
+export interface PendingTx {
+  nonce: number;
+  hashes: `0x${string}`[]; // original first, then speed-ups and the cancel (empty until broadcast)
+  cancelHash?: `0x${string}`;
+  to: `0x${string}`;
+  data: `0x${string}`;
+  value: bigint;
+  gas: bigint;
+  fees: TxFees; // of the latest broadcast
+  sentTs: number;
+  owner?: string; // process that reserved the nonce
+}
+
+/** Minimal read interface (a viem PublicClient) used to sync with the chain's nonce. */
+export interface NonceReader {
+  getTransactionCount(args: {
+    address: `0x${string}`;
+    blockTag: "pending" | "latest";
+  }): Promise<number>;
+}
+
+let _redis: RedisClient | null = null;
+const memNext = new Map<string, number>();
+const memPending = new Map<string, Map<number, string>>();
+const locks = new Map<string, Promise<unknown>>();
+const PROCESS_ID = crypto.randomUUID();
+
+/** Bind a Redis client to persist nonces across restarts. Call once at startup (null: in memory). */
+export function setNonceRedis(redis: RedisClient | null): void {
+  _redis = redis;
+}
+
+const senderKey = (chainId: number, address: string) => `${chainId}:${address.toLowerCase()}`;
+
+function serialized<T>(key: string, fn: () => Promise<T>): Promise<T> {
+  const run = (locks.get(key) ?? Promise.resolve()).then(fn, fn);
+  locks.set(
+    key,
+    run.catch(() => {}),
+  );
+  return run;
+}
+
+async function readNext(chainId: number, address: string): Promise<number | null> {
+  if (!_redis) return memNext.get(senderKey(chainId, address)) ?? null;
+  const raw = await _redis.get(KEYS.nonceNext(chainId, address.toLowerCase()));
+  return raw === null ? null : Number(raw);
+}
+
+async function writeNext(chainId: number, address: string, next: number): Promise<void> {
+  if (!_redis) memNext.set(senderKey(chainId, address), next);
+  else await _redis.set(KEYS.nonceNext(chainId, address.toLowerCase()), String(next));
+}
+
+function parsePending(raw: string): PendingTx {
+  const p = JSON.parse(raw);
+  return {
+    ...p,
+    value: BigInt(p.value),
+    gas: BigInt(p.gas),
+    fees: {
+      ...p.fees,
+      maxFeePerGas: BigInt(p.fees.maxFeePerGas),
+      maxPriorityFeePerGas: BigInt(p.fees.maxPriorityFeePerGas),
+    },
+  };
+}
+
+/** Transactions from `address` on `chainId` still holding a nonce, by nonce. */
+export async function pendingTxs(chainId: number, address: string): Promise<PendingTx[]> {
+  const raw = _redis
+    ? ((await _redis.send("HVALS", [
+        KEYS.noncePending(chainId, address.toLowerCase()),
+      ])) as string[])
+    : [...(memPending.get(senderKey(chainId, address))?.values() ?? [])];
+  return raw.map(parsePending).sort((a, b) => a.nonce - b.nonce);
+}
+
+/** Record a transaction (or update it after a broadcast or replacement). */
+export async function trackTx(chainId: number, address: string, tx: PendingTx): Promise<void> {
+  const raw = JSON.stringify(tx, bigintReplacer);
+  if (_redis) {
+    await _redis.send("HSET", [
+      KEYS.noncePending(chainId, address.toLowerCase()),
+      String(tx.nonce),
+      raw,
+    ]);
+    return;
+  }
+  const key = senderKey(chainId, address);
+  if (!memPending.has(key)) memPending.set(key, new Map());
+  memPending.get(key)!.set(tx.nonce, raw);
+}
+
+/**
+ * Release a transaction's nonce: `mined` once one of its hashes has a receipt (the nonce is
+ * consumed even if the RPC count lags), otherwise after a failed broadcast (the nonce is free).
+ */
+export function settleTx(
+  chainId: number,
+  address: string,
+  nonce: number,
+  mined: boolean,
+): Promise<void> {
+  return serialized(senderKey(chainId, address), async () => {
+    if (mined && nonce + 1 > ((await readNext(chainId, address)) ?? 0)) {
+      await writeNext(chainId, address, nonce + 1);
+    }
+    if (_redis) {
+      await _redis.send("HDEL", [KEYS.noncePending(chainId, address.toLowerCase()), String(nonce)]);
+    } else memPending.get(senderKey(chainId, address))?.delete(nonce);
+  });
+}
+
+/** A nonce reserved by an earlier process that never broadcast: free to release. */
+export function isOrphanReservation(tx: PendingTx): boolean {
+  return tx.hashes.length === 0 && tx.owner !== PROCESS_ID;
+}
+
+/**
+ * Reserve a nonce for `draft` and track it before broadcast: the lowest nonce at or above both
+ * the chain's pending count and the last mined one that no tracked transaction holds. Released
+ * nonces are reused, so a failed broadcast leaves no gap.
+ */
+export function reserveNonce(
+  chainId: number,
+  address: `0x${string}`,
+  reader: NonceReader,
+  draft: Omit<PendingTx, "nonce" | "hashes">,
+): Promise<PendingTx> {
+  return serialized(senderKey(chainId, address), async () => {
+    const [chainNext, minedNext, tracked] = await Promise.all([
+      reader.getTransactionCount({ address, blockTag: "pending" }),
+      readNext(chainId, address),
+      pendingTxs(chainId, address),
+    ]);
+    const held = new Set(tracked.map((t) => t.nonce));
+    let nonce = Math.max(chainNext, minedNext ?? 0);
+    while (held.has(nonce)) nonce++;
+    const tx: PendingTx = { ...draft, nonce, hashes: [], owner: PROCESS_ID };
+    await trackTx(chainId, address, tx);
+    return tx;
+  });
+}
@@ -0,0 +1,118 @@
+import type { PairConfig, PoolConfig, StrategyConfig } from "../types";
+import { DexFamily } from "../types";
+import { ABIS, getDexFamily } from "../config/dexs";
+import { ORACLE_TWAP_SEC, PRICE_DEVIATION_MAX } from "../config/params";
+import { queryPool } from "../adapters/pool-query";
+import { getPublicClient } from "./tx";
+import { pairPrice } from "./valuation";
+import { log, errMsg } from "../utils";
+
+// ---- Oracle deviation guard ----
+// The strategy sizes ranges and swaps from the CEX-weighted M1 close. Before a mint or increase,
+// the pool's spot price (and a short on-chain TWAP where the pool exposes observe()) must agree
+// with that close within the pair's maxPriceDeviation, and a swap quote must not return less than
+// the close implies: a pool pushed away from the market (manipulated or mid-sandwich) aborts the
+// step with PriceDeviationError instead of depositing or trading at its price.
+
+/** Thrown when on-chain prices disagree with the M1 close beyond the pair's limit. */
+export class PriceDeviationError extends Error {
+  constructor(
+    public readonly pairId: string,
+    reason: string,
+  ) {
+    super(`Price deviation on ${pairId}: ${reason}`);
+    this.name = "PriceDeviationError";
+  }
+}
+
+/** Pool prices as token1 per token0 in pair orientation, decimal-adjusted. */
+export interface PoolPrices {
+  spot: number;
+  twap: number | null; // null where the pool has no observe() or too short a history
+}
+
+// Pools with a Uniswap V3 style observe(uint32[]) oracle
+const TWAP_FAMILIES = new Set<DexFamily>([DexFamily.V3, DexFamily.AERODROME]);
+
+/** Maximum relative gap allowed for a pair (PRICE_DEVIATION_MAX unless configured). */
+export const deviationLimit = (pair: Pick<PairConfig, "maxPriceDeviation">) =>
+  pair.maxPriceDeviation ?? PRICE_DEVIATION_MAX;
+
+/** Relative gap of `price` from `ref`. */
+export const deviation = (price: number, ref: number) => Math.abs(price - ref) / ref;
+
+/** Relative shortfall of a quoted amount against the expected one (0 when it meets or beats it). */
+export function quoteShortfall(expected: bigint, quoted: bigint): number {
+  if (expected <= 0n || quoted >= expected) return 0;
+  return Number(expected - quoted) / Number(expected);
+}
+
+/**
+ * Raw time-weighted price (token1/token0 in sorted order) from observe() tick cumulatives taken
+ * `windowSec` apart. The mean tick rounds towards negative infinity, as OracleLibrary.consult.
+ */
+export function twapFromCumulatives([older, newer]: readonly bigint[], windowSec: number): number {
+  const delta = newer - older;
+  const window = BigInt(windowSec);
+  let tick = delta / window;
+  if (delta < 0n && delta % window !== 0n) tick--;
+  return 1.0001 ** Number(tick);
+}
+
+async function readTwap(pool: PoolConfig, windowSec = ORACLE_TWAP_SEC): Promise<number | null> {
+  if (!TWAP_FAMILIES.has(getDexFamily(pool.dex))) return null;
+  try {
+    const [ticks] = await getPublicClient(pool.chain).readContract({
+      address: pool.address,
+      abi: [ABIS.pool.observe],
+      functionName: "observe",
+      args: [[windowSec, 0]],
+    });
+    return twapFromCumulatives(ticks, windowSec);
+  } catch (e) {
+    // Reverts with "OLD" while the pool's observation buffer is shorter than the window
+    log.debug(`No TWAP for ${pool.address} on chain ${pool.chain}: ${errMsg(e)}`);
+    return null;
+  }
+}
+
+/** Read a pool's spot price and, where supported, its ORACLE_TWAP_SEC TWAP (pair orientation). */
+export async function readPoolPrices(
+  pair: PairConfig | StrategyConfig,
+  pool: PoolConfig,
+): Promise<PoolPrices> {
+  const [state, twap] = await Promise.all([
+    queryPool({ id: pool.address, chain: pool.chain, dex: pool.dex }, [pair.token0, pair.token1]),
+    readTwap(pool),
+  ]);
+  return {
+    spot: pairPrice(pair, pool.chain, state),
+    twap: twap === null ? null : pairPrice(pair, pool.chain, { token0: state.token0, price: twap }),
+  };
+}
+
+/**
+ * Throw PriceDeviationError when the pool's spot price, its TWAP (when known) and the M1 close
+ * `candle` are not all within the pair's deviation limit of each other.
+ */
+export function checkPriceDeviation(
+  pair: PairConfig,
+  pool: PoolConfig,
+  prices: PoolPrices,
+  candle: number,
+): void {
+  const limit = deviationLimit(pair);
+  const checks: [string, number, number][] = [["spot/candle", prices.spot, candle]];
+  if (prices.twap !== null)
+    checks.push(["twap/candle", prices.twap, candle], ["spot/twap", prices.spot, prices.twap]);
+  for (const [label, price, ref] of checks) {
+    const d = deviation(price, ref);
+    if (!(d <= limit)) {
+      throw new PriceDeviationError(
+        pair.id,
+        `${label} ${price.toPrecision(6)} vs ${ref.toPrecision(6)} on ${pool.address} (chain ${pool.chain}): ` +
+          `${(d * 100).toFixed(2)}% > ${(limit * 100).toFixed(2)}%`,
+      );
+    }
+  }
+}
@@ -0,0 +1,628 @@
+import { keccak256, stringToHex } from "viem";
+import type {
+  AllocationEntry,
+  BurnResult,
+  CompoundResult,
+  MintResult,
+  PairConfig,
+  PoolConfig,
+  Position,
+  PositionMark,
+  Range,
+  StrategyConfig,
+  SwapResult,
+} from "../types";
+import { DexFamily } from "../types";
+import type { DragonflyStore } from "../data/store-dragonfly";
+import type { ExecOps, SwapParams } from "../executor";
+import { systemClock, type Clock } from "../context";
+import { getDexFamily } from "../config/dexs";
+import { findPool } from "../config/pools";
+import { computeEntryValueUsd, tokenDecimals } from "../config/tokens";
+import { queryPool } from "../adapters/pool-query";
+import { rangeToTicks } from "../strategy/range";
+import { priceToTick } from "../../shared/format";
+import { amountsForLiquidity, computeLiquidity, tickToSqrtPriceX96 } from "./positions-v4";
+import { priceToBinId } from "./positions-lb";
+import { failedMintResult, successBurnResult } from "./positions";
+import { getPublicClient } from "./tx";
+import { pairPrice, toMark } from "./valuation";
+import { quoteShortfall, type PoolPrices } from "./oracle";
+import { fetchNativeUsd } from "../data/ohlc";
+import { ingestToO2 } from "../infra/o2";
+import { log, scaleByPct } from "../utils";
+import {
+  DEFAULT_CAPITAL_USD,
+  SECONDS_PER_YEAR,
+  LB_BIN_ID_OFFSET,
+  LB_BIN_STEP_DIVISOR,
+  LB_DEFAULT_BIN_RANGE,
+  PAPER_SWAP_COST_BPS,
+  PAPER_BRIDGE_COST_BPS,
+  PAPER_GAS_UNITS,
+  PAPER_AMOUNT_DECIMALS,
+  PRICE_DEVIATION_MAX,
+} from "../config/params";
+
+// ---- Pool quotes ----
+
+/** Pool state as seen by the paper ledger. `price` is token1 per token0 in pair orientation, decimal-adjusted. */
+export interface PaperPoolQuote {
+  price: number;
+  fee: number; // decimal (0.0005 = 5bp)
+  tickSpacing?: number;
+  binStep?: number;
+}
+
+export type PaperPoolReader = (
+  pair: PairConfig | StrategyConfig,
+  pool: PoolConfig,
+) => Promise<PaperPoolQuote>;
+export type PaperGasReader = (chain: number) => Promise<bigint>;
+export type PaperNativePriceReader = (chain: number) => Promise<number | null>;
+
+/** Read live pool state and orient it to the pair (pool-query prices are raw, in sorted token order). */
+export async function readPoolQuote(
+  pair: PairConfig | StrategyConfig,
+  pool: PoolConfig,
+): Promise<PaperPoolQuote> {
+  const state = await queryPool({ id: pool.address, chain: pool.chain, dex: pool.dex }, [
+    pair.token0,
+    pair.token1,
+  ]);
+  return {
+    price: pairPrice(pair, pool.chain, state),
+    fee: state.fee,
+    tickSpacing: state.tickSpacing,
+    binStep: state.binStep,
+  };
+}
+
+async function readGasPrice(chain: number): Promise<bigint> {
+  return getPublicClient(chain)
+    .getGasPrice()
+    .catch(() => 0n);
+}
+
+// ---- Liquidity math (amounts normalized to PAPER_AMOUNT_DECIMALS) ----
+
+const toNorm = (raw: bigint, dec: number) =>
+  dec <= PAPER_AMOUNT_DECIMALS
+    ? raw * 10n ** BigInt(PAPER_AMOUNT_DECIMALS - dec)
+    : raw / 10n ** BigInt(dec - PAPER_AMOUNT_DECIMALS);
+
+const fromNorm = (norm: bigint, dec: number) =>
+  dec <= PAPER_AMOUNT_DECIMALS
+    ? norm / 10n ** BigInt(PAPER_AMOUNT_DECIMALS - dec)
+    : norm * 10n ** BigInt(dec - PAPER_AMOUNT_DECIMALS);
+
+const binPrice = (binId: number, binStep: number) =>
+  (1 + binStep / LB_BIN_STEP_DIVISOR) ** (binId - LB_BIN_ID_OFFSET);
+
+/**
+ * Token amounts (human units) of a uniform LB position minted at `mintBin` once the active bin moves to `activeBin`.
+ * Mint layout mirrors mintLBPosition: token0 (X) spread over [mint, upper], token1 (Y) over [lower, mint].
+ * Bins the price crossed are fully converted at their own bin price.
+ */
+export function lbAmountsAt(
+  amount0: number,
+  amount1: number,
+  lowerBin: number,
+  upperBin: number,
+  mintBin: number,
+  activeBin: number,
+  binStep: number,
+): [number, number] {
+  const xPerBin = amount0 / (upperBin - mintBin + 1);
+  const yPerBin = amount1 / (mintBin - lowerBin + 1);
+  let x = 0;
+  let y = 0;
+  for (let id = lowerBin; id <= upperBin; id++) {
+    const bx = id >= mintBin ? xPerBin : 0;
+    const by = id <= mintBin ? yPerBin : 0;
+    if (id < activeBin) y += by + bx * binPrice(id, binStep);
+    else if (id > activeBin) x += bx + by / binPrice(id, binStep);
+    else {
+      x += bx;
+      y += by;
+    }
+  }
+  return [x, y];
+}
+
+// ---- Ledger ----
+
+const balanceKey = (chain: number, token: `0x${string}`) => `${chain}:${token.toLowerCase()}`;
+
+/**
+ * In-process simulated chain ledger for paper trading.
+ * Per-chain token balances persist in the strategy's DragonflyStore (seeded with `capitalUsd`
+ * on first use); fills are priced off live pool state with V3/V4/LB liquidity math.
+ */
+export class PaperLedger implements ExecOps {
+  readonly paper = true;
+  readonly clock: Clock;
+  private balances: Map<string, bigint> | null = null;
+  private seq = 0;
+  private pairId: string;
+  private capitalUsd: number;
+  private readPool: PaperPoolReader;
+  private readGas: PaperGasReader;
+  private readNativeUsd: PaperNativePriceReader;
+
+  constructor(
+    private store: DragonflyStore,
+    private pair: PairConfig | StrategyConfig,
+    opts: {
+      capitalUsd?: number;
+      readPool?: PaperPoolReader;
+      readGasPrice?: PaperGasReader;
+      readNativeUsd?: PaperNativePriceReader;
+      clock?: Clock; // fee accrual, position and journal timestamps (a replay's clock)
+    } = {},
+  ) {
+    this.pairId = "pairId" in pair ? pair.pairId : pair.id;
+    this.capitalUsd = opts.capitalUsd ?? DEFAULT_CAPITAL_USD;
+    this.readPool = opts.readPool ?? readPoolQuote;
+    this.readGas = opts.readGasPrice ?? readGasPrice;
+    this.readNativeUsd = opts.readNativeUsd ?? fetchNativeUsd;
+    this.clock = opts.clock ?? systemClock;
+  }
+
+  // ---- Balances ----
+
+  private async load(): Promise<Map<string, bigint>> {
+    if (this.balances) return this.balances;
+    const saved = await this.store.getLedger();
+    if (saved) {
+      this.balances = new Map(Object.entries(saved).map(([k, v]) => [k, BigInt(v)]));
+      return this.balances;
+    }
+    this.balances = new Map();
+    await this.seed(this.balances);
+    return this.balances;
+  }
+
+  /** Fund the first pool's chain with `capitalUsd`, split evenly between both tokens. */
+  private async seed(balances: Map<string, bigint>): Promise<void> {
+    const pool = this.pair.pools.find(
+      (p) => this.pair.token0.addresses[p.chain] && this.pair.token1.addresses[p.chain],
+    );
+    if (!pool) return;
+    const { price } = await this.readPool(this.pair, pool);
+    const half = this.capitalUsd / 2;
+    const d0 = tokenDecimals(this.pair.token0, pool.chain);
+    const d1 = tokenDecimals(this.pair.token1, pool.chain);
+    balances.set(
+      balanceKey(pool.chain, this.pair.token0.addresses[pool.chain]!),
+      BigInt(Math.floor((half / price) * 10 ** d0)),
+    );
+    balances.set(
+      balanceKey(pool.chain, this.pair.token1.addresses[pool.chain]!),
+      BigInt(Math.floor(half * 10 ** d1)),
+    );
+    await this.persist();
+    const pairId = this.pairId;
+    log.info(`Paper ledger seeded for ${pairId} with ${this.capitalUsd} on chain ${pool.chain}`, {
+      pairId,
+      chain: pool.chain,
+    });
+  }
+
+  private async persist(): Promise<void> {
+    if (!this.balances) return;
+    await this.store.saveLedger(
+      Object.fromEntries([...this.balances].map(([k, v]) => [k, v.toString()])),
+    );
+  }
+
+  private credit(chain: number, token: `0x${string}`, amount: bigint): void {
+    const key = balanceKey(chain, token);
+    this.balances!.set(key, (this.balances!.get(key) ?? 0n) + amount);
+  }
+
+  private debit(chain: number, token: `0x${string}`, amount: bigint): void {
+    const key = balanceKey(chain, token);
+    const bal = this.balances!.get(key) ?? 0n;
+    if (amount > bal) throw new Error(`Paper ledger: insufficient ${token} on chain ${chain}`);
+    this.balances!.set(key, bal - amount);
+  }
+
+  /** Pair token index (0/1) for a token address on `chain`, or null if it is not a pair token. */
+  private side(chain: number, token: `0x${string}`): 0 | 1 | null {
+    const t = token.toLowerCase();
+    if (this.pair.token0.addresses[chain]?.toLowerCase() === t) return 0;
+    if (this.pair.token1.addresses[chain]?.toLowerCase() === t) return 1;
+    return null;
+  }
+
+  private decimals(side: 0 | 1, chain: number): number {
+    return tokenDecimals(side === 0 ? this.pair.token0 : this.pair.token1, chain);
+  }
+
+  private fakeHash(op: string): `0x${string}` {
+    return keccak256(stringToHex(`paper:${this.pairId}:${op}:${this.clock.now()}:${++this.seq}`));
+  }
+
+  // ---- ExecOps ----
+
+  async getBalance(chain: number, token: `0x${string}`): Promise<bigint> {
+    return (await this.load()).get(balanceKey(chain, token)) ?? 0n;
+  }
+
+  /** Swap/bridge at the source chain's pool price, net of the pool fee and an aggregator/bridge haircut. */
+  async swap(params: SwapParams): Promise<SwapResult | null> {
+    const balances = await this.load();
+    const src = this.side(params.fromChain, params.fromToken);
+    const dst = this.side(params.toChain, params.toToken);
+    const have = balances.get(balanceKey(params.fromChain, params.fromToken)) ?? 0n;
+    if (src === null || dst === null || params.amount === 0n || params.amount > have) return null;
+
+    const pool = this.pair.pools.find((p) => p.chain === params.fromChain) ?? this.pair.pools[0];
+    if (!pool) return null;
+    const { price, fee } = await this.readPool(this.pair, pool);
+    const crossChain = params.fromChain !== params.toChain;
+    const cost =
+      (crossChain ? PAPER_BRIDGE_COST_BPS : PAPER_SWAP_COST_BPS) / 10_000 + (src !== dst ? fee : 0);
+
+    const amountIn = Number(params.amount) / 10 ** this.decimals(src, params.fromChain);
+    const valueIn1 = src === 0 ? amountIn * price : amountIn; // token1 terms
+    const amountOut = (dst === 0 ? valueIn1 / price : valueIn1) * (1 - cost);
+    const out = BigInt(Math.floor(amountOut * 10 ** this.decimals(dst, params.toChain)));
+    if (
+      params.expectedOut &&
+      quoteShortfall(params.expectedOut, out) > (params.maxDeviation ?? PRICE_DEVIATION_MAX)
+    ) {
+      log.warn(`Paper swap ${this.pairId}: fill below the expected output, skipped`, {
+        pairId: this.pairId,
+        chain: params.fromChain,
+      });
+      return null;
+    }
+
+    const sourceTxHash = this.fakeHash(crossChain ? "bridge" : "swap");
+    const balanceBefore = balances.get(balanceKey(params.toChain, params.toToken)) ?? 0n;
+    this.debit(params.fromChain, params.fromToken, params.amount);
+    await params.onSent?.({ hash: sourceTxHash, balanceBefore });
+    this.credit(params.toChain, params.toToken, out);
+    await this.persist();
+    log.info(
+      `Paper ${crossChain ? "bridge" : "swap"} ${this.pairId}: chain ${params.fromChain} -> ${params.toChain}`,
+      { pairId: this.pairId, chain: params.fromChain },
+    );
+    return { amountOut: out, sourceTxHash };
+  }
+
+  /** Paper bridges settle instantly: arrival is just a balance check. */
+  async awaitArrival(chain: number, token: `0x${string}`, balanceBefore: bigint): Promise<boolean> {
+    return (await this.getBalance(chain, token)) > balanceBefore;
+  }
+
+  async mint(
+    store: DragonflyStore,
+    pair: PairConfig,
+    allocation: AllocationEntry,
+    range: Range,
+    amount0: bigint,
+    amount1: bigint,
+  ): Promise<MintResult> {
+    await this.load();
+    const pool = findPool(pair, allocation.pool, allocation.chain);
+    const quote = await this.readPool(pair, pool);
+    const gasPrice = await this.readGas(pool.chain);
+    const hash = this.fakeHash("mint");
+    const tx = { hash, gasUsed: PAPER_GAS_UNITS.mint, gasPrice };
+    const d0 = tokenDecimals(pair.token0, pool.chain);
+    const d1 = tokenDecimals(pair.token1, pool.chain);
+
+    let mint: Pick<
+      Position,
+      "positionId" | "tickLower" | "tickUpper" | "liquidity" | "amount0" | "amount1"
+    >;
+    if (getDexFamily(pool.dex) === DexFamily.LB) {
+      // Same bin layout as mintLBPosition: symmetric around the active bin
+      const binStep = quote.binStep ?? 1;
+      const activeBin = priceToBinId(quote.price, binStep);
+      const halfRange = Math.max(
+        LB_DEFAULT_BIN_RANGE,
+        Math.floor((priceToBinId(range.max, binStep) - priceToBinId(range.min, binStep)) / 2),
+      );
+      const lower = activeBin - halfRange;
+      const upper = activeBin + halfRange;
+      mint = {
+        positionId: `lb:${lower}:${upper}`,
+        tickLower: lower,
+        tickUpper: upper,
+        liquidity: 0n,
+        amount0,
+        amount1,
+      };
+    } else {
+      const { tickLower, tickUpper } = rangeToTicks(range, quote.tickSpacing ?? 1);
+      const sqrtP = tickToSqrtPriceX96(priceToTick(quote.price));
+      const liquidity = computeLiquidity(
+        sqrtP,
+        tickLower,
+        tickUpper,
+        toNorm(amount0, d0),
+        toNorm(amount1, d1),
+      );
+      if (liquidity === 0n) return failedMintResult(tx);
+      const [used0, used1] = amountsForLiquidity(sqrtP, tickLower, tickUpper, liquidity);
+      mint = {
+        positionId: `paper:${hash.slice(2, 18)}`,
+        tickLower,
+        tickUpper,
+        liquidity,
+        amount0: fromNorm(used0, d0),
+        amount1: fromNorm(used1, d1),
+      };
+    }
+
+    const t0 = pair.token0.addresses[pool.chain]!;
+    const t1 = pair.token1.addresses[pool.chain]!;
+    this.debit(pool.chain, t0, mint.amount0);
+    this.debit(pool.chain, t1, mint.amount1);
+    await this.persist();
+
+    const now = this.clock.now();
+    const position: Position = {
+      id: `${pool.chain}:${pool.address.length > 42 ? pool.address.slice(0, 20) : pool.address}:${now}`,
+      pool: pool.address,
+      chain: pool.chain,
+      dex: pool.dex,
+      ...mint,
+      entryPrice: range.base,
+      entryTs: now,
+      entryApr: allocation.expectedApr,
+      entryValueUsd: computeEntryValueUsd(pair, pool.chain, mint.amount0, mint.amount1),
+    };
+    await store.savePosition(position);
+    ingestToO2("positions", [{ event: "mint", pairId: pair.id, ...position, paper: true }]);
+    log.info(`Paper position minted: ${position.id} ticks=[${mint.tickLower},${mint.tickUpper}]`);
+    return { position, txHash: hash, gasUsed: tx.gasUsed, gasPrice };
+  }
+
+  /**
+   * Amounts a position holds at the current pool price, plus fees accrued at the entry APR
+   * (pro rata on those amounts) since mint or the last compound, while the price is in range.
+   */
+  private async valueAt(
+    position: Position,
+    pair: PairConfig,
+  ): Promise<{
+    pool: PoolConfig;
+    price: number;
+    amounts: [bigint, bigint];
+    fees: [bigint, bigint];
+  }> {
+    const pool = findPool(pair, position.pool, position.chain);
+    const quote = await this.readPool(pair, pool);
+    const d0 = tokenDecimals(pair.token0, pool.chain);
+    const d1 = tokenDecimals(pair.token1, pool.chain);
+
+    let amount0: bigint;
+    let amount1: bigint;
+    let inRange: boolean;
+    if (getDexFamily(position.dex) === DexFamily.LB) {
+      const binStep = quote.binStep ?? 1;
+      const activeBin = priceToBinId(quote.price, binStep);
+      const mintBin = Math.round((position.tickLower + position.tickUpper) / 2);
+      const [x, y] = lbAmountsAt(
+        Number(position.amount0) / 10 ** d0,
+        Number(position.amount1) / 10 ** d1,
+        position.tickLower,
+        position.tickUpper,
+        mintBin,
+        activeBin,
+        binStep,
+      );
+      amount0 = BigInt(Math.floor(x * 10 ** d0));
+      amount1 = BigInt(Math.floor(y * 10 ** d1));
+      inRange = activeBin >= position.tickLower && activeBin <= position.tickUpper;
+    } else {
+      const tick = priceToTick(quote.price);
+      const [n0, n1] = amountsForLiquidity(
+        tickToSqrtPriceX96(tick),
+        position.tickLower,
+        position.tickUpper,
+        position.liquidity,
+      );
+      amount0 = fromNorm(n0, d0);
+      amount1 = fromNorm(n1, d1);
+      inRange = tick >= position.tickLower && tick < position.tickUpper;
+    }
+
+    let fees: [bigint, bigint] = [0n, 0n];
+    if (inRange) {
+      const since = position.compoundTs ?? position.entryTs;
+      const elapsedSec = Math.max(0, (this.clock.now() - since) / 1000);
+      const accrual = (position.entryApr * elapsedSec) / SECONDS_PER_YEAR;
+      fees = [scaleByPct(amount0, accrual), scaleByPct(amount1, accrual)];
+    }
+    return { pool, price: quote.price, amounts: [amount0, amount1], fees };
+  }
+
+  /** Withdraw at the current pool price, collecting accrued fees. */
+  async burn(position: Position, pair: PairConfig): Promise<BurnResult | null> {
+    await this.load();
+    const { pool, amounts, fees } = await this.valueAt(position, pair);
+    const amount0 = amounts[0] + fees[0];
+    const amount1 = amounts[1] + fees[1];
+
+    this.credit(pool.chain, pair.token0.addresses[pool.chain]!, amount0);
+    this.credit(pool.chain, pair.token1.addresses[pool.chain]!, amount1);
+    await this.persist();
+
+    const gasPrice = await this.readGas(pool.chain);
+    log.info(`Paper position burned: ${position.id}`);
+    return successBurnResult(
+      amount0,
+      amount1,
+      { hash: this.fakeHash("burn"), gasUsed: PAPER_GAS_UNITS.burn, gasPrice },
+      fees,
+    );
+  }
+
+  /** Paper positions keep their liquidity until burned (dropped from the store). */
+  liquidity(position: Position): Promise<bigint> {
+    return Promise.resolve(position.liquidity);
+  }
+
+  /** Paper transactions settle in-process: any journaled one has landed. */
+  txStatus(): Promise<"success" | "reverted" | null> {
+    return Promise.resolve("success");
+  }
+
+  /**
+   * Withdraw `liquidity` at the current pool price (pro rata of the position's amounts),
+   * collecting all accrued fees with it.
+   */
+  async decrease(
+    position: Position,
+    pair: PairConfig,
+    liquidity: bigint,
+  ): Promise<BurnResult | null> {
+    if (getDexFamily(position.dex) === DexFamily.LB || position.liquidity <= 0n) return null;
+    await this.load();
+    const { pool, amounts, fees } = await this.valueAt(position, pair);
+    const removed = liquidity < position.liquidity ? liquidity : position.liquidity;
+    const amount0 = (amounts[0] * removed) / position.liquidity + fees[0];
+    const amount1 = (amounts[1] * removed) / position.liquidity + fees[1];
+
+    this.credit(pool.chain, pair.token0.addresses[pool.chain]!, amount0);
+    this.credit(pool.chain, pair.token1.addresses[pool.chain]!, amount1);
+    await this.persist();
+
+    const gasPrice = await this.readGas(pool.chain);
+    log.info(`Paper position decreased: ${position.id}`);
+    return successBurnResult(
+      amount0,
+      amount1,
+      { hash: this.fakeHash("decrease"), gasUsed: PAPER_GAS_UNITS.decrease, gasPrice },
+      fees,
+    );
+  }
+
+  /** Collect accrued fees and reinvest them (V3/V4 liquidity math). LB positions are not compounded. */
+  compound(position: Position, pair: PairConfig): Promise<CompoundResult | null> {
+    if (getDexFamily(position.dex) === DexFamily.LB) return Promise.resolve(null);
+    return this.increase(position, pair);
+  }
+
+  /**
+   * Collect accrued fees, then add them with `amount0`/`amount1` from the ledger as liquidity:
+   * the part that fits the range at the current price; the remainder stays in the ledger.
+   */
+  async increase(
+    position: Position,
+    pair: PairConfig,
+    amount0 = 0n,
+    amount1 = 0n,
+  ): Promise<CompoundResult | null> {
+    if (getDexFamily(position.dex) === DexFamily.LB)
+      return this.increaseLB(position, pair, amount0, amount1);
+    await this.load();
+    const { pool, price, fees } = await this.valueAt(position, pair);
+    const t0 = pair.token0.addresses[pool.chain]!;
+    const t1 = pair.token1.addresses[pool.chain]!;
+    this.credit(pool.chain, t0, fees[0]);
+    this.credit(pool.chain, t1, fees[1]);
+
+    const d0 = tokenDecimals(pair.token0, pool.chain);
+    const d1 = tokenDecimals(pair.token1, pool.chain);
+    const sqrtP = tickToSqrtPriceX96(priceToTick(price));
+    const liquidity = computeLiquidity(
+      sqrtP,
+      position.tickLower,
+      position.tickUpper,
+      toNorm(fees[0] + amount0, d0),
+      toNorm(fees[1] + amount1, d1),
+    );
+    const [n0, n1] = amountsForLiquidity(sqrtP, position.tickLower, position.tickUpper, liquidity);
+    const used: [bigint, bigint] = [fromNorm(n0, d0), fromNorm(n1, d1)];
+    this.debit(pool.chain, t0, used[0]);
+    this.debit(pool.chain, t1, used[1]);
+    await this.persist();
+
+    const gasPrice = await this.readGas(pool.chain);
+    const topUp = amount0 > 0n || amount1 > 0n;
+    log.info(`Paper position ${topUp ? "increased" : "compounded"}: ${position.id}`);
+    return {
+      success: true,
+      fees0: fees[0],
+      fees1: fees[1],
+      amount0: used[0],
+      amount1: used[1],
+      liquidity,
+      hash: this.fakeHash(topUp ? "increase" : "compound"),
+      gasUsed: topUp ? PAPER_GAS_UNITS.increase : PAPER_GAS_UNITS.compound,
+      gasPrice,
+    };
+  }
+
+  /**
+   * Add `amount0`/`amount1` from the ledger to an LB position at its current bin composition:
+   * the largest share of its amounts the deposit covers (fees stay in-bin, nothing is collected).
+   * The added amounts join the position's mint-layout amounts that valueAt prices.
+   */
+  private async increaseLB(
+    position: Position,
+    pair: PairConfig,
+    amount0: bigint,
+    amount1: bigint,
+  ): Promise<CompoundResult | null> {
+    await this.load();
+    const { pool, amounts } = await this.valueAt(position, pair);
+    const fits = [amount0, amount1]
+      .map((a, i) => (amounts[i] > 0n ? Number(a) / Number(amounts[i]) : Infinity))
+      .filter((f) => f < Infinity);
+    const scale = fits.length ? Math.min(...fits) : 0;
+    if (scale <= 0) return null;
+    const used: [bigint, bigint] = [scaleByPct(amounts[0], scale), scaleByPct(amounts[1], scale)];
+    this.debit(pool.chain, pair.token0.addresses[pool.chain]!, used[0]);
+    this.debit(pool.chain, pair.token1.addresses[pool.chain]!, used[1]);
+    await this.persist();
+
+    const gasPrice = await this.readGas(pool.chain);
+    log.info(`Paper position increased: ${position.id}`);
+    return {
+      success: true,
+      fees0: 0n,
+      fees1: 0n,
+      amount0: used[0],
+      amount1: used[1],
+      liquidity: 0n,
+      hash: this.fakeHash("increase"),
+      gasUsed: PAPER_GAS_UNITS.increase,
+      gasPrice,
+    };
+  }
+
+  // ---- Valuation ----
+
+  /** Mark positions with the same pricing and fee accrual a burn would settle at. */
+  async markPositions(pair: PairConfig, positions: Position[]): Promise<PositionMark[]> {
+    return Promise.all(
+      positions.map(async (p) => {
+        const { price, amounts, fees } = await this.valueAt(p, pair);
+        return toMark(pair, p, amounts, fees, price);
+      }),
+    );
+  }
+
+  nativeUsd(chain: number): Promise<number | null> {
+    return this.readNativeUsd(chain);
+  }
+
+  /** Pool spot from the pool reader; paper runs skip the on-chain TWAP. */
+  async poolPrices(pair: PairConfig, pool: PoolConfig): Promise<PoolPrices> {
+    const { price } = await this.readPool(pair, pool);
+    return { spot: price, twap: null };
+  }
+
+  /** Tick spacing from the pool reader, as `mint` aligns ranges (1 where unknown). */
+  async tickSpacing(pair: PairConfig, pool: PoolConfig): Promise<number> {
+    return (await this.readPool(pair, pool)).tickSpacing ?? 1;
+  }
+}
@@ -0,0 +1,453 @@
+import type { RedisClient } from "bun";
+import {
+  decodeAbiParameters,
+  decodeFunctionData,
+  formatUnits,
+  hexToBytes,
+  parseUnits,
+  zeroAddress,
+  type Abi,
+  type PublicClient,
+} from "viem";
+import type { PairConfig, TokenConfig } from "../types";
+import { ABIS, dexes, PCS_V4_POSITION_MANAGER, V4_POSITION_MANAGER } from "../config/dexs";
+import {
+  LIFI_DIAMOND,
+  PERMIT2,
+  POLICY_EPOCH_SEC,
+  V4_BURN_POSITION,
+  V4_DECREASE_LIQUIDITY,
+  V4_INCREASE_LIQUIDITY,
+  V4_MINT_POSITION,
+  V4_SETTLE_PAIR,
+  V4_TAKE_PAIR,
+} from "../config/params";
+import { tokenDecimals } from "../config/tokens";
+import { KEYS } from "../infra/redis";
+import { sortTokens } from "../utils";
+
+// ---- Transaction policy ----
+// Off-chain counterpart of the BTRPolicyModule planned for the Safe migration
+// (docs/migration-smart-accounts.md). Before a strategy account signs anything, the call must target
+// an allowlisted contract of its chain (position managers, PERMIT2, LIFI_DIAMOND, the pair's pools
+// and tokens) with a selector the bot uses on that kind of contract, pay out to the account only,
+// and keep what it can pull from the wallet within the pair's per-token spendCaps for the current
+// POLICY_EPOCH_SEC epoch. Approvals are bounded by what is left of that cap, and native value by the
+// native currency the call settles (V4 pools on native ETH, Li.Fi swaps from it). Violations throw
+// PolicyError before simulation. Spends are recorded once broadcast, in DragonflyDB (in memory when
+// no client is bound). Senders bound to no pair (operator scripts) are not vetted.
+
+/** Thrown when a transaction breaks the sender's policy; nothing was signed. */
+export class PolicyError extends Error {
+  constructor(
+    public readonly chainId: number,
+    public readonly to: `0x${string}`,
+    reason: string,
+  ) {
+    super(`TX policy refused on chain ${chainId} to=${to}: ${reason}`);
+    this.name = "PolicyError";
+  }
+}
+
+/** Amount of a token a transaction may pull from the account (at most). */
+export interface Spend {
+  token: `0x${string}`;
+  amount: bigint;
+}
+
+/** Pair fields a policy is built from. */
+export type TxPolicy = Pick<PairConfig, "token0" | "token1" | "pools" | "spendCaps">;
+
+type TargetKind = "token" | "pool" | "permit2" | "pm" | "lbRouter" | "v4pm" | "lifi";
+
+/** What a decoded call does with the account's funds. */
+interface CallEffects {
+  recipients: string[]; // where outputs (tokens, positions, refunds) are sent
+  spenders: string[]; // approved to pull the account's tokens
+  approvals: Spend[]; // allowances granted to the spenders (ERC-20 and Permit2)
+  spends: Spend[]; // the native currency (zeroAddress) is paid as the call's value
+}
+
+// Selectors the bot sends per kind of target; Li.Fi calldata is decoded by the diamond itself
+const KIND_ABIS = {
+  token: [ABIS.erc20.approve],
+  pool: [ABIS.lbRouter.approveForAll],
+  permit2: [ABIS.permit2.approve],
+  pm: [
+    ABIS.univ3.mint,
+    ABIS.algebra.mint,
+    ABIS.univ3.increaseLiquidity,
+    ABIS.univ3.decreaseLiquidity,
+    ABIS.univ3.collect,
+  ],
+  lbRouter: [ABIS.lbRouter.addLiquidity, ABIS.lbRouter.removeLiquidity],
+  v4pm: [ABIS.v4pm.modifyLiquidities],
+} as const satisfies Record<Exclude<TargetKind, "lifi">, Abi>;
+
+// Targets an approval may name
+const SPENDER_KINDS = new Set<TargetKind>(["permit2", "pm", "lbRouter", "v4pm", "lifi"]);
+
+let _redis: RedisClient | null = null;
+const policies = new Map<string, TxPolicy>();
+const memSpent = new Map<string, { epoch: number; spent: Map<string, bigint> }>();
+
+/** Bind a Redis client to persist the spend ledger across restarts. Call once at startup. */
+export function setPolicyRedis(redis: RedisClient | null): void {
+  _redis = redis;
+}
+
+/** Vet every transaction of `account` against `policy` (null: stop vetting it). */
+export function bindTxPolicy(account: `0x${string}`, policy: TxPolicy | null): void {
+  if (policy) policies.set(account.toLowerCase(), policy);
+  else policies.delete(account.toLowerCase());
+}
+
+/** Index of the spend-cap epoch containing `now` (ms). */
+export const policyEpoch = (now = Date.now()) => Math.floor(now / 1000 / POLICY_EPOCH_SEC);
+
+const senderKey = (chainId: number, account: string) => `${chainId}:${account.toLowerCase()}`;
+const isContract = (a: string) => a.length === 42; // V4 pools are 32-byte ids, not contracts
+
+/** Allowlisted contracts of `chainId` for `policy`, by lowercased address. */
+function allowedTargets(policy: TxPolicy, chainId: number): Map<string, TargetKind> {
+  const targets = new Map<string, TargetKind>();
+  const add = (address: string | undefined, kind: TargetKind) => {
+    if (address) targets.set(address.toLowerCase(), kind);
+  };
+  for (const dex of Object.values(dexes))
+    add(dex.positionManager[chainId], dex.type === "lb" ? "lbRouter" : "pm");
+  add(V4_POSITION_MANAGER[chainId], "v4pm");
+  add(PCS_V4_POSITION_MANAGER[chainId], "v4pm");
+  add(PERMIT2, "permit2");
+  add(LIFI_DIAMOND, "lifi");
+  for (const pool of policy.pools)
+    if (pool.chain === chainId && isContract(pool.address)) add(pool.address, "pool");
+  add(policy.token0.addresses[chainId], "token");
+  add(policy.token1.addresses[chainId], "token");
+  return targets;
+}
+
+// ---- Calldata decoding ----
+
+const V4_MINT_PARAMS = (pcs: boolean) =>
+  [
+    { type: "tuple", components: pcs ? ABIS.v4PoolKey.pcs : ABIS.v4PoolKey.uni },
+    { type: "int24" },
+    { type: "int24" },
+    { type: "uint256" },
+    { type: "uint128" },
+    { type: "uint128" },
+    { type: "address" },
+    { type: "bytes" },
+  ] as const;
+const V4_INCREASE_PARAMS = [
+  { type: "uint256" },
+  { type: "uint256" },
+  { type: "uint128" },
+  { type: "uint128" },
+  { type: "bytes" },
+] as const;
+const V4_PAIR_PARAMS = [{ type: "address" }, { type: "address" }] as const;
+const V4_TAKE_PARAMS = [{ type: "address" }, { type: "address" }, { type: "address" }] as const;
+
+/**
+ * Effects of a V4 modifyLiquidities batch: mint/increase maximums are paid through SETTLE_PAIR's
+ * currencies; MINT_POSITION and TAKE_PAIR name recipients. Other actions are refused.
+ * @returns the effects, or a refusal reason
+ */
+function decodeV4Actions(unlockData: `0x${string}`, pcs: boolean): CallEffects | string {
+  const [actions, params] = decodeAbiParameters(
+    [{ type: "bytes" }, { type: "bytes[]" }],
+    unlockData,
+  );
+  const recipients: string[] = [];
+  let [max0, max1] = [0n, 0n];
+  let currencies: readonly [`0x${string}`, `0x${string}`] | null = null;
+  for (const [i, action] of hexToBytes(actions).entries()) {
+    if (action === V4_MINT_POSITION) {
+      const [, , , , a0, a1, recipient] = decodeAbiParameters(V4_MINT_PARAMS(pcs), params[i]);
+      [max0, max1] = [max0 + a0, max1 + a1];
+      recipients.push(recipient);
+    } else if (action === V4_INCREASE_LIQUIDITY) {
+      const [, , a0, a1] = decodeAbiParameters(V4_INCREASE_PARAMS, params[i]);
+      [max0, max1] = [max0 + a0, max1 + a1];
+    } else if (action === V4_SETTLE_PAIR) {
+      currencies = decodeAbiParameters(V4_PAIR_PARAMS, params[i]);
+    } else if (action === V4_TAKE_PAIR) {
+      recipients.push(decodeAbiParameters(V4_TAKE_PARAMS, params[i])[2]);
+    } else if (action !== V4_DECREASE_LIQUIDITY && action !== V4_BURN_POSITION) {
+      return `V4 action 0x${action.toString(16).padStart(2, "0")} not allowed`;
+    }
+  }
+  const spends = currencies
+    ? [
+        { token: currencies[0], amount: max0 },
+        { token: currencies[1], amount: max1 },
+      ]
+    : [];
+  return { recipients, spenders: [], approvals: [], spends };
+}
+
+/** Main parameters of Li.Fi calldata, as read by the diamond's CalldataVerificationFacet. */
+export interface LifiCall {
+  asset: `0x${string}`; // spent asset (zeroAddress: native)
+  amount: bigint;
+  receiver: `0x${string}`;
+  destChainId: number | null; // null: same-chain generic swap
+  destinationCall: boolean;
+}
+
+/** Decode Li.Fi calldata through the diamond's verification facet (null: not decodable). */
+export async function readLifiCall(
+  pub: PublicClient,
+  data: `0x${string}`,
+): Promise<LifiCall | null> {
+  // Bridge calldata first: a generic swap's leading transaction id never decodes as bridge data
+  try {
+    const [, asset, receiver, amount, destChainId, , destinationCall] = await pub.readContract({
+      address: LIFI_DIAMOND,
+      abi: [ABIS.lifi.extractMainParameters],
+      functionName: "extractMainParameters",
+      args: [data],
+    });
+    return { asset, amount, receiver, destChainId: Number(destChainId), destinationCall };
+  } catch {
+    /* not a bridge call */
+  }
+  try {
+    const [asset, amount, receiver] = await pub.readContract({
+      address: LIFI_DIAMOND,
+      abi: [ABIS.lifi.extractGenericSwapParameters],
+      functionName: "extractGenericSwapParameters",
+      args: [data],
+    });
+    return { asset, amount, receiver, destChainId: null, destinationCall: false };
+  } catch {
+    return null;
+  }
+}
+
+/** Spending asset, amount and receiver of Li.Fi calldata. */
+async function decodeLifi(pub: PublicClient, data: `0x${string}`): Promise<CallEffects | string> {
+  const call = await readLifiCall(pub, data);
+  if (!call) return "calldata not decodable by the Li.Fi diamond";
+  if (call.destinationCall) return "Li.Fi bridge with a destination call";
+  return {
+    recipients: [call.receiver],
+    spenders: [],
+    approvals: [],
+    spends: [{ token: call.asset, amount: call.amount }],
+  };
+}
+
+/**
+ * Effects of a call to an allowlisted non-Li.Fi target `to`.
+ * `pairTokens` (sorted) pay a V3 increaseLiquidity, whose calldata only names the position.
+ * @returns the effects, or a refusal reason
+ */
+function decodeCall(
+  kind: Exclude<TargetKind, "lifi">,
+  to: `0x${string}`,
+  data: `0x${string}`,
+  pairTokens: readonly [`0x${string}`, `0x${string}`],
+  pcs = false,
+): CallEffects | string {
+  const decode = <const A extends Abi>(abi: A) => {
+    try {
+      return decodeFunctionData({ abi, data });
+    } catch {
+      return null;
+    }
+  };
+  const refused = `selector ${data.slice(0, 10)} not allowed on a ${kind} target`;
+  const none: CallEffects = { recipients: [], spenders: [], approvals: [], spends: [] };
+  switch (kind) {
+    case "token": {
+      const call = decode(KIND_ABIS.token);
+      if (!call) return refused;
+      const [spender, amount] = call.args;
+      return { ...none, spenders: [spender], approvals: [{ token: to, amount }] };
+    }
+    case "pool": {
+      const call = decode(KIND_ABIS.pool);
+      return call ? { ...none, spenders: [call.args[0]] } : refused;
+    }
+    case "permit2": {
+      const call = decode(KIND_ABIS.permit2);
+      if (!call) return refused;
+      const [token, spender, amount] = call.args;
+      return { ...none, spenders: [spender], approvals: [{ token, amount }] };
+    }
+    case "pm": {
+      const call = decode(KIND_ABIS.pm);
+      if (!call) return refused;
+      if (call.functionName === "mint") {
+        const [p] = call.args;
+        return {
+          ...none,
+          recipients: [p.recipient],
+          spends: [
+            { token: p.token0, amount: p.amount0Desired },
+            { token: p.token1, amount: p.amount1Desired },
+          ],
+        };
+      }
+      if (call.functionName === "increaseLiquidity") {
+        const [p] = call.args;
+        return {
+          ...none,
+          spends: [
+            { token: pairTokens[0], amount: p.amount0Desired },
+            { token: pairTokens[1], amount: p.amount1Desired },
+          ],
+        };
+      }
+      if (call.functionName === "collect") return { ...none, recipients: [call.args[0].recipient] };
+      return none; // decreaseLiquidity: proceeds stay in the position until collected
+    }
+    case "lbRouter": {
+      const call = decode(KIND_ABIS.lbRouter);
+      if (!call) return refused;
+      if (call.functionName === "removeLiquidity") return { ...none, recipients: [call.args[7]] };
+      const [p] = call.args;
+      return {
+        ...none,
+        recipients: [p.to, p.refundTo],
+        spends: [
+          { token: p.tokenX, amount: p.amountX },
+          { token: p.tokenY, amount: p.amountY },
+        ],
+      };
+    }
+    case "v4pm": {
+      const call = decode(KIND_ABIS.v4pm);
+      return call ? decodeV4Actions(call.args[0], pcs) : refused;
+    }
+  }
+}
+
+// ---- Spend ledger ----
+
+async function readSpent(
+  chainId: number,
+  account: string,
+  epoch: number,
+  token: string,
+): Promise<bigint> {
+  if (!_redis) {
+    const mem = memSpent.get(senderKey(chainId, account));
+    return mem?.epoch === epoch ? (mem.spent.get(token) ?? 0n) : 0n;
+  }
+  const raw = (await _redis.send("HGET", [
+    KEYS.policySpent(chainId, account.toLowerCase(), epoch),
+    token,
+  ])) as string | null;
+  return raw === null ? 0n : BigInt(raw);
+}
+
+/** Add a broadcast transaction's spends to the current epoch's ledger. */
+export async function recordSpend(
+  chainId: number,
+  account: string,
+  spends: Spend[],
+  now = Date.now(),
+): Promise<void> {
+  const epoch = policyEpoch(now);
+  for (const { token, amount } of spends) {
+    const key = token.toLowerCase();
+    const total = (await readSpent(chainId, account, epoch, key)) + amount;
+    if (_redis) {
+      const hash = KEYS.policySpent(chainId, account.toLowerCase(), epoch);
+      await _redis.send("HSET", [hash, key, total.toString()]);
+      await _redis.send("PEXPIRE", [hash, String(2 * POLICY_EPOCH_SEC * 1000)]);
+      continue;
+    }
+    const sender = senderKey(chainId, account);
+    if (memSpent.get(sender)?.epoch !== epoch) memSpent.set(sender, { epoch, spent: new Map() });
+    memSpent.get(sender)!.spent.set(key, total);
+  }
+}
+
+/** Raw epoch cap of `token` on `chainId` (null: uncapped). */
+function spendCap(policy: TxPolicy, token: TokenConfig, chainId: number): bigint | null {
+  const cap = policy.spendCaps?.[token.symbol];
+  if (cap === undefined) return null;
+  const decimals = tokenDecimals(token, chainId);
+  return parseUnits(cap.toFixed(decimals), decimals);
+}
+
+// ---- Vetting ----
+
+/**
+ * Vet a transaction of `account` before it is signed. Throws PolicyError when the target,
+ * selector, a recipient, a spender or the epoch's spend caps rule it out.
+ * @returns what it may pull from the wallet, to record once broadcast ([] for unbound senders)
+ */
+export async function vetTx(
+  pub: PublicClient,
+  chainId: number,
+  account: `0x${string}`,
+  tx: { to: `0x${string}`; data: `0x${string}`; value?: bigint },
+): Promise<Spend[]> {
+  const policy = policies.get(account.toLowerCase());
+  if (!policy) return [];
+  const refuse = (reason: string): never => {
+    throw new PolicyError(chainId, tx.to, reason);
+  };
+
+  const targets = allowedTargets(policy, chainId);
+  const kind = targets.get(tx.to.toLowerCase()) ?? refuse("target not allowlisted");
+
+  const tokens = [policy.token0, policy.token1];
+  const [t0, t1] = tokens.map((t) => t.addresses[chainId]);
+  const pcs = tx.to.toLowerCase() === PCS_V4_POSITION_MANAGER[chainId]?.toLowerCase();
+  const effects =
+    kind === "lifi"
+      ? await decodeLifi(pub, tx.data)
+      : decodeCall(kind, tx.to, tx.data, sortTokens(t0, t1), pcs);
+  if (typeof effects === "string") return refuse(effects);
+
+  const native = effects.spends
+    .filter((s) => s.token === zeroAddress)
+    .reduce((sum, s) => sum + s.amount, 0n);
+  if (tx.value && tx.value > native)
+    refuse(`native value ${tx.value} over the ${native} the call settles`);
+
+  const self = account.toLowerCase();
+  for (const r of effects.recipients)
+    if (r.toLowerCase() !== self) refuse(`recipient ${r} is not the strategy account`);
+  for (const s of effects.spenders)
+    if (!SPENDER_KINDS.has(targets.get(s.toLowerCase())!)) refuse(`spender ${s} not allowlisted`);
+
+  const epoch = policyEpoch();
+  const pairToken = (address: string) =>
+    tokens.find((t) => t.addresses[chainId]?.toLowerCase() === address.toLowerCase()) ??
+    refuse(`spends ${address.toLowerCase()}, not a pair token`);
+  // Allowances only let the spender pull later: bounded by the cap left, not recorded
+  for (const { token: address, amount } of effects.approvals) {
+    const token = pairToken(address);
+    const cap = spendCap(policy, token, chainId);
+    if (cap === null) continue;
+    const left = cap - (await readSpent(chainId, account, epoch, address.toLowerCase()));
+    if (amount > left) {
+      const fmt = (v: bigint) => formatUnits(v, tokenDecimals(token, chainId));
+      refuse(`${token.symbol} approval ${fmt(amount)} over the ${fmt(left)} left of the epoch cap`);
+    }
+  }
+  const totals = new Map<string, bigint>();
+  for (const { token, amount } of effects.spends)
+    totals.set(token.toLowerCase(), (totals.get(token.toLowerCase()) ?? 0n) + amount);
+  for (const [address, amount] of totals) {
+    const token = pairToken(address);
+    const cap = spendCap(policy, token, chainId);
+    if (cap === null) continue;
+    const spent = await readSpent(chainId, account, epoch, address);
+    if (spent + amount > cap) {
+      const fmt = (v: bigint) => formatUnits(v, tokenDecimals(token, chainId));
+      refuse(
+        `${token.symbol} spend ${fmt(amount)} over the epoch cap (${fmt(spent)} of ${fmt(cap)} spent)`,
+      );
+    }
+  }
+  return [...totals].map(([token, amount]) => ({ token: token as `0x${string}`, amount }));
+}
@@ -7,16 +7,30 @@ import type {
   Range,
   MintResult,
   BurnResult,
+  CompoundResult,
 } from "../types";
 import { findPool } from "../config/pools";
 import { getDex, ABIS } from "../config/dexs";
-import { getPublicClient, getAccount, sendAndWait, approveTokenPair, requireAddress } from "./tx";
+import {
+  getPublicClient,
+  sendAndWait,
+  approveTokenPair,
+  requireAddress,
+  type Signer,
+  type TxResult,
+} from "./tx";
+import { batchRead } from "./multicall";
+import { quorumReads } from "./quorum";
+import { getBalance } from "./swap";
 import {
   applySlippage,
+  poolSlippageBps,
+  simulateMint,
   buildAndSaveMintResult,
   checkMintRevert,
   checkBurnRevert,
   successBurnResult,
+  failedCompoundResult,
 } from "./positions";
 import { log } from "../utils";
 import {
@@ -63,6 +77,92 @@ export function buildDistributions(deltaIds: bigint[]): {
   return { distributionX, distributionY };
 }
 
+// ---- Add liquidity ----
+
+interface LBPoolState {
+  activeId: number;
+  binStep: number;
+  tokenX: `0x${string}`;
+  tokenY: `0x${string}`;
+}
+
+/** Active bin, bin step and tokens of an LB pair, cross-checked: a stale active id would misplace bins. */
+async function readLBPoolState(chain: number, pool: `0x${string}`): Promise<LBPoolState> {
+  const [activeId, binStep, tokenX, tokenY] = await quorumReads<
+    [number, number, `0x${string}`, `0x${string}`]
+  >(chain, [
+    { address: pool, abi: [ABIS.lb.getActiveId], functionName: "getActiveId" },
+    { address: pool, abi: [ABIS.lb.getBinStep], functionName: "getBinStep" },
+    { address: pool, abi: [ABIS.lb.getTokenX], functionName: "getTokenX" },
+    { address: pool, abi: [ABIS.lb.getTokenY], functionName: "getTokenY" },
+  ]);
+  return { activeId: Number(activeId), binStep: Number(binStep), tokenX, tokenY };
+}
+
+/**
+ * Router addLiquidity of `amount0`/`amount1` (pair order) spread uniformly over `deltaIds`
+ * around the active bin (X at and above it, Y at and below), sent from `signer`'s wallet.
+ */
+async function sendAddLiquidity(
+  pair: PairConfig,
+  chain: number,
+  pool: `0x${string}`,
+  router: `0x${string}`,
+  state: LBPoolState,
+  deltaIds: bigint[],
+  amount0: bigint,
+  amount1: bigint,
+  signer: Signer,
+): Promise<TxResult> {
+  // Match pair token ordering to pool's tokenX/tokenY
+  const xIs0 = pair.token0.addresses[chain]?.toLowerCase() === state.tokenX.toLowerCase();
+  const amountX = xIs0 ? amount0 : amount1;
+  const amountY = xIs0 ? amount1 : amount0;
+  const { distributionX, distributionY } = buildDistributions(deltaIds);
+
+  // Approve tokens to router sequentially
+  await approveTokenPair(pair, chain, router, amount0, amount1, signer);
+
+  const deadline = txDeadline();
+  const addLiquidity = (amountXMin: bigint, amountYMin: bigint) => ({
+    address: router,
+    abi: [ABIS.lbRouter.addLiquidity],
+    functionName: "addLiquidity" as const,
+    args: [
+      {
+        tokenX: state.tokenX,
+        tokenY: state.tokenY,
+        binStep: BigInt(state.binStep),
+        amountX,
+        amountY,
+        amountXMin,
+        amountYMin,
+        activeIdDesired: BigInt(state.activeId),
+        idSlippage: LB_ID_SLIPPAGE,
+        deltaIds,
+        distributionX,
+        distributionY,
+        to: signer.address,
+        refundTo: signer.address,
+        deadline,
+      },
+    ] as const,
+  });
+
+  // Minimums from the simulated deposit: the active bin only takes tokens at its own composition
+  // and the router refunds the rest, so the desired amounts overstate what is deposited
+  const [addedX, addedY] = (await simulateMint(
+    chain,
+    signer.address,
+    addLiquidity(0n, 0n),
+  )) as readonly [bigint, bigint, ...unknown[]];
+  const slippageBps = poolSlippageBps(pair, pool);
+  const data = encodeFunctionData(
+    addLiquidity(applySlippage(addedX, slippageBps), applySlippage(addedY, slippageBps)),
+  );
+  return sendAndWait(chain, signer, { to: router, data });
+}
+
 // ---- Mint ----
 
 export async function mintLBPosition(
@@ -72,7 +172,7 @@ export async function mintLBPosition(
   range: Range,
   amount0: bigint,
   amount1: bigint,
-  privateKey: `0x${string}`,
+  signer: Signer,
 ): Promise<MintResult> {
   const pool = findPool(pair, allocation.pool, allocation.chain);
 
@@ -82,84 +182,33 @@ export async function mintLBPosition(
     `${pool.dex} LB router chain ${pool.chain}`,
   );
 
-  const client = getPublicClient(pool.chain);
-  const account = getAccount(privateKey);
-
-  const [activeId, binStep, tokenX, tokenY] = await Promise.all([
-    client.readContract({
-      address: pool.address,
-      abi: [ABIS.lb.getActiveId],
-      functionName: "getActiveId",
-    }),
-    client.readContract({
-      address: pool.address,
-      abi: [ABIS.lb.getBinStep],
-      functionName: "getBinStep",
-    }),
-    client.readContract({
-      address: pool.address,
-      abi: [ABIS.lb.getTokenX],
-      functionName: "getTokenX",
-    }) as Promise<`0x${string}`>,
-    client.readContract({
-      address: pool.address,
-      abi: [ABIS.lb.getTokenY],
-      functionName: "getTokenY",
-    }) as Promise<`0x${string}`>,
-  ]);
-  const activeIdNum = Number(activeId);
-  const binStepNum = Number(binStep);
-
-  // Match pair token ordering to pool's tokenX/tokenY
-  const t0Addr = pair.token0.addresses[pool.chain]?.toLowerCase();
-  const amountX = t0Addr === (tokenX as string).toLowerCase() ? amount0 : amount1;
-  const amountY = t0Addr === (tokenX as string).toLowerCase() ? amount1 : amount0;
+  // Bins are placed around the active id
+  const state = await readLBPoolState(pool.chain, pool.address);
 
   // Derive bin range from price range
-  const minBin = priceToBinId(range.min, binStepNum);
-  const maxBin = priceToBinId(range.max, binStepNum);
+  const minBin = priceToBinId(range.min, state.binStep);
+  const maxBin = priceToBinId(range.max, state.binStep);
   const halfRange = Math.max(LB_DEFAULT_BIN_RANGE, Math.floor((maxBin - minBin) / 2));
 
   const deltaIds: bigint[] = [];
   for (let i = -halfRange; i <= halfRange; i++) deltaIds.push(BigInt(i));
 
-  const { distributionX, distributionY } = buildDistributions(deltaIds);
-
-  // Approve tokens to router sequentially
-  await approveTokenPair(pair, pool.chain, router, amount0, amount1, privateKey);
-
-  const deadline = txDeadline();
-
-  const data = encodeFunctionData({
-    abi: [ABIS.lbRouter.addLiquidity],
-    functionName: "addLiquidity",
-    args: [
-      {
-        tokenX: tokenX as `0x${string}`,
-        tokenY: tokenY as `0x${string}`,
-        binStep: BigInt(binStepNum),
-        amountX,
-        amountY,
-        amountXMin: applySlippage(amountX),
-        amountYMin: applySlippage(amountY),
-        activeIdDesired: BigInt(activeIdNum),
-        idSlippage: LB_ID_SLIPPAGE,
-        deltaIds,
-        distributionX,
-        distributionY,
-        to: account.address,
-        refundTo: account.address,
-        deadline,
-      },
-    ],
-  });
-
-  const result = await sendAndWait(pool.chain, privateKey, { to: router, data });
+  const result = await sendAddLiquidity(
+    pair,
+    pool.chain,
+    pool.address,
+    router,
+    state,
+    deltaIds,
+    amount0,
+    amount1,
+    signer,
+  );
   const reverted = checkMintRevert("LB mint", result);
   if (reverted) return reverted;
 
-  const lowerBin = activeIdNum - halfRange;
-  const upperBin = activeIdNum + halfRange;
+  const lowerBin = state.activeId - halfRange;
+  const upperBin = state.activeId + halfRange;
   return buildAndSaveMintResult(
     store,
     pool,
@@ -178,42 +227,110 @@ export async function mintLBPosition(
   );
 }
 
-// ---- Burn ----
+// ---- Increase ----
 
-export async function burnLBPosition(
+/** Bin bounds of a position ("lb:<lower>:<upper>"); null for a malformed positionId. */
+function parseBinRange(position: Position): [number, number] | null {
+  const parts = position.positionId.split(":");
+  if (parts[0] !== "lb" || parts.length < 3) {
+    log.error(`Invalid LB positionId: ${position.positionId}`);
+    return null;
+  }
+  return [Number(parts[1]), Number(parts[2])];
+}
+
+/**
+ * Add `amount0`/`amount1` (pair order) from the wallet to a position's own bins, spread as on
+ * mint around the active bin: X over its bins at and above it, Y over those at and below (one
+ * token only once the price left the range). LB fees already compound into bin reserves, so
+ * nothing is collected first. Amounts are wallet deltas; LB liquidity is tracked as bins, not L.
+ */
+export async function increaseLBPosition(
   position: Position,
-  privateKey: `0x${string}`,
-): Promise<BurnResult | null> {
+  pair: PairConfig,
+  signer: Signer,
+  amount0 = 0n,
+  amount1 = 0n,
+): Promise<CompoundResult | null> {
+  const bins = parseBinRange(position);
+  if (!bins) return null;
+  if (amount0 === 0n && amount1 === 0n) {
+    log.info(`LB position ${position.id}: nothing to add`);
+    return null;
+  }
+  const [lowerBin, upperBin] = bins;
   const dex = getDex(position.dex);
   const router = requireAddress(
     dex.positionManager[position.chain],
     `${position.dex} LB router chain ${position.chain}`,
   );
 
-  const client = getPublicClient(position.chain);
-  const account = getAccount(privateKey);
-
-  // Parse bin range from positionId: "lb:<lower>:<upper>"
-  const parts = position.positionId.split(":");
-  if (parts[0] !== "lb" || parts.length < 3) {
-    log.error(`Invalid LB positionId: ${position.positionId}`);
-    return null;
+  const state = await readLBPoolState(position.chain, position.pool);
+  const deltaIds: bigint[] = [];
+  for (let id = lowerBin; id <= upperBin; id++) deltaIds.push(BigInt(id - state.activeId));
+
+  const t0 = pair.token0.addresses[position.chain]!;
+  const t1 = pair.token1.addresses[position.chain]!;
+  const balances = () =>
+    Promise.all([
+      getBalance(position.chain, t0, signer.address),
+      getBalance(position.chain, t1, signer.address),
+    ]);
+  const before = await balances();
+  const res = await sendAddLiquidity(
+    pair,
+    position.chain,
+    position.pool,
+    router,
+    state,
+    deltaIds,
+    amount0,
+    amount1,
+    signer,
+  );
+  if (res.status === "reverted") {
+    log.error(`LB increase reverted: ${res.hash}`);
+    return failedCompoundResult(res);
   }
-  const lowerBin = Number(parts[1]);
-  const upperBin = Number(parts[2]);
+  const after = await balances();
+
+  log.info(`LB position increased: ${position.id}`);
+  return {
+    success: true,
+    fees0: 0n,
+    fees1: 0n,
+    amount0: before[0] - after[0],
+    amount1: before[1] - after[1],
+    liquidity: 0n,
+    hash: res.hash,
+    gasUsed: res.gasUsed,
+    gasPrice: res.gasPrice,
+  };
+}
+
+// ---- Burn ----
+
+/**
+ * Non-zero bin balances of a position ("lb:<lower>:<upper>"), in one cross-checked batch (a
+ * stale read would leave bins behind). Null for a malformed positionId.
+ */
+async function readBinBalances(
+  position: Position,
+  account: `0x${string}`,
+): Promise<{ binIds: bigint[]; binAmounts: bigint[] } | null> {
+  const bins = parseBinRange(position);
+  if (!bins) return null;
+  const [lowerBin, upperBin] = bins;
 
-  // Read balances for all bins in parallel
   const binRange = Array.from({ length: upperBin - lowerBin + 1 }, (_, i) => lowerBin + i);
-  const bals = await Promise.all(
-    binRange.map(
-      (id) =>
-        client.readContract({
-          address: position.pool,
-          abi: [ABIS.lbRouter.balanceOf],
-          functionName: "balanceOf",
-          args: [account.address, BigInt(id)],
-        }) as Promise<bigint>,
-    ),
+  const bals = await quorumReads<bigint[]>(
+    position.chain,
+    binRange.map((id) => ({
+      address: position.pool,
+      abi: [ABIS.lbRouter.balanceOf],
+      functionName: "balanceOf",
+      args: [account, BigInt(id)],
+    })),
   );
   const binIds: bigint[] = [];
   const binAmounts: bigint[] = [];
@@ -223,25 +340,44 @@ export async function burnLBPosition(
       binAmounts.push(bals[i]);
     }
   }
+  return { binIds, binAmounts };
+}
+
+/** Summed bin balances (LB liquidity) of a position; zero once burned. */
+export async function readLBLiquidity(position: Position, account: `0x${string}`): Promise<bigint> {
+  const bins = await readBinBalances(position, account);
+  return bins ? bins.binAmounts.reduce((s, a) => s + a, 0n) : 0n;
+}
+
+export async function burnLBPosition(
+  position: Position,
+  signer: Signer,
+  pair?: PairConfig,
+  onSent?: (hash: `0x${string}`) => Promise<void>,
+): Promise<BurnResult | null> {
+  const dex = getDex(position.dex);
+  const router = requireAddress(
+    dex.positionManager[position.chain],
+    `${position.dex} LB router chain ${position.chain}`,
+  );
+
+  const client = getPublicClient(position.chain);
+
+  const bins = await readBinBalances(position, signer.address);
+  if (!bins) return null;
+  const { binIds, binAmounts } = bins;
 
   if (binIds.length === 0) {
     log.warn(`No LB balances for position ${position.id}`);
-    return {
-      success: true,
-      amount0: 0n,
-      amount1: 0n,
-      hash: "0x0" as `0x${string}`,
-      gasUsed: 0n,
-      gasPrice: 0n,
-    };
+    return successBurnResult(0n, 0n, { hash: "0x0", gasUsed: 0n, gasPrice: 0n });
   }
 
   // Approve router for LBPair tokens (ERC-1155 operator)
-  const isApproved = (await client.readContract({
+  const isApproved = (await batchRead(client, {
     address: position.pool,
     abi: [ABIS.lbRouter.isApprovedForAll],
     functionName: "isApprovedForAll",
-    args: [account.address, router],
+    args: [signer.address, router],
   })) as boolean;
 
   let totalGasUsed = 0n;
@@ -253,7 +389,7 @@ export async function burnLBPosition(
       functionName: "approveForAll",
       args: [router, true],
     });
-    const res = await sendAndWait(position.chain, privateKey, {
+    const res = await sendAndWait(position.chain, signer, {
       to: position.pool,
       data: approveData,
     });
@@ -263,17 +399,17 @@ export async function burnLBPosition(
 
   // Read token addresses + bin step from pool
   const [tokenX, tokenY, binStep] = await Promise.all([
-    client.readContract({
+    batchRead(client, {
       address: position.pool,
       abi: [ABIS.lb.getTokenX],
       functionName: "getTokenX",
     }),
-    client.readContract({
+    batchRead(client, {
       address: position.pool,
       abi: [ABIS.lb.getTokenY],
       functionName: "getTokenY",
     }),
-    client.readContract({
+    batchRead(client, {
       address: position.pool,
       abi: [ABIS.lb.getBinStep],
       functionName: "getBinStep",
@@ -281,6 +417,12 @@ export async function burnLBPosition(
   ]);
 
   const deadline = txDeadline();
+  const balances = () =>
+    Promise.all([
+      getBalance(position.chain, tokenX as `0x${string}`, signer.address),
+      getBalance(position.chain, tokenY as `0x${string}`, signer.address),
+    ]);
+  const before = await balances();
 
   const data = encodeFunctionData({
     abi: [ABIS.lbRouter.removeLiquidity],
@@ -293,12 +435,12 @@ export async function burnLBPosition(
       0n,
       binIds,
       binAmounts,
-      account.address,
+      signer.address,
       deadline,
     ],
   });
 
-  const result = await sendAndWait(position.chain, privateKey, { to: router, data });
+  const result = await sendAndWait(position.chain, signer, { to: router, data }, onSent);
   totalGasUsed += result.gasUsed;
   lastGasPrice = result.gasPrice;
 
@@ -310,10 +452,15 @@ export async function burnLBPosition(
   });
   if (reverted) return reverted;
 
+  // LB fees compound into bin reserves: they cannot be told apart from principal
+  const after = await balances();
+  const xIs0 =
+    (tokenX as string).toLowerCase() === pair?.token0.addresses[position.chain]?.toLowerCase();
+  const [dx, dy] = [after[0] - before[0], after[1] - before[1]];
   log.info(`LB position burned: ${position.id}`);
-  return successBurnResult(position.amount0, position.amount1, {
-    hash: result.hash,
-    gasUsed: totalGasUsed,
-    gasPrice: lastGasPrice,
-  });
+  return successBurnResult(
+    pair ? (xIs0 ? dx : dy) : position.amount0,
+    pair ? (xIs0 ? dy : dx) : position.amount1,
+    { hash: result.hash, gasUsed: totalGasUsed, gasPrice: lastGasPrice },
+  );
 }
@@ -7,6 +7,7 @@ import type {
   Range,
   MintResult,
   BurnResult,
+  CompoundResult,
 } from "../types";
 import { DexFamily } from "../types";
 import { findPool } from "../config/pools";
@@ -19,20 +20,29 @@ import {
   ABIS,
 } from "../config/dexs";
 import { rangeToTicks } from "../strategy/range";
-import { getPublicClient, getAccount, sendAndWait, approveTokenPair, requireAddress } from "./tx";
+import { getPublicClient, sendAndWait, approveTokenPair, requireAddress, type Signer } from "./tx";
+import { batchRead } from "./multicall";
+import { quorumRead } from "./quorum";
 import {
   applySlippage,
+  applySlippageMax,
+  poolSlippageBps,
   extractTokenIdFromLogs,
   buildAndSaveMintResult,
   checkMintRevert,
   checkBurnRevert,
+  failedCompoundResult,
   successBurnResult,
+  toPairOrder,
 } from "./positions";
+import { getBalance } from "./swap";
 import { log, sortTokens, sortTokensWithAmounts } from "../utils";
 import {
   Q96,
   txDeadline,
   ZERO_ADDR,
+  V4_INCREASE_LIQUIDITY,
+  V4_DECREASE_LIQUIDITY,
   V4_MINT_POSITION,
   V4_BURN_POSITION,
   V4_SETTLE_PAIR,
@@ -101,6 +111,23 @@ export function computeLiquidity(
   return L0 < L1 ? L0 : L1;
 }
 
+/** Token amounts held by `liquidity` over [tickLower, tickUpper] at `sqrtPriceX96` (inverse of computeLiquidity). */
+export function amountsForLiquidity(
+  sqrtPriceX96: bigint,
+  tickLower: number,
+  tickUpper: number,
+  liquidity: bigint,
+): [bigint, bigint] {
+  const sqrtA = tickToSqrtPriceX96(tickLower);
+  const sqrtB = tickToSqrtPriceX96(tickUpper);
+  if (sqrtPriceX96 <= sqrtA) return [(liquidity * (sqrtB - sqrtA) * Q96) / (sqrtA * sqrtB), 0n];
+  if (sqrtPriceX96 >= sqrtB) return [0n, (liquidity * (sqrtB - sqrtA)) / Q96];
+  return [
+    (liquidity * (sqrtB - sqrtPriceX96) * Q96) / (sqrtPriceX96 * sqrtB),
+    (liquidity * (sqrtPriceX96 - sqrtA)) / Q96,
+  ];
+}
+
 // ---- PoolKey reconstruction ----
 
 interface PoolKey {
@@ -132,7 +159,7 @@ async function readV4State(
   const client = getPublicClient(chainId);
   if (preSlot0) {
     const ts = Number(
-      await client.readContract({
+      await batchRead(client, {
         address: lens,
         abi: [ABIS.v4.getTickSpacing],
         functionName: "getTickSpacing",
@@ -142,13 +169,13 @@ async function readV4State(
     return { slot0: preSlot0, fee: preSlot0[3], tickSpacing: ts };
   }
   const [slot0, ts] = await Promise.all([
-    client.readContract({
+    batchRead(client, {
       address: lens,
       abi: [ABIS.v4.getSlot0],
       functionName: "getSlot0",
       args: [poolId],
     }),
-    client.readContract({
+    batchRead(client, {
       address: lens,
       abi: [ABIS.v4.getTickSpacing],
       functionName: "getTickSpacing",
@@ -203,7 +230,7 @@ async function resolveV4PoolKey(
 }
 
 /** Get the V4 PositionManager address for a given pool. */
-function getV4PM(chainId: number, family: string): `0x${string}` {
+export function getV4PM(chainId: number, family: string): `0x${string}` {
   const registry = family === DexFamily.PCS_V4 ? PCS_V4_POSITION_MANAGER : V4_POSITION_MANAGER;
   return requireAddress(registry[chainId], `${family} PositionManager chain ${chainId}`);
 }
@@ -273,6 +300,60 @@ function encodeBurnActions(
   return encodeV4Actions([V4_BURN_POSITION, V4_TAKE_PAIR], [burnParams, takeParams]);
 }
 
+/**
+ * DECREASE_LIQUIDITY + TAKE_PAIR: withdraws `liquidity` with the position's owed fees.
+ * A zero decrease pays out the fees only.
+ */
+function encodeDecreaseActions(
+  tokenId: bigint,
+  liquidity: bigint,
+  currency0: `0x${string}`,
+  currency1: `0x${string}`,
+  recipient: `0x${string}`,
+): `0x${string}` {
+  const decreaseParams = encodeAbiParameters(
+    [
+      { type: "uint256", name: "tokenId" },
+      { type: "uint256", name: "liquidity" },
+      { type: "uint128", name: "amount0Min" },
+      { type: "uint128", name: "amount1Min" },
+      { type: "bytes", name: "hookData" },
+    ],
+    [tokenId, liquidity, 0n, 0n, "0x"],
+  );
+  const takeParams = encodeAbiParameters(
+    [{ type: "address" }, { type: "address" }, { type: "address" }],
+    [currency0, currency1, recipient],
+  );
+  return encodeV4Actions([V4_DECREASE_LIQUIDITY, V4_TAKE_PAIR], [decreaseParams, takeParams]);
+}
+
+/** INCREASE_LIQUIDITY + SETTLE_PAIR: adds liquidity to an existing position from the wallet. */
+function encodeIncreaseActions(
+  tokenId: bigint,
+  liquidity: bigint,
+  amount0Max: bigint,
+  amount1Max: bigint,
+  currency0: `0x${string}`,
+  currency1: `0x${string}`,
+): `0x${string}` {
+  const increaseParams = encodeAbiParameters(
+    [
+      { type: "uint256", name: "tokenId" },
+      { type: "uint256", name: "liquidity" },
+      { type: "uint128", name: "amount0Max" },
+      { type: "uint128", name: "amount1Max" },
+      { type: "bytes", name: "hookData" },
+    ],
+    [tokenId, liquidity, amount0Max, amount1Max, "0x"],
+  );
+  const settleParams = encodeAbiParameters(
+    [{ type: "address" }, { type: "address" }],
+    [currency0, currency1],
+  );
+  return encodeV4Actions([V4_INCREASE_LIQUIDITY, V4_SETTLE_PAIR], [increaseParams, settleParams]);
+}
+
 // ---- Mint ----
 
 export async function mintV4Position(
@@ -282,14 +363,12 @@ export async function mintV4Position(
   range: Range,
   amount0: bigint,
   amount1: bigint,
-  privateKey: `0x${string}`,
+  signer: Signer,
 ): Promise<MintResult> {
   const pool = findPool(pair, allocation.pool, allocation.chain);
 
   const family = getDexFamily(pool.dex);
   const pm = getV4PM(pool.chain, family);
-  const client = getPublicClient(pool.chain);
-  const account = getAccount(privateKey);
 
   const t0Addr = pair.token0.addresses[pool.chain];
   const t1Addr = pair.token1.addresses[pool.chain];
@@ -299,13 +378,14 @@ export async function mintV4Position(
     amounts: [a0, a1],
   } = sortTokensWithAmounts(t0Addr, t1Addr, amount0, amount1);
 
-  // Read slot0 once, then resolve PoolKey (passing pre-fetched slot0 to avoid redundant RPC)
+  // Read slot0 once (cross-checked: it prices the mint), then resolve PoolKey (passing
+  // pre-fetched slot0 to avoid redundant RPC)
   const lens = requireAddress(
     family === DexFamily.PCS_V4 ? PCS_V4_CL_MANAGER[pool.chain] : V4_STATE_VIEW[pool.chain],
     `${family} lens chain ${pool.chain}`,
   );
 
-  const slot0 = (await client.readContract({
+  const slot0 = (await quorumRead(pool.chain, {
     address: lens!,
     abi: [ABIS.v4.getSlot0],
     functionName: "getSlot0",
@@ -323,20 +403,30 @@ export async function mintV4Position(
 
   const { tickLower, tickUpper } = rangeToTicks(range, tickSpacing);
 
-  // Use sorted amounts (a0/a1 match PoolKey currency0/currency1)
-  const liquidity = computeLiquidity(sqrtPriceX96, tickLower, tickUpper, a0, a1);
+  // Use sorted amounts (a0/a1 match PoolKey currency0/currency1). The PM mints a fixed liquidity
+  // and pulls what it costs at execution: size it from budgets cut by the pool's slippage so the
+  // maximums below leave room for the price to move without exceeding the desired amounts.
+  const slippageBps = poolSlippageBps(pair, pool.address);
+  const liquidity = computeLiquidity(
+    sqrtPriceX96,
+    tickLower,
+    tickUpper,
+    applySlippage(a0, slippageBps),
+    applySlippage(a1, slippageBps),
+  );
   if (liquidity <= 0n) {
     log.warn(`V4 computed liquidity is 0 for ${allocation.pool}, skipping`);
     return { position: null, txHash: "0x0" as `0x${string}`, gasUsed: 0n, gasPrice: 0n };
   }
 
   // V4 PM uses Permit2 for token transfers (not direct ERC20 approval)
-  await approveTokenPair(pair, pool.chain, pm, amount0, amount1, privateKey, "permit2");
+  await approveTokenPair(pair, pool.chain, pm, amount0, amount1, signer, "permit2");
 
   const deadline = txDeadline();
-  // Max amounts = desired amounts (PM pulls up to this limit, liquidity constrains actual)
-  const amount0Max = a0;
-  const amount1Max = a1;
+  // Max amounts from the expected deposit at the cross-checked slot0
+  const [expected0, expected1] = amountsForLiquidity(sqrtPriceX96, tickLower, tickUpper, liquidity);
+  const amount0Max = applySlippageMax(expected0, slippageBps);
+  const amount1Max = applySlippageMax(expected1, slippageBps);
 
   const unlockData = encodeMintActions(
     poolKey,
@@ -346,7 +436,7 @@ export async function mintV4Position(
     liquidity,
     amount0Max,
     amount1Max,
-    account.address,
+    signer.address,
   );
 
   const data = encodeFunctionData({
@@ -355,7 +445,7 @@ export async function mintV4Position(
     args: [unlockData, deadline],
   });
 
-  const result = await sendAndWait(pool.chain, privateKey, { to: pm, data });
+  const result = await sendAndWait(pool.chain, signer, { to: pm, data });
   const reverted = checkMintRevert("V4 mint", result);
   if (reverted) return reverted;
 
@@ -381,19 +471,58 @@ export async function mintV4Position(
 
 // ---- Burn ----
 
-export async function burnV4Position(
+export function burnV4Position(
+  position: Position,
+  pair: PairConfig,
+  signer: Signer,
+  onSent?: (hash: `0x${string}`) => Promise<void>,
+): Promise<BurnResult | null> {
+  return withdrawV4(position, pair, signer, undefined, onSent);
+}
+
+/** PositionManager liquidity of a position (cross-checked); burned tokens read as zero. */
+export async function readV4Liquidity(position: Position): Promise<bigint> {
+  return (await quorumRead(position.chain, {
+    address: getV4PM(position.chain, getDexFamily(position.dex)),
+    abi: [ABIS.v4pm.getPositionLiquidity],
+    functionName: "getPositionLiquidity",
+    args: [BigInt(position.positionId)],
+  })) as bigint;
+}
+
+/** Withdraw `liquidity` from an open position (PRA decrease): DECREASE_LIQUIDITY + TAKE_PAIR. */
+export function decreaseV4Position(
+  position: Position,
+  pair: PairConfig,
+  signer: Signer,
+  liquidity: bigint,
+): Promise<BurnResult | null> {
+  return withdrawV4(position, pair, signer, liquidity);
+}
+
+/**
+ * Collect owed fees, then burn the position (`liquidity` omitted) or decrease it by `liquidity`.
+ * A burn that finds no liquidity left (an earlier attempt's burn landed) has nothing to withdraw.
+ */
+async function withdrawV4(
   position: Position,
   pair: PairConfig,
-  privateKey: `0x${string}`,
+  signer: Signer,
+  liquidity?: bigint,
+  onSent?: (hash: `0x${string}`) => Promise<void>,
 ): Promise<BurnResult | null> {
+  const verb = liquidity === undefined ? "burn" : "decrease";
   if (!position.positionId || position.positionId.startsWith("pending")) {
-    log.error(`Cannot burn V4 position ${position.id}: positionId not resolved`);
+    log.error(`Cannot ${verb} V4 position ${position.id}: positionId not resolved`);
     return null;
   }
+  if (verb === "burn" && (await readV4Liquidity(position)) === 0n) {
+    log.warn(`No liquidity left in V4 position ${position.id}`);
+    return successBurnResult(0n, 0n, { hash: "0x0", gasUsed: 0n, gasPrice: 0n });
+  }
 
   const family = getDexFamily(position.dex);
   const pm = getV4PM(position.chain, family);
-  const account = getAccount(privateKey);
 
   const t0Addr = pair.token0.addresses[position.chain];
   const t1Addr = pair.token1.addresses[position.chain];
@@ -402,25 +531,188 @@ export async function burnV4Position(
   const tokenId = BigInt(position.positionId);
   const deadline = txDeadline();
 
-  const unlockData = encodeBurnActions(
-    tokenId,
-    applySlippage(position.amount0),
-    applySlippage(position.amount1),
-    c0,
-    c1,
-    account.address,
+  const modify = (unlockData: `0x${string}`) =>
+    sendAndWait(
+      position.chain,
+      signer,
+      {
+        to: pm,
+        data: encodeFunctionData({
+          abi: [ABIS.v4pm.modifyLiquidities],
+          functionName: "modifyLiquidities",
+          args: [unlockData, deadline],
+        }),
+      },
+      onSent,
+    );
+  const balances = () =>
+    Promise.all([
+      getBalance(position.chain, c0, signer.address),
+      getBalance(position.chain, c1, signer.address),
+    ]);
+
+  // 1. Collect owed fees first so they are reported apart from principal
+  const start = await balances();
+  const feeRes = await modify(encodeDecreaseActions(tokenId, 0n, c0, c1, signer.address));
+  const feeReverted = checkBurnRevert("V4 fee collect", feeRes);
+  if (feeReverted) return feeReverted;
+  const afterFees = await balances();
+
+  // 2. Burn (remove all liquidity) or decrease, and take the principal
+  const result = await modify(
+    liquidity === undefined
+      ? encodeBurnActions(
+          tokenId,
+          applySlippage(position.amount0),
+          applySlippage(position.amount1),
+          c0,
+          c1,
+          signer.address,
+        )
+      : encodeDecreaseActions(tokenId, liquidity, c0, c1, signer.address),
   );
+  const reverted = checkBurnRevert(`V4 ${verb}`, result);
+  if (reverted) return reverted;
+  const end = await balances();
 
-  const data = encodeFunctionData({
-    abi: [ABIS.v4pm.modifyLiquidities],
-    functionName: "modifyLiquidities",
-    args: [unlockData, deadline],
-  });
+  const [fees0, fees1] = toPairOrder(pair, position.chain, [
+    afterFees[0] - start[0],
+    afterFees[1] - start[1],
+  ]);
+  const [out0, out1] = toPairOrder(pair, position.chain, [
+    end[0] - afterFees[0],
+    end[1] - afterFees[1],
+  ]);
+  log.info(`V4 position ${verb === "burn" ? "burned" : "decreased"}: ${position.id}`);
+  return successBurnResult(
+    out0 + fees0,
+    out1 + fees1,
+    { hash: result.hash, gasUsed: feeRes.gasUsed + result.gasUsed, gasPrice: result.gasPrice },
+    [fees0, fees1],
+  );
+}
 
-  const result = await sendAndWait(position.chain, privateKey, { to: pm, data });
-  const reverted = checkBurnRevert("V4 burn", result);
-  if (reverted) return reverted;
+// ---- Increase / Compound ----
+
+/**
+ * Collect owed fees (DECREASE_LIQUIDITY of zero + TAKE_PAIR), then add them back with
+ * `amount0`/`amount1` (pair order) from the wallet via INCREASE_LIQUIDITY, at the liquidity
+ * they fund at the current price. Amounts are wallet deltas. COMPOUND adds the fees only.
+ */
+export async function increaseV4Position(
+  position: Position,
+  pair: PairConfig,
+  signer: Signer,
+  amount0 = 0n,
+  amount1 = 0n,
+): Promise<CompoundResult | null> {
+  if (!position.positionId || position.positionId.startsWith("pending")) {
+    log.error(`Cannot increase V4 position ${position.id}: positionId not resolved`);
+    return null;
+  }
+
+  const family = getDexFamily(position.dex);
+  const pm = getV4PM(position.chain, family);
+  const lens = requireAddress(
+    family === DexFamily.PCS_V4 ? PCS_V4_CL_MANAGER[position.chain] : V4_STATE_VIEW[position.chain],
+    `${family} lens chain ${position.chain}`,
+  );
 
-  log.info(`V4 position burned: ${position.id}`);
-  return successBurnResult(position.amount0, position.amount1, result);
+  const [c0, c1] = sortTokens(
+    pair.token0.addresses[position.chain],
+    pair.token1.addresses[position.chain],
+  );
+  const tokenId = BigInt(position.positionId);
+  const deadline = txDeadline();
+
+  const modify = (unlockData: `0x${string}`) =>
+    sendAndWait(position.chain, signer, {
+      to: pm,
+      data: encodeFunctionData({
+        abi: [ABIS.v4pm.modifyLiquidities],
+        functionName: "modifyLiquidities",
+        args: [unlockData, deadline],
+      }),
+    });
+  const balances = () =>
+    Promise.all([
+      getBalance(position.chain, c0, signer.address),
+      getBalance(position.chain, c1, signer.address),
+    ]);
+
+  // 1. Collect owed fees
+  const start = await balances();
+  const feeRes = await modify(encodeDecreaseActions(tokenId, 0n, c0, c1, signer.address));
+  if (feeRes.status === "reverted") {
+    log.error(`V4 fee collect reverted: ${feeRes.hash}`);
+    return failedCompoundResult(feeRes);
+  }
+  const afterFees = await balances();
+  const sortedFees: [bigint, bigint] = [afterFees[0] - start[0], afterFees[1] - start[1]];
+  const fees = toPairOrder(pair, position.chain, sortedFees);
+  const [top0, top1] = toPairOrder(pair, position.chain, [amount0, amount1]); // pair → sorted
+  const add: [bigint, bigint] = [sortedFees[0] + top0, sortedFees[1] + top1];
+
+  // 2. Add at the liquidity the fees (and top-up) fund at the current price
+  const slot0 = (await quorumRead(position.chain, {
+    address: lens,
+    abi: [ABIS.v4.getSlot0],
+    functionName: "getSlot0",
+    args: [position.pool],
+  })) as Slot0;
+  const liquidity = computeLiquidity(
+    slot0[0],
+    position.tickLower,
+    position.tickUpper,
+    add[0],
+    add[1],
+  );
+  if (liquidity <= 0n) {
+    log.info(`V4 position ${position.id}: nothing to add, collected fees left in wallet`);
+    return {
+      success: true,
+      fees0: fees[0],
+      fees1: fees[1],
+      amount0: 0n,
+      amount1: 0n,
+      liquidity: 0n,
+      hash: feeRes.hash,
+      gasUsed: feeRes.gasUsed,
+      gasPrice: feeRes.gasPrice,
+    };
+  }
+
+  await approveTokenPair(
+    pair,
+    position.chain,
+    pm,
+    fees[0] + amount0,
+    fees[1] + amount1,
+    signer,
+    "permit2",
+  );
+  const res = await modify(encodeIncreaseActions(tokenId, liquidity, add[0], add[1], c0, c1));
+  const gasUsed = feeRes.gasUsed + res.gasUsed;
+  if (res.status === "reverted") {
+    log.error(`V4 increase reverted: ${res.hash}`);
+    return failedCompoundResult({ hash: res.hash, gasUsed, gasPrice: res.gasPrice }, fees);
+  }
+  const end = await balances();
+  const [used0, used1] = toPairOrder(pair, position.chain, [
+    afterFees[0] - end[0],
+    afterFees[1] - end[1],
+  ]);
+
+  log.info(`V4 position increased: ${position.id}`);
+  return {
+    success: true,
+    fees0: fees[0],
+    fees1: fees[1],
+    amount0: used0,
+    amount1: used1,
+    liquidity,
+    hash: res.hash,
+    gasUsed,
+    gasPrice: res.gasPrice,
+  };
 }
@@ -6,20 +6,37 @@ import type {
   Range,
   MintResult,
   BurnResult,
+  CompoundResult,
   DexId,
+  PoolConfig,
 } from "../types";
 import type { DragonflyStore } from "../data/store-dragonfly";
 import { DexFamily } from "../types";
 import { getDex, getDexFamily, ABIS } from "../config/dexs";
 import { findPool } from "../config/pools";
 import { rangeToTicks } from "../strategy/range";
-import { getPublicClient, getAccount, sendAndWait, approveTokenPair, requireAddress } from "./tx";
+import { getPublicClient, sendAndWait, approveTokenPair, requireAddress, type Signer } from "./tx";
+import { batchRead, type ContractRead } from "./multicall";
+import { quorumRead, quorumSize } from "./quorum";
 import { sortTokensWithAmounts, withFallback } from "../utils";
-import { mintLBPosition, burnLBPosition } from "./positions-lb";
-import { mintV4Position, burnV4Position } from "./positions-v4";
+import {
+  mintLBPosition,
+  burnLBPosition,
+  increaseLBPosition,
+  readLBLiquidity,
+} from "./positions-lb";
+import {
+  mintV4Position,
+  burnV4Position,
+  decreaseV4Position,
+  increaseV4Position,
+  readV4Liquidity,
+} from "./positions-v4";
+import { getBalance } from "./swap";
 
 import { computeEntryValueUsd } from "../config/tokens";
 import { readFeeTier } from "../data/fees";
+import { queryPool } from "../adapters/pool-query";
 import { ingestToO2 } from "../infra/o2";
 import { log } from "../utils";
 import { DEFAULT_SLIPPAGE_BPS, BPS_DIVISOR, MAX_UINT128, txDeadline } from "../config/params";
@@ -30,12 +47,14 @@ export function failedMintResult(result: {
   hash: string;
   gasUsed: bigint;
   gasPrice: bigint;
+  revertReason?: string;
 }): MintResult {
   return {
     position: null,
     txHash: result.hash as `0x${string}`,
     gasUsed: result.gasUsed,
     gasPrice: result.gasPrice,
+    ...(result.revertReason && { error: result.revertReason }),
   };
 }
 
@@ -48,34 +67,58 @@ export function failedBurnResult(result: {
     success: false,
     amount0: 0n,
     amount1: 0n,
+    fees0: 0n,
+    fees1: 0n,
     hash: result.hash as `0x${string}`,
     gasUsed: result.gasUsed,
     gasPrice: result.gasPrice,
   };
 }
 
+/** `amount0`/`amount1` are totals received; `fees` is the fee part of them (pair order). */
 export function successBurnResult(
   amount0: bigint,
   amount1: bigint,
   tx: { hash: string; gasUsed: bigint; gasPrice: bigint },
+  [fees0, fees1]: [bigint, bigint] = [0n, 0n],
 ): BurnResult {
   return {
     success: true,
     amount0,
     amount1,
+    fees0,
+    fees1,
     hash: tx.hash as `0x${string}`,
     gasUsed: tx.gasUsed,
     gasPrice: tx.gasPrice,
   };
 }
 
+/** Compound that stopped at a reverted tx: `fees` were collected (pair order) when the increase reverted. */
+export function failedCompoundResult(
+  result: { hash: string; gasUsed: bigint; gasPrice: bigint },
+  [fees0, fees1]: [bigint, bigint] = [0n, 0n],
+): CompoundResult {
+  return {
+    success: false,
+    fees0,
+    fees1,
+    amount0: 0n,
+    amount1: 0n,
+    liquidity: 0n,
+    hash: result.hash as `0x${string}`,
+    gasUsed: result.gasUsed,
+    gasPrice: result.gasPrice,
+  };
+}
+
 /** Check for mint tx revert — returns failed result if reverted, null otherwise. */
 export function checkMintRevert(
   label: string,
-  r: { hash: string; status: string; gasUsed: bigint; gasPrice: bigint },
+  r: { hash: string; status: string; gasUsed: bigint; gasPrice: bigint; revertReason?: string },
 ): MintResult | null {
   if (r.status !== "reverted") return null;
-  log.error(`${label} reverted: ${r.hash}`);
+  log.error(`${label} reverted: ${r.hash}${r.revertReason ? ` (${r.revertReason})` : ""}`);
   return failedMintResult(r);
 }
 
@@ -89,29 +132,71 @@ export function checkBurnRevert(
   return failedBurnResult(r);
 }
 
+/**
+ * On-chain liquidity of an NPM position (0 when unreadable). `quorum` cross-checks the read
+ * across RPC endpoints and lets read errors through: a burn must not run on a stale value.
+ */
 async function readPositionLiquidity(
   chain: number,
   pm: `0x${string}`,
   tokenId: bigint,
   isAlgebra = false,
+  quorum = false,
 ): Promise<bigint> {
+  const read: ContractRead = {
+    address: pm,
+    abi: isAlgebra ? [ABIS.algebra.positions] : [ABIS.univ3.positions],
+    functionName: "positions",
+    args: [tokenId],
+  };
+  const liquidityOf = (posData: unknown) =>
+    (posData as readonly unknown[])[isAlgebra ? 6 : 7] as bigint;
+  if (quorum) {
+    return liquidityOf(
+      quorumSize() > 1
+        ? await quorumRead(chain, read)
+        : await batchRead(getPublicClient(chain), read),
+    );
+  }
   return withFallback(
-    async () => {
-      const pub = getPublicClient(chain);
-      const abi = isAlgebra ? [ABIS.algebra.positions] : [ABIS.univ3.positions];
-      const posData = await pub.readContract({
-        address: pm,
-        abi,
-        functionName: "positions",
-        args: [tokenId],
-      });
-      return (posData as readonly unknown[])[isAlgebra ? 6 : 7] as bigint;
-    },
+    async () => liquidityOf(await batchRead(getPublicClient(chain), read)),
     0n,
     `Read on-chain liquidity for tokenId ${tokenId}`,
   );
 }
 
+/**
+ * Fees a V3-style NPM position would pay out now (simulated `collect`, which pokes the pool first).
+ * Works for Uniswap V3, Algebra and Aerodrome PMs.
+ */
+export async function readOwedFees(
+  chain: number,
+  pm: `0x${string}`,
+  tokenId: bigint,
+  account: `0x${string}`,
+): Promise<[bigint, bigint]> {
+  const { result } = await getPublicClient(chain).simulateContract({
+    address: pm,
+    abi: [ABIS.univ3.collect],
+    functionName: "collect",
+    args: [{ tokenId, recipient: account, amount0Max: MAX_UINT128, amount1Max: MAX_UINT128 }],
+    account,
+  });
+  const [fees0, fees1] = result as readonly [bigint, bigint];
+  return [fees0, fees1];
+}
+
+/** Reorder amounts from sorted (pool) token order to pair order. */
+export function toPairOrder(
+  pair: PairConfig | undefined,
+  chain: number,
+  [a, b]: [bigint, bigint],
+): [bigint, bigint] {
+  const t0 = pair?.token0.addresses[chain];
+  const t1 = pair?.token1.addresses[chain];
+  return t0 && t1 && t0.toLowerCase() > t1.toLowerCase() ? [b, a] : [a, b];
+}
+
 /**
  * Compute slippage-adjusted minimum amounts.
  */
@@ -119,6 +204,42 @@ export function applySlippage(amount: bigint, slippageBps = DEFAULT_SLIPPAGE_BPS
   return amount - (amount * BigInt(slippageBps)) / BPS_DIVISOR;
 }
 
+/** Slippage-adjusted maximum for an expected amount (+1 wei: pools round amounts owed up). */
+export function applySlippageMax(amount: bigint, slippageBps = DEFAULT_SLIPPAGE_BPS): bigint {
+  return amount + (amount * BigInt(slippageBps)) / BPS_DIVISOR + 1n;
+}
+
+/** Mint slippage (bps) for a pool: the strategy's per-pool `slippageBps`, else DEFAULT_SLIPPAGE_BPS. */
+export function poolSlippageBps(pair: PairConfig, pool: string): number {
+  const key = pool.toLowerCase();
+  const entry = Object.entries(pair.slippageBps ?? {}).find(([k]) => k.toLowerCase() === key);
+  return entry?.[1] ?? DEFAULT_SLIPPAGE_BPS;
+}
+
+/**
+ * Simulate a mint from `account` at the current pool state (minimums zeroed by the caller) and
+ * return its outputs: the amounts the position manager or router would actually take. Reverts
+ * surface as viem errors decoded against `call.abi` (see revertReason).
+ */
+export async function simulateMint(
+  chain: number,
+  account: `0x${string}`,
+  call: ContractRead,
+): Promise<readonly unknown[]> {
+  const { result } = await getPublicClient(chain).simulateContract({ ...call, account });
+  return result as readonly unknown[];
+}
+
+/** Tick spacing of `pool`: the grid its mint ranges are aligned to (1 for LB and where unread). */
+export async function poolTickSpacing(pair: PairConfig, pool: PoolConfig): Promise<number> {
+  if (getDexFamily(pool.dex) === DexFamily.LB) return 1;
+  const state = await queryPool({ id: pool.address, chain: pool.chain, dex: pool.dex }, [
+    pair.token0,
+    pair.token1,
+  ]);
+  return state.tickSpacing ?? 1;
+}
+
 /**
  * Extract tokenId from a mint transaction's Transfer event logs.
  */
@@ -218,16 +339,16 @@ export async function mintPosition(
   range: Range,
   amount0: bigint,
   amount1: bigint,
-  privateKey: `0x${string}`,
+  signer: Signer,
 ): Promise<MintResult> {
   const pool = findPool(pair, allocation.pool, allocation.chain);
 
   // Dispatch to family-specific adapter
   const family = getDexFamily(pool.dex);
   if (family === DexFamily.LB)
-    return mintLBPosition(store, pair, allocation, range, amount0, amount1, privateKey);
+    return mintLBPosition(store, pair, allocation, range, amount0, amount1, signer);
   if (family === DexFamily.V4 || family === DexFamily.PCS_V4)
-    return mintV4Position(store, pair, allocation, range, amount0, amount1, privateKey);
+    return mintV4Position(store, pair, allocation, range, amount0, amount1, signer);
 
   // V3 / Algebra / Aerodrome — original logic
   const dex = getDex(pool.dex);
@@ -237,7 +358,7 @@ export async function mintPosition(
 
   // Read tick spacing from pool contract (correct for all DEX families)
   const tickSpacing = Number(
-    await pub.readContract({
+    await batchRead(pub, {
       address: pool.address,
       abi: [ABIS.pool.tickSpacing],
       functionName: "tickSpacing",
@@ -257,54 +378,46 @@ export async function mintPosition(
   );
 
   // Approve tokens sequentially to avoid nonce collisions on the same chain
-  await approveTokenPair(pair, pool.chain, pm, amount0, amount1, privateKey);
+  await approveTokenPair(pair, pool.chain, pm, amount0, amount1, signer);
 
-  const account = getAccount(privateKey);
   const deadline = txDeadline();
-  const amount0Min = applySlippage(amt0);
-  const amount1Min = applySlippage(amt1);
 
   // Algebra PM: no fee field; V3 PM: fee required
-  const data = isAlgebra
-    ? encodeFunctionData({
-        abi: [ABIS.algebra.mint],
-        functionName: "mint",
-        args: [
-          {
-            token0,
-            token1,
-            tickLower,
-            tickUpper,
-            amount0Desired: amt0,
-            amount1Desired: amt1,
-            amount0Min,
-            amount1Min,
-            recipient: account.address,
-            deadline,
-          },
-        ],
-      })
-    : encodeFunctionData({
-        abi: [ABIS.univ3.mint],
-        functionName: "mint",
-        args: [
-          {
-            token0,
-            token1,
-            fee: Math.round((await readFeeTier(pool)) * 1_000_000),
-            tickLower,
-            tickUpper,
-            amount0Desired: amt0,
-            amount1Desired: amt1,
-            amount0Min,
-            amount1Min,
-            recipient: account.address,
-            deadline,
-          },
-        ],
-      });
-
-  const result = await sendAndWait(pool.chain, privateKey, { to: pm, data });
+  const fee = isAlgebra ? undefined : Math.round((await readFeeTier(pool)) * 1_000_000);
+  const mintCall = (amount0Min: bigint, amount1Min: bigint): ContractRead => ({
+    address: pm,
+    abi: [isAlgebra ? ABIS.algebra.mint : ABIS.univ3.mint],
+    functionName: "mint",
+    args: [
+      {
+        token0,
+        token1,
+        ...(fee !== undefined && { fee }),
+        tickLower,
+        tickUpper,
+        amount0Desired: amt0,
+        amount1Desired: amt1,
+        amount0Min,
+        amount1Min,
+        recipient: signer.address,
+        deadline,
+      },
+    ],
+  });
+
+  // Minimums from the simulated deposit: in a concentrated range the PM often takes far less of
+  // one token than desired, so a flat cut of the desired amounts would not bound anything
+  const [, , expected0, expected1] = (await simulateMint(
+    pool.chain,
+    signer.address,
+    mintCall(0n, 0n),
+  )) as readonly [bigint, bigint, bigint, bigint];
+  const slippageBps = poolSlippageBps(pair, pool.address);
+  const data = encodeFunctionData(
+    mintCall(applySlippage(expected0, slippageBps), applySlippage(expected1, slippageBps)),
+  );
+
+  const result = await sendAndWait(pool.chain, signer, { to: pm, data });
   const reverted = checkMintRevert("V3 mint", result);
   if (reverted) return reverted;
 
@@ -332,83 +445,169 @@ export async function mintPosition(
 }
 
 /**
- * Burn (remove) an existing position: decreaseLiquidity + collect.
+ * Burn (remove) an existing position: collect owed fees, then decreaseLiquidity + collect.
  */
 export async function burnPosition(
   position: Position,
-  privateKey: `0x${string}`,
+  signer: Signer,
   pair?: PairConfig,
+  onSent?: (hash: `0x${string}`) => Promise<void>,
 ): Promise<BurnResult | null> {
   // Dispatch to family-specific adapter
   const family = getDexFamily(position.dex);
-  if (family === DexFamily.LB) return burnLBPosition(position, privateKey);
+  if (family === DexFamily.LB) return burnLBPosition(position, signer, pair, onSent);
   if (family === DexFamily.V4 || family === DexFamily.PCS_V4) {
     if (!pair) throw new Error("V4 burn requires pair config for token addresses");
-    return burnV4Position(position, pair, privateKey);
+    return burnV4Position(position, pair, signer, onSent);
   }
+  return withdrawV3(position, signer, pair, undefined, onSent);
+}
 
-  // V3 / Algebra / Aerodrome — original logic
+/**
+ * On-chain liquidity of a position, cross-checked across RPC endpoints: the NPM/PM liquidity,
+ * or an LB position's summed bin balances. Zero once its liquidity was withdrawn.
+ */
+export async function positionLiquidity(position: Position, signer: Signer): Promise<bigint> {
+  const family = getDexFamily(position.dex);
+  if (family === DexFamily.LB) return readLBLiquidity(position, signer.address);
+  if (family === DexFamily.V4 || family === DexFamily.PCS_V4) return readV4Liquidity(position);
+  const dex = getDex(position.dex);
+  const pm = requireAddress(
+    dex.positionManager[position.chain],
+    `${position.dex} PM chain ${position.chain}`,
+  );
+  return readPositionLiquidity(
+    position.chain,
+    pm,
+    BigInt(position.positionId),
+    dex.type === "algebra",
+    true,
+  );
+}
+
+/**
+ * Withdraw `liquidity` from an open position, which stays open (PRA decrease). Fees owed are
+ * collected with it and reported apart from principal, as for a burn. LB positions are resized
+ * by burn + re-mint instead: their bins cannot be shrunk pro rata here.
+ */
+export async function decreasePosition(
+  position: Position,
+  signer: Signer,
+  pair: PairConfig,
+  liquidity: bigint,
+): Promise<BurnResult | null> {
+  const family = getDexFamily(position.dex);
+  if (family === DexFamily.LB) {
+    log.warn(
+      `LB position ${position.id}: partial decrease not supported, burn and re-mint instead`,
+    );
+    return null;
+  }
+  if (family === DexFamily.V4 || family === DexFamily.PCS_V4)
+    return decreaseV4Position(position, pair, signer, liquidity);
+  return withdrawV3(position, signer, pair, liquidity);
+}
+
+/**
+ * V3 / Algebra / Aerodrome withdrawal: collect owed fees, decrease `liquidity` (everything
+ * on-chain when omitted, i.e. a burn), then collect the withdrawn principal. A burn that finds
+ * no liquidity left (an earlier attempt's decrease landed) only collects what the PM still owes.
+ */
+async function withdrawV3(
+  position: Position,
+  signer: Signer,
+  pair?: PairConfig,
+  liquidity?: bigint,
+  onSent?: (hash: `0x${string}`) => Promise<void>,
+): Promise<BurnResult | null> {
   const dex = getDex(position.dex);
   const pm = requireAddress(
     dex.positionManager[position.chain],
     `${position.dex} PM chain ${position.chain}`,
   );
   const isAlgebra = dex.type === "algebra";
+  const verb = liquidity === undefined ? "burn" : "decrease";
 
   // Guard against unresolved positionId
   if (!position.positionId || position.positionId.startsWith("pending")) {
     log.error(
-      `Cannot burn position ${position.id}: positionId not resolved (${position.positionId})`,
+      `Cannot ${verb} position ${position.id}: positionId not resolved (${position.positionId})`,
     );
     return null;
   }
 
-  const account = getAccount(privateKey);
   const tokenId = BigInt(position.positionId);
   const deadline = txDeadline();
   let totalGasUsed = 0n;
   let lastGasPrice = 0n;
 
-  // 1. Read on-chain liquidity (stored value may be stale/zero)
-  const onChainLiq = await readPositionLiquidity(position.chain, pm, tokenId, isAlgebra);
-  const onChainLiquidity = onChainLiq > 0n ? onChainLiq : position.liquidity;
+  // 1. A burn removes the on-chain liquidity (stored value may be stale/zero)
+  const removed =
+    liquidity ?? (await readPositionLiquidity(position.chain, pm, tokenId, isAlgebra, true));
 
-  // 2. Decrease liquidity to 0 (always attempt if any liquidity exists on-chain)
-  if (onChainLiquidity > 0n) {
+  const collectData = encodeFunctionData({
+    abi: [ABIS.univ3.collect],
+    functionName: "collect",
+    args: [
+      {
+        tokenId,
+        recipient: signer.address,
+        amount0Max: MAX_UINT128,
+        amount1Max: MAX_UINT128,
+      },
+    ],
+  });
+
+  // 2. Collect owed fees while liquidity is untouched, so they are reported apart from principal
+  // (past a landed decrease, owed fees and principal can no longer be told apart)
+  let fees: [bigint, bigint] = [0n, 0n];
+  const owed: [bigint, bigint] =
+    removed > 0n
+      ? await withFallback(
+          () => readOwedFees(position.chain, pm, tokenId, signer.address),
+          [0n, 0n] as [bigint, bigint],
+          `Read owed fees for tokenId ${tokenId}`,
+        )
+      : [0n, 0n];
+  if (owed[0] > 0n || owed[1] > 0n) {
+    const feeRes = await sendAndWait(position.chain, signer, { to: pm, data: collectData }, onSent);
+    const reverted = checkBurnRevert("Fee collect", feeRes);
+    if (reverted) return reverted;
+    totalGasUsed += feeRes.gasUsed;
+    lastGasPrice = feeRes.gasPrice;
+    const got = extractCollectedAmounts(feeRes.logs ?? [], tokenId);
+    fees = got ? [got.amount0, got.amount1] : owed;
+  }
+
+  // 3. Decrease liquidity
+  if (removed > 0n) {
     const decreaseData = encodeFunctionData({
       abi: [ABIS.univ3.decreaseLiquidity],
       functionName: "decreaseLiquidity",
       args: [
         {
           tokenId,
-          liquidity: onChainLiquidity,
+          liquidity: removed,
           amount0Min: 0n,
           amount1Min: 0n,
           deadline,
         },
       ],
     });
-    const res = await sendAndWait(position.chain, privateKey, { to: pm, data: decreaseData });
+    const res = await sendAndWait(position.chain, signer, { to: pm, data: decreaseData }, onSent);
     const reverted = checkBurnRevert("DecreaseLiquidity", res);
     if (reverted) return reverted;
     totalGasUsed += res.gasUsed;
     lastGasPrice = res.gasPrice;
   }
 
-  // 3. Collect all tokens + fees
-  const collectData = encodeFunctionData({
-    abi: [ABIS.univ3.collect],
-    functionName: "collect",
-    args: [
-      {
-        tokenId,
-        recipient: account.address,
-        amount0Max: MAX_UINT128,
-        amount1Max: MAX_UINT128,
-      },
-    ],
-  });
-  const collectRes = await sendAndWait(position.chain, privateKey, { to: pm, data: collectData });
+  // 4. Collect the withdrawn principal
+  const collectRes = await sendAndWait(
+    position.chain,
+    signer,
+    { to: pm, data: collectData },
+    onSent,
+  );
   if (collectRes.status === "reverted") {
     log.error(`Collect reverted: ${collectRes.hash}`);
     return failedBurnResult({
@@ -421,11 +620,165 @@ export async function burnPosition(
   totalGasUsed += collectRes.gasUsed;
   lastGasPrice = collectRes.gasPrice;
   const collected = extractCollectedAmounts(collectRes.logs ?? [], tokenId);
-
-  log.info(`Position burned: ${position.id}`);
+  const [fees0, fees1] = toPairOrder(pair, position.chain, fees);
+  const [out0, out1] = collected
+    ? toPairOrder(pair, position.chain, [collected.amount0, collected.amount1])
+    : liquidity === undefined
+      ? [position.amount0, position.amount1]
+      : [0n, 0n];
+
+  log.info(`Position ${verb === "burn" ? "burned" : "decreased"}: ${position.id}`);
   return successBurnResult(
-    collected?.amount0 ?? position.amount0,
-    collected?.amount1 ?? position.amount1,
+    out0 + fees0,
+    out1 + fees1,
     { hash: collectRes.hash, gasUsed: totalGasUsed, gasPrice: lastGasPrice },
+    [fees0, fees1],
   );
 }
+
+/**
+ * Compound an open position: collect its owed fees, then add them back as liquidity
+ * (V3 `increaseLiquidity`, V4 INCREASE_LIQUIDITY). Fee amounts rarely match the range's token
+ * ratio, so the surplus of one token stays in the wallet. LB fees already compound into bin
+ * reserves: there is nothing to collect and LB positions are not compounded.
+ */
+export async function compoundPosition(
+  position: Position,
+  signer: Signer,
+  pair: PairConfig,
+): Promise<CompoundResult | null> {
+  if (getDexFamily(position.dex) === DexFamily.LB) {
+    log.warn(`LB position ${position.id}: fees compound in-bin, nothing to collect`);
+    return null;
+  }
+  return increasePosition(position, signer, pair);
+}
+
+/**
+ * Collect an open position's owed fees, then add them back as liquidity together with
+ * `amount0`/`amount1` (pair order) from the wallet (PRA increase; COMPOUND adds fees only).
+ * LB positions add the wallet amounts to their bins (their fees are already in there).
+ */
+export async function increasePosition(
+  position: Position,
+  signer: Signer,
+  pair: PairConfig,
+  amount0 = 0n,
+  amount1 = 0n,
+): Promise<CompoundResult | null> {
+  const family = getDexFamily(position.dex);
+  if (family === DexFamily.LB) return increaseLBPosition(position, pair, signer, amount0, amount1);
+  if (family === DexFamily.V4 || family === DexFamily.PCS_V4)
+    return increaseV4Position(position, pair, signer, amount0, amount1);
+
+  if (!position.positionId || position.positionId.startsWith("pending")) {
+    log.error(`Cannot increase position ${position.id}: positionId not resolved`);
+    return null;
+  }
+
+  // V3 / Algebra / Aerodrome
+  const dex = getDex(position.dex);
+  const pm = requireAddress(
+    dex.positionManager[position.chain],
+    `${position.dex} PM chain ${position.chain}`,
+  );
+  const isAlgebra = dex.type === "algebra";
+  const tokenId = BigInt(position.positionId);
+
+  // 1. Collect owed fees
+  const collectRes = await sendAndWait(position.chain, signer, {
+    to: pm,
+    data: encodeFunctionData({
+      abi: [ABIS.univ3.collect],
+      functionName: "collect",
+      args: [
+        {
+          tokenId,
+          recipient: signer.address,
+          amount0Max: MAX_UINT128,
+          amount1Max: MAX_UINT128,
+        },
+      ],
+    }),
+  });
+  if (collectRes.status === "reverted") {
+    log.error(`Fee collect reverted: ${collectRes.hash}`);
+    return failedCompoundResult(collectRes);
+  }
+  const got = extractCollectedAmounts(collectRes.logs ?? [], tokenId);
+  const fees = toPairOrder(pair, position.chain, got ? [got.amount0, got.amount1] : [0n, 0n]);
+  const add: [bigint, bigint] = [fees[0] + amount0, fees[1] + amount1];
+  if (add[0] === 0n && add[1] === 0n) {
+    log.info(`Position ${position.id}: nothing to add`);
+    return {
+      success: true,
+      fees0: 0n,
+      fees1: 0n,
+      amount0: 0n,
+      amount1: 0n,
+      liquidity: 0n,
+      hash: collectRes.hash,
+      gasUsed: collectRes.gasUsed,
+      gasPrice: collectRes.gasPrice,
+    };
+  }
+
+  // 2. Add the collected fees (and top-up) as liquidity
+  await approveTokenPair(pair, position.chain, pm, add[0], add[1], signer);
+  const [amt0, amt1] = toPairOrder(pair, position.chain, add); // pair → sorted (self-inverse)
+  const t0 = pair.token0.addresses[position.chain]!;
+  const t1 = pair.token1.addresses[position.chain]!;
+  const balances = () =>
+    Promise.all([
+      getBalance(position.chain, t0, signer.address),
+      getBalance(position.chain, t1, signer.address),
+    ]);
+  const [before, liqBefore] = await Promise.all([
+    balances(),
+    readPositionLiquidity(position.chain, pm, tokenId, isAlgebra),
+  ]);
+  const deadline = txDeadline();
+  const increaseCall = (amount0Min: bigint, amount1Min: bigint) => ({
+    address: pm,
+    abi: [ABIS.univ3.increaseLiquidity],
+    functionName: "increaseLiquidity" as const,
+    args: [
+      { tokenId, amount0Desired: amt0, amount1Desired: amt1, amount0Min, amount1Min, deadline },
+    ] as const,
+  });
+  // Minimums from the simulated deposit, as for a mint: the PM takes the range's token ratio only
+  const [, expected0, expected1] = (await simulateMint(
+    position.chain,
+    signer.address,
+    increaseCall(0n, 0n),
+  )) as readonly [bigint, bigint, bigint];
+  const slippageBps = poolSlippageBps(pair, position.pool);
+  const res = await sendAndWait(position.chain, signer, {
+    to: pm,
+    data: encodeFunctionData(
+      increaseCall(applySlippage(expected0, slippageBps), applySlippage(expected1, slippageBps)),
+    ),
+  });
+  const gasUsed = collectRes.gasUsed + res.gasUsed;
+  if (res.status === "reverted") {
+    log.error(`IncreaseLiquidity reverted: ${res.hash}`);
+    return failedCompoundResult({ hash: res.hash, gasUsed, gasPrice: res.gasPrice }, fees);
+  }
+  const [after, liqAfter] = await Promise.all([
+    balances(),
+    readPositionLiquidity(position.chain, pm, tokenId, isAlgebra),
+  ]);
+
+  log.info(`Position increased: ${position.id}`);
+  return {
+    success: true,
+    fees0: fees[0],
+    fees1: fees[1],
+    amount0: before[0] - after[0],
+    amount1: before[1] - after[1],
+    liquidity: liqAfter > liqBefore ? liqAfter - liqBefore : 0n,
+    hash: res.hash,
+    gasUsed,
+    gasPrice: res.gasPrice,
+  };
+}
@@ -0,0 +1,123 @@
+import type { PublicClient } from "viem";
+import type { ChainId } from "../types";
+import { getChain } from "../config/chains";
+import { envInt } from "../config/config-utils";
+import { QUORUM_DEFAULT_RPCS, QUORUM_MAX_LAG_MS, QUORUM_TOLERANCE } from "../config/params";
+import { chainRpcs, getEndpointClient, getPublicClient } from "./tx";
+import { batchRead, readContracts, type ContractRead } from "./multicall";
+import { rankRpcs } from "./rpc-health";
+import { log, errMsg } from "../utils";
+
+// ---- Quorum reads ----
+// Execution-critical reads (pool price before a mint, position liquidity before a burn, balances
+// that size a mint) can be cross-checked across the RPC_QUORUM best endpoints of a chain: heads
+// further apart than QUORUM_MAX_LAG_MS mean one endpoint is stale, otherwise every endpoint is read
+// at the lowest common head and the results must agree. Either failure throws QuorumError, which
+// fails the step instead of executing on one endpoint's word. RPC_QUORUM=1 (default) reads as usual.
+
+/** Thrown when endpoints are too far apart or disagree on a critical read. */
+export class QuorumError extends Error {
+  constructor(
+    public readonly chainId: number,
+    reason: string,
+  ) {
+    super(`RPC quorum failed on chain ${chainId}: ${reason}`);
+    this.name = "QuorumError";
+  }
+}
+
+/** Endpoints cross-checked per critical read (1 = no cross-check). */
+export const quorumSize = () => envInt(process.env.RPC_QUORUM, QUORUM_DEFAULT_RPCS);
+
+/** Whether two read results match: numbers within `tolerance` (relative), the rest exactly. */
+export function agrees(a: unknown, b: unknown, tolerance = QUORUM_TOLERANCE): boolean {
+  if (typeof a === "bigint" && typeof b === "bigint") {
+    if (a === b) return true;
+    const diff = Number(a > b ? a - b : b - a);
+    const scale = Math.max(Math.abs(Number(a)), Math.abs(Number(b)));
+    return diff <= tolerance * scale;
+  }
+  if (typeof a === "number" && typeof b === "number")
+    return Math.abs(a - b) <= tolerance * Math.max(Math.abs(a), Math.abs(b));
+  if (Array.isArray(a) && Array.isArray(b))
+    return a.length === b.length && a.every((v, i) => agrees(v, b[i], tolerance));
+  if (a && b && typeof a === "object" && typeof b === "object") {
+    const ea = Object.entries(a);
+    const vb = new Map(Object.entries(b));
+    return (
+      ea.length === vb.size && ea.every(([k, v]) => vb.has(k) && agrees(v, vb.get(k), tolerance))
+    );
+  }
+  return a === b;
+}
+
+async function readAt(
+  client: PublicClient,
+  reads: ContractRead[],
+  blockNumber: bigint,
+): Promise<readonly unknown[]> {
+  const multicallAddress = client.chain?.contracts?.multicall3?.address;
+  if (reads.length > 1 && multicallAddress) {
+    return client.multicall({
+      contracts: reads,
+      allowFailure: false,
+      multicallAddress,
+      blockNumber,
+    });
+  }
+  return Promise.all(reads.map((r) => client.readContract({ ...r, blockNumber })));
+}
+
+/**
+ * Read several contract views, cross-checked across the chain's best RPC_QUORUM endpoints.
+ * Throws QuorumError on stale or disagreeing endpoints; reads normally when quorum is off or
+ * the chain has a single endpoint.
+ */
+export async function quorumReads<T extends readonly unknown[]>(
+  chainId: ChainId,
+  reads: ContractRead[],
+): Promise<T> {
+  const n = quorumSize();
+  const urls = n > 1 ? rankRpcs(chainId, chainRpcs(chainId)).slice(0, n) : [];
+  if (urls.length < 2) {
+    if (n > 1)
+      log.debug(`RPC quorum: chain ${chainId} has a single live endpoint, reading unchecked`);
+    return readContracts<T>(getPublicClient(chainId), reads);
+  }
+
+  const clients = urls.map((url) => getEndpointClient(chainId, url));
+  const heads = await Promise.all(
+    clients.map((c, i) =>
+      c.getBlockNumber({ cacheTime: 0 }).catch((e) => {
+        throw new QuorumError(chainId, `${urls[i]} unreachable (${errMsg(e)})`);
+      }),
+    ),
+  );
+  const top = heads.reduce((a, b) => (a > b ? a : b));
+  const block = heads.reduce((a, b) => (a < b ? a : b));
+  const blockMs = getChain(chainId).blockTimeMs ?? 2_000;
+  const maxLag = BigInt(Math.max(1, Math.floor(QUORUM_MAX_LAG_MS / blockMs)));
+  if (top - block > maxLag) {
+    const stale = urls[heads.indexOf(block)];
+    throw new QuorumError(chainId, `${stale} is ${top - block} blocks behind`);
+  }
+
+  const results = await Promise.all(clients.map((c) => readAt(c, reads, block)));
+  const fns = reads.map((r) => r.functionName).join(",");
+  for (let i = 1; i < results.length; i++) {
+    if (!agrees(results[0], results[i])) {
+      throw new QuorumError(
+        chainId,
+        `${urls[0]} and ${urls[i]} disagree on ${fns} at block ${block}`,
+      );
+    }
+  }
+  return results[0] as unknown as T;
+}
+
+/** Read one contract view, cross-checked across endpoints when quorum is on. */
+export async function quorumRead<T = unknown>(chainId: ChainId, read: ContractRead): Promise<T> {
+  if (quorumSize() < 2) return batchRead<T>(getPublicClient(chainId), read);
+  const [result] = await quorumReads<[T]>(chainId, [read]);
+  return result;
+}
@@ -0,0 +1,71 @@
+import type { DexId, Position, Range } from "../types";
+import { DexFamily } from "../types";
+import { getDexFamily } from "../config/dexs";
+import { LB_DEFAULT_BIN_RANGE } from "../config/params";
+import { rangeToTicks } from "../strategy/range";
+import { priceToTick } from "../../shared/format";
+import { amountsForLiquidity, tickToSqrtPriceX96 } from "./positions-v4";
+import { buildDistributions } from "./positions-lb";
+
+// ---- Pre-mint token ratios ----
+// Share of a deposit's value (token1 terms, at the pair price) that must be token0 for a mint or
+// increase to use both tokens in full. Prices and ticks follow the pair orientation, as in
+// rangeToTicks and the position adapters.
+
+const RATIO_LIQUIDITY = 10n ** 24n; // any liquidity works: only the amounts' ratio is used
+
+/** Token0 value share of a V3/V4 position over [tickLower, tickUpper] at `price` (computeLiquidity math). */
+export function clmmToken0Share(price: number, tickLower: number, tickUpper: number): number {
+  const sqrtP = tickToSqrtPriceX96(priceToTick(price));
+  const [a0, a1] = amountsForLiquidity(sqrtP, tickLower, tickUpper, RATIO_LIQUIDITY);
+  const v0 = Number(a0) * price;
+  const v1 = Number(a1);
+  return v0 + v1 > 0 ? v0 / (v0 + v1) : 0.5;
+}
+
+/**
+ * Token0 value share of an LB mint: mintLBPosition spreads X uniformly over the active bin and
+ * those above, Y over the active bin and those below, so uniform liquidity per bin needs each side
+ * funded in proportion to its bin count (bin prices within the range valued at the active price).
+ */
+export function lbToken0Share(halfRange = LB_DEFAULT_BIN_RANGE): number {
+  const deltaIds: bigint[] = [];
+  for (let i = -halfRange; i <= halfRange; i++) deltaIds.push(BigInt(i));
+  const { distributionX, distributionY } = buildDistributions(deltaIds);
+  const xBins = distributionX.filter((w) => w > 0n).length;
+  const yBins = distributionY.filter((w) => w > 0n).length;
+  return xBins / (xBins + yBins);
+}
+
+/**
+ * Token0 value share a new position of `dex` over `range` needs at `price`, with the range aligned
+ * to the pool's `tickSpacing` as the mint aligns it.
+ */
+export function mintToken0Share(
+  dex: DexId,
+  range: Range,
+  price: number,
+  tickSpacing: number,
+): number {
+  if (getDexFamily(dex) === DexFamily.LB) return lbToken0Share();
+  const { tickLower, tickUpper } = rangeToTicks(range, tickSpacing);
+  return clmmToken0Share(price, tickLower, tickUpper);
+}
+
+/**
+ * Token0 value share an increase of `position` deposits at `price`. LB increases spread over the
+ * position's own bins like a mint, taken as centered on the active bin (the mint layout).
+ */
+export function positionToken0Share(
+  position: Pick<Position, "dex" | "tickLower" | "tickUpper">,
+  price: number,
+): number {
+  if (getDexFamily(position.dex) === DexFamily.LB)
+    return lbToken0Share(Math.floor((position.tickUpper - position.tickLower) / 2));
+  return clmmToken0Share(price, position.tickLower, position.tickUpper);
+}
+
+/** Split `value` (token1 units) into token amounts (human units) holding `share0` of it in token0. */
+export function splitByShare(value: number, share0: number, price: number): [number, number] {
+  return [(value * share0) / price, value * (1 - share0)];
+}
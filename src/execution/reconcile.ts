@@ -0,0 +1,497 @@
+import type { PairConfig, PoolConfig, Position, ReconcileIssue, ReconcileReport } from "../types";
+import { DexFamily } from "../types";
+import type { DragonflyStore } from "../data/store-dragonfly";
+import { ABIS, getDex, getDexFamily } from "../config/dexs";
+import { computeEntryValueUsd } from "../config/tokens";
+import { queryPool } from "../adapters/pool-query";
+import { getPublicClient } from "./tx";
+import { batchRead } from "./multicall";
+import { extractTokenIdFromLogs } from "./positions";
+import { amountsForLiquidity, getV4PM } from "./positions-v4";
+import { lbBinAmounts } from "./valuation";
+import { readPoolQuote } from "./paper";
+import { ingestToO2 } from "../infra/o2";
+import { inBatches, log, sortTokens } from "../utils";
+import {
+  RECONCILE_MAX_NFTS,
+  RECONCILE_LB_SCAN_BINS,
+  RECONCILE_LIQUIDITY_TOLERANCE,
+  RECONCILE_READ_BATCH,
+} from "../config/params";
+
+/** A position as observed on-chain, keyed like a stored Position. */
+export interface OnChainPosition {
+  chain: number;
+  pool: `0x${string}`;
+  dex: PoolConfig["dex"];
+  positionId: string; // tokenId, or lb:<lower>:<upper> for a contiguous run of owned bins
+  tickLower: number;
+  tickUpper: number;
+  liquidity: bigint; // LB: sum of bin share balances
+}
+
+const isPending = (p: Position) => p.positionId.startsWith("pending:");
+const isLB = (dex: PoolConfig["dex"]) => getDexFamily(dex) === DexFamily.LB;
+const isV4 = (dex: PoolConfig["dex"]) => {
+  const f = getDexFamily(dex);
+  return f === DexFamily.V4 || f === DexFamily.PCS_V4;
+};
+
+/** Run `fn` over `items` with at most RECONCILE_READ_BATCH reads in flight. */
+const batched = <T, R>(items: T[], fn: (item: T) => Promise<R>) =>
+  inBatches(items, RECONCILE_READ_BATCH, fn);
+
+// ---- On-chain readers ----
+// Reads are not wrapped in withFallback: an RPC error must abort the run, not report ghosts.
+
+/** Resolve the tokenId of a `pending:<hash>` mint from its receipt (null if no NFT was minted). */
+async function resolvePendingId(pos: Position): Promise<string | null> {
+  const hash = pos.positionId.slice("pending:".length) as `0x${string}`;
+  const pm = isV4(pos.dex)
+    ? getV4PM(pos.chain, getDexFamily(pos.dex))
+    : getDex(pos.dex).positionManager[pos.chain];
+  const receipt = await getPublicClient(pos.chain).getTransactionReceipt({ hash });
+  const logs = receipt.logs.filter((l) => l.address.toLowerCase() === pm?.toLowerCase());
+  return extractTokenIdFromLogs(logs) || null;
+}
+
+/**
+ * Enumerate the account's NFTs on a V3-style PositionManager (newest RECONCILE_MAX_NFTS) and keep
+ * those belonging to `pools`. V3 matches on tokens + fee, Aerodrome on tokens + tick spacing,
+ * Algebra on tokens only (one pool per pair).
+ */
+async function readV3Positions(
+  pair: PairConfig,
+  chain: number,
+  dex: PoolConfig["dex"],
+  pools: PoolConfig[],
+  account: `0x${string}`,
+): Promise<OnChainPosition[]> {
+  const entry = getDex(dex);
+  const pm = entry.positionManager[chain];
+  if (!pm) return [];
+  const client = getPublicClient(chain);
+  const isAlgebra = entry.type === "algebra";
+  const isAero = getDexFamily(dex) === DexFamily.AERODROME;
+
+  const [t0, t1] = sortTokens(pair.token0.addresses[chain], pair.token1.addresses[chain]);
+  const poolKeys = await Promise.all(
+    pools.map(async (p) => {
+      const state = await queryPool({ id: p.address, chain, dex: p.dex });
+      return {
+        pool: p.address,
+        key: isAero ? state.tickSpacing : Math.round(state.fee * 1_000_000),
+      };
+    }),
+  );
+
+  const count = Number(
+    await batchRead(client, {
+      address: pm,
+      abi: [ABIS.univ3.balanceOf],
+      functionName: "balanceOf",
+      args: [account],
+    }),
+  );
+  const indices = Array.from({ length: Math.min(count, RECONCILE_MAX_NFTS) }, (_, i) =>
+    BigInt(count - 1 - i),
+  );
+  if (count > RECONCILE_MAX_NFTS) {
+    log.warn(
+      `${dex} chain ${chain}: ${count} NFTs owned, inspecting the newest ${RECONCILE_MAX_NFTS}`,
+    );
+  }
+  const tokenIds = await batched(
+    indices,
+    (i) =>
+      batchRead(client, {
+        address: pm,
+        abi: [ABIS.univ3.tokenOfOwnerByIndex],
+        functionName: "tokenOfOwnerByIndex",
+        args: [account, i],
+      }) as Promise<bigint>,
+  );
+  const abi = isAlgebra ? [ABIS.algebra.positions] : [ABIS.univ3.positions];
+  const data = await batched(
+    tokenIds,
+    (id) =>
+      batchRead(client, { address: pm, abi, functionName: "positions", args: [id] }) as Promise<
+        readonly unknown[]
+      >,
+  );
+
+  const out: OnChainPosition[] = [];
+  data.forEach((d, i) => {
+    // univ3: [nonce, operator, token0, token1, fee|tickSpacing, tickLower, tickUpper, liquidity, ...]
+    // algebra: [nonce, operator, token0, token1, tickLower, tickUpper, liquidity, ...]
+    const o = isAlgebra ? 0 : 1;
+    if ((d[2] as string).toLowerCase() !== t0.toLowerCase()) return;
+    if ((d[3] as string).toLowerCase() !== t1.toLowerCase()) return;
+    const match = isAlgebra ? poolKeys[0] : poolKeys.find((k) => k.key === Number(d[4]));
+    if (!match) return;
+    out.push({
+      chain,
+      pool: match.pool,
+      dex,
+      positionId: tokenIds[i].toString(),
+      tickLower: Number(d[4 + o]),
+      tickUpper: Number(d[5 + o]),
+      liquidity: d[6 + o] as bigint,
+    });
+  });
+  return out;
+}
+
+/**
+ * V4 PositionManagers are not enumerable: only ids known to the store (incl. resolved pending
+ * mints) are checked, via ownerOf + getPositionLiquidity. Burned tokens read as zero liquidity.
+ */
+async function readV4Positions(
+  stored: { pos: Position; positionId: string }[],
+  account: `0x${string}`,
+): Promise<OnChainPosition[]> {
+  return batched(stored, async ({ pos, positionId }) => {
+    const pm = getV4PM(pos.chain, getDexFamily(pos.dex));
+    const client = getPublicClient(pos.chain);
+    const tokenId = BigInt(positionId);
+    const owner = await batchRead(client, {
+      address: pm,
+      abi: [ABIS.v4pm.ownerOf],
+      functionName: "ownerOf",
+      args: [tokenId],
+    }).catch(() => null); // burned / never minted
+    const liquidity =
+      owner && (owner as string).toLowerCase() === account.toLowerCase()
+        ? ((await batchRead(client, {
+            address: pm,
+            abi: [ABIS.v4pm.getPositionLiquidity],
+            functionName: "getPositionLiquidity",
+            args: [tokenId],
+          })) as bigint)
+        : 0n;
+    return {
+      chain: pos.chain,
+      pool: pos.pool,
+      dex: pos.dex,
+      positionId,
+      tickLower: pos.tickLower,
+      tickUpper: pos.tickUpper,
+      liquidity,
+    };
+  });
+}
+
+/** Group owned bins into contiguous runs: each run is one on-chain LB position. */
+export function lbRuns(
+  ids: number[],
+  balances: bigint[],
+): { lower: number; upper: number; total: bigint }[] {
+  const runs: { lower: number; upper: number; total: bigint }[] = [];
+  ids.forEach((id, i) => {
+    if (balances[i] === 0n) return;
+    const last = runs[runs.length - 1];
+    if (last && last.upper === id - 1) {
+      last.upper = id;
+      last.total += balances[i];
+    } else runs.push({ lower: id, upper: id, total: balances[i] });
+  });
+  return runs;
+}
+
+/** Scan LB bin balances around the active bin and over every stored range of this pool. */
+async function readLBPositions(
+  pool: PoolConfig,
+  stored: Position[],
+  account: `0x${string}`,
+): Promise<OnChainPosition[]> {
+  const client = getPublicClient(pool.chain);
+  const activeId = Number(
+    await batchRead(client, {
+      address: pool.address,
+      abi: [ABIS.lb.getActiveId],
+      functionName: "getActiveId",
+    }),
+  );
+  const idSet = new Set<number>();
+  for (let id = activeId - RECONCILE_LB_SCAN_BINS; id <= activeId + RECONCILE_LB_SCAN_BINS; id++)
+    idSet.add(id);
+  for (const p of stored) for (let id = p.tickLower; id <= p.tickUpper; id++) idSet.add(id);
+  const ids = [...idSet].sort((a, b) => a - b);
+
+  const balances = (await batchRead(client, {
+    address: pool.address,
+    abi: [ABIS.lb.balanceOfBatch],
+    functionName: "balanceOfBatch",
+    args: [ids.map(() => account), ids.map(BigInt)],
+  })) as readonly bigint[];
+
+  return lbRuns(ids, [...balances]).map((r) => ({
+    chain: pool.chain,
+    pool: pool.address,
+    dex: pool.dex,
+    positionId: `lb:${r.lower}:${r.upper}`,
+    tickLower: r.lower,
+    tickUpper: r.upper,
+    liquidity: r.total,
+  }));
+}
+
+// ---- Diff ----
+
+const drifted = (a: bigint, b: bigint) => {
+  const max = a > b ? a : b;
+  const diff = a > b ? a - b : b - a;
+  return max > 0n && Number(diff) / Number(max) > RECONCILE_LIQUIDITY_TOLERANCE;
+};
+
+/**
+ * Compare stored positions against on-chain ones. `resolved` maps store ids of `pending:` positions
+ * to the tokenId found in their mint receipt (null when the receipt minted nothing).
+ * LB positions match on bin overlap and carry no comparable liquidity.
+ */
+export function diffPositions(
+  stored: Position[],
+  onChain: OnChainPosition[],
+  resolved: Map<string, string | null>,
+): ReconcileIssue[] {
+  const issues: ReconcileIssue[] = [];
+  const claimed = new Set<OnChainPosition>();
+  const base = (p: Position) => ({
+    chain: p.chain,
+    pool: p.pool,
+    dex: p.dex,
+    storeId: p.id,
+    tickLower: p.tickLower,
+    tickUpper: p.tickUpper,
+  });
+
+  for (const pos of stored) {
+    if (isLB(pos.dex)) {
+      const runs = onChain.filter(
+        (o) =>
+          o.pool === pos.pool &&
+          o.chain === pos.chain &&
+          o.tickLower <= pos.tickUpper &&
+          o.tickUpper >= pos.tickLower,
+      );
+      runs.forEach((r) => claimed.add(r));
+      if (!runs.length)
+        issues.push({
+          kind: "ghost",
+          ...base(pos),
+          positionId: pos.positionId,
+          storedLiquidity: pos.liquidity,
+          onChainLiquidity: 0n,
+        });
+      continue;
+    }
+
+    const pendingId = isPending(pos) ? resolved.get(pos.id) : undefined;
+    if (pendingId === null) {
+      issues.push({
+        kind: "ghost",
+        ...base(pos),
+        positionId: pos.positionId,
+        storedLiquidity: pos.liquidity,
+      });
+      continue;
+    }
+    const id = pendingId ?? pos.positionId;
+    const match = onChain.find((o) => o.chain === pos.chain && o.positionId === id);
+    if (match) claimed.add(match);
+    const liquidity = match?.liquidity ?? 0n;
+
+    if (liquidity === 0n) {
+      issues.push({
+        kind: "ghost",
+        ...base(pos),
+        positionId: id,
+        storedLiquidity: pos.liquidity,
+        onChainLiquidity: 0n,
+      });
+    } else if (pendingId) {
+      issues.push({
+        kind: "pending",
+        ...base(pos),
+        positionId: id,
+        storedLiquidity: pos.liquidity,
+        onChainLiquidity: liquidity,
+      });
+    } else if (drifted(pos.liquidity, liquidity)) {
+      issues.push({
+        kind: "mismatch",
+        ...base(pos),
+        positionId: id,
+        storedLiquidity: pos.liquidity,
+        onChainLiquidity: liquidity,
+      });
+    }
+  }
+
+  for (const o of onChain) {
+    if (claimed.has(o) || o.liquidity === 0n) continue;
+    issues.push({
+      kind: "orphan",
+      chain: o.chain,
+      pool: o.pool,
+      dex: o.dex,
+      positionId: o.positionId,
+      tickLower: o.tickLower,
+      tickUpper: o.tickUpper,
+      onChainLiquidity: o.liquidity,
+    });
+  }
+  return issues;
+}
+
+// ---- Adopt / purge ----
+
+/** Current token amounts (pair order) held by an orphan, from pool state. */
+async function orphanAmounts(
+  pair: PairConfig,
+  pool: PoolConfig,
+  issue: ReconcileIssue,
+  account: `0x${string}`,
+): Promise<[bigint, bigint]> {
+  const client = getPublicClient(pool.chain);
+  const t0 = pair.token0.addresses[pool.chain]!.toLowerCase();
+
+  if (isLB(pool.dex)) {
+    const [tokenX, [x, y]] = await Promise.all([
+      batchRead(client, {
+        address: pool.address,
+        abi: [ABIS.lb.getTokenX],
+        functionName: "getTokenX",
+      }) as Promise<string>,
+      lbBinAmounts(pool, issue.tickLower!, issue.tickUpper!, account),
+    ]);
+    return tokenX.toLowerCase() === t0 ? [x, y] : [y, x];
+  }
+
+  const state = await queryPool({ id: pool.address, chain: pool.chain, dex: pool.dex }, [
+    pair.token0,
+    pair.token1,
+  ]);
+  const [s0, s1] = amountsForLiquidity(
+    state.sqrtPriceX96!,
+    issue.tickLower!,
+    issue.tickUpper!,
+    issue.onChainLiquidity!,
+  );
+  return state.token0.toLowerCase() === t0 ? [s0, s1] : [s1, s0];
+}
+
+async function adoptOrphan(
+  store: DragonflyStore,
+  pair: PairConfig,
+  issue: ReconcileIssue,
+  account: `0x${string}`,
+): Promise<void> {
+  const pool = pair.pools.find((p) => p.address === issue.pool && p.chain === issue.chain)!;
+  const [[amount0, amount1], quote] = await Promise.all([
+    orphanAmounts(pair, pool, issue, account),
+    readPoolQuote(pair, pool),
+  ]);
+  const position: Position = {
+    id: `${pool.chain}:${pool.address.length > 42 ? pool.address.slice(0, 20) : pool.address}:${Date.now()}`,
+    pool: pool.address,
+    chain: pool.chain,
+    dex: pool.dex,
+    positionId: issue.positionId,
+    tickLower: issue.tickLower!,
+    tickUpper: issue.tickUpper!,
+    liquidity: isLB(pool.dex) ? 0n : issue.onChainLiquidity!,
+    amount0,
+    amount1,
+    entryPrice: quote.price,
+    entryTs: Date.now(),
+    entryApr: 0,
+    entryValueUsd: computeEntryValueUsd(pair, pool.chain, amount0, amount1),
+  };
+  await store.savePosition(position);
+  ingestToO2("positions", [{ event: "adopt", pairId: pair.id, ...position }]);
+  issue.storeId = position.id;
+}
+
+/**
+ * Apply fixes in place: adopt makes the store follow the chain (orphans saved, pending ids
+ * and drifted liquidity updated); purge deletes ghosts from the store.
+ */
+async function applyIssues(
+  store: DragonflyStore,
+  pair: PairConfig,
+  stored: Position[],
+  issues: ReconcileIssue[],
+  account: `0x${string}`,
+  opts: { adopt?: boolean; purge?: boolean },
+): Promise<void> {
+  for (const issue of issues) {
+    const pos = stored.find((p) => p.id === issue.storeId);
+    if (issue.kind === "ghost" && opts.purge && pos) {
+      await store.deletePosition(pos.id);
+      ingestToO2("positions", [
+        { event: "purge", pairId: pair.id, positionId: pos.id, pool: pos.pool, chain: pos.chain },
+      ]);
+      issue.resolution = "purged";
+    } else if (opts.adopt && issue.kind === "orphan") {
+      await adoptOrphan(store, pair, issue, account);
+      issue.resolution = "adopted";
+    } else if (opts.adopt && pos && (issue.kind === "pending" || issue.kind === "mismatch")) {
+      await store.savePosition({
+        ...pos,
+        positionId: issue.positionId,
+        liquidity: issue.onChainLiquidity!,
+      });
+      issue.resolution = "adopted";
+    }
+  }
+}
+
+// ---- Entry point ----
+
+/**
+ * Compare the store's positions for `pair` with what `account` holds on every configured pool
+ * and optionally repair the store. Report-only unless `adopt` / `purge` is set.
+ */
+export async function reconcilePositions(
+  store: DragonflyStore,
+  pair: PairConfig,
+  account: `0x${string}`,
+  opts: { adopt?: boolean; purge?: boolean } = {},
+): Promise<ReconcileReport> {
+  const stored = await store.getPositions();
+
+  const resolved = new Map<string, string | null>();
+  for (const pos of stored.filter(isPending)) resolved.set(pos.id, await resolvePendingId(pos));
+
+  const onChain: OnChainPosition[] = [];
+  const v3Groups = new Map<string, PoolConfig[]>();
+  for (const pool of pair.pools) {
+    if (isLB(pool.dex)) {
+      const mine = stored.filter((p) => p.pool === pool.address && p.chain === pool.chain);
+      onChain.push(...(await readLBPositions(pool, mine, account)));
+    } else if (!isV4(pool.dex)) {
+      const key = `${pool.dex}:${pool.chain}`;
+      v3Groups.set(key, [...(v3Groups.get(key) ?? []), pool]);
+    }
+  }
+  for (const pools of v3Groups.values()) {
+    onChain.push(...(await readV3Positions(pair, pools[0].chain, pools[0].dex, pools, account)));
+  }
+  const v4Ids = stored
+    .filter((p) => isV4(p.dex))
+    .map((pos) => ({ pos, positionId: isPending(pos) ? resolved.get(pos.id) : pos.positionId }))
+    .filter((s): s is { pos: Position; positionId: string } => !!s.positionId);
+  onChain.push(...(await readV4Positions(v4Ids, account)));
+
+  const issues = diffPositions(stored, onChain, resolved);
+  if (opts.adopt || opts.purge) await applyIssues(store, pair, stored, issues, account, opts);
+
+  for (const i of issues) {
+    log.warn(
+      `${pair.id} reconcile: ${i.kind} ${i.positionId} on ${i.dex} chain ${i.chain}${i.resolution ? ` (${i.resolution})` : ""}`,
+      { pairId: pair.id, chain: i.chain, pool: i.pool },
+    );
+  }
+  return { pairId: pair.id, account, ts: Date.now(), checked: stored.length, issues };
+}
@@ -0,0 +1,210 @@
+import {
+  BaseError,
+  HttpRequestError,
+  LimitExceededRpcError,
+  TimeoutError,
+  type Transport,
+} from "viem";
+import type { RedisClient } from "bun";
+import type { RpcHealth } from "../../shared/types";
+import { chains } from "../config/chains";
+import {
+  RPC_HEALTH_ALPHA,
+  RPC_HEALTH_MIN_SAMPLES,
+  RPC_EJECT_ERROR_RATE,
+  RPC_EJECT_LAG_MS,
+  RPC_REORDER_MARGIN,
+  RPC_PROBE_TIMEOUT_MS,
+} from "../config/params";
+import { setRpcHealth } from "../infra/redis";
+import { log, errMsg } from "../utils";
+
+// ---- RPC endpoint health ----
+// Every request sent through a chain's transport is timed and classified (transport failures count
+// as errors, reverts do not). Worker heartbeats also probe each endpoint with eth_blockNumber, which
+// measures how far it trails the chain's best head. The resulting score orders the fallback
+// transport: endpoints that error too often or lag too far are ejected (the best one is kept if all
+// are), and the primary only changes when another endpoint beats it by RPC_REORDER_MARGIN, so
+// clients are not rebuilt on every latency wobble.
+
+interface EndpointStats {
+  latencyMs: number;
+  errorRate: number;
+  samples: number;
+  blockNumber: number;
+  ts: number;
+}
+
+const stats = new Map<number, Map<string, EndpointStats>>();
+const tracked = new Map<number, string[]>(); // configured endpoints per chain
+const ranked = new Map<number, string[]>(); // current transport order per chain
+const listeners: ((chainId: number) => void)[] = [];
+
+const DEFAULT_BLOCK_MS = 2_000;
+
+function endpoint(chainId: number, url: string): EndpointStats {
+  let byUrl = stats.get(chainId);
+  if (!byUrl) stats.set(chainId, (byUrl = new Map()));
+  let s = byUrl.get(url);
+  if (!s) byUrl.set(url, (s = { latencyMs: 0, errorRate: 0, samples: 0, blockNumber: 0, ts: 0 }));
+  return s;
+}
+
+const ewma = (prev: number, sample: number, first: boolean) =>
+  first ? sample : prev + RPC_HEALTH_ALPHA * (sample - prev);
+
+/** Record the outcome and round-trip time of one request to `url`. */
+export function recordRpcCall(chainId: number, url: string, latencyMs: number, ok: boolean): void {
+  const s = endpoint(chainId, url);
+  const first = s.samples === 0;
+  s.latencyMs = ewma(s.latencyMs, latencyMs, first);
+  s.errorRate = ewma(s.errorRate, ok ? 0 : 1, first);
+  s.samples++;
+  s.ts = Date.now();
+}
+
+/** Record the head block reported by `url`. */
+export function recordRpcBlock(chainId: number, url: string, blockNumber: number): void {
+  const s = endpoint(chainId, url);
+  s.blockNumber = Math.max(s.blockNumber, blockNumber);
+}
+
+/** Whether an error is the endpoint's fault (unreachable, timed out, rate limited) rather than the call's. */
+export function isEndpointFault(e: unknown): boolean {
+  return (
+    e instanceof BaseError &&
+    !!e.walk(
+      (c) =>
+        c instanceof HttpRequestError ||
+        c instanceof TimeoutError ||
+        c instanceof LimitExceededRpcError,
+    )
+  );
+}
+
+/** Health of every observed endpoint of a chain, best first. */
+export function rpcHealth(chainId: number): RpcHealth[] {
+  const byUrl = stats.get(chainId);
+  if (!byUrl) return [];
+  const blockMs = chains[chainId]?.blockTimeMs ?? DEFAULT_BLOCK_MS;
+  const head = Math.max(0, ...[...byUrl.values()].map((s) => s.blockNumber));
+  const out: RpcHealth[] = [];
+  for (const [url, s] of byUrl) {
+    if (!s.samples) continue;
+    const blockLag = s.blockNumber ? head - s.blockNumber : 0;
+    const ejected =
+      s.samples >= RPC_HEALTH_MIN_SAMPLES &&
+      (s.errorRate > RPC_EJECT_ERROR_RATE || blockLag * blockMs > RPC_EJECT_LAG_MS);
+    // Latency inflated by the failure rate, plus the time the endpoint trails the head
+    const score = s.latencyMs / Math.max(1 - s.errorRate, 0.05) + blockLag * blockMs;
+    out.push({ url, ...s, blockLag, score, ejected });
+  }
+  return out.sort((a, b) => a.score - b.score);
+}
+
+function sameOrder(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((u, i) => u === b[i]);
+}
+
+/**
+ * Recompute a chain's transport order from current health. Returns true (and notifies listeners)
+ * when the primary endpoint or the set of live endpoints changed.
+ */
+export function refreshRank(chainId: number): boolean {
+  const rpcs = tracked.get(chainId);
+  if (!rpcs?.length) return false;
+  const health = new Map(rpcHealth(chainId).map((h) => [h.url, h]));
+  const score = (u: string) => {
+    const h = health.get(u);
+    return h && h.samples >= RPC_HEALTH_MIN_SAMPLES ? h.score : Infinity;
+  };
+  const live = rpcs.filter((u) => !health.get(u)?.ejected);
+  const byScore = (a: string, b: string) => score(a) - score(b);
+  // Stable sort: endpoints without enough samples keep their configured order
+  const order = live.length ? [...live].sort(byScore) : [[...rpcs].sort(byScore)[0]];
+
+  const current = ranked.get(chainId) ?? rpcs;
+  const primary = current[0];
+  if (order.includes(primary) && score(order[0]) * (1 + RPC_REORDER_MARGIN) >= score(primary)) {
+    order.splice(order.indexOf(primary), 1);
+    order.unshift(primary);
+  }
+  ranked.set(chainId, order);
+  const membership = (l: string[]) => [...l].sort();
+  if (order[0] === primary && sameOrder(membership(order), membership(current))) return false;
+
+  const ejected = rpcs.filter((u) => !order.includes(u));
+  log.info(
+    `RPC chain ${chainId}: primary ${order[0]}${ejected.length ? `, ejected ${ejected.join(", ")}` : ""}`,
+  );
+  for (const fn of listeners) fn(chainId);
+  return true;
+}
+
+/**
+ * Transport order for a chain's configured endpoints, registering them for probing.
+ * A changed endpoint list resets the order to the configured one.
+ */
+export function rankRpcs(chainId: number, rpcs: string[]): string[] {
+  const prev = tracked.get(chainId);
+  if (!prev || !sameOrder(prev, rpcs)) {
+    tracked.set(chainId, rpcs);
+    ranked.delete(chainId);
+  }
+  return ranked.get(chainId) ?? rpcs;
+}
+
+/** Call `fn` whenever a chain's transport order changes. */
+export function onRankChange(fn: (chainId: number) => void): void {
+  listeners.push(fn);
+}
+
+/** Wrap an endpoint's transport so every request feeds its health stats. */
+export function trackTransport(chainId: number, url: string, transport: Transport): Transport {
+  return (params) => {
+    const t = transport(params);
+    const request = (async (args, opts) => {
+      const t0 = performance.now();
+      try {
+        const result = await t.request(args, opts);
+        recordRpcCall(chainId, url, performance.now() - t0, true);
+        if (args.method === "eth_blockNumber") recordRpcBlock(chainId, url, Number(result));
+        return result;
+      } catch (e) {
+        if (isEndpointFault(e)) recordRpcCall(chainId, url, performance.now() - t0, false);
+        throw e;
+      }
+    }) as typeof t.request;
+    return { ...t, request };
+  };
+}
+
+async function probe(chainId: number, url: string): Promise<void> {
+  const t0 = performance.now();
+  try {
+    const res = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "eth_blockNumber", params: [] }),
+      signal: AbortSignal.timeout(RPC_PROBE_TIMEOUT_MS),
+    });
+    const body = (await res.json()) as { result?: string };
+    if (!res.ok || !body.result) throw new Error(`HTTP ${res.status}`);
+    recordRpcCall(chainId, url, performance.now() - t0, true);
+    recordRpcBlock(chainId, url, Number(body.result));
+  } catch (e) {
+    recordRpcCall(chainId, url, performance.now() - t0, false);
+    log.debug(`RPC probe failed on chain ${chainId} (${url}): ${errMsg(e)}`);
+  }
+}
+
+/**
+ * Probe every endpoint of the chains this process uses, re-rank them, and publish the scores
+ * to DragonflyDB for the API when `redis` is given.
+ */
+export async function monitorRpcs(redis?: RedisClient): Promise<void> {
+  const chainIds = [...tracked.keys()];
+  await Promise.all(chainIds.flatMap((id) => tracked.get(id)!.map((url) => probe(id, url))));
+  for (const id of chainIds) refreshRank(id);
+  if (redis) await Promise.all(chainIds.map((id) => setRpcHealth(redis, id, rpcHealth(id))));
+}
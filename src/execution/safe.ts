@@ -0,0 +1,88 @@
+import {
+  encodeFunctionData,
+  toFunctionSelector,
+  toHex,
+  zeroHash,
+  type LocalAccount,
+  type PublicClient,
+} from "viem";
+import type { ChainId, SafeConfig } from "../types";
+import { ABIS, dexes } from "../config/dexs";
+import { LIFI_DIAMOND, ZERO_ADDR } from "../config/params";
+
+// ---- Safe execution ----
+// In "safe" signer mode a strategy's funds and positions sit in its Safe (one CREATE2 address on
+// every chain, see docs/migration-smart-accounts.md) and the strategy key is a session key holding
+// gas only. Each call is wrapped before it is sent by that key: as BTRPolicyModule.execute() where
+// the chain has a module (the key is its keeper), otherwise as Safe.execTransaction() signed by the
+// key as an owner of a threshold-1 Safe. The wrapped call executes from the Safe, so recipients,
+// balances and positions are the Safe's.
+
+/** Safe operation: plain CALL (never DELEGATECALL). */
+const CALL = 0;
+
+// BTRPolicyModule adapter ids: raw UTF-8 right-padded to bytes32 (not hashed), as registered on-chain
+const ADAPTER_IDS = {
+  lifi: toHex("lifi", { size: 32 }),
+  univ3: toHex("univ3", { size: 32 }),
+  erc20: toHex("erc20", { size: 32 }),
+} as const;
+
+const APPROVE_SELECTOR = toFunctionSelector(ABIS.erc20.approve);
+
+/** Module adapter verifying a call to `to` (zeroHash: target allowlist only). */
+export function adapterId(chainId: ChainId, to: `0x${string}`, data: `0x${string}`): `0x${string}` {
+  const target = to.toLowerCase();
+  if (target === LIFI_DIAMOND.toLowerCase()) return ADAPTER_IDS.lifi;
+  const clmmManager = Object.values(dexes).some(
+    (d) => d.type !== "lb" && d.positionManager[chainId]?.toLowerCase() === target,
+  );
+  if (clmmManager) return ADAPTER_IDS.univ3;
+  if (data.startsWith(APPROVE_SELECTOR)) return ADAPTER_IDS.erc20;
+  return zeroHash;
+}
+
+/**
+ * The transaction the session key sends to have `safe` make `tx`: a module execution, or a Safe
+ * transaction at the Safe's current nonce signed by `sessionKey`.
+ */
+export async function wrapSafeTx(
+  pub: PublicClient,
+  chainId: ChainId,
+  safe: SafeConfig,
+  sessionKey: LocalAccount,
+  tx: { to: `0x${string}`; data: `0x${string}`; value: bigint },
+): Promise<{ to: `0x${string}`; data: `0x${string}`; value: bigint }> {
+  const module = safe.modules?.[chainId];
+  if (module) {
+    // expectedDstChainId 0: the module skips the chain check (the adapter still pins the receiver)
+    const data = encodeFunctionData({
+      abi: [ABIS.policyModule.execute],
+      functionName: "execute",
+      args: [adapterId(chainId, tx.to, tx.data), tx.to, tx.data, tx.value, safe.address, 0n],
+    });
+    return { to: module, data, value: 0n };
+  }
+
+  // No refund: safeTxGas = gasPrice = 0 also makes a failing inner call revert the whole tx
+  const params = [tx.to, tx.value, tx.data, CALL, 0n, 0n, 0n, ZERO_ADDR, ZERO_ADDR] as const;
+  const nonce = await pub.readContract({
+    address: safe.address,
+    abi: [ABIS.safe.nonce],
+    functionName: "nonce",
+  });
+  const hash = await pub.readContract({
+    address: safe.address,
+    abi: [ABIS.safe.getTransactionHash],
+    functionName: "getTransactionHash",
+    args: [...params, nonce],
+  });
+  if (!sessionKey.sign) throw new Error(`Session key ${sessionKey.address} cannot sign hashes`);
+  const signature = await sessionKey.sign({ hash });
+  const data = encodeFunctionData({
+    abi: [ABIS.safe.execTransaction],
+    functionName: "execTransaction",
+    args: [...params, signature],
+  });
+  return { to: safe.address, data, value: 0n };
+}
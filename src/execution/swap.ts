@@ -17,8 +17,13 @@ import {
   LIFI_SDK_VERSION,
   LIFI_WIDGET_VERSION,
   FETCH_TIMEOUT_MS,
+  PRICE_DEVIATION_MAX,
 } from "../config/params";
-import { sendAndWait, getPublicClient, getAccount, approveIfNeeded } from "./tx";
+import { sendAndWait, getPublicClient, approveIfNeeded, type Signer } from "./tx";
+import { batchRead } from "./multicall";
+import { quorumRead } from "./quorum";
+import { readLifiCall } from "./policy";
+import { quoteShortfall } from "./oracle";
 
 export type SwapBackend = "jumper" | "lifi";
 
@@ -35,37 +40,6 @@ const JUMPER_HEADERS = {
   "x-lifi-widget": LIFI_WIDGET_VERSION,
 };
 
-const VERIFY_ABI = {
-  extractMainParameters: {
-    inputs: [{ name: "data", type: "bytes" }],
-    name: "extractMainParameters",
-    outputs: [
-      { name: "bridge", type: "string" },
-      { name: "sendingAssetId", type: "address" },
-      { name: "receiver", type: "address" },
-      { name: "minAmount", type: "uint256" },
-      { name: "destinationChainId", type: "uint256" },
-      { name: "hasSourceSwaps", type: "bool" },
-      { name: "hasDestinationCall", type: "bool" },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  extractGenericSwapParameters: {
-    inputs: [{ name: "data", type: "bytes" }],
-    name: "extractGenericSwapParameters",
-    outputs: [
-      { name: "sendingAssetId", type: "address" },
-      { name: "amount", type: "uint256" },
-      { name: "receiver", type: "address" },
-      { name: "receivingAssetId", type: "address" },
-      { name: "receivingAmount", type: "uint256" },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-} as const;
-
 // ---- Jumper backend (two-step: routes → stepTransaction, 0% fee) ----
 
 async function fetchJumperQuote(p: LifiQuoteParams): Promise<LifiQuote | null> {
@@ -232,34 +206,11 @@ export async function verifyCalldata(
   expectedReceiver: string,
   expectedDestChain?: ChainId,
 ): Promise<boolean> {
-  const pub = getPublicClient(chainId);
-  const receiver = expectedReceiver.toLowerCase();
-
-  try {
-    if (expectedDestChain && expectedDestChain !== chainId) {
-      const result = (await pub.simulateContract({
-        address: LIFI_DIAMOND,
-        abi: [VERIFY_ABI.extractMainParameters],
-        functionName: "extractMainParameters",
-        args: [calldata],
-      })) as { result: readonly [string, string, string, bigint, bigint, boolean, boolean] };
-      const [, , rxReceiver, , destChainId, , hasDestCall] = result.result;
-      if (rxReceiver.toLowerCase() !== receiver) return false;
-      if (Number(destChainId) !== expectedDestChain) return false;
-      if (hasDestCall) return false;
-      return true;
-    }
-    const result = (await pub.simulateContract({
-      address: LIFI_DIAMOND,
-      abi: [VERIFY_ABI.extractGenericSwapParameters],
-      functionName: "extractGenericSwapParameters",
-      args: [calldata],
-    })) as { result: readonly [string, bigint, string, string, bigint] };
-    const [, , rxReceiver] = result.result;
-    return rxReceiver.toLowerCase() === receiver;
-  } catch {
-    return false;
-  }
+  const call = await readLifiCall(getPublicClient(chainId), calldata);
+  if (!call || call.receiver.toLowerCase() !== expectedReceiver.toLowerCase()) return false;
+  if (expectedDestChain && expectedDestChain !== chainId)
+    return call.destChainId === expectedDestChain && !call.destinationCall;
+  return call.destChainId === null;
 }
 
 /**
@@ -293,12 +244,16 @@ export async function swapTokens(params: {
   fromToken: `0x${string}`;
   toToken: `0x${string}`;
   amount: bigint;
-  privateKey: `0x${string}`;
+  signer: Signer;
   slippage?: number;
   backend?: SwapBackend;
+  /** Output implied by the M1 close: quotes short of it by more than `maxDeviation` are refused. */
+  expectedOut?: bigint;
+  maxDeviation?: number;
+  /** Called once the source tx is mined, before waiting for cross-chain arrival. */
+  onSent?: (sent: { hash: `0x${string}`; balanceBefore: bigint }) => Promise<void>;
 }): Promise<SwapResult | null> {
   const backend = params.backend ?? "jumper";
-  const account = getAccount(params.privateKey);
 
   const quote = await lifiQuote(
     {
@@ -307,8 +262,8 @@ export async function swapTokens(params: {
       fromToken: params.fromToken,
       toToken: params.toToken,
       fromAmount: params.amount.toString(),
-      fromAddress: account.address,
-      toAddress: account.address,
+      fromAddress: params.signer.address,
+      toAddress: params.signer.address,
       slippage: params.slippage,
     },
     backend,
@@ -320,22 +275,26 @@ export async function swapTokens(params: {
 
   log.info(`Quote [${backend}]: type=${quote.type} toAmount=${quote.estimate.toAmount}`);
 
+  if (params.expectedOut) {
+    const shortfall = quoteShortfall(params.expectedOut, BigInt(quote.estimate.toAmount));
+    if (shortfall > (params.maxDeviation ?? PRICE_DEVIATION_MAX)) {
+      log.warn(
+        `Quote ${(shortfall * 100).toFixed(2)}% below the expected ${params.expectedOut} — aborting swap`,
+      );
+      return null;
+    }
+  }
+
   // Approve
   const spender = (quote.estimate.approvalAddress || LIFI_DIAMOND) as `0x${string}`;
-  await approveIfNeeded(
-    params.fromChain,
-    params.fromToken,
-    spender,
-    params.amount,
-    params.privateKey,
-  );
+  await approveIfNeeded(params.fromChain, params.fromToken, spender, params.amount, params.signer);
 
   // Verify calldata on-chain
   const isCrossChain = params.fromChain !== params.toChain;
   const verified = await verifyCalldata(
     params.fromChain,
     quote.transactionRequest.data as `0x${string}`,
-    account.address,
+    params.signer.address,
     isCrossChain ? params.toChain : undefined,
   );
   if (!verified) {
@@ -346,11 +305,11 @@ export async function swapTokens(params: {
   // Snapshot destination balance before sending (for cross-chain arrival detection)
   let balanceBefore = 0n;
   if (isCrossChain) {
-    balanceBefore = await getBalance(params.toChain, params.toToken, account.address);
+    balanceBefore = await getBalance(params.toChain, params.toToken, params.signer.address);
   }
 
   // Send source tx
-  const result = await sendAndWait(params.fromChain, params.privateKey, {
+  const result = await sendAndWait(params.fromChain, params.signer, {
     to: quote.transactionRequest.to as `0x${string}`,
     data: quote.transactionRequest.data as `0x${string}`,
     value: quote.transactionRequest.value ? BigInt(quote.transactionRequest.value) : undefined,
@@ -360,6 +319,7 @@ export async function swapTokens(params: {
     return null;
   }
 
+  await params.onSent?.({ hash: result.hash, balanceBefore });
   let amountOut = BigInt(quote.estimate.toAmountMin);
 
   // Cross-chain: wait for funds to arrive
@@ -367,7 +327,7 @@ export async function swapTokens(params: {
     const newBal = await waitForArrival(
       params.toChain,
       params.toToken,
-      account.address,
+      params.signer.address,
       balanceBefore,
     );
     amountOut = newBal - balanceBefore;
@@ -379,17 +339,20 @@ export async function swapTokens(params: {
 
 /**
  * Get token balance for an account on a chain.
+ * `quorum` cross-checks it across RPC endpoints (balances that size a mint).
  */
 export async function getBalance(
   chainId: ChainId,
   token: `0x${string}`,
   account: `0x${string}`,
+  quorum = false,
 ): Promise<bigint> {
-  const pub = getPublicClient(chainId);
-  return (await pub.readContract({
+  const read = {
     address: token,
     abi: [ABIS.erc20.balanceOf],
     functionName: "balanceOf",
     args: [account],
-  })) as bigint;
+  };
+  if (quorum) return quorumRead<bigint>(chainId, read);
+  return batchRead<bigint>(getPublicClient(chainId), read);
 }
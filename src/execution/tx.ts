@@ -1,12 +1,16 @@
 import {
+  BaseError,
+  ContractFunctionRevertedError,
   createPublicClient,
   createWalletClient,
   defineChain,
   encodeFunctionData,
+  ExecutionRevertedError,
   fallback,
   http,
   type Account,
   type Chain,
+  type LocalAccount,
   type PublicClient,
   type WalletClient,
 } from "viem";
@@ -27,19 +31,39 @@ import {
   scroll,
   blast,
 } from "viem/chains";
-import type { ChainId, PairConfig } from "../types";
-import { chains, getChain } from "../config/chains";
+import type { ChainId, PairConfig, SafeConfig, SignerMode, StrategyConfig } from "../types";
+import { chains, getChain, resolveRpcs } from "../config/chains";
 import { ABIS } from "../config/dexs";
 import {
   PERMIT2,
+  MULTICALL3,
   GAS_BUFFER_NUM,
   GAS_BUFFER_DEN,
   TX_RECEIPT_TIMEOUT_MS,
+  TX_REPLACE_AFTER_BLOCKS,
+  TX_REPLACE_MIN_MS,
+  TX_MAX_SPEEDUPS,
+  TX_FEE_BUMP_NUM,
+  TX_FEE_BUMP_DEN,
+  TX_CANCEL_GAS,
   MAX_UINT160,
   PERMIT2_EXPIRY_SEC,
 } from "../config/params";
 import { errMsg } from "../../shared/format";
 import { log } from "../utils";
+import {
+  isOrphanReservation,
+  pendingTxs,
+  reserveNonce,
+  settleTx,
+  trackTx,
+  type PendingTx,
+  type TxFees,
+} from "./nonce";
+import { batchRead } from "./multicall";
+import { recordSpend, vetTx } from "./policy";
+import { wrapSafeTx } from "./safe";
+import { onRankChange, rankRpcs, trackTransport } from "./rpc-health";
 
 // ---- Viem chain definitions ----
 
@@ -48,6 +72,7 @@ const sonic = defineChain({
   name: "Sonic",
   nativeCurrency: { name: "Sonic", symbol: "S", decimals: 18 },
   rpcUrls: { default: { http: ["https://rpc.soniclabs.com"] } },
+  contracts: { multicall3: { address: MULTICALL3 } },
 });
 
 const hyperEvm = defineChain({
@@ -55,6 +80,7 @@ const hyperEvm = defineChain({
   name: "HyperEVM",
   nativeCurrency: { name: "HYPE", symbol: "HYPE", decimals: 18 },
   rpcUrls: { default: { http: chains[999].rpcs } },
+  contracts: { multicall3: { address: MULTICALL3 } },
 });
 
 const KNOWN_VIEM_CHAINS: Record<number, Chain> = {
@@ -95,11 +121,27 @@ export function getViemChain(chainId: number): Chain {
 
 // ---- Fallback transport ----
 
-function makeTransport(rpcs: string[]) {
-  if (rpcs.length === 1) return http(rpcs[0]);
+/**
+ * Current RPC endpoints of a chain, runtime (DragonflyDB) overrides included.
+ * Throws on chains missing from the registry.
+ */
+export function chainRpcs(chainId: number): string[] {
+  getChain(chainId);
+  return resolveRpcs(chainId);
+}
+
+// Endpoints are ordered by the RPC health tracker (unhealthy ones ejected); every request is timed.
+function makeTransport(chainId: number, rpcs: string[]) {
+  const urls = rankRpcs(chainId, rpcs);
+  if (urls.length === 1) return trackTransport(chainId, urls[0], http(urls[0]));
   return fallback(
-    rpcs.map((url) => http(url, { retryCount: 2, retryDelay: 1_000, timeout: 15_000 })),
-    { rank: true },
+    urls.map((url) =>
+      trackTransport(
+        chainId,
+        url,
+        http(url, { retryCount: 2, retryDelay: 1_000, timeout: 15_000 }),
+      ),
+    ),
   );
 }
 
@@ -108,7 +150,7 @@ function makeTransport(rpcs: string[]) {
 let cacheVersion = 0;
 const publicClients = new Map<string, PublicClient>();
 const walletClients = new Map<string, WalletClient>();
-const accountCache = new Map<string, Account>();
+const accountCache = new Map<string, LocalAccount>();
 
 function cacheKey(chainId: number): string {
   return `${chainId}:${cacheVersion}`;
@@ -131,45 +173,91 @@ export function invalidateClients(chainId?: number): void {
   }
 }
 
+// A new endpoint order only takes effect in freshly built clients
+onRankChange(invalidateClients);
+
 export function getPublicClient(chainId: ChainId): PublicClient {
   const key = cacheKey(chainId);
   if (!publicClients.has(key)) {
-    const chain = getChain(chainId);
     publicClients.set(
       key,
       createPublicClient({
         chain: getViemChain(chainId),
-        transport: makeTransport(chain.rpcs),
+        transport: makeTransport(chainId, chainRpcs(chainId)),
+      }) as PublicClient,
+    );
+  }
+  return publicClients.get(key)!;
+}
+
+/** Client bound to one RPC endpoint of a chain (cross-checked reads), bypassing the fallback order. */
+export function getEndpointClient(chainId: ChainId, url: string): PublicClient {
+  const key = `${chainId}:endpoint:${url}`;
+  if (!publicClients.has(key)) {
+    publicClients.set(
+      key,
+      createPublicClient({
+        chain: getViemChain(chainId),
+        transport: trackTransport(chainId, url, http(url, { retryCount: 1, timeout: 15_000 })),
       }) as PublicClient,
     );
   }
   return publicClients.get(key)!;
 }
 
-export function getWalletClient(chainId: ChainId, privateKey: `0x${string}`): WalletClient {
-  const account = getAccount(privateKey);
+export function getWalletClient(chainId: ChainId, account: LocalAccount): WalletClient {
   const key = `${cacheKey(chainId)}:${account.address}`;
   if (!walletClients.has(key)) {
-    const chain = getChain(chainId);
     walletClients.set(
       key,
       createWalletClient({
         account,
         chain: getViemChain(chainId),
-        transport: makeTransport(chain.rpcs),
+        transport: makeTransport(chainId, chainRpcs(chainId)),
       }),
     );
   }
   return walletClients.get(key)!;
 }
 
-export function getAccount(privateKey: `0x${string}`): Account {
+/** Account of a raw private key (operator scripts; workers unlock theirs, see keys.ts). */
+export function getAccount(privateKey: `0x${string}`): LocalAccount {
   if (!accountCache.has(privateKey)) {
     accountCache.set(privateKey, privateKeyToAccount(privateKey));
   }
   return accountCache.get(privateKey)!;
 }
 
+// ---- Signers ----
+
+/** Handle on the key that signs a strategy's transactions, and the account they act for. */
+export interface Signer {
+  mode: SignerMode;
+  account: LocalAccount; // unlocked signing account: the EOA, or the Safe's session key
+  address: `0x${string}`; // account holding funds and positions: the EOA or the Safe
+  safe?: SafeConfig;
+}
+
+export function eoaSigner(account: LocalAccount): Signer {
+  return { mode: "eoa", account, address: account.address };
+}
+
+/** Session key `sessionKey` executing for `safe` (see safe.ts). */
+export function safeSigner(sessionKey: LocalAccount, safe: SafeConfig): Signer {
+  return { mode: "safe", account: sessionKey, address: safe.address, safe };
+}
+
+/** Signer of a strategy from its configured mode and key. Throws on a "safe" strategy without a Safe. */
+export function strategySigner(
+  strategy: Pick<StrategyConfig, "name" | "signer" | "safe">,
+  account: LocalAccount,
+): Signer {
+  if (strategy.signer !== "safe") return eoaSigner(account);
+  if (!strategy.safe)
+    throw new Error(`Strategy ${strategy.name}: signer "safe" needs a safe address`);
+  return safeSigner(account, strategy.safe);
+}
+
 export interface TxResult {
   hash: `0x${string}`;
   status: "success" | "reverted";
@@ -180,6 +268,7 @@ export interface TxResult {
     data: `0x${string}`;
     address: `0x${string}`;
   }[];
+  revertReason?: string; // reverted receipts: the call replayed at the block before the receipt's
 }
 
 /**
@@ -190,90 +279,378 @@ class SimulationError extends Error {
   constructor(
     public readonly chainId: ChainId,
     public readonly to: `0x${string}`,
-    cause: string,
+    public readonly reason: string,
   ) {
-    super(`TX simulation reverted on chain ${chainId} to=${to}: ${cause}`);
+    super(`TX simulation reverted on chain ${chainId} to=${to}: ${reason}`);
     this.name = "SimulationError";
   }
 }
 
 /**
- * Send a transaction with pre-flight eth_call simulation, gas buffer, and receipt polling.
+ * Revert reason of a failed call or simulation: the revert string, the decoded custom error
+ * (when the ABI declares it) or the node's message. Null when `e` is not a revert.
+ */
+export function revertReason(e: unknown): string | null {
+  if (e instanceof SimulationError) return e.reason;
+  if (!(e instanceof BaseError)) return null;
+  const revert = e.walk(
+    (c) => c instanceof ContractFunctionRevertedError || c instanceof ExecutionRevertedError,
+  );
+  if (revert instanceof ContractFunctionRevertedError) {
+    if (revert.reason) return revert.reason;
+    if (revert.data)
+      return `${revert.data.errorName}(${(revert.data.args ?? []).map(String).join(", ")})`;
+    return revert.signature ? `custom error ${revert.signature}` : revert.shortMessage;
+  }
+  return revert instanceof BaseError ? revert.shortMessage : null;
+}
+
+/** Thrown when a stuck transaction's nonce was consumed by its cancel instead of the call. */
+class TxCancelledError extends Error {
+  constructor(
+    public readonly chainId: ChainId,
+    public readonly nonce: number,
+  ) {
+    super(`TX nonce ${nonce} on chain ${chainId} cancelled after ${TX_MAX_SPEEDUPS} speed-up(s)`);
+    this.name = "TxCancelledError";
+  }
+}
+
+// ---- EIP-1559 fee policy ----
+
+/** Node fee estimate: EIP-1559 where the chain has a base fee, legacy gas price otherwise. */
+async function suggestFees(pub: PublicClient): Promise<TxFees> {
+  try {
+    const f = await pub.estimateFeesPerGas();
+    if (f.maxFeePerGas !== undefined && f.maxPriorityFeePerGas !== undefined) {
+      return { maxFeePerGas: f.maxFeePerGas, maxPriorityFeePerGas: f.maxPriorityFeePerGas };
+    }
+  } catch {
+    /* no base fee: legacy pricing */
+  }
+  const gasPrice = await pub.getGasPrice();
+  return { maxFeePerGas: gasPrice, maxPriorityFeePerGas: gasPrice, legacy: true };
+}
+
+/**
+ * Fees for a replacement: the previous fees bumped by TX_FEE_BUMP (nodes reject replacements
+ * under +10%), raised to the current estimate when the market moved further.
+ */
+export function bumpFees(prev: TxFees, current: TxFees): TxFees {
+  const bump = (v: bigint) => (v * TX_FEE_BUMP_NUM + TX_FEE_BUMP_DEN - 1n) / TX_FEE_BUMP_DEN;
+  const max = (a: bigint, b: bigint) => (a > b ? a : b);
+  const maxPriorityFeePerGas = max(bump(prev.maxPriorityFeePerGas), current.maxPriorityFeePerGas);
+  const maxFeePerGas = max(
+    max(bump(prev.maxFeePerGas), current.maxFeePerGas),
+    maxPriorityFeePerGas,
+  );
+  return { maxFeePerGas, maxPriorityFeePerGas, legacy: prev.legacy };
+}
+
+/** How long a transaction may stay pending before it is sped up: a few blocks, floored. */
+export function replaceAfterMs(chainId: number): number {
+  return Math.max(
+    TX_REPLACE_MIN_MS,
+    TX_REPLACE_AFTER_BLOCKS * (getChain(chainId).blockTimeMs ?? 2_000),
+  );
+}
+
+// ---- Broadcast and replacement ----
+
+type Receipt = Awaited<ReturnType<PublicClient["getTransactionReceipt"]>>;
+
+/** Nonces this process is currently waiting on (`chain:nonce`), left alone by clearStuckTxs. */
+const awaiting = new Set<string>();
+
+async function broadcast(
+  wallet: WalletClient,
+  req: { to: `0x${string}`; data: `0x${string}`; value: bigint; gas: bigint; nonce: number },
+  fees: TxFees,
+): Promise<`0x${string}`> {
+  const pricing = fees.legacy
+    ? { gasPrice: fees.maxFeePerGas }
+    : { maxFeePerGas: fees.maxFeePerGas, maxPriorityFeePerGas: fees.maxPriorityFeePerGas };
+  return wallet.sendTransaction({
+    ...req,
+    ...pricing,
+    account: wallet.account!,
+    chain: wallet.chain,
+  } as Parameters<WalletClient["sendTransaction"]>[0]);
+}
+
+/** Poll until any of `hashes` (same nonce) has a receipt, or `timeoutMs` elapses. */
+async function waitForAny(
+  pub: PublicClient,
+  hashes: `0x${string}`[],
+  timeoutMs: number,
+  pollMs: number,
+): Promise<Receipt | null> {
+  const deadline = Date.now() + timeoutMs;
+  while (true) {
+    for (const hash of hashes) {
+      const receipt = await pub.getTransactionReceipt({ hash }).catch(() => null);
+      if (receipt) return receipt;
+    }
+    if (Date.now() >= deadline) return null;
+    await new Promise((r) => setTimeout(r, pollMs));
+  }
+}
+
+/** Re-broadcast a pending nonce with bumped fees: the same call (speed-up) or a 0-value self-transfer (cancel). */
+async function replaceTx(
+  chainId: ChainId,
+  wallet: WalletClient,
+  pub: PublicClient,
+  p: PendingTx,
+  cancel: boolean,
+): Promise<void> {
+  const account = wallet.account!;
+  const fees = bumpFees(p.fees, await suggestFees(pub));
+  const req = cancel
+    ? { to: account.address, data: "0x" as const, value: 0n, gas: TX_CANCEL_GAS, nonce: p.nonce }
+    : { to: p.to, data: p.data, value: p.value, gas: p.gas, nonce: p.nonce };
+  try {
+    const hash = await broadcast(wallet, req, fees);
+    p.hashes.push(hash);
+    p.fees = fees;
+    if (cancel) p.cancelHash = hash;
+    await trackTx(chainId, account.address, p);
+    log.warn(
+      `TX ${cancel ? "cancel" : "speed-up"} ${hash} for nonce ${p.nonce} on chain ${chainId} (maxFee=${fees.maxFeePerGas})`,
+    );
+  } catch (e: unknown) {
+    // Typically "nonce too low": an earlier broadcast was mined meanwhile
+    log.warn(`TX replacement for nonce ${p.nonce} on chain ${chainId} rejected: ${errMsg(e)}`);
+  }
+}
+
+/**
+ * Wait for a broadcast transaction, speeding it up every `replaceAfterMs` and cancelling its
+ * nonce after TX_MAX_SPEEDUPS. Returns the receipt of whichever broadcast was mined; throws
+ * TxCancelledError if the cancel was, or when nothing is mined TX_RECEIPT_TIMEOUT_MS after it
+ * (the nonce stays tracked and is cleared before the next send).
+ */
+async function waitWithReplacement(
+  chainId: ChainId,
+  wallet: WalletClient,
+  pub: PublicClient,
+  p: PendingTx,
+  startRound = p.hashes.length - 1,
+): Promise<Receipt> {
+  const delayMs = replaceAfterMs(chainId);
+  const pollMs = Math.min(delayMs, Math.max(1_000, getChain(chainId).blockTimeMs ?? 2_000));
+  const key = `${chainId}:${p.nonce}`;
+  awaiting.add(key);
+  try {
+    for (let round = startRound; ; round++) {
+      const cancelled = round > TX_MAX_SPEEDUPS;
+      const receipt = await waitForAny(
+        pub,
+        p.hashes,
+        cancelled ? TX_RECEIPT_TIMEOUT_MS : delayMs,
+        pollMs,
+      );
+      if (receipt) {
+        await settleTx(chainId, wallet.account!.address, p.nonce, true);
+        if (receipt.transactionHash === p.cancelHash) throw new TxCancelledError(chainId, p.nonce);
+        return receipt;
+      }
+      if (cancelled) {
+        throw new Error(
+          `TX nonce ${p.nonce} on chain ${chainId} not mined ${TX_RECEIPT_TIMEOUT_MS}ms after its cancel`,
+        );
+      }
+      await replaceTx(chainId, wallet, pub, p, round === TX_MAX_SPEEDUPS);
+    }
+  } finally {
+    awaiting.delete(key);
+  }
+}
+
+/**
+ * Settle transactions an earlier send left pending (timed out, or a restart mid-wait): mined
+ * nonces are released, stuck ones are cancelled so the next transaction does not queue behind them.
+ */
+async function clearStuckTxs(
+  chainId: ChainId,
+  wallet: WalletClient,
+  pub: PublicClient,
+): Promise<void> {
+  const address = wallet.account!.address;
+  const stuck = await pendingTxs(chainId, address);
+  if (!stuck.length) return;
+  const mined = await pub.getTransactionCount({ address, blockTag: "latest" });
+  for (const p of stuck) {
+    if (p.nonce < mined || isOrphanReservation(p)) {
+      await settleTx(chainId, address, p.nonce, p.nonce < mined);
+      continue;
+    }
+    // Being broadcast or awaited by this process
+    if (!p.hashes.length || awaiting.has(`${chainId}:${p.nonce}`)) continue;
+    log.warn(`Clearing stuck TX nonce ${p.nonce} on chain ${chainId}`, { chain: chainId });
+    // Straight to the cancel round: the executor re-plans whatever the leftover transaction did
+    const round = Math.max(p.hashes.length - 1, TX_MAX_SPEEDUPS);
+    await waitWithReplacement(chainId, wallet, pub, p, round).catch((e: unknown) => {
+      if (!(e instanceof TxCancelledError)) throw e;
+    });
+  }
+}
+
+/**
+ * Send a transaction with policy vetting, pre-flight eth_call simulation, gas buffer, and receipt
+ * polling. The sender's policy (see policy.ts) refuses calls outside its allowlists and spend caps.
  * Simulation catches reverts before spending gas. Gas buffer prevents out-of-gas on complex calls.
+ * A Safe signer's call is simulated as the Safe, then wrapped for its session key (see safe.ts).
+ * The nonce comes from the nonce manager; a transaction still pending after a few blocks is
+ * re-broadcast with bumped EIP-1559 fees, then cancelled (see waitWithReplacement).
+ * `onSent` gets the hash once broadcast, before the receipt wait (e.g. to journal it).
  */
 
 export async function sendAndWait(
   chainId: ChainId,
-  privateKey: `0x${string}`,
+  signer: Signer,
   tx: { to: `0x${string}`; data: `0x${string}`; value?: bigint },
+  onSent?: (hash: `0x${string}`) => Promise<void>,
 ): Promise<TxResult> {
-  const wallet = getWalletClient(chainId, privateKey);
+  const wallet = getWalletClient(chainId, signer.account);
   const pub = getPublicClient(chainId);
   const account = wallet.account!;
   const value = tx.value ?? 0n;
 
-  const callParams = { account, to: tx.to, data: tx.data, value } as const;
+  // Policy: allowlisted target, selector, recipients and spend caps, before anything is signed
+  const spends = await vetTx(pub, chainId, signer.address, { ...tx, value });
+
+  // The call as the funds' account makes it, and the transaction that makes it (Safe: wrapped)
+  const callParams = { account: signer.address, to: tx.to, data: tx.data, value } as const;
+  let sent = { to: tx.to, data: tx.data, value };
 
   // Pre-flight: eth_call simulation catches reverts before spending gas
   let gasEstimate: bigint;
   try {
     await pub.call(callParams);
-    gasEstimate = await pub.estimateGas(callParams);
+    if (signer.safe) {
+      sent = await wrapSafeTx(pub, chainId, signer.safe, signer.account, sent);
+    }
+    gasEstimate = await pub.estimateGas({ account, ...sent });
   } catch (e: unknown) {
-    throw new SimulationError(chainId, tx.to, errMsg(e));
+    throw new SimulationError(chainId, tx.to, revertReason(e) ?? errMsg(e));
   }
 
   const gas = (gasEstimate * GAS_BUFFER_NUM) / GAS_BUFFER_DEN;
 
-  const hash = await wallet.sendTransaction({
-    to: tx.to,
-    data: tx.data,
-    value,
+  await clearStuckTxs(chainId, wallet, pub);
+  const fees = await suggestFees(pub);
+  const p = await reserveNonce(chainId, account.address, pub, {
+    ...sent,
     gas,
-    account,
-    chain: wallet.chain,
+    fees,
+    sentTs: Date.now(),
   });
+  try {
+    p.hashes.push(await broadcast(wallet, { ...sent, gas, nonce: p.nonce }, fees));
+  } catch (e: unknown) {
+    await settleTx(chainId, account.address, p.nonce, false);
+    throw e;
+  }
+  await trackTx(chainId, account.address, p);
+  await recordSpend(chainId, signer.address, spends);
+  const hash = p.hashes[0];
 
-  log.info(`TX sent: ${hash} on chain ${chainId} (gas=${gas})`);
+  log.info(`TX sent: ${hash} on chain ${chainId} (nonce=${p.nonce} gas=${gas})`);
+  await onSent?.(hash);
 
-  const receipt = await pub.waitForTransactionReceipt({ hash, timeout: TX_RECEIPT_TIMEOUT_MS });
+  const receipt = await waitWithReplacement(chainId, wallet, pub, p);
   const status = receipt.status === "success" ? "success" : "reverted";
-  log.info(`TX ${status}: ${hash} gasUsed=${receipt.gasUsed}/${gas}`);
+  log.info(`TX ${status}: ${receipt.transactionHash} gasUsed=${receipt.gasUsed}/${gas}`);
 
+  // Receipts carry no reason: replay the call on the state before the receipt's block to
+  // recover it (then the wrapper, for a Safe call that passes on its own)
+  const replay = (params: {
+    account: `0x${string}` | Account;
+    to: `0x${string}`;
+    data: `0x${string}`;
+    value: bigint;
+  }) =>
+    pub.call({ ...params, blockNumber: receipt.blockNumber - 1n }).then(
+      () => null,
+      (e: unknown) => revertReason(e) ?? errMsg(e),
+    );
   return {
-    hash,
+    hash: receipt.transactionHash,
     status,
     gasUsed: receipt.gasUsed,
     gasPrice: receipt.effectiveGasPrice ?? 0n,
     logs: receipt.logs.map((l) => ({ topics: l.topics, data: l.data, address: l.address })),
+    ...(status === "reverted" && {
+      revertReason:
+        (await replay(callParams)) ??
+        (signer.safe && (await replay({ account, ...sent }))) ??
+        "not reproduced by replay",
+    }),
   };
 }
 
+/** Outcome of a sent transaction from its receipt: null while not mined (or unknown). */
+export async function txStatus(
+  chainId: ChainId,
+  hash: `0x${string}`,
+): Promise<"success" | "reverted" | null> {
+  const receipt = await getPublicClient(chainId)
+    .getTransactionReceipt({ hash })
+    .catch(() => null);
+  return receipt ? receipt.status : null;
+}
+
+/** ERC-20 allowance of `owner` for `spender` (batched with concurrent reads on the chain). */
+function readAllowance(
+  chainId: ChainId,
+  token: `0x${string}`,
+  owner: `0x${string}`,
+  spender: `0x${string}`,
+): Promise<bigint> {
+  return batchRead<bigint>(getPublicClient(chainId), {
+    address: token,
+    abi: [ABIS.erc20.allowance],
+    functionName: "allowance",
+    args: [owner, spender],
+  });
+}
+
+/** Permit2 allowance of `owner` for `spender`: [amount, expiration, nonce]. */
+function readPermit2Allowance(
+  chainId: ChainId,
+  token: `0x${string}`,
+  owner: `0x${string}`,
+  spender: `0x${string}`,
+): Promise<[bigint, number, number]> {
+  return batchRead<[bigint, number, number]>(getPublicClient(chainId), {
+    address: PERMIT2,
+    abi: [ABIS.permit2.allowance],
+    functionName: "allowance",
+    args: [owner, token, spender],
+  });
+}
+
 /**
- * Approve token spending if current allowance is insufficient.
+ * Approve exactly `amount` of token spending if current allowance is insufficient.
+ * `allowance` skips the read when the caller already batched it.
  */
 export async function approveIfNeeded(
   chainId: ChainId,
   token: `0x${string}`,
   spender: `0x${string}`,
   amount: bigint,
-  privateKey: `0x${string}`,
+  signer: Signer,
+  allowance?: bigint,
 ) {
-  const pub = getPublicClient(chainId);
-  const account = getAccount(privateKey);
-  const allowance = (await pub.readContract({
-    address: token,
-    abi: [ABIS.erc20.allowance],
-    functionName: "allowance",
-    args: [account.address, spender],
-  })) as bigint;
-  if (allowance < amount) {
+  const current = allowance ?? (await readAllowance(chainId, token, signer.address, spender));
+  if (current < amount) {
     const data = encodeFunctionData({
       abi: [ABIS.erc20.approve],
       functionName: "approve",
-      args: [spender, amount * 2n],
+      args: [spender, amount],
     });
-    await sendAndWait(chainId, privateKey, { to: token, data });
+    await sendAndWait(chainId, signer, { to: token, data });
     log.debug(`Approved ${token} for ${spender}`);
   }
 }
@@ -282,26 +659,23 @@ export async function approveIfNeeded(
  * Approve a token via Permit2 (used by V4 PositionManagers).
  * Step 1: ERC20 approve to Permit2 contract.
  * Step 2: Permit2.approve(token, spender, amount, expiration).
+ * Both allowances are read up front unless given.
  */
 async function approveViaPermit2(
   chainId: ChainId,
   token: `0x${string}`,
   spender: `0x${string}`,
   amount: bigint,
-  privateKey: `0x${string}`,
+  signer: Signer,
+  allowances?: [bigint, [bigint, number, number]],
 ) {
+  const [erc20Allowance, [currentAmount, expiration]] =
+    allowances ?? (await readPermit2Allowances(chainId, token, signer.address, spender));
+
   // Step 1: Approve Permit2 to pull tokens
-  await approveIfNeeded(chainId, token, PERMIT2, amount, privateKey);
+  await approveIfNeeded(chainId, token, PERMIT2, amount, signer, erc20Allowance);
 
   // Step 2: Set Permit2 allowance for the spender
-  const pub = getPublicClient(chainId);
-  const account = getAccount(privateKey);
-  const [currentAmount, expiration] = (await pub.readContract({
-    address: PERMIT2,
-    abi: [ABIS.permit2.allowance],
-    functionName: "allowance",
-    args: [account.address, token, spender],
-  })) as [bigint, number, number];
 
   const now = Math.floor(Date.now() / 1000);
   const p2Amount = amount > MAX_UINT160 ? MAX_UINT160 : amount;
@@ -311,16 +685,30 @@ async function approveViaPermit2(
       functionName: "approve",
       args: [token, spender, p2Amount, now + PERMIT2_EXPIRY_SEC],
     });
-    await sendAndWait(chainId, privateKey, { to: PERMIT2, data });
+    await sendAndWait(chainId, signer, { to: PERMIT2, data });
     log.debug(`Permit2 approved ${token} for ${spender}`);
   }
 }
 
+/** ERC-20 allowance to Permit2 and Permit2 allowance to `spender`, in one batch. */
+function readPermit2Allowances(
+  chainId: ChainId,
+  token: `0x${string}`,
+  owner: `0x${string}`,
+  spender: `0x${string}`,
+): Promise<[bigint, [bigint, number, number]]> {
+  return Promise.all([
+    readAllowance(chainId, token, owner, PERMIT2),
+    readPermit2Allowance(chainId, token, owner, spender),
+  ]);
+}
+
 type ApprovalStrategy = "erc20" | "permit2";
 
 /**
  * Approve both tokens of a pair sequentially (avoids nonce collisions).
- * Uses ERC20 direct approval or Permit2 depending on strategy.
+ * Uses ERC20 direct approval or Permit2 depending on strategy. All allowances are read
+ * in one batch before the first approval is sent.
  */
 export async function approveTokenPair(
   pair: PairConfig,
@@ -328,12 +716,26 @@ export async function approveTokenPair(
   spender: `0x${string}`,
   amount0: bigint,
   amount1: bigint,
-  privateKey: `0x${string}`,
+  signer: Signer,
   strategy: ApprovalStrategy = "erc20",
 ): Promise<void> {
-  const approve = strategy === "permit2" ? approveViaPermit2 : approveIfNeeded;
-  await approve(chain, pair.token0.addresses[chain], spender, amount0, privateKey);
-  await approve(chain, pair.token1.addresses[chain], spender, amount1, privateKey);
+  const owner = signer.address;
+  const [t0, t1] = [pair.token0.addresses[chain], pair.token1.addresses[chain]];
+  if (strategy === "permit2") {
+    const [a0, a1] = await Promise.all([
+      readPermit2Allowances(chain, t0, owner, spender),
+      readPermit2Allowances(chain, t1, owner, spender),
+    ]);
+    await approveViaPermit2(chain, t0, spender, amount0, signer, a0);
+    await approveViaPermit2(chain, t1, spender, amount1, signer, a1);
+    return;
+  }
+  const [a0, a1] = await Promise.all([
+    readAllowance(chain, t0, owner, spender),
+    readAllowance(chain, t1, owner, spender),
+  ]);
+  await approveIfNeeded(chain, t0, spender, amount0, signer, a0);
+  await approveIfNeeded(chain, t1, spender, amount1, signer, a1);
 }
 
 /** Require a non-nullish address, throwing a descriptive error if missing. */
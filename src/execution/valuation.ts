@@ -0,0 +1,304 @@
+import { toHex } from "viem";
+import type {
+  ExecutionJournal,
+  PairConfig,
+  PoolConfig,
+  PoolState,
+  Position,
+  PositionMark,
+  StrategyConfig,
+} from "../types";
+import { DexFamily } from "../types";
+import { ABIS, getDex, getDexFamily, V4_STATE_VIEW } from "../config/dexs";
+import { findPool } from "../config/pools";
+import { computeValueUsd, tokenDecimals } from "../config/tokens";
+import { queryPool } from "../adapters/pool-query";
+import { getPublicClient } from "./tx";
+import { batchRead } from "./multicall";
+import { amountsForLiquidity, getV4PM } from "./positions-v4";
+import { readOwedFees } from "./positions";
+import { inBatches } from "../utils";
+import { RECONCILE_READ_BATCH } from "../config/params";
+
+// ---- Pure helpers ----
+
+const Q128 = 1n << 128n;
+const MOD256 = 1n << 256n;
+
+/** Fees owed to `liquidity` since its checkpoint; fee growth counters wrap modulo 2^256. */
+export function feesFromGrowth(
+  liquidity: bigint,
+  growthInside: bigint,
+  growthLast: bigint,
+): bigint {
+  const delta = (((growthInside - growthLast) % MOD256) + MOD256) % MOD256;
+  return (delta * liquidity) / Q128;
+}
+
+/** Pool price as token1 per token0 in pair orientation, decimal-adjusted (pool-query prices are raw, sorted). */
+export function pairPrice(
+  pair: PairConfig | StrategyConfig,
+  chain: number,
+  state: Pick<PoolState, "token0" | "price">,
+): number {
+  const t0 = pair.token0.addresses[chain]?.toLowerCase();
+  const raw = t0 && state.token0.toLowerCase() !== t0 ? 1 / state.price : state.price;
+  return raw * 10 ** (tokenDecimals(pair.token0, chain) - tokenDecimals(pair.token1, chain));
+}
+
+/** Value a position's current amounts and uncollected fees (pair order) at `price`. */
+export function toMark(
+  pair: PairConfig | StrategyConfig,
+  pos: Position,
+  [amount0, amount1]: [bigint, bigint],
+  [fees0, fees1]: [bigint, bigint],
+  price: number,
+): PositionMark {
+  const feesUsd = computeValueUsd(pair, pos.chain, fees0, fees1, price);
+  return {
+    id: pos.id,
+    chain: pos.chain,
+    amount0,
+    amount1,
+    fees0,
+    fees1,
+    valueUsd: computeValueUsd(pair, pos.chain, amount0, amount1, price) + feesUsd,
+    feesUsd,
+    hodlUsd: computeValueUsd(pair, pos.chain, pos.amount0, pos.amount1, price),
+  };
+}
+
+export interface MarkSummary {
+  portfolioValueUsd: number; // positions plus idle wallet balances
+  feesUncollectedUsd: number;
+  feesEarnedUsd: number; // growth of uncollected fees since `prevFees`, plus fees collected since
+  hodlValueUsd: number;
+  ilUsd: number; // HODL value minus principal (fees excluded)
+}
+
+/**
+ * Aggregate marks into epoch PnL. `prevFees` holds each position's uncollected fees (USD) at the
+ * previous snapshot; positions absent from it accrued everything since their mint.
+ * `collectedUsd` holds the fees each position collected since then (compounds, decreases, and
+ * burns of positions left without a mark): uncollected fees drop by what was collected, so it
+ * counts towards the growth. `idleUsd` (wallet balances) joins the portfolio value, not the IL.
+ */
+export function summarizeMarks(
+  marks: PositionMark[],
+  prevFees: Record<string, number>,
+  collectedUsd: Record<string, number> = {},
+  idleUsd = 0,
+): MarkSummary {
+  let positionsValueUsd = 0;
+  let feesUncollectedUsd = 0;
+  let feesEarnedUsd = 0;
+  let hodlValueUsd = 0;
+  for (const m of marks) {
+    positionsValueUsd += m.valueUsd;
+    feesUncollectedUsd += m.feesUsd;
+    feesEarnedUsd += Math.max(0, m.feesUsd + (collectedUsd[m.id] ?? 0) - (prevFees[m.id] ?? 0));
+    hodlValueUsd += m.hodlUsd;
+  }
+  const marked = new Set(marks.map((m) => m.id));
+  for (const [id, usd] of Object.entries(collectedUsd)) {
+    if (!marked.has(id)) feesEarnedUsd += Math.max(0, usd - (prevFees[id] ?? 0));
+  }
+  return {
+    portfolioValueUsd: positionsValueUsd + idleUsd,
+    feesUncollectedUsd,
+    feesEarnedUsd,
+    hodlValueUsd,
+    ilUsd: hodlValueUsd - (positionsValueUsd - feesUncollectedUsd),
+  };
+}
+
+/** Receipt gas (wei) of a journal's burn and mint steps, per chain. */
+export function journalGasWei(j: ExecutionJournal): Map<number, bigint> {
+  const out = new Map<number, bigint>();
+  for (const s of j.steps) {
+    if (!s.gasUsed) continue;
+    const wei = BigInt(s.gasUsed) * BigInt(s.gasPrice ?? "0");
+    out.set(s.chain, (out.get(s.chain) ?? 0n) + wei);
+  }
+  return out;
+}
+
+// ---- On-chain readers ----
+
+const isV4 = (dex: PoolConfig["dex"]) => {
+  const f = getDexFamily(dex);
+  return f === DexFamily.V4 || f === DexFamily.PCS_V4;
+};
+
+/**
+ * Token amounts held by `account` in LB bins [lower, upper], in the pool's X/Y order.
+ * Each bin's reserves (fees included) are split by the account's share of its supply.
+ */
+export async function lbBinAmounts(
+  pool: PoolConfig,
+  lower: number,
+  upper: number,
+  account: `0x${string}`,
+): Promise<[bigint, bigint]> {
+  const client = getPublicClient(pool.chain);
+  const ids = Array.from({ length: upper - lower + 1 }, (_, i) => lower + i);
+  let x = 0n;
+  let y = 0n;
+  await inBatches(ids, RECONCILE_READ_BATCH, async (id) => {
+    const [bin, supply, bal] = (await Promise.all([
+      batchRead(client, {
+        address: pool.address,
+        abi: [ABIS.lb.getBin],
+        functionName: "getBin",
+        args: [id],
+      }),
+      batchRead(client, {
+        address: pool.address,
+        abi: [ABIS.lb.totalSupply],
+        functionName: "totalSupply",
+        args: [BigInt(id)],
+      }),
+      batchRead(client, {
+        address: pool.address,
+        abi: [ABIS.lbRouter.balanceOf],
+        functionName: "balanceOf",
+        args: [account, BigInt(id)],
+      }),
+    ])) as [readonly [bigint, bigint], bigint, bigint];
+    if (supply === 0n) return;
+    x += (bin[0] * bal) / supply;
+    y += (bin[1] * bal) / supply;
+  });
+  return [x, y];
+}
+
+/**
+ * V3-style NPM position (Uniswap V3, Algebra, Aerodrome): live liquidity from `positions`,
+ * uncollected fees from a simulated `collect`, which pokes the pool before reading tokensOwed.
+ */
+async function readV3Position(
+  pos: Position,
+  account: `0x${string}`,
+): Promise<{ liquidity: bigint; fees: [bigint, bigint] }> {
+  const entry = getDex(pos.dex);
+  const pm = entry.positionManager[pos.chain]!;
+  const isAlgebra = entry.type === "algebra";
+  const client = getPublicClient(pos.chain);
+  const tokenId = BigInt(pos.positionId);
+  const [data, fees] = await Promise.all([
+    batchRead(client, {
+      address: pm,
+      abi: isAlgebra ? [ABIS.algebra.positions] : [ABIS.univ3.positions],
+      functionName: "positions",
+      args: [tokenId],
+    }) as Promise<readonly unknown[]>,
+    readOwedFees(pos.chain, pm, tokenId, account),
+  ]);
+  return { liquidity: data[isAlgebra ? 6 : 7] as bigint, fees };
+}
+
+/**
+ * V4 position: liquidity from the PositionManager; Uniswap fees from StateView fee growth
+ * (positions are owned by the PM, salted with the tokenId). PancakeSwap V4 fees are not read.
+ */
+async function readV4Position(
+  pos: Position,
+): Promise<{ liquidity: bigint; fees: [bigint, bigint] }> {
+  const family = getDexFamily(pos.dex);
+  const pm = getV4PM(pos.chain, family);
+  const client = getPublicClient(pos.chain);
+  const tokenId = BigInt(pos.positionId);
+  const liquidity = (await batchRead(client, {
+    address: pm,
+    abi: [ABIS.v4pm.getPositionLiquidity],
+    functionName: "getPositionLiquidity",
+    args: [tokenId],
+  })) as bigint;
+  const lens = V4_STATE_VIEW[pos.chain];
+  if (family !== DexFamily.V4 || !lens || liquidity === 0n) return { liquidity, fees: [0n, 0n] };
+
+  const poolId = pos.pool;
+  const [info, inside] = (await Promise.all([
+    batchRead(client, {
+      address: lens,
+      abi: [ABIS.v4.getPositionInfo],
+      functionName: "getPositionInfo",
+      args: [poolId, pm, pos.tickLower, pos.tickUpper, toHex(tokenId, { size: 32 })],
+    }),
+    batchRead(client, {
+      address: lens,
+      abi: [ABIS.v4.getFeeGrowthInside],
+      functionName: "getFeeGrowthInside",
+      args: [poolId, pos.tickLower, pos.tickUpper],
+    }),
+  ])) as [readonly [bigint, bigint, bigint], readonly [bigint, bigint]];
+  return {
+    liquidity,
+    fees: [
+      feesFromGrowth(info[0], inside[0], info[1]),
+      feesFromGrowth(info[0], inside[1], info[2]),
+    ],
+  };
+}
+
+/** Current amounts and uncollected fees of one position, in the pool's sorted token order. */
+async function readPosition(
+  pool: PoolConfig,
+  pos: Position,
+  state: PoolState,
+  account: `0x${string}`,
+): Promise<{ amounts: [bigint, bigint]; fees: [bigint, bigint] }> {
+  if (getDexFamily(pos.dex) === DexFamily.LB) {
+    // LB fees are compounded into bin reserves: they are part of the amounts
+    const amounts = await lbBinAmounts(pool, pos.tickLower, pos.tickUpper, account);
+    return { amounts, fees: [0n, 0n] };
+  }
+  const onChain = pos.positionId.startsWith("pending:")
+    ? { liquidity: pos.liquidity, fees: [0n, 0n] as [bigint, bigint] }
+    : isV4(pos.dex)
+      ? await readV4Position(pos)
+      : await readV3Position(pos, account);
+  return {
+    amounts: amountsForLiquidity(
+      state.sqrtPriceX96!,
+      pos.tickLower,
+      pos.tickUpper,
+      onChain.liquidity,
+    ),
+    fees: onChain.fees,
+  };
+}
+
+/**
+ * Mark every position to market from chain state: live liquidity, token amounts at the pool's
+ * current price and uncollected fees. Pool state is read once per pool.
+ */
+export async function markPositions(
+  pair: PairConfig,
+  positions: Position[],
+  account: `0x${string}`,
+): Promise<PositionMark[]> {
+  const states = new Map<string, Promise<PoolState>>();
+  const poolState = (pool: PoolConfig) => {
+    const key = `${pool.chain}:${pool.address}`;
+    if (!states.has(key)) {
+      states.set(
+        key,
+        queryPool({ id: pool.address, chain: pool.chain, dex: pool.dex }, [
+          pair.token0,
+          pair.token1,
+        ]),
+      );
+    }
+    return states.get(key)!;
+  };
+
+  return inBatches(positions, RECONCILE_READ_BATCH, async (pos) => {
+    const pool = findPool(pair, pos.pool, pos.chain);
+    const state = await poolState(pool);
+    const { amounts, fees } = await readPosition(pool, pos, state, account);
+    const flip = state.token0.toLowerCase() !== pair.token0.addresses[pos.chain]?.toLowerCase();
+    const orient = ([a, b]: [bigint, bigint]): [bigint, bigint] => (flip ? [b, a] : [a, b]);
+    return toMark(pair, pos, orient(amounts), orient(fees), pairPrice(pair, pos.chain, state));
+  });
+}
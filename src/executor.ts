@@ -7,143 +7,412 @@ import type {
   Forces,
   Position,
   BurnResult,
+  ClosedPosition,
+  CompoundResult,
+  Decision,
   MintResult,
+  SwapResult,
+  ExecutionJournal,
+  JournalStep,
+  TokenConfig,
+  PoolConfig,
 } from "./types";
 import type { DragonflyStore } from "./data/store-dragonfly";
-import { burnPosition, mintPosition } from "./execution/positions";
-import { getBalance, swapTokens } from "./execution/swap";
+import { systemClock, type Clock, type CycleExecutor } from "./context";
+import {
+  burnPosition, compoundPosition, decreasePosition, increasePosition, mintPosition, poolTickSpacing,
+  positionLiquidity,
+} from "./execution/positions";
+import { diffAllocations, type PoolDiff } from "./execution/diff";
+import { mintToken0Share, positionToken0Share, splitByShare } from "./execution/ratio";
+import { getBalance, swapTokens, waitForArrival } from "./execution/swap";
+import { gasUsd } from "./execution/gas";
+import { checkPriceDeviation, deviationLimit, readPoolPrices, type PoolPrices } from "./execution/oracle";
+import { fetchNativeUsd } from "./data/ohlc";
 import { computeRange } from "./strategy/range";
-import { getAccount } from "./execution/tx";
-import { tokenDecimals } from "./config/tokens";
+import { revertReason, txStatus, type Signer } from "./execution/tx";
+import { bindTxPolicy } from "./execution/policy";
+import { computeEntryValueUsd, computeValueUsd, tokenDecimals } from "./config/tokens";
 import {
   IMBALANCE_THRESHOLD,
   BRIDGE_THRESHOLD,
+  BRIDGE_TIMEOUT_MS,
   CASH_RESERVE_PCT,
   FALLBACK_RANGE_MIN_FACTOR,
   FALLBACK_RANGE_MAX_FACTOR,
   FALLBACK_RANGE_BREADTH,
   FALLBACK_RANGE_CONFIDENCE,
+  JOURNAL_RESUME_MAX_AGE_MS,
   RETRY,
 } from "./config/params";
 import { ingestToO2 } from "./infra/o2";
 import { log, errMsg, retry, scaleByPct } from "./utils";
 
+// ---- Execution backends ----
+
+export type SwapParams = Omit<Parameters<typeof swapTokens>[0], "signer">;
+
+/**
+ * Chain-facing operations driven by PRA/RS execution.
+ * Live ops sign and send transactions; a paper ledger simulates the same calls in-process.
+ */
+export interface ExecOps {
+  paper: boolean;
+  /** Time of journal steps, tx logs and closed-position records (the cycle's clock). */
+  clock: Clock;
+  getBalance(chain: number, token: `0x${string}`): Promise<bigint>;
+  /** Same-chain swap or cross-chain bridge. Returns null when no route/fill was obtained. */
+  swap(params: SwapParams): Promise<SwapResult | null>;
+  /** Wait until `token` on `chain` rises above `balanceBefore` (bridge arrival). */
+  awaitArrival(
+    chain: number, token: `0x${string}`, balanceBefore: bigint, timeoutMs: number,
+  ): Promise<boolean>;
+  /** `onSent` gets each tx hash once broadcast, before its receipt wait (journaled for resume). */
+  burn(
+    position: Position, pair: PairConfig, onSent?: (hash: `0x${string}`) => Promise<void>,
+  ): Promise<BurnResult | null>;
+  /** On-chain liquidity of a position: zero once withdrawn. */
+  liquidity(position: Position): Promise<bigint>;
+  /** Outcome of a sent transaction from its receipt: null while not mined. */
+  txStatus(chain: number, hash: `0x${string}`): Promise<"success" | "reverted" | null>;
+  /** Withdraw `liquidity` from a position that stays open, collecting its fees. */
+  decrease(position: Position, pair: PairConfig, liquidity: bigint): Promise<BurnResult | null>;
+  /** Collect a position's fees and add them back as liquidity. */
+  compound(position: Position, pair: PairConfig): Promise<CompoundResult | null>;
+  /** Collect a position's fees and add them back with `amount0`/`amount1` from the wallet. */
+  increase(
+    position: Position, pair: PairConfig, amount0: bigint, amount1: bigint,
+  ): Promise<CompoundResult | null>;
+  mint(
+    store: DragonflyStore, pair: PairConfig, allocation: AllocationEntry, range: Range,
+    amount0: bigint, amount1: bigint,
+  ): Promise<MintResult>;
+  /** USD price of a chain's native gas token (tx_log gas cost); null when unknown. */
+  nativeUsd(chain: number): Promise<number | null>;
+  /** Pool spot price and TWAP (pair orientation) checked against the M1 close before a mint. */
+  poolPrices(pair: PairConfig, pool: PoolConfig): Promise<PoolPrices>;
+  /** Tick spacing a mint aligns its range to (1 for LB). */
+  tickSpacing(pair: PairConfig, pool: PoolConfig): Promise<number>;
+}
+
+function liveOps(signer: Signer, pair: PairConfig): ExecOps {
+  const account = signer.address; // the EOA, or the Safe holding funds and positions
+  bindTxPolicy(account, pair); // every transaction it signs is vetted against the pair's policy
+  return {
+    paper: false,
+    clock: systemClock,
+    getBalance: (chain, token) => getBalance(chain, token, account, true),
+    swap: (params) => swapTokens({ ...params, signer }),
+    awaitArrival: async (chain, token, balanceBefore, timeoutMs) => {
+      if ((await getBalance(chain, token, account)) > balanceBefore) return true;
+      if (timeoutMs <= 0) return false;
+      return waitForArrival(chain, token, account, balanceBefore, timeoutMs).then(
+        () => true,
+        () => false,
+      );
+    },
+    burn: (position, pair, onSent) => burnPosition(position, signer, pair, onSent),
+    liquidity: (position) => positionLiquidity(position, signer),
+    txStatus,
+    decrease: (position, pair, liquidity) => decreasePosition(position, signer, pair, liquidity),
+    compound: (position, pair) => compoundPosition(position, signer, pair),
+    increase: (position, pair, amount0, amount1) =>
+      increasePosition(position, signer, pair, amount0, amount1),
+    mint: (store, pair, allocation, range, amount0, amount1) =>
+      mintPosition(store, pair, allocation, range, amount0, amount1, signer),
+    nativeUsd: fetchNativeUsd,
+    poolPrices: readPoolPrices,
+    tickSpacing: poolTickSpacing,
+  };
+}
+
+// ---- Execution journal ----
+// Every PRA/RS runs from a journal persisted after each step, so a worker that dies
+// mid-flight (e.g. during a 10-min bridge) can resume the plan or abort it on restart.
+
+type Journal = { store: DragonflyStore; j: ExecutionJournal; clock: Clock };
+
+function saveJournal({ store, j, clock }: Journal): Promise<void> {
+  j.updatedTs = clock.now();
+  return store.saveJournal(j);
+}
+
+/** Append a pending step and persist it before the corresponding tx is sent. */
+async function beginStep(
+  jr: Journal, step: Omit<JournalStep, "status" | "ts">,
+): Promise<JournalStep> {
+  const s: JournalStep = { ...step, status: "pending", ts: jr.clock.now() };
+  jr.j.steps.push(s);
+  await saveJournal(jr);
+  return s;
+}
+
+async function endStep(
+  jr: Journal, step: JournalStep, status: "done" | "failed", patch: Partial<JournalStep> = {},
+): Promise<void> {
+  Object.assign(step, patch, { status, ts: jr.clock.now() });
+  await saveJournal(jr);
+}
+
+/** Receipt gas of a burn/mint for its journal step (epoch snapshots price it in USD). */
+function receiptGas(r: { gasUsed: bigint; gasPrice: bigint } | null): Partial<JournalStep> {
+  return r ? { gasUsed: r.gasUsed.toString(), gasPrice: r.gasPrice.toString() } : {};
+}
+
+async function finishJournal(
+  jr: Journal, status: "completed" | "aborted", error?: string,
+): Promise<void> {
+  jr.j.status = status;
+  if (status === "completed") jr.j.phase = "done";
+  if (error) jr.j.error = error;
+  jr.j.updatedTs = jr.clock.now();
+  await jr.store.archiveJournal(jr.j);
+}
+
+/** Open a journal for a new plan, aborting any running one left behind by an earlier cycle. */
+async function openJournal(
+  ops: ExecOps, store: DragonflyStore, pair: PairConfig, kind: ExecutionJournal["kind"],
+  decisionType: DecisionType, plan: Pick<ExecutionJournal, "price" | "allocations" | "shifts" | "steps">,
+): Promise<Journal> {
+  const prev = await store.getJournal();
+  if (prev?.status === "running") {
+    log.warn(`Superseding unfinished ${prev.kind} ${prev.id}`, { pairId: pair.id });
+    await finishJournal({ store, j: prev, clock: ops.clock }, "aborted", "superseded by a new plan");
+  }
+  const now = ops.clock.now();
+  const j: ExecutionJournal = {
+    id: `${kind.toLowerCase()}:${now}`, pairId: pair.id, kind, decisionType,
+    status: "running", phase: "burn", paper: ops.paper, startedTs: now, updatedTs: now, ...plan,
+  };
+  await store.saveJournal(j);
+  return { store, j, clock: ops.clock };
+}
+
+const burnStep = (p: Position, ts: number): JournalStep => ({
+  kind: "burn", status: "pending", ts, chain: p.chain, pool: p.pool,
+  positionId: p.id, valueUsd: p.entryValueUsd, apr: p.entryApr,
+});
+
+/** Journal step for one pool of an incremental PRA (keeps need none). */
+function diffStep(d: PoolDiff, range: Range, ts: number): JournalStep[] {
+  const base = { status: "pending" as const, ts, chain: d.chain, pool: d.pool };
+  switch (d.action) {
+    case "keep": return [];
+    case "burn": return [burnStep(d.position!, ts)];
+    case "decrease":
+      return [{
+        ...base, kind: "decrease", positionId: d.position!.id,
+        valueUsd: d.currentUsd - d.targetUsd, share: 1 - d.targetUsd / d.currentUsd,
+      }];
+    case "increase":
+      return [{ ...base, kind: "increase", positionId: d.position!.id, alloc: d.alloc, valueUsd: d.targetUsd - d.currentUsd }];
+    case "mint":
+      return [{ ...base, kind: "mint", alloc: d.alloc, range, valueUsd: d.targetUsd }];
+  }
+}
+
 // ---- Token balance helpers ----
 
-async function getChainBalances(pair: PairConfig, chain: number, account: `0x${string}`) {
+/** A chain's wallet balances: raw, in token units, and in USD at `price` (token1 per token0). */
+async function getChainBalances(ops: ExecOps, pair: PairConfig, chain: number, price: number) {
   const t0 = pair.token0.addresses[chain];
   const t1 = pair.token1.addresses[chain];
   const [bal0, bal1] = await Promise.all([
-    t0 ? getBalance(chain, t0, account) : 0n,
-    t1 ? getBalance(chain, t1, account) : 0n,
+    t0 ? ops.getBalance(chain, t0) : 0n,
+    t1 ? ops.getBalance(chain, t1) : 0n,
   ]);
   const val0 = t0 ? Number(bal0) / 10 ** tokenDecimals(pair.token0, chain) : 0;
   const val1 = t1 ? Number(bal1) / 10 ** tokenDecimals(pair.token1, chain) : 0;
-  return { bal0, bal1, val0, val1, total: val0 + val1 };
+  return { bal0, bal1, val0, val1, valueUsd: computeValueUsd(pair, chain, bal0, bal1, price) };
+}
+
+type TickSpacings = Map<string, number>; // by `${chain}:${pool}`
+
+/** Tick spacing of each mint step's pool, read once per pool (1 when the read fails). */
+async function mintTickSpacings(
+  ops: ExecOps, pair: PairConfig, steps: JournalStep[],
+): Promise<TickSpacings> {
+  const spacings: TickSpacings = new Map();
+  for (const { kind, alloc } of steps) {
+    const key = `${alloc?.chain}:${alloc?.pool}`;
+    if (kind !== "mint" || !alloc || spacings.has(key)) continue;
+    const pool = pair.pools.find((p) => p.address === alloc.pool && p.chain === alloc.chain);
+    const spacing = pool
+      ? await ops.tickSpacing(pair, pool).catch((e: unknown) => {
+          log.warn(`${pair.id}: tick spacing of ${alloc.pool} unavailable (${errMsg(e)}), using 1`);
+          return 1;
+        })
+      : 1;
+    spacings.set(key, spacing);
+  }
+  return spacings;
+}
+
+/** Token0 value share a mint (target range) or increase (position ticks) deposits at `price`. */
+function stepToken0Share(
+  step: JournalStep, positions: Position[], price: number, spacings: TickSpacings,
+): number {
+  if (step.kind === "increase") {
+    const pos = positions.find((p) => p.id === step.positionId);
+    return pos ? positionToken0Share(pos, price) : 0.5;
+  }
+  const alloc = step.alloc!;
+  return mintToken0Share(alloc.dex, step.range!, price, spacings.get(`${alloc.chain}:${alloc.pool}`) ?? 1);
 }
 
 /**
- * Rebalance token ratios after burn by swapping excess if imbalance > 5%.
+ * Swap a chain's balances towards the token ratio its pending mints and increases need: each
+ * step's token0 share comes from its range, weighted by the value it deploys. Imbalances under
+ * IMBALANCE_THRESHOLD of the chain's value are left as is.
  */
 async function rebalanceTokenRatio(
-  pair: PairConfig, chain: number, account: `0x${string}`, privateKey: `0x${string}`,
+  ops: ExecOps, jr: Journal, pair: PairConfig, chain: number, steps: JournalStep[], positions: Position[],
 ): Promise<void> {
-  const { val0, val1, total } = await getChainBalances(pair, chain, account);
+  const price = jr.j.price ?? 1;
+  const { val0, val1, valueUsd: total } = await getChainBalances(ops, pair, chain, price);
   if (total === 0) return;
 
-  const excessUsd = Math.abs(val0 - val1) / 2;
-  if (excessUsd < IMBALANCE_THRESHOLD * total) return;
+  const weights = steps.map((s) => s.valueUsd ?? s.alloc?.pct ?? 0);
+  const weightSum = weights.reduce((a, b) => a + b, 0);
+  const spacings = await mintTickSpacings(ops, pair, steps);
+  const target0 = weightSum > 0
+    ? steps.reduce((sum, s, i) => sum + weights[i] * stepToken0Share(s, positions, price, spacings), 0) / weightSum
+    : 0.5;
+  const excess = val0 * price - target0 * total; // token1 units, > 0: token0 to sell
+  if (Math.abs(excess) < IMBALANCE_THRESHOLD * total) return;
 
   const token0Addr = pair.token0.addresses[chain]!;
   const token1Addr = pair.token1.addresses[chain]!;
-  const [fromToken, toToken, fromDec] =
-    val0 > val1
-      ? [token0Addr, token1Addr, tokenDecimals(pair.token0, chain)]
-      : [token1Addr, token0Addr, tokenDecimals(pair.token1, chain)];
-  const swapAmount = BigInt(Math.floor(excessUsd * 10 ** fromDec));
+  const [fromToken, toToken, fromDec, fromAmount] =
+    excess > 0
+      ? [token0Addr, token1Addr, tokenDecimals(pair.token0, chain), excess / price]
+      : [token1Addr, token0Addr, tokenDecimals(pair.token1, chain), -excess];
+  const swapAmount = BigInt(Math.floor(fromAmount * 10 ** fromDec));
   if (swapAmount === 0n) return;
 
+  // The quote must not return less than the M1 close implies (beyond the pair's deviation limit)
+  const [toDec, toAmount] = excess > 0
+    ? [tokenDecimals(pair.token1, chain), excess]
+    : [tokenDecimals(pair.token0, chain), -excess / price];
+  const expectedOut = jr.j.price !== undefined ? BigInt(Math.floor(toAmount * 10 ** toDec)) : undefined;
+
   log.info(`Rebalancing ${pair.id}: swapping excess on chain ${chain}`, { pairId: pair.id, chain });
-  await swapTokens({ fromChain: chain, toChain: chain, fromToken, toToken, amount: swapAmount, privateKey });
+  const step = await beginStep(jr, { kind: "swap", chain, token: toToken, amount: String(swapAmount) });
+  const result = await ops.swap({
+    fromChain: chain, toChain: chain, fromToken, toToken, amount: swapAmount,
+    expectedOut, maxDeviation: deviationLimit(pair),
+  });
+  await endStep(jr, step, result ? "done" : "failed", { txHash: result?.sourceTxHash });
 }
 
 /**
- * Compute per-chain balance deltas and bridge funds from surplus to deficit chains.
+ * Value each chain's wallet needs for the pending increases and mints (mint steps journaled
+ * without a value fall back to their pct of the wallet). Chains that only free capital (burns,
+ * decreases) need 0, so their proceeds move to where they are needed and nothing else crosses.
  */
-async function bridgeCrossChain(
-  pair: PairConfig, allocations: AllocationEntry[], account: `0x${string}`, privateKey: `0x${string}`,
-): Promise<void> {
-  const chainTargets = new Map<number, number>();
-  for (const alloc of allocations) {
-    chainTargets.set(alloc.chain, (chainTargets.get(alloc.chain) ?? 0) + alloc.pct);
+function chainNeedsOf(j: ExecutionJournal, walletUsd: number): Map<number, number> {
+  const needs = new Map<number, number>();
+  for (const s of j.steps) {
+    if (s.kind === "bridge" || s.kind === "swap") continue;
+    const need = s.kind === "increase" || s.kind === "mint"
+      ? (s.valueUsd ?? (s.alloc?.pct ?? 0) * walletUsd * (1 - CASH_RESERVE_PCT))
+      : 0;
+    needs.set(s.chain, (needs.get(s.chain) ?? 0) + need);
   }
+  return needs;
+}
 
-  const chains = [...new Set(chainTargets.keys())];
+/**
+ * Compare each chain's balance with what its pending steps need and bridge the shortfalls
+ * from surplus chains. The cash reserve stays where it is.
+ */
+async function bridgeCrossChain(ops: ExecOps, jr: Journal, pair: PairConfig): Promise<void> {
+  const chains = [...new Set(jr.j.steps.filter((s) => s.kind !== "bridge" && s.kind !== "swap").map((s) => s.chain))];
   if (chains.length <= 1) return;
 
-  const chainBalances = new Map<number, number>();
-  let totalBalance = 0;
-  const balEntries = await Promise.all(
-    chains.map(async (chain) => {
-      const { total } = await getChainBalances(pair, chain, account);
-      return [chain, total] as const;
-    }),
-  );
-  for (const [chain, val] of balEntries) {
-    chainBalances.set(chain, val);
-    totalBalance += val;
-  }
+  const balEntries = await captureChainBalances(ops, pair, chains, jr.j.price ?? 1);
+  const totalBalance = [...balEntries.values()].reduce((sum, b) => sum + b.valueUsd, 0);
   if (totalBalance === 0) return;
+  const needs = chainNeedsOf(jr.j, totalBalance);
 
+  // Surplus (> 0) or shortfall (< 0) per chain, in book value
   const deltas = new Map<number, number>();
-  for (const chain of chains) {
-    deltas.set(chain, (chainBalances.get(chain) ?? 0) / totalBalance - (chainTargets.get(chain) ?? 0));
-  }
-
-  const surplusChains = chains.filter((c) => (deltas.get(c) ?? 0) > BRIDGE_THRESHOLD);
-  const deficitChains = chains.filter((c) => (deltas.get(c) ?? 0) < -BRIDGE_THRESHOLD);
+  for (const chain of chains) deltas.set(chain, (balEntries.get(chain)?.valueUsd ?? 0) - (needs.get(chain) ?? 0));
+
+  const minUsd = BRIDGE_THRESHOLD * totalBalance;
+  const surplusChains = chains.filter((c) => (deltas.get(c) ?? 0) > minUsd);
+  const deficitChains = chains.filter((c) => (deltas.get(c) ?? 0) < -minUsd);
+
+  const bridge = async (token: TokenConfig, srcChain: number, dstChain: number, amount: bigint) => {
+    const srcToken = token.addresses[srcChain];
+    const dstToken = token.addresses[dstChain];
+    if (!srcToken || !dstToken || amount === 0n) return true;
+    log.info(
+      `Bridging ${Number(amount) / 10 ** tokenDecimals(token, srcChain)} ${token.symbol} from chain ${srcChain} -> ${dstChain}`,
+      { pairId: pair.id, srcChain, dstChain },
+    );
+    const step = await beginStep(jr, {
+      kind: "bridge", chain: srcChain, dstChain, token: dstToken, amount: String(amount),
+    });
+    const result = await ops.swap({
+      fromChain: srcChain, toChain: dstChain, fromToken: srcToken, toToken: dstToken, amount,
+      // Journal the source tx before the (long) arrival wait so a restart can settle it
+      onSent: async ({ hash, balanceBefore }) => {
+        Object.assign(step, { txHash: hash, balanceBefore: String(balanceBefore) });
+        await saveJournal(jr);
+      },
+    });
+    await endStep(jr, step, result ? "done" : "failed", { txHash: result?.sourceTxHash ?? step.txHash });
+    return !!result;
+  };
 
   for (const srcChain of surplusChains) {
-    const surplus = (deltas.get(srcChain) ?? 0) * totalBalance;
-    const srcToken = pair.token0.addresses[srcChain];
-    if (!srcToken) continue;
-
-    let remaining = surplus;
+    const src = balEntries.get(srcChain)!;
+    let remaining = deltas.get(srcChain) ?? 0;
     for (const dstChain of deficitChains) {
       if (remaining <= 0) break;
-      const deficit = Math.abs((deltas.get(dstChain) ?? 0) * totalBalance);
+      const deficit = -(deltas.get(dstChain) ?? 0);
+      if (deficit <= 0) continue;
       const bridgeAmount = Math.min(remaining, deficit);
-      const amount = BigInt(Math.floor(bridgeAmount * 10 ** tokenDecimals(pair.token0, srcChain)));
-      if (amount === 0n) continue;
-
-      const dstToken = pair.token0.addresses[dstChain];
-      if (!dstToken) continue;
-
-      log.info(
-        `Bridging ${bridgeAmount.toFixed(2)} ${pair.token0.symbol} from chain ${srcChain} -> ${dstChain}`,
-        { pairId: pair.id, srcChain, dstChain },
-      );
-
-      const result = await swapTokens({
-        fromChain: srcChain, toChain: dstChain, fromToken: srcToken, toToken: dstToken, amount, privateKey,
-      });
-
-      if (result) {
+      // Move both tokens pro rata of the source chain's holdings
+      const share = bridgeAmount / src.valueUsd;
+      const sent0 = await bridge(pair.token0, srcChain, dstChain, scaleByPct(src.bal0, share));
+      const sent1 = await bridge(pair.token1, srcChain, dstChain, scaleByPct(src.bal1, share));
+      if (sent0 && sent1) {
         remaining -= bridgeAmount;
-        deltas.set(dstChain, (deltas.get(dstChain) ?? 0) + bridgeAmount / totalBalance);
+        deltas.set(dstChain, (deltas.get(dstChain) ?? 0) + bridgeAmount);
       }
     }
   }
 }
 
+/**
+ * Settle bridges left pending by a restart: wait out the remaining arrival window of
+ * journaled source txs. Returns false if any transfer is unaccounted for.
+ */
+async function settlePendingBridges(ops: ExecOps, jr: Journal): Promise<boolean> {
+  let settled = true;
+  for (const step of jr.j.steps.filter((s) => s.kind === "bridge" && s.status === "pending")) {
+    if (!step.txHash || !step.balanceBefore || !step.token || step.dstChain === undefined) {
+      await endStep(jr, step, "failed", { error: "interrupted before source tx confirmed" });
+      settled = false;
+      continue;
+    }
+    const remainingMs = step.ts + BRIDGE_TIMEOUT_MS - ops.clock.now();
+    const arrived = await ops.awaitArrival(step.dstChain, step.token, BigInt(step.balanceBefore), remainingMs);
+    await endStep(jr, step, arrived ? "done" : "failed", arrived ? {} : { error: "arrival not observed" });
+    settled &&= arrived;
+  }
+  return settled;
+}
+
+type ChainBalances = Awaited<ReturnType<typeof getChainBalances>>;
+
 async function captureChainBalances(
-  pair: PairConfig, chains: number[], account: `0x${string}`,
-): Promise<Map<number, { bal0: bigint; bal1: bigint }>> {
+  ops: ExecOps, pair: PairConfig, chains: number[], price: number,
+): Promise<Map<number, ChainBalances>> {
   const entries = await Promise.all(
-    chains.map(async (chain) => {
-      const { bal0, bal1 } = await getChainBalances(pair, chain, account);
-      return [chain, { bal0, bal1 }] as const;
-    }),
+    chains.map(async (chain) => [chain, await getChainBalances(ops, pair, chain, price)] as const),
   );
   return new Map(entries);
 }
@@ -161,13 +430,19 @@ type TxOpts = {
   gasUsed: bigint;
   gasPrice?: bigint;
   targetAllocationPct?: number;
+  error?: string;
 };
 
-function logTransaction(opts: TxOpts) {
+/** Log a tx with its receipt gas in USD (omitted when the native token price is unknown). */
+async function logTransaction(ops: ExecOps, opts: TxOpts) {
+  const gasPrice = opts.gasPrice ?? 0n;
+  const nativeUsd = opts.gasUsed * gasPrice > 0n ? await ops.nativeUsd(opts.chain).catch(() => null) : 0;
   ingestToO2("tx_log", [{
     ...opts,
-    ts: Date.now(),
-    gasPrice: opts.gasPrice ?? 0n,
+    ts: ops.clock.now(),
+    gasPrice,
+    ...(nativeUsd != null && { gasUsd: gasUsd(opts.gasUsed, gasPrice, nativeUsd) }),
+    paper: ops.paper,
     targetAllocationPct: opts.targetAllocationPct ?? 0,
     actualAllocationPct: 0,
     allocationErrorPct: opts.targetAllocationPct ?? 0,
@@ -176,114 +451,418 @@ function logTransaction(opts: TxOpts) {
   }]);
 }
 
-function logBurn(pairId: string, dt: DecisionType, r: BurnResult, pool: `0x${string}`, chain: number) {
-  logTransaction({
+function logBurn(
+  ops: ExecOps, pairId: string, dt: DecisionType, r: BurnResult, pool: `0x${string}`, chain: number,
+) {
+  return logTransaction(ops, {
     pairId, decisionType: dt, opType: "burn", pool, chain,
     txHash: r.hash, status: r.success ? "success" : "reverted",
     gasUsed: r.gasUsed, gasPrice: r.gasPrice,
   });
 }
 
-function logMint(pairId: string, dt: DecisionType, r: MintResult, a: AllocationEntry) {
-  logTransaction({
+/** Log a tx on a position that stays open (compound, increase, decrease). */
+function logModify(
+  ops: ExecOps, pairId: string, dt: DecisionType, opType: "compound" | "increase" | "decrease",
+  r: BurnResult | CompoundResult, pos: Position, targetAllocationPct?: number,
+) {
+  return logTransaction(ops, {
+    pairId, decisionType: dt, opType, pool: pos.pool, chain: pos.chain,
+    txHash: r.hash, status: r.success ? "success" : "reverted",
+    gasUsed: r.gasUsed, gasPrice: r.gasPrice, targetAllocationPct,
+  });
+}
+
+function logMint(ops: ExecOps, pairId: string, dt: DecisionType, r: MintResult, a: AllocationEntry) {
+  return logTransaction(ops, {
     pairId, decisionType: dt, opType: "mint", pool: a.pool, chain: a.chain,
     txHash: r.txHash, status: r.position ? "success" : "reverted",
-    gasUsed: r.gasUsed, gasPrice: r.gasPrice, targetAllocationPct: a.pct,
+    gasUsed: r.gasUsed, gasPrice: r.gasPrice, targetAllocationPct: a.pct, error: r.error,
+  });
+}
+
+/** Log a mint/increase that reverted in simulation: nothing was sent, the reason is kept. */
+function logSimulatedRevert(
+  ops: ExecOps, pairId: string, dt: DecisionType, opType: "mint" | "increase", a: AllocationEntry, error: string,
+) {
+  return logTransaction(ops, {
+    pairId, decisionType: dt, opType, pool: a.pool, chain: a.chain,
+    txHash: "0x", status: "reverted", gasUsed: 0n, targetAllocationPct: a.pct, error,
   });
 }
 
 // ---- Shared burn/mint helpers ----
 
+/** Archive a burned position: principal in/out and fees (valued at `exitPrice`), net PnL. */
+async function archiveClosed(
+  ops: ExecOps, store: DragonflyStore, pair: PairConfig, pos: Position, r: BurnResult, dt: DecisionType,
+  exitPrice: number,
+): Promise<void> {
+  // Principal out includes partial withdrawals (decreases, valued when withdrawn)
+  const out0 = r.amount0 - r.fees0 + (pos.withdrawn0 ?? 0n);
+  const out1 = r.amount1 - r.fees1 + (pos.withdrawn1 ?? 0n);
+  const principalOutUsd =
+    computeValueUsd(pair, pos.chain, r.amount0 - r.fees0, r.amount1 - r.fees1, exitPrice) +
+    (pos.withdrawnUsd ?? 0);
+  // Lifetime fees: COMPOUND/decrease collections (valued when collected) plus the burn's own
+  const fees0 = r.fees0 + (pos.feesCollected0 ?? 0n);
+  const fees1 = r.fees1 + (pos.feesCollected1 ?? 0n);
+  const feesUsd =
+    computeValueUsd(pair, pos.chain, r.fees0, r.fees1, exitPrice) + (pos.feesCollectedUsd ?? 0);
+  const closed: ClosedPosition = {
+    id: pos.id, pairId: pair.id, pool: pos.pool, chain: pos.chain, dex: pos.dex, positionId: pos.positionId,
+    tickLower: pos.tickLower, tickUpper: pos.tickUpper, entryTs: pos.entryTs, closedTs: ops.clock.now(),
+    entryPrice: pos.entryPrice, exitPrice,
+    principalIn0: pos.amount0, principalIn1: pos.amount1, principalOut0: out0, principalOut1: out1,
+    fees0, fees1,
+    principalInUsd: pos.entryValueUsd, principalOutUsd, feesUsd,
+    netPnlUsd: principalOutUsd + feesUsd - pos.entryValueUsd,
+    decisionType: dt, txHash: r.hash, paper: ops.paper,
+  };
+  await store.archiveClosedPosition(closed);
+  ingestToO2("closed_positions", [{ ...closed }]);
+}
+
 /**
  * Burn a position, log it, delete from store, and ingest to O2.
  * Returns { result, success } — caller decides abort vs continue semantics.
  */
 async function burnAndRecord(
-  store: DragonflyStore, pair: PairConfig, pos: Position,
-  dt: DecisionType, privateKey: `0x${string}`,
+  ops: ExecOps, store: DragonflyStore, pair: PairConfig, pos: Position, dt: DecisionType, price?: number,
+  onSent?: (hash: `0x${string}`) => Promise<void>,
 ): Promise<{ result: BurnResult | null; success: boolean }> {
   let result: BurnResult | null = null;
   try {
-    result = await retry(() => burnPosition(pos, privateKey, pair), RETRY.burn.count, RETRY.burn.backoffMs);
+    result = await retry(() => ops.burn(pos, pair, onSent), RETRY.burn.count, RETRY.burn.backoffMs);
   } catch (e: unknown) {
     log.error(`Burn threw for position ${pos.id}: ${errMsg(e)}`, { pairId: pair.id, pool: pos.pool, chain: pos.chain });
     return { result: null, success: false };
   }
-  if (result) logBurn(pair.id, dt, result, pos.pool, pos.chain);
+  if (result) await logBurn(ops, pair.id, dt, result, pos.pool, pos.chain);
   if (result?.success) {
+    await archiveClosed(ops, store, pair, pos, result, dt, price ?? pos.entryPrice);
     await store.deletePosition(pos.id);
-    ingestToO2("positions", [{ event: "burn", pairId: pair.id, positionId: pos.id, pool: pos.pool, chain: pos.chain }]);
+    ingestToO2("positions", [{
+      event: "burn", pairId: pair.id, positionId: pos.id, pool: pos.pool, chain: pos.chain, paper: ops.paper,
+    }]);
     return { result, success: true };
   }
   return { result, success: false };
 }
 
-/** Rebalance token ratios on each chain, snapshot balances, then mint from allocations. */
+/** Fees collected from a position that stays open, accumulated for the closed-position archive. */
+function collectedFees(
+  pair: PairConfig, pos: Position, fees0: bigint, fees1: bigint, price: number, ts: number,
+): Partial<Position> {
+  return {
+    feesCollected0: (pos.feesCollected0 ?? 0n) + fees0,
+    feesCollected1: (pos.feesCollected1 ?? 0n) + fees1,
+    feesCollectedUsd: (pos.feesCollectedUsd ?? 0) + computeValueUsd(pair, pos.chain, fees0, fees1, price),
+    compoundTs: ts,
+  };
+}
+
+/**
+ * Withdraw `share` of a position's liquidity, log it and store the smaller position: the
+ * principal withdrawn and the fees collected accumulate on it for the closed-position archive.
+ */
+async function decreaseAndRecord(
+  ops: ExecOps, store: DragonflyStore, pair: PairConfig, pos: Position, share: number,
+  dt: DecisionType, price?: number,
+): Promise<{ result: BurnResult | null; success: boolean }> {
+  const liquidity = scaleByPct(pos.liquidity, share);
+  let result: BurnResult | null = null;
+  try {
+    result = await retry(() => ops.decrease(pos, pair, liquidity), RETRY.burn.count, RETRY.burn.backoffMs);
+  } catch (e: unknown) {
+    log.error(`Decrease threw for position ${pos.id}: ${errMsg(e)}`, { pairId: pair.id, pool: pos.pool, chain: pos.chain });
+    return { result: null, success: false };
+  }
+  if (result) await logModify(ops, pair.id, dt, "decrease", result, pos);
+  if (!result?.success) return { result, success: false };
+  const out0 = result.amount0 - result.fees0;
+  const out1 = result.amount1 - result.fees1;
+  const exitPrice = price ?? pos.entryPrice;
+  await store.savePosition({
+    ...pos,
+    liquidity: pos.liquidity - liquidity,
+    withdrawn0: (pos.withdrawn0 ?? 0n) + out0,
+    withdrawn1: (pos.withdrawn1 ?? 0n) + out1,
+    withdrawnUsd: (pos.withdrawnUsd ?? 0) + computeValueUsd(pair, pos.chain, out0, out1, exitPrice),
+    ...collectedFees(pair, pos, result.fees0, result.fees1, exitPrice, ops.clock.now()),
+  });
+  ingestToO2("positions", [{
+    event: "decrease", pairId: pair.id, positionId: pos.id, pool: pos.pool, chain: pos.chain,
+    liquidity, amount0: out0, amount1: out1, fees0: result.fees0, fees1: result.fees1, paper: ops.paper,
+  }]);
+  return { result, success: true };
+}
+
+/**
+ * Store a position grown by a compound or increase: added amounts join its principal
+ * (amounts, liquidity, entry value at cost) and collected fees accumulate on it.
+ */
+async function recordIncrease(
+  ops: ExecOps, store: DragonflyStore, pair: PairConfig, pos: Position, r: CompoundResult,
+  event: "compound" | "increase", price: number,
+): Promise<void> {
+  await store.savePosition({
+    ...pos,
+    liquidity: pos.liquidity + r.liquidity,
+    amount0: pos.amount0 + r.amount0,
+    amount1: pos.amount1 + r.amount1,
+    entryValueUsd: pos.entryValueUsd + computeEntryValueUsd(pair, pos.chain, r.amount0, r.amount1),
+    ...collectedFees(pair, pos, r.fees0, r.fees1, price, ops.clock.now()),
+  });
+  ingestToO2("positions", [{
+    event, pairId: pair.id, positionId: pos.id, pool: pos.pool, chain: pos.chain,
+    fees0: r.fees0, fees1: r.fees1, amount0: r.amount0, amount1: r.amount1, paper: ops.paper,
+  }]);
+}
+
+/**
+ * A burn that sent a tx before a restart (its hash journaled) waits for that tx's receipt
+ * before anything is resent. The position's on-chain liquidity then tells a withdrawal that
+ * never landed (the full burn runs again) from one that did (the burn only settles what the
+ * pool still owes, nothing for single-tx V4/LB burns). False while the tx is not mined.
+ */
+async function checkSentBurn(ops: ExecOps, step: JournalStep, pos: Position): Promise<boolean> {
+  const status = await ops.txStatus(pos.chain, step.txHash!);
+  if (!status) {
+    log.warn(`Burn tx ${step.txHash} of position ${pos.id} not mined yet, not resending`);
+    return false;
+  }
+  const liquidity = await ops.liquidity(pos);
+  log.info(
+    `Resuming burn of position ${pos.id} (tx ${step.txHash} ${status}): ${
+      liquidity > 0n ? `liquidity ${liquidity} left, burning again` : "liquidity withdrawn, settling"
+    }`,
+  );
+  return true;
+}
+
+/**
+ * Run every pending burn and decrease step. A position already gone from the store was burned
+ * before a restart, one whose fees were collected since the plan started was already decreased:
+ * both are marked done. Burn txs are journaled as they are sent, and an interrupted one is
+ * checked on-chain before a retry (checkSentBurn). PRA stops at the first failure; RS carries on.
+ */
+async function runWithdrawals(
+  ops: ExecOps, jr: Journal, pair: PairConfig,
+): Promise<{ txCount: number; allBurned: boolean }> {
+  const positions = await jr.store.getPositions();
+  let txCount = 0;
+  const pending = jr.j.steps.filter((s) => (s.kind === "burn" || s.kind === "decrease") && s.status !== "done");
+  for (const step of pending) {
+    const pos = positions.find((p) => p.id === step.positionId);
+    if (!pos || (step.kind === "decrease" && (pos.compoundTs ?? 0) >= jr.j.startedTs)) {
+      await endStep(jr, step, "done");
+      continue;
+    }
+    if (step.kind === "burn" && step.txHash && !(await checkSentBurn(ops, step, pos))) {
+      await endStep(jr, step, "failed", { error: "burn tx not mined" });
+      if (jr.j.kind === "PRA") return { txCount, allBurned: false };
+      continue;
+    }
+    const onSent = async (hash: `0x${string}`) => {
+      step.txHash = hash;
+      await saveJournal(jr);
+    };
+    const { result, success } = step.kind === "burn"
+      ? await burnAndRecord(ops, jr.store, pair, pos, jr.j.decisionType, jr.j.price, onSent)
+      : await decreaseAndRecord(ops, jr.store, pair, pos, step.share ?? 0, jr.j.decisionType, jr.j.price);
+    await endStep(jr, step, success ? "done" : "failed", { txHash: result?.hash, ...receiptGas(result) });
+    if (success) txCount++;
+    else if (jr.j.kind === "PRA") {
+      log.error(`PRA aborted: ${step.kind} failed for position ${pos.id}`);
+      return { txCount, allBurned: false };
+    }
+  }
+  return { txCount, allBurned: true };
+}
+
+/** RS re-mints burned positions at their new range, weighted by entry value (PRA plans its mints upfront). */
+function planMints(pair: PairConfig, j: ExecutionJournal, ts: number): JournalStep[] {
+  const burned = j.steps.filter((s) => s.kind === "burn" && s.status === "done");
+  const totalValue = burned.reduce((sum, s) => sum + (s.valueUsd ?? 0), 0);
+  return burned.flatMap((s): JournalStep[] => {
+    const shift = j.shifts?.find((sh) => sh.pool === s.pool && sh.chain === s.chain);
+    const poolCfg = pair.pools.find((p) => p.address === s.pool && p.chain === s.chain);
+    if (!shift || !poolCfg) return [];
+    const pct = totalValue > 0 ? (s.valueUsd ?? 0) / totalValue : 1 / burned.length;
+    const alloc = { pool: shift.pool, chain: shift.chain, dex: poolCfg.dex, pct, expectedApr: s.apr ?? 0 } as AllocationEntry;
+    return [{ kind: "mint", status: "pending", ts, chain: shift.chain, pool: shift.pool, alloc, range: shift.newRange }];
+  });
+}
+
+/**
+ * Rebalance token ratios on each chain, snapshot balances, then run the pending increase and
+ * mint steps. On resume, mints that landed before the restart (position already stored) and
+ * increases already applied (fees collected since the plan started) are marked done, and the
+ * remaining steps are sized from the balance left behind.
+ */
 async function rebalanceAndMint(
-  store: DragonflyStore, pair: PairConfig, dt: DecisionType, privateKey: `0x${string}`,
-  chains: number[], items: { alloc: AllocationEntry; range: Range }[],
+  ops: ExecOps, jr: Journal, pair: PairConfig, resumed: boolean,
 ): Promise<number> {
-  const account = getAccount(privateKey);
-  for (const chain of chains) await rebalanceTokenRatio(pair, chain, account.address, privateKey);
-  const chainBals = await captureChainBalances(pair, chains, account.address);
-  return mintFromAllocations(store, pair, dt, privateKey, items, chainBals);
+  const steps = jr.j.steps.filter((s) => s.kind === "mint" || s.kind === "increase");
+  const positions = await jr.store.getPositions();
+  if (resumed) {
+    for (const step of steps.filter((s) => s.status === "pending")) {
+      const landed = step.kind === "mint"
+        ? positions.find((p) => p.pool === step.pool && p.chain === step.chain && p.entryTs >= jr.j.startedTs)
+        : positions.find((p) => p.id === step.positionId && (p.compoundTs ?? 0) >= jr.j.startedTs);
+      if (landed) await endStep(jr, step, "done", { positionId: landed.id });
+    }
+  }
+  const pending = steps.filter((s) => s.status === "pending");
+  const chains = [...new Set(pending.map((s) => s.chain))];
+  for (const chain of chains) {
+    await rebalanceTokenRatio(ops, jr, pair, chain, pending.filter((s) => s.chain === chain), positions);
+  }
+  const chainBals = await captureChainBalances(ops, pair, chains, jr.j.price ?? 1);
+
+  const spentPct = new Map<number, number>();
+  for (const s of steps.filter((m) => m.status === "done" && m.valueUsd === undefined)) {
+    spentPct.set(s.chain, (spentPct.get(s.chain) ?? 0) + s.alloc!.pct * (1 - CASH_RESERVE_PCT));
+  }
+  return mintAndIncrease(ops, jr, pair, pending, chainBals, spentPct, positions);
 }
 
-async function mintFromAllocations(
-  store: DragonflyStore, pair: PairConfig, dt: DecisionType, privateKey: `0x${string}`,
-  items: { alloc: AllocationEntry; range: Range }[],
-  chainBals: Map<number, { bal0: bigint; bal1: bigint }>,
+/**
+ * Share of a chain's balance a step deploys. Incremental PRA steps carry the value to deploy
+ * (scaled down when the chain holds less than its steps need); RS re-mints carry a pct of the
+ * capital, net of the cash reserve and of what earlier mints on the chain already spent.
+ */
+function investPctOf(
+  step: JournalStep, bals: ChainBalances, neededUsd: number, spentPct: number,
+): number {
+  if (step.valueUsd !== undefined) {
+    const base = Math.max(bals.valueUsd, neededUsd);
+    return base > 0 ? step.valueUsd / base : 0;
+  }
+  return Math.min((step.alloc!.pct * (1 - CASH_RESERVE_PCT)) / (1 - spentPct), 1);
+}
+
+/**
+ * Token amounts (raw) a step deploys: its share of the chain's value, split at the token ratio its
+ * range needs and capped by what earlier steps on the chain left in the wallet.
+ */
+function stepAmounts(
+  pair: PairConfig, step: JournalStep, bals: ChainBalances, left: [bigint, bigint],
+  investPct: number, positions: Position[], price: number, spacings: TickSpacings,
+): [bigint, bigint] {
+  const value = investPct * bals.valueUsd;
+  const [h0, h1] = splitByShare(value, stepToken0Share(step, positions, price, spacings), price);
+  const raw0 = BigInt(Math.floor(h0 * 10 ** tokenDecimals(pair.token0, step.chain)));
+  const raw1 = BigInt(Math.floor(h1 * 10 ** tokenDecimals(pair.token1, step.chain)));
+  return [raw0 < left[0] ? raw0 : left[0], raw1 < left[1] ? raw1 : left[1]];
+}
+
+async function mintAndIncrease(
+  ops: ExecOps, jr: Journal, pair: PairConfig, steps: JournalStep[],
+  chainBals: Map<number, ChainBalances>, spentPct: Map<number, number>, positions: Position[],
 ): Promise<number> {
+  const neededUsd = new Map<number, number>();
+  for (const s of steps) neededUsd.set(s.chain, (neededUsd.get(s.chain) ?? 0) + (s.valueUsd ?? 0));
+  const left = new Map([...chainBals].map(([chain, b]): [number, [bigint, bigint]] => [chain, [b.bal0, b.bal1]]));
+  const price = jr.j.price ?? 1;
+  const spacings = await mintTickSpacings(ops, pair, steps);
+
   let txCount = 0;
-  for (const { alloc, range } of items) {
-    if (!pair.pools.find((p) => p.address === alloc.pool && p.chain === alloc.chain)) continue;
+  for (const step of steps) {
+    const alloc = step.alloc!;
+    const pool = pair.pools.find((p) => p.address === alloc.pool && p.chain === alloc.chain);
+    if (!pool) {
+      await endStep(jr, step, "failed", { error: "pool not in config" });
+      continue;
+    }
     const bals = chainBals.get(alloc.chain);
     if (!bals) continue;
-    const investPct = alloc.pct * (1 - CASH_RESERVE_PCT);
-    const amt0 = scaleByPct(bals.bal0, investPct);
-    const amt1 = scaleByPct(bals.bal1, investPct);
+    const investPct = investPctOf(step, bals, neededUsd.get(alloc.chain) ?? 0, spentPct.get(alloc.chain) ?? 0);
+    const chainLeft = left.get(alloc.chain)!;
+    const [amt0, amt1] = stepAmounts(pair, step, bals, chainLeft, investPct, positions, price, spacings);
     if (amt0 === 0n && amt1 === 0n) {
       log.warn(`No balance for ${pair.id} on chain ${alloc.chain}, skipping`, { pairId: pair.id, chain: alloc.chain });
+      await endStep(jr, step, "failed", { error: "no balance" });
       continue;
     }
+    chainLeft[0] -= amt0;
+    chainLeft[1] -= amt1;
     try {
-      const r = await retry(() => mintPosition(store, pair, alloc, range, amt0, amt1, privateKey), RETRY.mint.count, RETRY.mint.backoffMs);
-      logMint(pair.id, dt, r, alloc);
+      if (jr.j.price !== undefined) checkPriceDeviation(pair, pool, await ops.poolPrices(pair, pool), jr.j.price);
+      if (step.kind === "increase") {
+        const pos = positions.find((p) => p.id === step.positionId);
+        if (!pos) {
+          await endStep(jr, step, "failed", { error: "position not found" });
+          continue;
+        }
+        const r = await retry(() => ops.increase(pos, pair, amt0, amt1), RETRY.mint.count, RETRY.mint.backoffMs);
+        if (r) await logModify(ops, pair.id, jr.j.decisionType, "increase", r, pos, alloc.pct);
+        if (r?.success) await recordIncrease(ops, jr.store, pair, pos, r, "increase", jr.j.price ?? pos.entryPrice);
+        await endStep(jr, step, r?.success ? "done" : "failed", { txHash: r?.hash, ...receiptGas(r) });
+        if (r) txCount++;
+        continue;
+      }
+      const r = await retry(() => ops.mint(jr.store, pair, alloc, step.range!, amt0, amt1), RETRY.mint.count, RETRY.mint.backoffMs);
+      await logMint(ops, pair.id, jr.j.decisionType, r, alloc);
+      await endStep(jr, step, r.position ? "done" : "failed", { txHash: r.txHash, positionId: r.position?.id, ...receiptGas(r) });
       txCount++;
     } catch (e: unknown) {
-      log.error(`Mint failed for ${alloc.pool} on chain ${alloc.chain}: ${errMsg(e)}`, { pairId: pair.id, pool: alloc.pool, chain: alloc.chain });
+      log.error(`${step.kind === "increase" ? "Increase" : "Mint"} failed for ${alloc.pool} on chain ${alloc.chain}: ${errMsg(e)}`, { pairId: pair.id, pool: alloc.pool, chain: alloc.chain });
+      const reason = revertReason(e);
+      if (reason !== null) {
+        await logSimulatedRevert(ops, pair.id, jr.j.decisionType, step.kind === "increase" ? "increase" : "mint", alloc, reason);
+      }
+      await endStep(jr, step, "failed", { error: errMsg(e) });
     }
   }
   return txCount;
 }
 
-// ---- Public executor functions ----
+// ---- PRA / RS pipelines (backend-agnostic) ----
 
 /**
- * Execute a Pool Re-Allocation (PRA):
- * 1. Burn all existing positions — abort on failure
- * 2. Bridge cross-chain if needed
- * 3. Rebalance + mint new positions per allocation
+ * Drive a journal from its current phase to completion: burn/decrease → bridge (PRA only) →
+ * rebalance + increase/mint. Shared by fresh plans and plans resumed after a restart.
  */
-export async function executePRA(
-  store: DragonflyStore, pair: PairConfig, allocations: AllocationEntry[],
-  decisionType: DecisionType, privateKey: `0x${string}`, forces: Forces | null = null, price = 1,
+async function runJournal(
+  ops: ExecOps, jr: Journal, pair: PairConfig, resumed = false,
 ): Promise<number> {
-  log.info(`Executing PRA for ${pair.id}: ${allocations.length} allocation(s)`, { pairId: pair.id });
-  const account = getAccount(privateKey);
+  const { j } = jr;
   let txCount = 0;
 
-  // 1. Burn existing positions — abort on failure
-  for (const pos of await store.getPositions()) {
-    const { success } = await burnAndRecord(store, pair, pos, decisionType, privateKey);
-    if (success) txCount++;
-    else { log.error(`PRA aborted: burn failed for position ${pos.id}`); return txCount; }
+  if (j.phase === "burn") {
+    const burns = await runWithdrawals(ops, jr, pair);
+    txCount += burns.txCount;
+    if (!burns.allBurned) {
+      await finishJournal(jr, "aborted", "burn failed");
+      return txCount;
+    }
+    if (j.kind === "RS") j.steps.push(...planMints(pair, j, jr.clock.now()));
+    j.phase = j.kind === "PRA" ? "bridge" : "mint";
+    await saveJournal(jr);
   }
 
-  // 2. Cross-chain rebalancing
-  await bridgeCrossChain(pair, allocations, account.address, privateKey);
+  if (j.phase === "bridge") {
+    // Transfers in flight before a restart must land first, or the surplus would be bridged twice
+    if (await settlePendingBridges(ops, jr)) await bridgeCrossChain(ops, jr, pair);
+    else log.warn(`Skipping cross-chain rebalancing: unsettled bridge in ${j.id}`, { pairId: pair.id });
+    j.phase = "mint";
+    await saveJournal(jr);
+  }
+
+  if (j.phase === "mint") txCount += await rebalanceAndMint(ops, jr, pair, resumed);
+
+  await finishJournal(jr, "completed");
+  return txCount;
+}
+
+async function runPRA(
+  ops: ExecOps, store: DragonflyStore, pair: PairConfig, allocations: AllocationEntry[],
+  decisionType: DecisionType, forces: Forces | null, price: number, ranges?: Map<string, Range>,
+): Promise<number> {
+  log.info(`Executing ${ops.paper ? "paper " : ""}PRA for ${pair.id}: ${allocations.length} allocation(s)`, { pairId: pair.id });
 
-  // 3. Compute range + rebalance + mint
   const range = forces
     ? computeRange(price, forces)
     : {
@@ -292,49 +871,151 @@ export async function executePRA(
         trendBias: 0, type: "neutral" as const,
       };
 
-  const targetChains = [...new Set(allocations.map((a) => a.chain))];
-  txCount += await rebalanceAndMint(store, pair, decisionType, privateKey, targetChains,
-    allocations.map((a) => ({ alloc: a, range })));
+  // Diff against what is already deployed: only pools off their target are touched
+  const positions = await store.getPositions();
+  const chains = [...new Set([...pair.pools, ...positions].map((p) => p.chain))];
+  const idle = await captureChainBalances(ops, pair, chains, price);
+  const idleUsd = [...idle.values()].reduce((sum, b) => sum + b.valueUsd, 0);
+  const diffs = diffAllocations(positions, allocations, idleUsd);
+  const kept = diffs.filter((d) => d.action === "keep").length;
+  if (kept) log.info(`PRA ${pair.id}: keeping ${kept} position(s) within tolerance of target`, { pairId: pair.id });
+
+  // Withdrawals first: burns and decreases fund the bridges, increases and mints
+  // Mints use the pool's own range (its tuned params) when the cycle provides one
+  const now = ops.clock.now();
+  const steps = diffs.flatMap((d) => diffStep(d, ranges?.get(`${d.chain}:${d.pool}`) ?? range, now));
+  steps.sort((x, y) => Number(x.kind === "increase" || x.kind === "mint") - Number(y.kind === "increase" || y.kind === "mint"));
+  const jr = await openJournal(ops, store, pair, "PRA", decisionType, { price, allocations, steps });
+  return runJournal(ops, jr, pair);
+}
+
+type RangeShift = NonNullable<ExecutionJournal["shifts"]>[number];
+
+async function runRS(
+  ops: ExecOps, store: DragonflyStore, pair: PairConfig, shifts: RangeShift[], decisionType: DecisionType,
+): Promise<number> {
+  log.info(`Executing ${ops.paper ? "paper " : ""}RS for ${pair.id}: ${shifts.length} shift(s)`, { pairId: pair.id });
+  const existing = await store.getPositions();
+  const matched = shifts
+    .map((s) => existing.find((p) => p.pool === s.pool && p.chain === s.chain))
+    .filter((p): p is Position => !!p);
+
+  const jr = await openJournal(ops, store, pair, "RS", decisionType, {
+    price: shifts[0]?.newRange.base, shifts, steps: matched.map((p) => burnStep(p, ops.clock.now())),
+  });
+  return runJournal(ops, jr, pair);
+}
+
+type CompoundTarget = NonNullable<Decision["compounds"]>[number];
+
+/**
+ * Compound each target position: collect fees and add them back as liquidity. Reinvested
+ * amounts join the position's principal (amounts, liquidity, entry value at cost); collected
+ * fees accumulate on the position for the closed-position archive. No journal: a crash between
+ * collect and increase only leaves fees in the wallet, where the next PRA/RS picks them up.
+ */
+async function runCompound(
+  ops: ExecOps, store: DragonflyStore, pair: PairConfig, targets: CompoundTarget[],
+  decisionType: DecisionType, price: number,
+): Promise<number> {
+  log.info(`Executing ${ops.paper ? "paper " : ""}COMPOUND for ${pair.id}: ${targets.length} position(s)`, { pairId: pair.id });
+  const positions = await store.getPositions();
+  let txCount = 0;
+  for (const t of targets) {
+    const pos = positions.find((p) => p.id === t.id);
+    if (!pos) continue;
+    let r: CompoundResult | null;
+    try {
+      r = await ops.compound(pos, pair);
+    } catch (e: unknown) {
+      log.error(`Compound threw for position ${pos.id}: ${errMsg(e)}`, { pairId: pair.id, pool: pos.pool, chain: pos.chain });
+      continue;
+    }
+    if (!r) continue;
+    await logModify(ops, pair.id, decisionType, "compound", r, pos);
+    txCount++;
+    if (r.fees0 === 0n && r.fees1 === 0n) continue;
+    await recordIncrease(ops, store, pair, pos, r, "compound", price);
+  }
   return txCount;
 }
 
+/**
+ * Resume a journal left running by a previous worker, or abort it once stale.
+ * Burns whose position is gone and mints whose position is stored reconcile as done.
+ */
+async function resumeJournal(ops: ExecOps, store: DragonflyStore, pair: PairConfig): Promise<number> {
+  const j = await store.getJournal();
+  if (j?.status !== "running") return 0;
+  const jr = { store, j, clock: ops.clock };
+  if (ops.clock.now() - j.startedTs > JOURNAL_RESUME_MAX_AGE_MS) {
+    log.warn(`Aborting stale ${j.kind} ${j.id} at phase ${j.phase}`, { pairId: pair.id });
+    await finishJournal(jr, "aborted", "stale on restart");
+    return 0;
+  }
+  log.warn(`Resuming interrupted ${j.kind} ${j.id} at phase ${j.phase}`, { pairId: pair.id });
+  try {
+    return await runJournal(ops, jr, pair, true);
+  } catch (e: unknown) {
+    log.error(`Resume of ${j.id} failed: ${errMsg(e)}`, { pairId: pair.id });
+    await finishJournal(jr, "aborted", `resume failed: ${errMsg(e)}`);
+    return 0;
+  }
+}
+
+// ---- Public executor functions ----
+
+/**
+ * Execute a Pool Re-Allocation (PRA), incrementally against the open positions:
+ * 1. Burn positions whose pool left the allocation, decrease oversized ones — abort on failure
+ * 2. Bridge the net per-chain difference if needed
+ * 3. Rebalance + increase undersized positions, mint new pools
+ * Positions within tolerance of their target are kept untouched.
+ */
+export async function executePRA(
+  store: DragonflyStore, pair: PairConfig, allocations: AllocationEntry[],
+  decisionType: DecisionType, signer: Signer, forces: Forces | null = null, price = 1,
+  ranges?: Map<string, Range>,
+): Promise<number> {
+  return runPRA(liveOps(signer, pair), store, pair, allocations, decisionType, forces, price, ranges);
+}
+
 /**
  * Execute Range-Shift (RS):
  * 1. Burn diverged positions
  * 2. Rebalance + mint at new ranges
  */
 export async function executeRS(
-  store: DragonflyStore, pair: PairConfig,
-  shifts: { pool: `0x${string}`; chain: number; oldRange: Range; newRange: Range }[],
-  decisionType: DecisionType, privateKey: `0x${string}`,
+  store: DragonflyStore, pair: PairConfig, shifts: RangeShift[],
+  decisionType: DecisionType, signer: Signer,
 ): Promise<number> {
-  log.info(`Executing RS for ${pair.id}: ${shifts.length} shift(s)`, { pairId: pair.id });
-  const existing = await store.getPositions();
-  let txCount = 0;
-
-  const matchedPositions = shifts
-    .map((s) => ({ shift: s, position: existing.find((p) => p.pool === s.pool && p.chain === s.chain) }))
-    .filter((m): m is { shift: (typeof shifts)[number]; position: Position } => !!m.position);
+  return runRS(liveOps(signer, pair), store, pair, shifts, decisionType);
+}
 
-  // Burn all positions first
-  const burned: typeof matchedPositions = [];
-  for (const m of matchedPositions) {
-    const { success } = await burnAndRecord(store, pair, m.position, decisionType, privateKey);
-    if (success) { txCount++; burned.push(m); }
-  }
+/** Execute COMPOUND: collect fees of the target positions and reinvest them in place. */
+export async function executeCompound(
+  store: DragonflyStore, pair: PairConfig, targets: CompoundTarget[],
+  decisionType: DecisionType, signer: Signer, price = 1,
+): Promise<number> {
+  return runCompound(liveOps(signer, pair), store, pair, targets, decisionType, price);
+}
 
-  // Build proportional allocations from burned positions
-  const totalValue = burned.reduce((sum, m) => sum + m.position.entryValueUsd, 0);
-  const items = burned.map(({ shift, position: pos }) => {
-    const poolCfg = pair.pools.find((p) => p.address === shift.pool && p.chain === shift.chain);
-    const pct = totalValue > 0 ? pos.entryValueUsd / totalValue : 1 / burned.length;
-    return {
-      alloc: { pool: shift.pool, chain: shift.chain, dex: poolCfg!.dex, pct, expectedApr: pos.entryApr } as AllocationEntry,
-      range: shift.newRange,
-    };
-  });
+/** Resume (or abort, if stale) an execution journal left running by a previous worker. */
+export async function resumeExecution(
+  store: DragonflyStore, pair: PairConfig, signer: Signer,
+): Promise<number> {
+  return resumeJournal(liveOps(signer, pair), store, pair);
+}
 
-  const rsChains = [...new Set(burned.map((m) => m.shift.chain))];
-  txCount += await rebalanceAndMint(store, pair, decisionType, privateKey, rsChains, items);
-  return txCount;
+/** Cycle executor running PRA/RS/COMPOUND against simulated ops (paper trading); no signer involved. */
+export function paperExecutor(ops: ExecOps): CycleExecutor {
+  return {
+    paper: true,
+    executePRA: (store, pair, allocations, decisionType, _signer, forces = null, price = 1, ranges) =>
+      runPRA(ops, store, pair, allocations, decisionType, forces, price, ranges),
+    executeRS: (store, pair, shifts, decisionType) => runRS(ops, store, pair, shifts, decisionType),
+    executeCompound: (store, pair, targets, decisionType, _signer, price = 1) =>
+      runCompound(ops, store, pair, targets, decisionType, price),
+    resume: (store, pair) => resumeJournal(ops, store, pair),
+  };
 }
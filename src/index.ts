@@ -1,11 +1,25 @@
-import { DragonflyStore } from "./data/store-dragonfly";
+import { DragonflyStore, strategyPrefix } from "./data/store-dragonfly";
 import { runSingleCycle } from "./scheduler";
+import { loadBacktestData, runBacktest } from "./backtest";
 import { registerPair } from "./state";
-import { fmtPct as pct, errMsg } from "../shared/format";
+import { reconcilePositions } from "./execution/reconcile";
+import { eoaSigner, strategySigner } from "./execution/tx";
+import { unlockAccount, withoutKeys } from "./execution/keys";
+import { setNonceRedis } from "./execution/nonce";
+import { setPolicyRedis } from "./execution/policy";
+import { fmtPct as pct, fmtUsd as usd, errMsg } from "../shared/format";
 import { log } from "./utils";
 import { initLogLevel } from "./infra/logger";
 import { loadPairConfigs } from "./config/pairs";
+import { loadStrategyConfigs } from "./config/strategies";
 import { createRedis, KEYS, getWorkerState } from "./infra/redis";
+import { BACKTEST_DEFAULT_DAYS, DAY_MS } from "./config/params";
+
+/** Read a `--flag value` CLI option. */
+function flag(args: string[], name: string): string | undefined {
+  const i = args.indexOf(`--${name}`);
+  return i >= 0 ? args[i + 1] : undefined;
+}
 
 // ---- Main ----
 
@@ -23,11 +37,28 @@ Commands:
   run       Start orchestrator + API server (default)
   status    Show current positions and metrics
   cycle     Run a single cycle for all pairs (no orchestration)
+  backtest  Replay the cycle over O2 history with a paper executor
+  reconcile Compare stored positions with on-chain positions of each strategy's account
+
+Backtest options:
+  --days N           Replay window ending now (default: 7)
+  --from ISO --to ISO  Explicit replay window (overrides --days)
+  --capital USD      Starting capital (default: 10000)
+  --opt-every N      Re-run the optimizer every N epochs (default: 1)
+  --no-opt           Skip the optimizer + kill switches (default params)
+  --out FILE         Write the per-epoch ledger + summary as JSON
+
+Reconcile options:
+  --adopt            Save orphans, resolve pending ids and fix drifted liquidity in the store
+  --purge            Delete ghost positions (no on-chain liquidity) from the store
+  --account 0x...    Inspect this address instead of the one derived from the strategy's key
 
 Environment:
   PAIRS              Comma-separated pair IDs (default: USDC-USDT)
   POOLS_USDC_USDT    Pool configs: chain:address:dex,...
-  PK_USDC_USDT       Private key for USDC-USDT EOA
+  KEYSTORE_DIR       Encrypted keystores: <PAIR>.json, <STRATEGY>.json, mnemonic.json
+  KEYSTORE_PASSWORD_FILE  File holding the keystore password (or KEYSTORE_PASSWORD)
+  PK_USDC_USDT       Plaintext private key for USDC-USDT EOA (legacy)
   INTERVAL_SEC       Cycle interval in seconds (default: 900)
   MAX_POSITIONS      Max positions per pair (default: 3)
   PRA_THRESHOLD      Pool re-allocation threshold (default: 0.05)
@@ -47,9 +78,10 @@ Environment:
   // ---- run: spawn orchestrator + API as independent processes ----
   if (command === "run") {
     const resolve = (name: string) => new URL(name, import.meta.url).pathname;
+    const keyVars = loadStrategyConfigs().map((s) => s.pkEnvVar);
     const spawn = (entry: string) =>
       Bun.spawn(["bun", resolve(entry)], {
-        env: process.env,
+        env: withoutKeys(process.env, keyVars), // workers unlock their own keys
         stdout: "inherit",
         stderr: "inherit",
       });
@@ -127,19 +159,21 @@ Environment:
     }
 
     const redis = createRedis();
+    setNonceRedis(redis);
+    setPolicyRedis(redis);
     try {
       for (const pair of pairs) {
         const store = new DragonflyStore(redis, pair.id);
-        const pk = (process.env[pair.eoaEnvVar] as `0x${string}` | undefined) ?? null;
+        const account = await unlockAccount({ name: pair.id, pkEnvVar: pair.eoaEnvVar });
         registerPair(pair.id, store, pair);
 
-        if (!pk) {
+        if (!account) {
           log.warn(
-            `No private key for ${pair.id} (set ${pair.eoaEnvVar}), running in read-only mode`,
+            `No key for ${pair.id} (keystore or ${pair.eoaEnvVar}), running in read-only mode`,
           );
         }
 
-        const decision = await runSingleCycle(store, pair, pk);
+        const decision = await runSingleCycle(store, pair, account && eoaSigner(account));
         console.log(`${pair.id}: ${decision.type}`, {
           currentApr: pct(decision.currentApr),
           optimalApr: pct(decision.optimalApr),
@@ -155,6 +189,124 @@ Environment:
     return;
   }
 
+  // ---- backtest: offline replay against O2 history ----
+  if (command === "backtest") {
+    const pairs = loadPairConfigs();
+    if (!pairs.length) {
+      log.error("No pairs configured.");
+      process.exitCode = 1;
+      return;
+    }
+
+    const days = Number(flag(args, "days") ?? BACKTEST_DEFAULT_DAYS);
+    const to = flag(args, "to");
+    const from = flag(args, "from");
+    const toTs = to ? Date.parse(to) : Date.now();
+    const fromTs = from ? Date.parse(from) : toTs - days * DAY_MS;
+    if (!Number.isFinite(fromTs) || !Number.isFinite(toTs) || fromTs >= toTs) {
+      log.error("Invalid backtest window (check --from/--to/--days).");
+      process.exitCode = 1;
+      return;
+    }
+    const capital = flag(args, "capital");
+    const optEvery = flag(args, "opt-every");
+    const out = flag(args, "out");
+
+    const results: Record<string, unknown> = {};
+    const redis = createRedis();
+    try {
+      for (const pair of pairs) {
+        const data = await loadBacktestData(pair.id, fromTs, toTs);
+        if (!data.candles.length) {
+          log.warn(`${pair.id}: no candles in O2 for the backtest window, skipping`);
+          continue;
+        }
+        // Replay state (positions, paper ledger, journals) under its own prefix, dropped after
+        const store = new DragonflyStore(redis, pair.id, "btr:backtest");
+        try {
+          const { ledger, summary } = await runBacktest(store, pair, data, {
+            fromTs,
+            toTs,
+            capitalUsd: capital ? Number(capital) : undefined,
+            optimize: !args.includes("--no-opt"),
+            optimizeEvery: optEvery ? Number(optEvery) : undefined,
+          });
+          results[pair.id] = { summary, ledger };
+          console.log(`${pair.id}: ${summary.epochs} epochs`, {
+            finalValue: usd(summary.finalValueUsd),
+            netPnl: usd(summary.netPnlUsd),
+            return: pct(summary.returnPct),
+            annualized: pct(summary.annualizedReturn),
+            fees: usd(summary.totalFeesUsd),
+            il: usd(summary.totalIlUsd),
+            gas: usd(summary.totalGasUsd),
+            maxDrawdown: pct(summary.maxDrawdownPct),
+            timeInRange: pct(summary.timeInRangePct),
+            decisions: summary.decisions,
+            txCount: summary.txCount,
+          });
+        } finally {
+          await store.deleteAll();
+        }
+      }
+    } finally {
+      redis.close();
+    }
+    if (out) {
+      await Bun.write(out, JSON.stringify(results, null, 2));
+      log.info(`Backtest ledger written to ${out}`);
+    }
+    await log.shutdown();
+    return;
+  }
+
+  // ---- reconcile: store vs on-chain positions ----
+  if (command === "reconcile") {
+    const strategies = loadStrategyConfigs();
+    if (!strategies.length) {
+      log.error("No strategies configured.");
+      process.exitCode = 1;
+      return;
+    }
+
+    const opts = { adopt: args.includes("--adopt"), purge: args.includes("--purge") };
+    const override = flag(args, "account") as `0x${string}` | undefined;
+    const redis = createRedis();
+    try {
+      for (const strategy of strategies) {
+        if (strategy.mode === "paper") {
+          log.info(`${strategy.name}: paper strategy, nothing on-chain to reconcile`);
+          continue;
+        }
+        // Same store and account as the strategy's worker: positions sit with its signer
+        // (the Safe in "safe" mode)
+        const key = override ? null : await unlockAccount(strategy);
+        const account = override ?? (key ? strategySigner(strategy, key).address : undefined);
+        if (!account) {
+          log.warn(
+            `No account for ${strategy.name} (keystore, hdIndex, ${strategy.pkEnvVar} or --account), skipping`,
+          );
+          continue;
+        }
+        const store = new DragonflyStore(redis, strategy.name, strategyPrefix(strategy.mode));
+        const pair = { ...strategy, id: strategy.pairId, eoaEnvVar: strategy.pkEnvVar };
+        const report = await reconcilePositions(store, pair, account, opts);
+        console.log(
+          `\n${strategy.name} (${strategy.pairId}): ${report.checked} stored position(s), ${report.issues.length} issue(s)`,
+        );
+        for (const i of report.issues) {
+          console.log(
+            `  ${i.kind.padEnd(8)} ${i.dex} chain=${i.chain} id=${i.positionId} stored=${i.storedLiquidity ?? "-"} onchain=${i.onChainLiquidity ?? "-"}${i.resolution ? ` -> ${i.resolution}` : ""}`,
+          );
+        }
+      }
+    } finally {
+      redis.close();
+    }
+    await log.shutdown();
+    return;
+  }
+
   log.error(`Unknown command: ${command}. Use --help for usage.`);
   process.exitCode = 1;
 }
@@ -61,16 +61,16 @@ const WORKER_FORWARD_KEYS = [
   "MAX_POSITIONS",
   "PRA_THRESHOLD",
   "RS_THRESHOLD",
+  "KEYSTORE_DIR",
+  "KEYSTORE_PASSWORD_FILE",
 ];
 
 type WorkerType = "collector" | "strategy";
 
 function buildWorkerEnv(pairId: string, workerType: WorkerType): string[] {
-  const pkKey = `PK_${pairId.replace(/-/g, "_")}`;
   const envKey = workerType === "collector" ? "COLLECTOR_PAIR_ID" : "WORKER_PAIR_ID";
   const env: string[] = [`${envKey}=${pairId}`, "NODE_ENV=production"];
-  // Forward only this pair's private key (not all PK_*)
-  if (process.env[pkKey]) env.push(`${pkKey}=${process.env[pkKey]}`);
+  // No private keys: the worker unlocks its own from the mounted keystore
   // Forward matching prefixed vars
   for (const [key, val] of Object.entries(process.env)) {
     if (val && WORKER_ENV_PREFIXES.some((p) => key.startsWith(p))) {
@@ -84,6 +84,13 @@ function buildWorkerEnv(pairId: string, workerType: WorkerType): string[] {
   return env;
 }
 
+/** Keystore directory and password file, mounted read-only at the same paths as on the host. */
+function keystoreBinds(): string[] {
+  return [process.env.KEYSTORE_DIR, process.env.KEYSTORE_PASSWORD_FILE]
+    .filter((path): path is string => !!path)
+    .map((path) => `${path}:${path}:ro`);
+}
+
 function containerName(pairId: string, workerType: WorkerType): string {
   return `btr-${workerType}-${pairId.toLowerCase().replace(/[^a-z0-9-]/g, "-")}`;
 }
@@ -120,6 +127,7 @@ export async function createWorkerContainer(
       SecurityOpt: ["no-new-privileges"],
       ReadonlyRootfs: true,
       Tmpfs: { "/tmp": "rw,noexec,nosuid,size=64m" },
+      Binds: keystoreBinds(),
       RestartPolicy: { Name: "no" },
       NetworkMode: cfg.network,
       LogConfig: {
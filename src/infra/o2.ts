@@ -310,8 +310,19 @@ export function getO2Client(): O2Client | null {
   return _client;
 }
 
+/** Receives rows in place of the O2 client (e.g. a backtest replay capturing its own output). */
+export type O2Sink = (stream: string, entries: Record<string, unknown>[]) => void;
+
+let _sink: O2Sink | null = null;
+
+/** Divert ingestToO2 to a sink instead of OpenObserve; null restores ingestion. */
+export function setO2Sink(sink: O2Sink | null) {
+  _sink = sink;
+}
+
 /** Fire-and-forget ingestion to an O2 stream. Safe to call even if O2 is not configured. */
 export function ingestToO2(stream: string, entries: Record<string, unknown>[]) {
+  if (_sink) return _sink(stream, entries);
   getO2Client()?.ingest(
     stream,
     entries.map((e) => ({ _timestamp: new Date().toISOString(), ...e })),
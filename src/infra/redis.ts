@@ -1,8 +1,8 @@
 import { RedisClient } from "bun";
-import { DEFAULT_REDIS_URL, WORKER_STATE_TTL_MS, COLLECTOR_DATA_TTL_MS } from "../config/params";
+import { DEFAULT_REDIS_URL, WORKER_STATE_TTL_MS, COLLECTOR_DATA_TTL_MS, RPC_HEALTH_TTL_MS } from "../config/params";
 import type { WorkerState, CollectorState } from "../state";
 import type { Candle, PoolSnapshot } from "../types";
-import type { PairConfigEntry, StrategyConfigEntry, DexMetadata } from "../../shared/types";
+import type { PairConfigEntry, StrategyConfigEntry, DexMetadata, RpcHealth } from "../../shared/types";
 
 const prefixedKeys = (prefix: string) => ({
   lock: (id: string) => `${prefix}:${id}:lock`,
@@ -45,6 +45,13 @@ export const KEYS = {
   // RPC
   rpcChains: "btr:config:rpc:chains",
   rpcChain: (chainId: number) => `btr:config:rpc:${chainId}`,
+  rpcHealth: (chainId: number) => `btr:rpc:health:${chainId}`,
+  // Nonce manager (per chain and sender)
+  nonceNext: (chainId: number, address: string) => `btr:nonce:${chainId}:${address}:next`,
+  noncePending: (chainId: number, address: string) => `btr:nonce:${chainId}:${address}:pending`,
+  // Transaction policy spend ledger (per chain, sender and epoch)
+  policySpent: (chainId: number, address: string, epoch: number) =>
+    `btr:policy:${chainId}:${address}:spent:${epoch}`,
 } as const;
 
 export const CHANNELS = {
@@ -248,3 +255,10 @@ export async function deleteRpcConfig(redis: RedisClient, chainId: number): Prom
   await Promise.all([redis.del(KEYS.rpcChain(chainId)), redis.srem(KEYS.rpcChains, String(chainId))]);
   await publishControl(redis, { type: "RPC_CHANGED", chainId });
 }
+
+// ---- RPC Health (published by workers, read by the API) ----
+
+export const getRpcHealth = (r: RedisClient, chainId: number) =>
+  getJson<RpcHealth[]>(r, KEYS.rpcHealth(chainId), []);
+export const setRpcHealth = (r: RedisClient, chainId: number, health: RpcHealth[]) =>
+  setJson(r, KEYS.rpcHealth(chainId), health, RPC_HEALTH_TTL_MS);
@@ -42,7 +42,8 @@ import { DEX_DISPLAY_NAMES } from "./config/dexs";
 import { POOL_REGISTRY } from "./config/pools";
 import { loadRpcOverrides, setChainRpcs } from "./config/chains";
 import { invalidateClients } from "./execution/tx";
-import { DragonflyStore } from "./data/store-dragonfly";
+import { withoutKeys } from "./execution/keys";
+import { DragonflyStore, strategyPrefix } from "./data/store-dragonfly";
 import {
   createWorkerContainer,
   startContainer,
@@ -93,7 +94,8 @@ function processBackend(): WorkerBackend {
       const entryPath = workerType === "collector" ? collectorPath : workerPath;
       const envKey = workerType === "collector" ? "COLLECTOR_PAIR_ID" : "WORKER_STRATEGY_NAME";
       const proc = Bun.spawn(["bun", entryPath, id], {
-        env: { ...process.env, [envKey]: id },
+        // the worker unlocks its own key
+        env: { ...withoutKeys(process.env, keyEnvVars), [envKey]: id },
         stdout: "inherit",
         stderr: "inherit",
       });
@@ -198,6 +200,7 @@ function dockerBackend(cfg: DockerConfig): WorkerBackend {
 
 const collectors = new Map<string, WorkerHandle>();
 const strategies = new Map<string, WorkerHandle>();
+const keyEnvVars = new Set<string>(); // configured strategies' pkEnvVar, stripped from worker envs
 
 async function main() {
   const useDocker = process.argv.includes("--docker") || process.env.ORCHESTRATOR_MODE === "docker";
@@ -291,6 +294,8 @@ async function main() {
     })
     .filter((s): s is NonNullable<typeof s> => s !== null);
 
+  for (const s of strategyConfigs) keyEnvVars.add(s.pkEnvVar);
+
   if (!strategyConfigs.length) {
     log.error("No valid strategy configs in DragonflyDB.");
     await releaseLock(redis, KEYS.orchestratorLock, lockValue);
@@ -504,6 +509,7 @@ async function main() {
     reconciling = true;
     try {
       const entries = await strategyCfg.getAll(redis);
+      for (const e of entries) keyEnvVars.add(e.pkEnvVar);
       const newNames = new Set(entries.map((e) => e.name));
       const oldNames = new Set(strategyNames);
 
@@ -517,8 +523,9 @@ async function main() {
           const handle = strategies.get(name);
           if (handle) await backend.kill(handle);
           strategies.delete(name);
-          const store = new DragonflyStore(redis, name, "btr:strategy");
-          await store.deleteAll();
+          for (const mode of ["live", "paper"] as const) {
+            await new DragonflyStore(redis, name, strategyPrefix(mode)).deleteAll();
+          }
         }
       }
 
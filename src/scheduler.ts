@@ -3,15 +3,21 @@ import type {
   StrategyConfig,
   Decision,
   ForceParams,
-  RangeParams,
+  Forces,
   Candle,
+  PoolAnalysis,
+  PoolConfig,
   PoolSnapshot,
+  Position,
+  Range,
 } from "./types";
 import type { DragonflyStore } from "./data/store-dragonfly";
 import {
   DEFAULT_FORCE_PARAMS,
   DEFAULT_FEE,
   DEFAULT_CAPITAL_USD,
+  DEFAULT_OPTIMIZER,
+  MTF_WEIGHTS,
   STABLE_TOKENS,
   CANDLE_BUFFER_MS,
   SECONDS_PER_YEAR,
@@ -24,18 +30,18 @@ import {
   OPT_LOOKBACK_MS,
   CATCHUP_MAX_MS,
 } from "./config/params";
-import { fetchLatestM1, backfill, trimCandles } from "./data/ohlc";
-import { fetchPoolSnapshots } from "./data/gecko";
-import { getLastSnapshot } from "./data/store-o2";
+import { backfill, trimCandles } from "./data/ohlc";
 import { readCollectedCandles, readCollectedSnapshots, readCollectedTs } from "./infra/redis";
 import type { RedisClient } from "bun";
-import * as o2q from "./data/store-o2";
+import { liveCycleContext, type CycleContext, type PositionValuer } from "./context";
+import type { Signer } from "./execution/tx";
+import { journalGasWei, summarizeMarks } from "./execution/valuation";
+import { rebalanceGasUsd, staticGasUnitUsd } from "./execution/gas";
 import { compositeForces, computeForces, blendForces, NEUTRAL_FORCES } from "./strategy/forces";
-import { computePoolAnalyses } from "./strategy/utilization";
+import { computePoolAnalyses, poolAprSeries } from "./strategy/utilization";
 import { computeRange } from "./strategy/range";
 import { allocate } from "./strategy/allocation";
 import { decide, buildPairAllocation } from "./strategy/decision";
-import { executePRA, executeRS } from "./executor";
 import { ingestToO2, flushO2 } from "./infra/o2";
 import { fmtPct as pct, aggregateCandles } from "../shared/format";
 import { log, errMsg, upperBound, computeIL, pairGasCost } from "./utils";
@@ -44,12 +50,15 @@ import {
   optimize,
   checkKillSwitches,
   defaultRangeParams,
-  rangeParamsToVec,
+  paramSpace,
+  toRangeParams,
   setWarmStart,
   type FitnessContext,
   type KillSwitchState,
 } from "./strategy/optimizer";
 import { getPair } from "./state";
+import { getDexFamily } from "./config/dexs";
+import { computeValueUsd } from "./config/tokens";
 
 /** Ingest allocation decision to O2 (used by both HOLD and normal decision paths). */
 function ingestAllocation(
@@ -58,6 +67,7 @@ function ingestAllocation(
   now: number,
   decision: Decision,
   positions: { pool: `0x${string}`; chain: number; dex: string; entryApr: number }[],
+  paper: boolean,
 ) {
   const pairAlloc = buildPairAllocation(decision, positions as any);
   ingestToO2("pair_allocations", [
@@ -71,33 +81,162 @@ function ingestAllocation(
       improvement: decision.improvement,
       targetAllocations: JSON.stringify(decision.targetAllocations),
       currentAllocations: JSON.stringify(pairAlloc.currentAllocations),
+      paper,
     },
   ]);
 }
 
-/** Save epoch snapshot with computed PnL fields to O2. */
+/** PnL of one epoch, as recorded in epoch_snapshots. */
+interface EpochPnl {
+  portfolioValueUsd: number;
+  feesEarnedUsd: number;
+  gasSpentUsd: number;
+  ilUsd: number;
+  positionsCount: number;
+  feesUncollectedUsd?: number;
+  hodlValueUsd?: number;
+  marked: boolean;
+}
+
+/** Modeled PnL: entry values, fees at the current APR, modeled IL, per-chain gas estimates. */
+function modelEpochPnl(
+  positions: { entryPrice: number; entryValueUsd: number }[],
+  currentPrice: number,
+  currentApr: number,
+  txCount: number,
+  gasCostUsd: number,
+  cycleSec: number,
+): EpochPnl {
+  const portfolioValueUsd = positions.reduce((sum, p) => sum + p.entryValueUsd, 0);
+  const intervalsPerYear = SECONDS_PER_YEAR / cycleSec;
+  return {
+    portfolioValueUsd,
+    feesEarnedUsd: portfolioValueUsd > 0 ? (currentApr * portfolioValueUsd) / intervalsPerYear : 0,
+    gasSpentUsd: txCount * gasCostUsd,
+    ilUsd: computeIL(positions, currentPrice),
+    positionsCount: positions.length,
+    marked: false,
+  };
+}
+
+/** USD gas of the journal this cycle executed, from burn/mint receipts (null if unpriceable). */
+async function receiptGasUsd(
+  valuer: PositionValuer,
+  store: DragonflyStore,
+  since: number,
+): Promise<number | null> {
+  const [j] = await store.getJournalHistory(1);
+  if (!j || j.startedTs < since) return null;
+  let usd = 0;
+  for (const [chain, wei] of journalGasWei(j)) {
+    const nativeUsd = await valuer.nativeUsd(chain);
+    if (nativeUsd == null) return null;
+    usd += (Number(wei) / 1e18) * nativeUsd;
+  }
+  return usd;
+}
+
+/** USD value of the pair's tokens idle in the wallet on its pool chains, at `price`. */
+async function idleValueUsd(
+  valuer: PositionValuer,
+  pair: PairConfig,
+  signer: Signer | null,
+  price: number,
+): Promise<number> {
+  let usd = 0;
+  for (const chain of new Set(pair.pools.map((p) => p.chain))) {
+    const t0 = pair.token0.addresses[chain];
+    const t1 = pair.token1.addresses[chain];
+    const [bal0, bal1] = await Promise.all([
+      t0 ? valuer.getBalance(chain, t0, signer) : 0n,
+      t1 ? valuer.getBalance(chain, t1, signer) : 0n,
+    ]);
+    usd += computeValueUsd(pair, chain, bal0 ?? 0n, bal1 ?? 0n, price);
+  }
+  return usd;
+}
+
+/**
+ * Fees (USD) each position collected this cycle: growth of its lifetime collected fees over
+ * `before` (positions at cycle start), for open positions and those burned since `since`.
+ */
+async function cycleCollectedUsd(
+  store: DragonflyStore,
+  before: Position[],
+  positions: Position[],
+  since: number,
+): Promise<Record<string, number>> {
+  const prior = new Map(before.map((p) => [p.id, p.feesCollectedUsd ?? 0]));
+  const closed = (await store.getClosedPositions()).filter((c) => c.closedTs >= since);
+  const out: Record<string, number> = {};
+  for (const p of positions) {
+    const usd = (p.feesCollectedUsd ?? 0) - (prior.get(p.id) ?? 0);
+    if (usd > 0) out[p.id] = usd;
+  }
+  for (const c of closed) out[c.id] = Math.max(0, c.feesUsd - (prior.get(c.id) ?? 0));
+  return out;
+}
+
+/**
+ * Measure epoch PnL after execution. With a valuer, open positions are marked to market:
+ * value includes uncollected fees and idle wallet balances (at `price`), fees earned are the
+ * growth of uncollected fees since the previous snapshot (persisted per position) plus the fees
+ * this cycle's burns, decreases and compounds collected, IL is measured against holding the
+ * entry amounts, and gas comes from this cycle's receipts. Falls back to the modeled figures
+ * otherwise.
+ */
+async function measureEpochPnl(
+  ctx: CycleContext,
+  store: DragonflyStore,
+  pair: PairConfig,
+  signer: Signer | null,
+  model: EpochPnl,
+  txCount: number,
+  since: number,
+  before: Position[],
+  price: number,
+): Promise<EpochPnl> {
+  if (!ctx.valuer) return model;
+  try {
+    const positions = await store.getPositions();
+    const marks = await ctx.valuer.markPositions(pair, positions, signer);
+    if (!marks) return model;
+    const prev = (await store.getFeeMarks()) ?? {};
+    await store.saveFeeMarks(Object.fromEntries(marks.map((m) => [m.id, m.feesUsd])));
+    const gasUsd = txCount > 0 ? await receiptGasUsd(ctx.valuer, store, since) : 0;
+    const collected = await cycleCollectedUsd(store, before, positions, since);
+    const idleUsd = await idleValueUsd(ctx.valuer, pair, signer, price);
+    const s = summarizeMarks(marks, prev, collected, idleUsd);
+    return {
+      portfolioValueUsd: s.portfolioValueUsd,
+      feesEarnedUsd: s.feesEarnedUsd,
+      gasSpentUsd: gasUsd ?? model.gasSpentUsd,
+      ilUsd: s.ilUsd,
+      positionsCount: marks.length,
+      feesUncollectedUsd: s.feesUncollectedUsd,
+      hodlValueUsd: s.hodlValueUsd,
+      marked: true,
+    };
+  } catch (e: unknown) {
+    log.warn(`${pair.id}: mark-to-market failed (${errMsg(e)}), recording modeled PnL`);
+    return model;
+  }
+}
+
+/** Save epoch snapshot with PnL fields to O2. */
 function saveEpochSnapshot(
   pairId: string,
   strategyName: string,
   epoch: number,
   ts: number,
   decision: string,
-  positions: { entryPrice: number; entryValueUsd: number }[],
-  currentPrice: number,
+  pnl: EpochPnl,
   currentApr: number,
   optimalApr: number,
-  txCount: number,
-  gasCostUsd: number,
-  cycleSec: number,
+  paper: boolean,
 ) {
-  const portfolioValueUsd = positions.reduce((sum, p) => sum + p.entryValueUsd, 0);
-  const gasSpentUsd = txCount * gasCostUsd;
-  const intervalsPerYear = SECONDS_PER_YEAR / cycleSec;
-  const feesEarnedUsd =
-    portfolioValueUsd > 0 ? (currentApr * portfolioValueUsd) / intervalsPerYear : 0;
-  const ilUsd = computeIL(positions, currentPrice);
   const rangeEfficiency = optimalApr > 0 ? Math.min(currentApr / optimalApr, 1.0) : 0;
-  const netPnlUsd = feesEarnedUsd - gasSpentUsd - ilUsd;
+  const netPnlUsd = pnl.feesEarnedUsd - pnl.gasSpentUsd - pnl.ilUsd;
 
   ingestToO2("epoch_snapshots", [
     {
@@ -106,15 +245,21 @@ function saveEpochSnapshot(
       epoch,
       ts,
       decision,
-      portfolioValueUsd,
-      feesEarnedUsd,
-      gasSpentUsd,
-      ilUsd,
+      portfolioValueUsd: pnl.portfolioValueUsd,
+      feesEarnedUsd: pnl.feesEarnedUsd,
+      gasSpentUsd: pnl.gasSpentUsd,
+      ilUsd: pnl.ilUsd,
       netPnlUsd,
       rangeEfficiency,
       currentApr,
       optimalApr,
-      positionsCount: positions.length,
+      positionsCount: pnl.positionsCount,
+      ...(pnl.marked && {
+        feesUncollectedUsd: pnl.feesUncollectedUsd,
+        hodlValueUsd: pnl.hodlValueUsd,
+      }),
+      marked: pnl.marked,
+      paper,
     },
   ]);
 }
@@ -131,37 +276,141 @@ export function mergeForceParams(partial?: Partial<ForceParams>): ForceParams {
     confidence: { ...DEFAULT_FORCE_PARAMS.confidence, ...partial.confidence },
     baseRange: { ...DEFAULT_FORCE_PARAMS.baseRange, ...partial.baseRange },
     rsThreshold: partial.rsThreshold ?? DEFAULT_FORCE_PARAMS.rsThreshold,
+    mtfWeights: partial.mtfWeights ?? DEFAULT_FORCE_PARAMS.mtfWeights,
   };
 }
 
-/** Build kill-switch state from O2 queries */
+/**
+ * Build kill-switch state from O2 queries. Trailing gas is the USD cost tx_log recorded from
+ * receipts; transactions logged without one are priced at their own receipt gas, at the chain's
+ * current cost per gas unit (static estimate without a gas source).
+ */
 async function buildKillSwitchState(
+  ctx: CycleContext,
   pairId: string,
-  gasCostEstimate: number,
   cycleSec: number,
 ): Promise<KillSwitchState> {
+  const now = ctx.clock.now();
+  const paper = !!ctx.executor.paper; // paper and live runs of a pair never mix their history
   const yieldCount = Math.ceil((6 * HOUR_MS) / (cycleSec * 1000));
-  const [trailingYields, rsTimestamps, txCount] = await Promise.all([
-    o2q.getRecentYields(pairId, yieldCount, cycleSec),
-    o2q.getRecentRsTimestamps(pairId, Date.now() - 4 * HOUR_MS),
-    o2q.getTrailingTxCount(pairId, Date.now() - DAY_MS),
+  const [trailingYields, rsTimestamps, gas] = await Promise.all([
+    ctx.o2.getRecentYields(pairId, yieldCount, cycleSec, paper),
+    ctx.o2.getRecentRsTimestamps(pairId, now - 4 * HOUR_MS, paper),
+    ctx.o2.getTrailingGasUsd(pairId, now - DAY_MS, paper),
   ]);
-  return { trailingYields, rsTimestamps, trailing24hGasUsd: txCount * gasCostEstimate };
+  let unpricedUsd = 0;
+  for (const [chain, units] of Object.entries(gas.unpriced)) {
+    if (units <= 0) continue;
+    const unitUsd = ctx.gas
+      ? await ctx.gas.gasUnitUsd(Number(chain))
+      : staticGasUnitUsd(Number(chain));
+    unpricedUsd += units * unitUsd;
+  }
+  return { trailingYields, rsTimestamps, trailing24hGasUsd: gas.gasUsd + unpricedUsd };
+}
+
+/** Strategy params with the default range params: a pool's fallback on a kill-switch. */
+export function withDefaultRange(forceParams: ForceParams): ForceParams {
+  const { baseRange, rsThreshold } = DEFAULT_FORCE_PARAMS;
+  return { ...forceParams, baseRange: { ...baseRange }, rsThreshold };
 }
 
-function toBaseRange(p: RangeParams): ForceParams["baseRange"] {
-  return { min: p.baseMin, max: p.baseMax, vforceExp: p.vforceExp, vforceDivider: p.vforceDivider };
+/** Apply the regime widen factor to range width and RS threshold (copy). */
+export function widenParams(p: ForceParams, widenFactor: number): ForceParams {
+  if (widenFactor <= 1.0) return p;
+  return {
+    ...p,
+    baseRange: {
+      ...p.baseRange,
+      min: p.baseRange.min * widenFactor,
+      max: p.baseRange.max * widenFactor,
+    },
+    rsThreshold: Math.min(p.rsThreshold * widenFactor, 0.9),
+  };
+}
+
+/** Params that change the forces themselves (lookbacks, MTF weights), as a cache key. */
+function forceModelKey(p: ForceParams): string {
+  const weights = p.mtfWeights ?? MTF_WEIGHTS;
+  return `${p.volatility.lookback}:${p.momentum.lookback}:${p.trend.lookback}:${weights.join("/")}`;
+}
+
+export interface PoolCluster {
+  key: string; // "<dex family>:<fee>", e.g. "v3:0.0001"
+  pools: string[]; // "chain:pool" keys
+  feePct: number;
+  baseApr: number; // TVL-weighted base APR of its pools (APR series fallback)
+  tvl: number;
+}
+
+/**
+ * Group the pools with a snapshot by DEX family and fee tier. Each cluster gets its own
+ * fitness context (fee, base APR), so one optimization covers pools that earn alike.
+ * Pools without a snapshot join through their stored analysis, if any (backtest replays).
+ */
+export function poolClusters(
+  pools: PoolConfig[],
+  snapshots: PoolSnapshot[],
+  analyses: Pick<PoolAnalysis, "pool" | "chain" | "feePct" | "tvl" | "apr">[] = [],
+): PoolCluster[] {
+  const byKey = new Map(pools.map((p) => [`${p.chain}:${p.address}`, p]));
+  const yields = [
+    ...snapshots.map((snap) => {
+      const feePct = snap.feePct || DEFAULT_FEE;
+      const tvl = snap.tvl || 1;
+      return { chain: snap.chain, pool: snap.pool, feePct, tvl, apr: ((snap.volume24h * feePct) / tvl) * 365.25 };
+    }),
+    ...analyses.map((a) => ({ ...a, feePct: a.feePct || DEFAULT_FEE, tvl: a.tvl || 1 })),
+  ];
+  const clusters = new Map<string, PoolCluster & { aprTvl: number }>();
+  for (const y of yields) {
+    const key = `${y.chain}:${y.pool}`;
+    const pool = byKey.get(key);
+    if (!pool) continue;
+    const clusterKey = `${getDexFamily(pool.dex)}:${y.feePct}`;
+    const c = clusters.get(clusterKey) ?? {
+      key: clusterKey, pools: [], feePct: y.feePct, baseApr: 0, tvl: 0, aprTvl: 0,
+    };
+    c.pools.push(key);
+    c.tvl += y.tvl;
+    c.aprTvl += y.apr * y.tvl;
+    clusters.set(clusterKey, c);
+  }
+  return [...clusters.values()].map(({ aprTvl, ...c }) => ({ ...c, baseApr: aprTvl / c.tvl }));
 }
 
-/** Reset optimizer params to defaults, returns rsThreshold. */
-function applyDefaultParams(
+/**
+ * Per-pool target ranges and RS thresholds: computeRange with each pool's tuned params (the
+ * strategy params until its first optimization), widened by the regime. `forces` are those of
+ * the strategy params; `forcesFor` recomputes them only for params with their own force model.
+ */
+export function poolTargetRanges(
+  pools: PoolConfig[],
+  tuned: Map<string, ForceParams>,
   forceParams: ForceParams,
-  rt: ReturnType<typeof getPair>,
-): number {
-  const defaults = defaultRangeParams();
-  forceParams.baseRange = toBaseRange(defaults);
-  if (rt) { rt.optParams = defaults; rt.optFitness = 0; }
-  return defaults.rsThreshold;
+  forces: Forces,
+  price: number,
+  widenFactor: number,
+  forcesFor: (p: ForceParams) => Forces,
+): { ranges: Map<string, Range>; rsThresholds: Map<string, number> } {
+  const pairParams = widenParams(forceParams, widenFactor);
+  const forcesByModel = new Map<string, Forces>([[forceModelKey(forceParams), forces]]);
+  const ranges = new Map<string, Range>();
+  const rsThresholds = new Map<string, number>();
+  for (const pool of pools) {
+    const key = `${pool.chain}:${pool.address}`;
+    const own = tuned.get(key);
+    const params = own ? widenParams(own, widenFactor) : pairParams;
+    const model = forceModelKey(params);
+    let poolForces = forcesByModel.get(model);
+    if (!poolForces) {
+      poolForces = forcesFor(params);
+      forcesByModel.set(model, poolForces);
+    }
+    ranges.set(key, computeRange(price, poolForces, params));
+    rsThresholds.set(key, params.rsThreshold);
+  }
+  return { ranges, rsThresholds };
 }
 
 /** Derive the entity ID used for runtime lookup (strategy name if available, else pair ID). */
@@ -180,21 +429,27 @@ function pairIdOf(config: PairConfig | StrategyConfig): string {
  * 1. RAW DATA: read from collector (shared DragonflyDB keys), fallback to direct fetch
  * 2. COMPUTE: forces + pool analysis + allocation
  * 3. STORE: persist pool_analysis + pair_allocation (O2)
- * 4. DECIDE: PRA / RS / HOLD (pure function)
+ * 4. DECIDE: PRA / RS / COMPOUND / HOLD (pure function)
  * 5. EXECUTE + LOG: if not HOLD
+ *
+ * Time, market data, O2 history and execution come from `ctx` (live by default).
  */
 export async function runSingleCycle(
   store: DragonflyStore,
   pair: PairConfig | StrategyConfig,
-  privateKey: `0x${string}` | null,
+  signer: Signer | null,
   redis?: RedisClient,
+  ctx: CycleContext = liveCycleContext(),
 ): Promise<Decision> {
-  const now = Date.now();
+  const now = ctx.clock.now();
   const id = entityId(pair);
   const pairId = pairIdOf(pair);
   const rt = getPair(id);
 
-  const pairGasCostUsd = pairGasCost(pair.pools);
+  // One rebalance at current fees (gas oracle), static per-chain estimates without one
+  const pairGasCostUsd = ctx.gas
+    ? rebalanceGasUsd(await ctx.gas.pairOpGasUsd(pair.pools))
+    : pairGasCost(pair.pools);
 
   // ---- STEP 1: RAW DATA ----
   // Read from collector if available, otherwise fetch directly (standalone mode)
@@ -214,8 +469,8 @@ export async function runSingleCycle(
   } else {
     // Fallback: direct fetch (standalone mode or stale collector)
     [newCandles, snapshots] = await Promise.all([
-      fetchLatestM1(store, pairId),
-      fetchPoolSnapshots(pairId, pair.pools, now),
+      ctx.candles.fetchLatestM1(store, pairId),
+      ctx.snapshots.fetchPoolSnapshots(pairId, pair.pools, now),
     ]);
   }
 
@@ -266,90 +521,117 @@ export async function runSingleCycle(
   const posValue = positions.reduce((s, p) => s + p.entryValueUsd, 0);
   const effectiveCapital = posValue > 0 ? posValue : DEFAULT_CAPITAL_USD;
 
-  // 2a.ii OPTIMIZE: Nelder-Mead on 5 range params (skip if regime suppressed)
+  // 2a.ii OPTIMIZE: pair's optimizer (default Nelder-Mead) on its param space, for one fee
+  // tier/DEX family cluster of pools per cycle, round-robin (skip if regime suppressed)
   // Pre-compute M15 candles once — reused by both optimizer and compositeForces
   const m15Candles = m1Candles.length > 10 ? aggregateCandles(m1Candles, M15_MS) : [];
-  let rsThreshold = forceParams.rsThreshold;
-  if (m1Candles.length > 100 && epoch > suppressUntil) {
+  const optEvery = ctx.optimizeEvery ?? 1;
+  if (m1Candles.length > 100 && epoch > suppressUntil && optEvery > 0 && (epoch - 1) % optEvery === 0) {
     try {
-      const poolFee = snapshots[0]?.feePct ?? DEFAULT_FEE;
-      const baseApr = snapshots[0]
-        ? ((snapshots[0].volume24h * poolFee) / (snapshots[0].tvl || 1)) * 365.25
-        : 0;
       const optCandles = m15Candles.filter(c => c.ts >= now - OPT_LOOKBACK_MS);
-      const ctx: FitnessContext = {
-        candles: optCandles,
-        baseApr,
-        poolFee,
-        gasCostUsd: pairGasCostUsd,
-        positionValueUsd: effectiveCapital,
-      };
+      const space = paramSpace(pair.optSpace, pair.optBounds);
+      const ksState = await buildKillSwitchState(ctx, pairId, pair.intervalSec);
+      // Historical fee yield per M15 bucket, so the simulation sees past volume regimes
+      const aprs = await ctx.o2.getPoolAprs(pairId, now - OPT_LOOKBACK_MS, now);
+      const clusters = poolClusters(pair.pools, snapshots).sort((a, b) => a.key.localeCompare(b.key));
+      const cluster = clusters[Math.floor(epoch / optEvery) % clusters.length];
+      if (cluster) {
+        const fitCtx: FitnessContext = {
+          candles: optCandles,
+          baseAprs: poolAprSeries(
+            optCandles,
+            aprs.filter((a) => cluster.pools.includes(`${a.chain}:${a.pool}`)),
+            cluster.baseApr,
+          ),
+          poolFee: cluster.feePct,
+          gasCostUsd: pairGasCostUsd,
+          positionValueUsd: effectiveCapital,
+          space,
+          forceParams: mergeForceParams(pair.forceParams),
+        };
+        const opt = optimize(fitCtx, `${id}:${cluster.key}`, pair.optimizer);
+
+        // Kill-switch check: fallback to defaults if triggered
+        const ks = checkKillSwitches(ksState, effectiveCapital, opt.params, pair.intervalSec, now);
+        if (ks.useDefaults) {
+          log.warn(`${id}: kill-switch triggered for ${cluster.key} (${ks.reason}), using default params`);
+        }
+        const params = ks.useDefaults ? withDefaultRange(mergeForceParams(pair.forceParams)) : opt.forceParams;
 
-      // Kill-switch check: fallback to defaults if triggered
-      const ksState = await buildKillSwitchState(pairId, pairGasCostUsd, pair.intervalSec);
-      const opt = optimize(ctx, id);
-      const ks = checkKillSwitches(ksState, effectiveCapital, opt.params, pair.intervalSec);
-
-      // Cache kill-switch state in runtime for API access
-      if (rt) rt.killSwitch = ks.useDefaults ? { active: true, reason: ks.reason } : null;
-
-      if (ks.useDefaults) {
-        log.warn(`${id}: kill-switch triggered (${ks.reason}), using default params`);
-        rsThreshold = applyDefaultParams(forceParams, rt);
-      } else {
-        forceParams.baseRange = toBaseRange(opt.params);
-        rsThreshold = opt.params.rsThreshold;
-        if (rt) {
-          rt.optParams = opt.params;
-          rt.optFitness = opt.fitness;
+        // Persist per pool: range params for computeRange, vector for warm-start
+        const fitness = ks.useDefaults ? 0 : opt.fitness;
+        for (const key of cluster.pools) {
+          await store.savePoolParams(key, { cluster: cluster.key, params, vec: opt.vec, fitness });
         }
+        // Cache kill-switch state of this cycle's cluster in runtime for API access
+        if (rt) rt.killSwitch = ks.useDefaults ? { active: true, reason: ks.reason } : null;
+        ingestToO2("optimizer_state", [
+          {
+            pairId,
+            strategyName: id,
+            cluster: cluster.key,
+            pools: cluster.pools.join(","),
+            ...opt.params,
+            fitness: opt.fitness,
+            evals: opt.evals,
+            optimizer: opt.optimizer,
+            forceParams: {
+              volatility: params.volatility,
+              momentum: params.momentum,
+              trend: params.trend,
+              confidence: params.confidence,
+              baseRange: params.baseRange,
+              rsThreshold: params.rsThreshold,
+              mtfWeights: params.mtfWeights ?? MTF_WEIGHTS,
+              regimeWidenFactor: regime.widenFactor,
+            },
+          },
+        ]);
+        log.debug(
+          `${id}: optimizer ${cluster.key} (${cluster.pools.length} pools) fitness=${opt.fitness.toFixed(6)} evals=${opt.evals} rs=${params.rsThreshold.toFixed(3)}`,
+        );
       }
 
-      // Persist optimizer warm-start
-      await store.saveOptimizerState(rangeParamsToVec(opt.params), opt.fitness);
-      ingestToO2("optimizer_state", [
-        {
-          pairId,
-          strategyName: id,
-          ...opt.params,
-          fitness: opt.fitness,
-          evals: opt.evals,
-          forceParams: {
-            volatility: forceParams.volatility,
-            momentum: forceParams.momentum,
-            trend: forceParams.trend,
-            confidence: forceParams.confidence,
-            baseRange: forceParams.baseRange,
-            rsThreshold,
-            regimeWidenFactor: regime.widenFactor,
-          },
-        },
-      ]);
-      log.debug(
-        `${id}: optimizer fitness=${opt.fitness.toFixed(6)} evals=${opt.evals} rs=${rsThreshold.toFixed(3)}`,
-      );
+      // Runtime status reports the cluster holding the most TVL, as last optimized
+      const top = clusters.reduce<PoolCluster | null>((t, c) => (t && t.tvl >= c.tvl ? t : c), null);
+      const saved = top && (await store.getPoolParams())[top.pools[0]];
+      if (rt && saved) {
+        rt.optParams = toRangeParams(saved.params);
+        rt.optFitness = saved.fitness;
+      }
     } catch (e: unknown) {
-      log.error(`${id}: optimizer failed (${errMsg(e)}), using defaults`);
-      rsThreshold = applyDefaultParams(forceParams, rt);
+      log.error(`${id}: optimizer failed (${errMsg(e)}), keeping last pool params`);
     }
   }
 
   // Apply regime widen factor to both range width and decision thresholds
-  if (regime.widenFactor > 1.0) {
-    forceParams.baseRange.min *= regime.widenFactor;
-    forceParams.baseRange.max *= regime.widenFactor;
-    rsThreshold = Math.min(rsThreshold * regime.widenFactor, 0.9);
-  }
+  const pairParams = widenParams(forceParams, regime.widenFactor);
 
   // Return neutral defaults for empty candles instead of NaN
   const forces =
     m1Candles.length > 10 ? compositeForces(m1Candles, forceParams, m15Candles) : NEUTRAL_FORCES;
   if (rt) rt.forces = forces;
 
+  const price = m1Candles.length
+    ? m1Candles[m1Candles.length - 1].c
+    : snapshots[0]?.exchangeRate || 1;
+
+  // Per-pool target ranges from each pool's stored params
+  const poolParams = await store.getPoolParams();
+  const { ranges: poolRanges, rsThresholds: poolRs } = poolTargetRanges(
+    pair.pools,
+    new Map(Object.entries(poolParams).map(([key, p]) => [key, p.params])),
+    forceParams,
+    forces,
+    price,
+    regime.widenFactor,
+    (params) => (m1Candles.length > 10 ? compositeForces(m1Candles, params, m15Candles) : NEUTRAL_FORCES),
+  );
+
   // 2b. Load previous snapshots from O2 for interval volume diffing
-  const prevSnapshots = new Map<string, Awaited<ReturnType<typeof getLastSnapshot>>>();
+  const prevSnapshots = new Map<string, PoolSnapshot | null>();
   const prevResults = await Promise.all(
-    snapshots.map((snap) => getLastSnapshot(snap.pool, snap.chain, snap.ts)),
+    snapshots.map((snap) => ctx.o2.getLastSnapshot(snap.pool, snap.chain, snap.ts)),
   );
   for (let i = 0; i < snapshots.length; i++) {
     const key = `${snapshots[i].chain}:${snapshots[i].pool}`;
@@ -364,6 +646,7 @@ export async function runSingleCycle(
     forces,
     pair.intervalSec,
     now,
+    poolRanges,
   );
 
   // ---- STEP 3: STORE (O2 only) ----
@@ -390,10 +673,6 @@ export async function runSingleCycle(
   );
 
   // ---- STEP 4: DECIDE ----
-  const price = m1Candles.length
-    ? m1Candles[m1Candles.length - 1].c
-    : snapshots[0]?.exchangeRate || 1;
-
   // Force HOLD during regime suppression to avoid decisions on stale optimizer params
   if (regime.suppressed) {
     log.info(`${id}: HOLD (regime suppressed — ${regime.reason})`);
@@ -409,8 +688,20 @@ export async function runSingleCycle(
       improvement: 0,
       targetAllocations,
     };
-    ingestAllocation(pairId, id, now, holdDecision, positions);
-    saveEpochSnapshot(pairId, id, epoch, now, "HOLD", positions, price, 0, 0, 0, pairGasCostUsd, pair.intervalSec);
+    ingestAllocation(pairId, id, now, holdDecision, positions, !!ctx.executor.paper);
+    const model = modelEpochPnl(positions, price, 0, 0, pairGasCostUsd, pair.intervalSec);
+    const pnl = await measureEpochPnl(
+      ctx,
+      store,
+      pair as PairConfig,
+      signer,
+      model,
+      0,
+      now,
+      positions,
+      price,
+    );
+    saveEpochSnapshot(pairId, id, epoch, now, "HOLD", pnl, 0, 0, !!ctx.executor.paper);
     return holdDecision;
   }
 
@@ -418,12 +709,18 @@ export async function runSingleCycle(
     regime.widenFactor > 1.0
       ? Math.min(pair.thresholds.pra * regime.widenFactor * 2, 0.9)
       : pair.thresholds.pra;
-  const thresholds = { pra: praThreshold, rs: rsThreshold };
+  const thresholds = { pra: praThreshold, rs: pairParams.rsThreshold };
   const lastRebalTs =
     positions.length > 0 ? Math.max(...positions.map((p) => p.entryTs)) : undefined;
+  // Uncollected fees as of the last mark-to-market (COMPOUND trigger); absent without a valuer
+  const feesUsd = ctx.valuer ? ((await store.getFeeMarks()) ?? undefined) : undefined;
   const decision = decide(targetAllocations, positions, forces, price, thresholds, lastRebalTs, {
     gasCostUsd: pairGasCostUsd,
     positionValueUsd: effectiveCapital,
+    now,
+    feesUsd,
+    ranges: poolRanges,
+    rsThresholds: poolRs,
   });
 
   // Update runtime state
@@ -435,46 +732,73 @@ export async function runSingleCycle(
     rt.targetAllocations = decision.targetAllocations;
   }
 
-  ingestAllocation(pairId, id, now, decision, positions);
+  const paper = !!ctx.executor.paper;
+  ingestAllocation(pairId, id, now, decision, positions, paper);
 
   // ---- STEP 5: EXECUTE + LOG ----
   let txCount = 0;
-  if (privateKey && decision.type !== "HOLD") {
+  if ((signer || paper) && decision.type !== "HOLD") {
     if (decision.type === "PRA" && decision.targetAllocations.length) {
-      txCount = await executePRA(
+      txCount = await ctx.executor.executePRA(
         store,
         pair as PairConfig,
         decision.targetAllocations,
         decision.type,
-        privateKey,
+        signer,
         forces,
         price,
+        poolRanges,
       );
     } else if (decision.type === "RS" && decision.rangeShifts?.length) {
-      txCount = await executeRS(
+      txCount = await ctx.executor.executeRS(
         store,
         pair as PairConfig,
         decision.rangeShifts,
         decision.type,
-        privateKey,
+        signer,
+      );
+    } else if (decision.type === "COMPOUND" && decision.compounds?.length) {
+      txCount = await ctx.executor.executeCompound(
+        store,
+        pair as PairConfig,
+        decision.compounds,
+        decision.type,
+        signer,
+        price,
       );
     }
   }
 
   // ---- STEP 6: EPOCH SNAPSHOT (after execution for accurate gas data) ----
+  const model = modelEpochPnl(
+    positions,
+    price,
+    decision.currentApr,
+    txCount,
+    pairGasCostUsd,
+    pair.intervalSec,
+  );
+  const pnl = await measureEpochPnl(
+    ctx,
+    store,
+    pair as PairConfig,
+    signer,
+    model,
+    txCount,
+    now,
+    positions,
+    price,
+  );
   saveEpochSnapshot(
     pairId,
     id,
     epoch,
     now,
     decision.type,
-    positions,
-    price,
+    pnl,
     decision.currentApr,
     decision.optimalApr,
-    txCount,
-    pairGasCostUsd,
-    pair.intervalSec,
+    paper,
   );
 
   return decision;
@@ -483,17 +807,19 @@ export async function runSingleCycle(
 const INGEST_BATCH = 200;
 
 async function catchUpStrategyData(
+  ctx: CycleContext,
   pairId: string,
   id: string,
   candles: Candle[],
   pair: PairConfig | StrategyConfig,
 ) {
   if (candles.length < 100) return;
-  const now = Date.now();
+  const now = ctx.clock.now();
   const stepMs = pair.intervalSec * 1000;
+  const paper = !!ctx.executor.paper;
 
   // Gap-aware: query O2 for latest epoch_snapshot timestamp
-  const recent = await o2q.getEpochSnapshots(pairId, now - CATCHUP_MAX_MS, now, 1);
+  const recent = await ctx.o2.getEpochSnapshots(pairId, now - CATCHUP_MAX_MS, now, 1, paper);
   let catchUpStart: number;
   if (recent.length > 0) {
     const latestTs = recent[recent.length - 1].ts;
@@ -515,6 +841,7 @@ async function catchUpStrategyData(
   const allH4 = aggregateCandles(allH1, H4_MS);
 
   const pairGasCostUsd = pairGasCost(pair.pools);
+  const aprs = allM15.length ? await ctx.o2.getPoolAprs(pairId, allM15[0].ts, now) : [];
 
   let allocBatch: Record<string, unknown>[] = [];
   let epochBatch: Record<string, unknown>[] = [];
@@ -539,7 +866,7 @@ async function catchUpStrategyData(
       computeForces(m15Slice, forceParams),
       computeForces(h1Slice, forceParams),
       computeForces(h4Slice, forceParams),
-    ]);
+    ], forceParams.mtfWeights);
     const closingPrice = m15Slice[m15Slice.length - 1].c;
     const range = computeRange(closingPrice, forces, forceParams);
 
@@ -548,18 +875,22 @@ async function catchUpStrategyData(
     let optParams = defaultRangeParams();
     let optFitness = 0;
     let optEvals = 0;
+    let optimizer = pair.optimizer ?? DEFAULT_OPTIMIZER;
     if (optM15.length >= 20) {
       const fitCtx: FitnessContext = {
         candles: optM15,
-        baseApr: 0,
+        baseAprs: poolAprSeries(optM15, aprs, 0),
         poolFee: DEFAULT_FEE,
         gasCostUsd: pairGasCostUsd,
         positionValueUsd: DEFAULT_CAPITAL_USD,
+        space: paramSpace(pair.optSpace, pair.optBounds),
+        forceParams,
       };
-      const opt = optimize(fitCtx, id);
+      const opt = optimize(fitCtx, id, pair.optimizer);
       optParams = opt.params;
       optFitness = opt.fitness;
       optEvals = opt.evals;
+      optimizer = opt.optimizer;
     }
 
     // Build synthetic pool analyses for allocation
@@ -598,6 +929,7 @@ async function catchUpStrategyData(
       improvement: 0,
       targetAllocations: JSON.stringify(targetAllocations),
       currentAllocations: JSON.stringify([]),
+      paper,
     });
 
     epochBatch.push({
@@ -616,6 +948,7 @@ async function catchUpStrategyData(
       currentApr: 0,
       optimalApr: 0,
       positionsCount: 0,
+      paper,
     });
 
     optBatch.push({
@@ -626,6 +959,7 @@ async function catchUpStrategyData(
       ...optParams,
       fitness: optFitness,
       evals: optEvals,
+      optimizer,
     });
 
     totalSteps++;
@@ -667,8 +1001,9 @@ const activeTimers = new Set<ReturnType<typeof setTimeout>>();
 export async function startPairLoop(
   store: DragonflyStore,
   pair: PairConfig | StrategyConfig,
-  privateKey: `0x${string}` | null,
+  signer: Signer | null,
   redis?: RedisClient,
+  ctx: CycleContext = liveCycleContext(),
 ) {
   const id = entityId(pair);
   const pairId = pairIdOf(pair);
@@ -676,11 +1011,12 @@ export async function startPairLoop(
     `Starting ${id} (pair=${pairId}) — interval=${pair.intervalSec}s max_pos=${pair.maxPositions}`,
   );
 
-  // Load optimizer warm-start from DragonflyDB
-  const saved = await store.getOptimizerState();
-  if (saved) {
-    setWarmStart(id, saved.vec);
-    log.debug(`${id}: loaded optimizer warm-start (fitness=${(saved.fitness ?? 0).toFixed(6)})`);
+  // Load optimizer warm-starts (one per pool cluster) from DragonflyDB; the pair-level one
+  // predates clusters and cannot seed them
+  if (await store.dropLegacyOptimizer()) log.info(`${id}: dropped legacy pair-level warm-start`);
+  for (const saved of Object.values(await store.getPoolParams())) {
+    setWarmStart(`${id}:${saved.cluster}`, saved.vec);
+    log.debug(`${id}: loaded ${saved.cluster} warm-start (fitness=${(saved.fitness ?? 0).toFixed(6)})`);
   }
 
   // Restore epoch and regime state from DragonflyDB
@@ -705,11 +1041,18 @@ export async function startPairLoop(
   if (rt) rt.candles = backfilledCandles;
 
   // Catch-up: backfill allocations + epoch snapshots from last 24h
-  await catchUpStrategyData(pairId, id, backfilledCandles, pair);
+  await catchUpStrategyData(ctx, pairId, id, backfilledCandles, pair);
+
+  // Finish (or abort) a PRA/RS interrupted by a previous crash before planning anew
+  try {
+    await ctx.executor.resume?.(store, pair as PairConfig, signer);
+  } catch (e: unknown) {
+    log.error(`${id} journal resume error: ${errMsg(e)}`, { pairId });
+  }
 
   // First cycle immediately
   try {
-    const d = await runSingleCycle(store, pair, privateKey, redis);
+    const d = await runSingleCycle(store, pair, signer, redis, ctx);
     log.info(`${id}: ${d.type} — current=${pct(d.currentApr)} optimal=${pct(d.optimalApr)}`, {
       pairId,
       decision: d.type,
@@ -724,7 +1067,7 @@ export async function startPairLoop(
     const t = setTimeout(async () => {
       activeTimers.delete(t);
       try {
-        const d = await runSingleCycle(store, pair, privateKey, redis);
+        const d = await runSingleCycle(store, pair, signer, redis, ctx);
         log.info(`${id}: ${d.type} — current=${pct(d.currentApr)} optimal=${pct(d.optimalApr)}`, {
           pairId,
           decision: d.type,
@@ -7,6 +7,7 @@ import type {
   RangeParams,
   Candle,
   AllocationEntry,
+  StrategyMode,
 } from "./types";
 import type { OptimalRange } from "../shared/types";
 import type { DragonflyStore } from "./data/store-dragonfly";
@@ -49,6 +50,7 @@ export interface CollectorState extends BaseWorkerState {
 /** Wire format for worker state published to DragonflyDB. */
 export interface WorkerState extends BaseWorkerState {
   strategyName: string;
+  mode?: StrategyMode;
   epoch: number;
   lastDecision: DecisionType;
   lastDecisionTs: number;
@@ -75,6 +77,7 @@ export function toWorkerState(
   return {
     pairId,
     strategyName,
+    mode: "mode" in rt.config ? rt.config.mode : undefined,
     pid,
     status: errorMsg ? "error" : "running",
     uptimeMs: Date.now() - startTs,
@@ -0,0 +1,153 @@
+import type { ParamBounds } from "../types";
+import { cap } from "../../shared/format";
+import { CMAES_SIGMA0, CMAES_TOL, OPT_MAX_EVALS } from "../config/params";
+import type { SearchResult } from "./nelder-mead";
+import { RANGE_SPACE } from "./param-space";
+
+// ---- CMA-ES (Hansen, 2016 tutorial) ----
+// Searches the unit cube: x = lo + u * (hi - lo) per bounded dimension, so one step size
+// fits parameters whose ranges differ by orders of magnitude. Samples are clamped into the cube
+// before evaluation and update. Ranking only needs an order, so -Infinity (overfit rejections)
+// simply ranks last.
+
+const toUnit = (x: number[], bounds: ParamBounds[]) =>
+  x.map((xi, d) => cap((xi - bounds[d].lo) / (bounds[d].hi - bounds[d].lo), 0, 1));
+const fromUnit = (u: number[], bounds: ParamBounds[]) =>
+  u.map((ui, d) => bounds[d].lo + ui * (bounds[d].hi - bounds[d].lo));
+
+const identity = (n: number): number[][] =>
+  Array.from({ length: n }, (_, i) => Array.from({ length: n }, (__, j) => (i === j ? 1 : 0)));
+
+/** Standard normal sample (Box-Muller). */
+function gaussian(): number {
+  return Math.sqrt(-2 * Math.log(1 - Math.random())) * Math.cos(2 * Math.PI * Math.random());
+}
+
+/** Eigen-decomposition of a small symmetric matrix (cyclic Jacobi): columns of `vectors`. */
+function symmetricEigen(m: number[][]): { values: number[]; vectors: number[][] } {
+  const n = m.length;
+  const a = m.map((row) => [...row]);
+  const v = identity(n);
+  for (let sweep = 0; sweep < 50; sweep++) {
+    let off = 0;
+    for (let p = 0; p < n; p++) for (let q = p + 1; q < n; q++) off += a[p][q] * a[p][q];
+    if (off < 1e-30) break;
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) {
+        if (a[p][q] === 0) continue;
+        const theta = (a[q][q] - a[p][p]) / (2 * a[p][q]);
+        const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1);
+        const s = t * c;
+        for (let k = 0; k < n; k++) {
+          const akp = a[k][p];
+          const akq = a[k][q];
+          a[k][p] = c * akp - s * akq;
+          a[k][q] = s * akp + c * akq;
+        }
+        for (let k = 0; k < n; k++) {
+          const apk = a[p][k];
+          const aqk = a[q][k];
+          a[p][k] = c * apk - s * aqk;
+          a[q][k] = s * apk + c * aqk;
+        }
+        for (let k = 0; k < n; k++) {
+          const vkp = v[k][p];
+          const vkq = v[k][q];
+          v[k][p] = c * vkp - s * vkq;
+          v[k][q] = s * vkp + c * vkq;
+        }
+      }
+    }
+  }
+  return { values: a.map((row, i) => row[i]), vectors: v };
+}
+
+export function cmaes(
+  evalFn: (x: number[]) => number,
+  initialGuess: number[],
+  maxEvals = OPT_MAX_EVALS,
+  bounds: ParamBounds[] = RANGE_SPACE.bounds,
+): SearchResult {
+  const n = bounds.length;
+
+  // Strategy parameters (defaults from the tutorial)
+  const lambda = 4 + Math.floor(3 * Math.log(n));
+  const mu = Math.floor(lambda / 2);
+  const rawWeights = Array.from({ length: mu }, (_, i) => Math.log(mu + 0.5) - Math.log(i + 1));
+  const wSum = rawWeights.reduce((s, w) => s + w, 0);
+  const weights = rawWeights.map((w) => w / wSum);
+  const mueff = 1 / weights.reduce((s, w) => s + w * w, 0);
+  const cc = (4 + mueff / n) / (n + 4 + (2 * mueff) / n);
+  const cs = (mueff + 2) / (n + mueff + 5);
+  const c1 = 2 / ((n + 1.3) ** 2 + mueff);
+  const cmu = Math.min(1 - c1, (2 * (mueff - 2 + 1 / mueff)) / ((n + 2) ** 2 + mueff));
+  const damps = 1 + 2 * Math.max(0, Math.sqrt((mueff - 1) / (n + 1)) - 1) + cs;
+  const chiN = Math.sqrt(n) * (1 - 1 / (4 * n) + 1 / (21 * n * n));
+
+  // Dynamic state
+  let mean = toUnit(initialGuess, bounds);
+  let sigma = CMAES_SIGMA0;
+  let pc = Array.from<number>({ length: n }).fill(0);
+  let ps = Array.from<number>({ length: n }).fill(0);
+  let C = identity(n);
+  let B = identity(n);
+  let D = Array.from<number>({ length: n }).fill(1);
+
+  let bestU = mean;
+  let bestF = evalFn(fromUnit(mean, bounds));
+  let evals = 1;
+
+  for (let gen = 0; evals + lambda <= maxEvals; gen++) {
+    // Sample and rank: x_k = m + sigma * B * D * z_k
+    const pop: { u: number[]; f: number }[] = [];
+    for (let k = 0; k < lambda; k++) {
+      const z = D.map((di) => di * gaussian());
+      const u = mean.map((mi, i) =>
+        cap(mi + sigma * B[i].reduce((s, bij, j) => s + bij * z[j], 0), 0, 1),
+      );
+      pop.push({ u, f: evalFn(fromUnit(u, bounds)) });
+    }
+    evals += lambda;
+    pop.sort((a, b) => (a.f === b.f ? 0 : b.f > a.f ? 1 : -1)); // b.f - a.f is NaN for two -Infinity
+    if (pop[0].f > bestF) {
+      bestF = pop[0].f;
+      bestU = pop[0].u;
+    }
+
+    // Recombine the mu best into the new mean
+    const old = mean;
+    mean = old.map((_, i) => weights.reduce((s, w, k) => s + w * pop[k].u[i], 0));
+    const yw = mean.map((mi, i) => (mi - old[i]) / sigma);
+
+    // Evolution paths: C^-1/2 * yw = B * D^-1 * B^T * yw
+    const bty = D.map((_, j) => B.reduce((s, row, i) => s + row[j] * yw[i], 0) / D[j]);
+    const invSqrtY = B.map((row) => row.reduce((s, bij, j) => s + bij * bty[j], 0));
+    ps = ps.map((p, i) => (1 - cs) * p + Math.sqrt(cs * (2 - cs) * mueff) * invSqrtY[i]);
+    const psNorm = Math.sqrt(ps.reduce((s, p) => s + p * p, 0));
+    const hsig = psNorm / Math.sqrt(1 - (1 - cs) ** (2 * (gen + 1))) / chiN < 1.4 + 2 / (n + 1);
+    pc = pc.map((p, i) => (1 - cc) * p + (hsig ? Math.sqrt(cc * (2 - cc) * mueff) * yw[i] : 0));
+
+    // Covariance: rank-one (pc) + rank-mu (selected steps) updates
+    const steps = pop.slice(0, mu).map(({ u }) => u.map((ui, i) => (ui - old[i]) / sigma));
+    const delta = hsig ? 0 : cc * (2 - cc);
+    C = C.map((row, i) =>
+      row.map(
+        (cij, j) =>
+          (1 - c1 - cmu) * cij +
+          c1 * (pc[i] * pc[j] + delta * cij) +
+          cmu * steps.reduce((s, y, k) => s + weights[k] * y[i] * y[j], 0),
+      ),
+    );
+    sigma *= Math.exp((cs / damps) * (psNorm / chiN - 1));
+
+    // Re-factor C = B * D^2 * B^T (eigenvalues floored against round-off)
+    const { values, vectors } = symmetricEigen(C);
+    B = vectors;
+    D = values.map((v) => Math.sqrt(Math.max(v, 1e-20)));
+
+    if (sigma * Math.max(...D) < CMAES_TOL) break;
+  }
+
+  return { best: fromUnit(bestU, bounds), fitness: bestF, evals };
+}
@@ -8,6 +8,7 @@ import {
   MIN_ABSOLUTE_APR_GAIN,
   PRA_GAS_MULT,
   RS_GAS_MULT,
+  COMPOUND_GAS_MULT,
   AMORTIZE_DAYS,
 } from "../config/params";
 import { fmtPct as pct } from "../../shared/format";
@@ -16,10 +17,34 @@ import { log } from "../utils";
 interface DecideOpts {
   gasCostUsd: number;
   positionValueUsd: number;
+  now?: number; // evaluation timestamp (defaults to wall clock; set by backtest replays)
+  feesUsd?: Record<string, number>; // uncollected fees per position id (last mark-to-market)
+  ranges?: Map<string, Range>; // target range per pool ("chain:pool"), else computeRange defaults
+  rsThresholds?: Map<string, number>; // RS threshold per pool, else thresholds.rs
 }
 
 /**
- * Pure decision function: evaluates PRA, RS, or HOLD.
+ * Positions whose uncollected fees pay for a collect + increaseLiquidity COMPOUND_GAS_MULT
+ * times over. LB fees already compound into bin reserves, so LB positions are skipped.
+ */
+function compoundTargets(
+  positions: Position[],
+  feesUsd: Record<string, number> | undefined,
+  gasCostUsd: number,
+): NonNullable<Decision["compounds"]> {
+  if (!feesUsd || gasCostUsd <= 0) return [];
+  return positions
+    .filter(
+      (p) =>
+        !p.positionId.startsWith("lb:") && (feesUsd[p.id] ?? 0) >= gasCostUsd * COMPOUND_GAS_MULT,
+    )
+    .map((p) => ({ id: p.id, pool: p.pool, chain: p.chain, feesUsd: feesUsd[p.id] }));
+}
+
+/**
+ * Pure decision function: evaluates PRA, RS, COMPOUND or HOLD.
+ * COMPOUND is chosen when neither PRA nor RS fires (including during the minimum holding
+ * period) and some positions have accrued enough fees to justify the gas of reinvesting them.
  *
  * No data fetching — all inputs provided as arguments.
  */
@@ -32,7 +57,7 @@ export function decide(
   lastRebalTs?: number,
   opts?: DecideOpts,
 ): Decision {
-  const now = Date.now();
+  const now = opts?.now ?? Date.now();
   const optimalApr = weightedApr(targetAllocations);
   const gasCostUsd = opts?.gasCostUsd ?? 0;
   const positionValueUsd = opts?.positionValueUsd ?? 0;
@@ -54,12 +79,20 @@ export function decide(
 
   const base = { ts: now, currentApr, optimalApr, improvement, targetAllocations };
 
+  // HOLD, or COMPOUND when accrued fees justify reinvesting them
+  const hold = (): Decision => {
+    const compounds = compoundTargets(positions, opts?.feesUsd, gasCostUsd);
+    if (compounds.length === 0) return { type: "HOLD", ...base };
+    log.info(`COMPOUND triggered — ${compounds.length} position(s) with fees above gas threshold`);
+    return { type: "COMPOUND", ...base, compounds };
+  };
+
   // Minimum holding period: force HOLD if last rebalance was too recent
   if (lastRebalTs !== undefined && now - lastRebalTs < MIN_HOLD_MS) {
     log.debug(
       `HOLD (min hold) — ${((now - lastRebalTs) / HOUR_MS).toFixed(1)}h since last rebal, need ${(MIN_HOLD_MS / HOUR_MS).toFixed(0)}h`,
     );
-    return { type: "HOLD", ...base };
+    return hold();
   }
 
   // PRA check: is the new allocation meaningfully better?
@@ -71,7 +104,7 @@ export function decide(
         log.debug(
           `HOLD (gas gate) — PRA gain $${expectedGainUsd.toFixed(2)} < ${PRA_GAS_MULT}x gas $${gasCostUsd.toFixed(2)}`,
         );
-        return { type: "HOLD", ...base };
+        return hold();
       }
     }
     log.info(
@@ -82,12 +115,14 @@ export function decide(
 
   // RS check: range divergence
   if (positions.length > 0) {
-    const targetRange = computeRange(price, forces);
+    const defaultRange = computeRange(price, forces);
     const shifts: Decision["rangeShifts"] = [];
 
     for (const pos of positions) {
       // LB positions store bin IDs (not V3 ticks) — skip tick-based divergence check
       if (pos.positionId.startsWith("lb:")) continue;
+      const key = `${pos.chain}:${pos.pool}`;
+      const targetRange = opts?.ranges?.get(key) ?? defaultRange;
       const pMin = tickToPrice(pos.tickLower);
       const pMax = tickToPrice(pos.tickUpper);
       const currentRange: Range = {
@@ -101,7 +136,7 @@ export function decide(
       };
 
       const div = rangeDivergence(currentRange, targetRange);
-      if (div > thresholds.rs) {
+      if (div > (opts?.rsThresholds?.get(key) ?? thresholds.rs)) {
         // Gas-cost gate: estimated fee loss from stale range must justify gas
         if (gasCostUsd > 0 && pos.entryValueUsd > 0) {
           const estimatedLossUsd = pos.entryValueUsd * div * pos.entryApr * (AMORTIZE_DAYS / 365);
@@ -127,11 +162,11 @@ export function decide(
     }
   }
 
-  // HOLD
+  // HOLD (or COMPOUND)
   log.debug(
     `HOLD — current=${pct(currentApr)} optimal=${pct(optimalApr)} improvement=${pct(improvement)}`,
   );
-  return { type: "HOLD", ...base };
+  return hold();
 }
 
 /**
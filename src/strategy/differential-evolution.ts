@@ -0,0 +1,61 @@
+import type { ParamBounds } from "../types";
+import { DE_CR, DE_F, DE_POP_SIZE, DE_TOL, OPT_MAX_EVALS } from "../config/params";
+import type { SearchResult } from "./nelder-mead";
+import { clampToBounds, RANGE_SPACE } from "./param-space";
+
+// ---- Differential evolution (DE/rand/1/bin) ----
+// The population is seeded with the warm-start point plus uniform samples within the bounds.
+// Trials replace their parent when at least as fit, so members can drift across the
+// -Infinity plateaus of overfit rejections instead of stalling on them.
+
+/** `count` distinct population indices other than `exclude`. */
+function pickDistinct(size: number, exclude: number, count: number): number[] {
+  const picked: number[] = [];
+  while (picked.length < count) {
+    const r = Math.floor(Math.random() * size);
+    if (r !== exclude && !picked.includes(r)) picked.push(r);
+  }
+  return picked;
+}
+
+export function differentialEvolution(
+  evalFn: (x: number[]) => number,
+  initialGuess: number[],
+  maxEvals = OPT_MAX_EVALS,
+  bounds: ParamBounds[] = RANGE_SPACE.bounds,
+): SearchResult {
+  const n = bounds.length;
+  const size = Math.max(4, Math.min(DE_POP_SIZE, maxEvals));
+  const pop = Array.from({ length: size }, (_, k) =>
+    k === 0
+      ? clampToBounds(initialGuess, bounds)
+      : bounds.map((b) => b.lo + Math.random() * (b.hi - b.lo)),
+  );
+  const fit = pop.map((x) => evalFn(x));
+  let evals = size;
+
+  while (evals < maxEvals) {
+    for (let i = 0; i < size && evals < maxEvals; i++) {
+      const [r1, r2, r3] = pickDistinct(size, i, 3);
+      const jRand = Math.floor(Math.random() * n);
+      const trial = pop[i].map((xi, d) => {
+        if (d !== jRand && Math.random() >= DE_CR) return xi;
+        const v = pop[r1][d] + DE_F * (pop[r2][d] - pop[r3][d]);
+        // Out of bounds: land halfway between the base vector and the violated bound
+        const { lo, hi } = bounds[d];
+        return v < lo ? (lo + pop[r1][d]) / 2 : v > hi ? (hi + pop[r1][d]) / 2 : v;
+      });
+      const f = evalFn(trial);
+      evals++;
+      if (f >= fit[i]) {
+        pop[i] = trial;
+        fit[i] = f;
+      }
+    }
+    // Converged: the whole population scores the same
+    if (Math.max(...fit) - Math.min(...fit) < DE_TOL) break;
+  }
+
+  const bestIdx = fit.reduce((b, f, i) => (f > fit[b] ? i : b), 0);
+  return { best: pop[bestIdx], fitness: fit[bestIdx], evals };
+}
@@ -1,6 +1,6 @@
-import type { Candle, RangeParams } from "../types";
+import type { Candle, ForceParams } from "../types";
 import { parkinsonVolatility, parkinsonVforce } from "./forces";
-import { baseRangeWidth, rawDivergence } from "./range";
+import { rawDivergence } from "./range";
 import { cap } from "../../shared/format";
 import {
   SECONDS_PER_YEAR,
@@ -15,21 +15,21 @@ import {
   FEE_CONCENTRATION_CAP,
   DEFAULT_CAPITAL_USD,
 } from "../config/params";
-import { vecToRangeParams, clampToBounds } from "./nelder-mead";
+import { RANGE_SPACE, vecToForceParams, type ParamSpace } from "./param-space";
+import { simRanges } from "./sim-forces";
 
 export interface FitnessContext {
   candles: Candle[]; // M15 candles for simulation
-  baseApr: number; // base pool APR from utilization
+  baseAprs: number[]; // base pool APR at each candle (poolAprSeries)
   poolFee: number; // pool fee (decimal, e.g. 0.0005)
   gasCostUsd: number; // estimated gas cost per rebalance in USD
   positionValueUsd: number; // position value for friction calc
+  space?: ParamSpace; // searched dimensions (default RANGE_SPACE)
+  forceParams?: ForceParams; // strategy's params, for dimensions outside the space (default DEFAULT_FORCE_PARAMS)
 }
 
-/** Range width from vforce with floor at baseMin. */
-function baseRangeWidthFloored(vforce: number, p: RangeParams): number {
-  const raw = baseRangeWidth(vforce, p.baseMin, p.baseMax, p.vforceExp, p.vforceDivider);
-  return Math.max(raw, p.baseMin);
-}
+/** Target range [pL, pH] at bar i of a simulated window. */
+type RangeAt = (i: number) => [number, number];
 
 function sqrtBounds(pL: number, pH: number): [number, number] {
   return [Math.sqrt(Math.max(pL, 1e-18)), Math.sqrt(Math.max(pH, pL + 1e-18))];
@@ -62,24 +62,36 @@ function hodlValue(price: number, entryPrice: number, pL: number, pH: number): n
 }
 
 export function fitness(vec: number[], ctx: FitnessContext): number {
-  const p = vecToRangeParams(clampToBounds(vec));
-  const { candles, baseApr, poolFee, gasCostUsd, positionValueUsd } = ctx;
+  const space = ctx.space ?? RANGE_SPACE;
+  const fp = vecToForceParams(space, vec, ctx.forceParams);
+  const { candles, baseAprs, poolFee, gasCostUsd, positionValueUsd } = ctx;
   if (candles.length < FITNESS_MIN_CANDLES) return -Infinity;
+  if (baseAprs.length !== candles.length) {
+    throw new Error(`baseAprs has ${baseAprs.length} values for ${candles.length} candles`);
+  }
+
+  // Live ranges (computeRange on simulated MTF forces): trend-biased and asymmetric
+  const ranges = simRanges(candles, fp);
+  const rangeAt =
+    (offset: number): RangeAt =>
+    (i) => [ranges.min[offset + i], ranges.max[offset + i]];
 
   // Split: train on first portion, validate on last portion
   const splitIdx = Math.floor(candles.length * FITNESS_TRAIN_SPLIT);
   const trainFit = simulateWindow(
     candles.slice(0, splitIdx),
-    p,
-    baseApr,
+    rangeAt(0),
+    fp.rsThreshold,
+    baseAprs.slice(0, splitIdx),
     poolFee,
     gasCostUsd,
     positionValueUsd,
   );
   const valFit = simulateWindow(
     candles.slice(splitIdx),
-    p,
-    baseApr,
+    rangeAt(splitIdx),
+    fp.rsThreshold,
+    baseAprs.slice(splitIdx),
     poolFee,
     gasCostUsd,
     positionValueUsd,
@@ -94,8 +106,9 @@ export function fitness(vec: number[], ctx: FitnessContext): number {
 
 function simulateWindow(
   candles: Candle[],
-  p: RangeParams,
-  baseApr: number,
+  rangeAt: RangeAt,
+  rsThreshold: number,
+  baseAprs: number[],
   poolFee: number,
   gasCostUsd: number,
   positionValueUsd: number,
@@ -109,12 +122,9 @@ function simulateWindow(
   let totalRebalCostUsd = 0;
   let lastRebalEpoch = -(SIM_MIN_REBAL_GAP + 1); // allow first rebalance
 
-  // Current open position state
+  // Current open position state: the live range at the first bar
   const initPrice = candles[0].c;
-  const initVf = 50; // neutral vforce at start
-  const initHalf = initPrice * baseRangeWidthFloored(initVf, p);
-  let posPL = initPrice - initHalf;
-  let posPH = initPrice + initHalf;
+  let [posPL, posPH] = rangeAt(0);
   let posEntry = initPrice;
   let posEntryValue = lpValue(initPrice, posPL, posPH);
 
@@ -128,15 +138,13 @@ function simulateWindow(
   for (let i = 0; i < candles.length; i++) {
     const price = candles[i].c;
 
-    // Compute vforce from local trailing window
+    // Local volatility (LVR) and vforce (swap friction) from the trailing window
     const localSlice = candles.slice(Math.max(0, i - SIM_VOL_LOOKBACK), i + 1);
     const localSigma = parkinsonVolatility(localSlice, localSlice.length);
     const vf = parkinsonVforce(localSlice, localSlice.length);
 
-    // Target range for this epoch
-    const halfWidth = price * baseRangeWidthFloored(vf, p);
-    const targetPL = price - halfWidth;
-    const targetPH = price + halfWidth;
+    // Target range for this epoch, as the live cycle would compute it
+    const [targetPL, targetPH] = rangeAt(i);
 
     const inRange = price >= posPL && price <= posPH;
 
@@ -150,7 +158,7 @@ function simulateWindow(
         lpValue(price, refPL, refPH) / Math.max(lpValue(price, posPL, posPH), 1e-18),
         FEE_CONCENTRATION_CAP,
       );
-      totalFeeApr += baseApr * concentration;
+      totalFeeApr += baseAprs[i] * concentration;
 
       // Continuous LVR (Milionis et al. 2022): (σ²/2) × √P / (√pH - √pL) × dt
       // Parkinson returns per-bar σ; Milionis requires annualized σ.
@@ -166,7 +174,7 @@ function simulateWindow(
     if (posPH > posPL) {
       const divergence = rawDivergence(posPL, posPH, targetPL, targetPH);
 
-      if (divergence > p.rsThreshold && i - lastRebalEpoch >= SIM_MIN_REBAL_GAP) {
+      if (divergence > rsThreshold && i - lastRebalEpoch >= SIM_MIN_REBAL_GAP) {
         // RANGE SHIFT — crystallize IL as LVR
         // LVR = HODL value - LP value, as fraction of entry value
         // Note: discrete LVR at RS events is a subset of continuous LVR (Milionis et al.)
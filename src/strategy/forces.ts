@@ -130,11 +130,10 @@ export const NEUTRAL_FORCES: Forces = {
 };
 
 /**
- * Blend pre-computed per-timeframe forces with MTF_WEIGHTS.
+ * Blend pre-computed per-timeframe forces with weights `w` (M15/H1/H4, default MTF_WEIGHTS).
  * Use when timeframes are pre-aggregated (e.g. catch-up) to avoid re-aggregation.
  */
-export function blendForces(frames: Forces[]): Forces {
-  const w = MTF_WEIGHTS;
+export function blendForces(frames: Forces[], w: readonly number[] = MTF_WEIGHTS): Forces {
   let vForce = 0, vMean = 0, vStd = 0;
   let mForce = 0, mUp = 0, mDown = 0;
   let tForce = 0, tMa0 = 0, tMa1 = 0;
@@ -169,5 +168,5 @@ export function compositeForces(
     computeForces(m15.slice(-MTF_CANDLES.m15), params),
     computeForces(h1.slice(-MTF_CANDLES.h1), params),
     computeForces(h4.slice(-MTF_CANDLES.h4), params),
-  ]);
+  ], params.mtfWeights);
 }
@@ -1,45 +1,13 @@
-import type { RangeParams } from "../types";
+import type { ParamBounds } from "../types";
 import { cap } from "../../shared/format";
-import {
-  DEFAULT_FORCE_PARAMS,
-  OPT_BOUNDS,
-  NM_ALPHA,
-  NM_GAMMA,
-  NM_RHO,
-  NM_SIGMA,
-  NM_MAX_EVALS,
-  NM_TOL,
-} from "../config/params";
-
-const DIM = OPT_BOUNDS.length;
-
-export function rangeParamsToVec(p: RangeParams): number[] {
-  return [p.baseMin, p.baseMax, p.vforceExp, p.vforceDivider, p.rsThreshold];
-}
-
-export function vecToRangeParams(v: number[]): RangeParams {
-  return {
-    baseMin: v[0],
-    baseMax: v[1],
-    vforceExp: v[2],
-    vforceDivider: v[3],
-    rsThreshold: v[4],
-  };
-}
-
-export function clampToBounds(v: number[]): number[] {
-  return v.map((x, i) => cap(x, OPT_BOUNDS[i].lo, OPT_BOUNDS[i].hi));
-}
-
-export function defaultRangeParams(): RangeParams {
-  const { baseRange, rsThreshold } = DEFAULT_FORCE_PARAMS;
-  return {
-    baseMin: baseRange.min,
-    baseMax: baseRange.max,
-    vforceExp: baseRange.vforceExp,
-    vforceDivider: baseRange.vforceDivider,
-    rsThreshold,
-  };
+import { NM_ALPHA, NM_GAMMA, NM_RHO, NM_SIGMA, NM_MAX_EVALS, NM_TOL } from "../config/params";
+import { clampToBounds, RANGE_SPACE } from "./param-space";
+
+/** Outcome of one search: best vector found, its fitness, and evaluations spent. */
+export interface SearchResult {
+  best: number[];
+  fitness: number;
+  evals: number;
 }
 
 // ---- Nelder-Mead simplex optimizer ----
@@ -50,13 +18,13 @@ interface Vertex {
 }
 
 function centroid(vertices: Vertex[], excludeIdx: number): number[] {
-  const n = vertices.length - 1;
-  const c = Array.from<number>({ length: DIM }).fill(0);
+  const n = vertices.length - 1; // simplex of n + 1 vertices in n dimensions
+  const c = Array.from<number>({ length: n }).fill(0);
   for (let i = 0; i < vertices.length; i++) {
     if (i === excludeIdx) continue;
-    for (let d = 0; d < DIM; d++) c[d] += vertices[i].x[d];
+    for (let d = 0; d < n; d++) c[d] += vertices[i].x[d];
   }
-  for (let d = 0; d < DIM; d++) c[d] /= n;
+  for (let d = 0; d < n; d++) c[d] /= n;
   return c;
 }
 
@@ -68,29 +36,32 @@ export function nelderMead(
   evalFn: (x: number[]) => number,
   initialGuess: number[],
   perturbScale = 0.1,
-): { best: number[]; fitness: number; evals: number } {
+  maxEvals = NM_MAX_EVALS,
+  bounds: ParamBounds[] = RANGE_SPACE.bounds,
+): SearchResult {
+  const DIM = bounds.length;
   // Initialize simplex: initial guess + DIM perturbation vertices
   // Alternate +/- perturbation direction to avoid degenerate simplex near bounds
   const vertices: Vertex[] = [];
-  const g = clampToBounds(initialGuess);
+  const g = clampToBounds(initialGuess, bounds);
   vertices.push({ x: g, f: evalFn(g) });
 
   for (let d = 0; d < DIM; d++) {
     const v = [...g];
-    const range = OPT_BOUNDS[d].hi - OPT_BOUNDS[d].lo;
+    const range = bounds[d].hi - bounds[d].lo;
     const sign = d % 2 === 0 ? 1 : -1;
     const perturbed = v[d] + sign * range * perturbScale;
-    v[d] = cap(perturbed, OPT_BOUNDS[d].lo, OPT_BOUNDS[d].hi);
+    v[d] = cap(perturbed, bounds[d].lo, bounds[d].hi);
     // If clamped to same value, try opposite direction
     if (Math.abs(v[d] - g[d]) < range * 1e-6) {
-      v[d] = cap(v[d] - sign * range * perturbScale, OPT_BOUNDS[d].lo, OPT_BOUNDS[d].hi);
+      v[d] = cap(v[d] - sign * range * perturbScale, bounds[d].lo, bounds[d].hi);
     }
     vertices.push({ x: v, f: evalFn(v) });
   }
 
   let evals = DIM + 1;
 
-  for (let iter = 0; iter < NM_MAX_EVALS - evals; iter++) {
+  for (let iter = 0; iter < maxEvals - evals; iter++) {
     // Sort ascending by fitness (we maximize, so best = last)
     vertices.sort((a, b) => a.f - b.f);
     const worst = vertices[0];
@@ -103,7 +74,7 @@ export function nelderMead(
     const c = centroid(vertices, 0);
 
     // Reflect
-    const xr = clampToBounds(reflect(c, worst.x, NM_ALPHA));
+    const xr = clampToBounds(reflect(c, worst.x, NM_ALPHA), bounds);
     const fr = evalFn(xr);
     evals++;
 
@@ -114,7 +85,7 @@ export function nelderMead(
 
     if (fr > best.f) {
       // Expand
-      const xe = clampToBounds(reflect(c, worst.x, NM_GAMMA));
+      const xe = clampToBounds(reflect(c, worst.x, NM_GAMMA), bounds);
       const fe = evalFn(xe);
       evals++;
       vertices[0] = fe > fr ? { x: xe, f: fe } : { x: xr, f: fr };
@@ -122,7 +93,10 @@ export function nelderMead(
     }
 
     // Contract
-    const xc = clampToBounds(c.map((ci, d) => ci + NM_RHO * (worst.x[d] - ci)));
+    const xc = clampToBounds(
+      c.map((ci, d) => ci + NM_RHO * (worst.x[d] - ci)),
+      bounds,
+    );
     const fc = evalFn(xc);
     evals++;
 
@@ -134,7 +108,7 @@ export function nelderMead(
     // Shrink: update all vertices except best toward best
     for (let i = 0; i < DIM; i++) {
       const xs = vertices[DIM].x.map((bi, d) => bi + NM_SIGMA * (vertices[i].x[d] - bi));
-      const clamped = clampToBounds(xs);
+      const clamped = clampToBounds(xs, bounds);
       vertices[i] = { x: clamped, f: evalFn(clamped) };
       evals++;
     }
@@ -1,60 +1,117 @@
-import type { RangeParams } from "../types";
+import type { ForceParams, OptimizerId, ParamBounds, RangeParams } from "../types";
 import {
   KS_YIELD_WINDOW_MS,
   KS_RS_WINDOW_MS,
   KS_MAX_RS_COUNT,
   KS_PATHOLOGICAL_MIN,
   KS_GAS_BUDGET_PCT,
+  NM_MAX_EVALS,
   NM_RESTARTS,
-  OPT_BOUNDS,
+  OPT_MAX_EVALS,
+  DEFAULT_OPTIMIZER,
+  DEFAULT_FORCE_PARAMS,
 } from "../config/params";
 import { log, mean } from "../utils";
 
 // Re-export submodules so existing consumers keep working
 export { detectRegime } from "./regime";
 export { fitness, type FitnessContext } from "./fitness";
+export { nelderMead, type SearchResult } from "./nelder-mead";
 export {
-  nelderMead,
   rangeParamsToVec,
   vecToRangeParams,
   clampToBounds,
   defaultRangeParams,
-} from "./nelder-mead";
+  paramSpace,
+  forceParamsToVec,
+  vecToForceParams,
+  toRangeParams,
+  RANGE_SPACE,
+  type ParamSpace,
+} from "./param-space";
+export { cmaes } from "./cma-es";
+export { differentialEvolution } from "./differential-evolution";
 
 import { fitness } from "./fitness";
 import type { FitnessContext } from "./fitness";
-import { nelderMead, rangeParamsToVec, vecToRangeParams, clampToBounds, defaultRangeParams } from "./nelder-mead";
+import { nelderMead } from "./nelder-mead";
+import type { SearchResult } from "./nelder-mead";
+import { forceParamsToVec, RANGE_SPACE, toRangeParams, vecToForceParams } from "./param-space";
+import { cmaes } from "./cma-es";
+import { differentialEvolution } from "./differential-evolution";
 
 // ---- Public API ----
 
 /** Per-pair warm-start state, keyed by pair ID */
 const prevBestByPair = new Map<string, number[]>();
 
-/** Generate a random starting point uniformly within OPT_BOUNDS. */
-function randomStart(): number[] {
-  return OPT_BOUNDS.map((b) => b.lo + Math.random() * (b.hi - b.lo));
+/** Generate a random starting point uniformly within `bounds`. */
+function randomStart(bounds: ParamBounds[]): number[] {
+  return bounds.map((b) => b.lo + Math.random() * (b.hi - b.lo));
+}
+
+/** Multi-restart NM: warm-start + random restarts to escape local optima */
+function multiStartNelderMead(
+  evalFn: (x: number[]) => number,
+  initial: number[],
+  maxEvals: number,
+  bounds: ParamBounds[],
+): SearchResult {
+  let bestResult = nelderMead(evalFn, initial, undefined, Math.min(NM_MAX_EVALS, maxEvals), bounds);
+  let totalEvals = bestResult.evals;
+
+  for (let r = 1; r < NM_RESTARTS && totalEvals < maxEvals; r++) {
+    const budget = Math.min(NM_MAX_EVALS, maxEvals - totalEvals);
+    const result = nelderMead(evalFn, randomStart(bounds), undefined, budget, bounds);
+    totalEvals += result.evals;
+    if (result.fitness > bestResult.fitness) bestResult = result;
+  }
+  return { ...bestResult, evals: totalEvals };
+}
+
+/** Global search: maximize `evalFn` from a warm-start within `bounds`, spending at most `maxEvals`. */
+export type Optimizer = (
+  evalFn: (x: number[]) => number,
+  initial: number[],
+  maxEvals: number,
+  bounds: ParamBounds[],
+) => SearchResult;
+
+export const OPTIMIZERS: Record<OptimizerId, Optimizer> = {
+  "nelder-mead": multiStartNelderMead,
+  "cma-es": cmaes,
+  "differential-evolution": differentialEvolution,
+};
+
+export interface OptimizeResult {
+  params: RangeParams;
+  forceParams: ForceParams; // ctx.forceParams with every dimension of the space applied
+  vec: number[]; // best vector in ctx.space (warm-start state)
+  fitness: number;
+  evals: number;
+  optimizer: OptimizerId;
 }
 
 export function optimize(
   ctx: FitnessContext,
   pairId = "default",
-): { params: RangeParams; fitness: number; evals: number } {
-  const initial = prevBestByPair.get(pairId) ?? rangeParamsToVec(defaultRangeParams());
+  algorithm: OptimizerId = DEFAULT_OPTIMIZER,
+): OptimizeResult {
+  const space = ctx.space ?? RANGE_SPACE;
+  const base = ctx.forceParams ?? DEFAULT_FORCE_PARAMS;
   const evalFn = (x: number[]) => fitness(x, ctx);
 
-  // Evaluate defaults as baseline
-  const defaultVec = rangeParamsToVec(defaultRangeParams());
+  // Evaluate defaults as baseline: default range params, the strategy's own force params
+  const { baseRange, rsThreshold } = DEFAULT_FORCE_PARAMS;
+  const defaultVec = forceParamsToVec(space, { ...base, baseRange, rsThreshold });
   const defaultFit = evalFn(defaultVec);
 
-  // Multi-restart NM: warm-start + random restarts to escape local optima
-  let bestResult = nelderMead(evalFn, initial);
-  let totalEvals = bestResult.evals;
+  // Warm-start only from a vector of this space
+  const prev = prevBestByPair.get(pairId);
+  const initial = prev?.length === space.keys.length ? prev : defaultVec;
 
-  for (let r = 1; r < NM_RESTARTS; r++) {
-    const result = nelderMead(evalFn, randomStart());
-    totalEvals += result.evals;
-    if (result.fitness > bestResult.fitness) bestResult = result;
-  }
+  const bestResult = OPTIMIZERS[algorithm](evalFn, initial, OPT_MAX_EVALS, space.bounds);
+  const totalEvals = bestResult.evals;
 
   // Fallback guard: if optimizer is worse than defaults, use defaults
   if (bestResult.fitness <= defaultFit) {
@@ -62,15 +119,31 @@ export function optimize(
       `Optimizer fitness ${bestResult.fitness.toFixed(6)} <= default ${defaultFit.toFixed(6)}, using defaults`,
     );
     prevBestByPair.set(pairId, defaultVec);
-    return { params: defaultRangeParams(), fitness: defaultFit, evals: totalEvals };
+    const forceParams = vecToForceParams(space, defaultVec, base);
+    return {
+      params: toRangeParams(forceParams),
+      forceParams,
+      vec: defaultVec,
+      fitness: defaultFit,
+      evals: totalEvals,
+      optimizer: algorithm,
+    };
   }
 
   prevBestByPair.set(pairId, bestResult.best);
-  const params = vecToRangeParams(clampToBounds(bestResult.best));
+  const forceParams = vecToForceParams(space, bestResult.best, base);
+  const params = toRangeParams(forceParams);
   log.debug(
-    `Optimizer: fitness=${bestResult.fitness.toFixed(6)} evals=${totalEvals} rs=${params.rsThreshold.toFixed(3)}`,
+    `Optimizer (${algorithm}): fitness=${bestResult.fitness.toFixed(6)} evals=${totalEvals} rs=${params.rsThreshold.toFixed(3)}`,
   );
-  return { params, fitness: bestResult.fitness, evals: totalEvals };
+  return {
+    params,
+    forceParams,
+    vec: forceParamsToVec(space, forceParams),
+    fitness: bestResult.fitness,
+    evals: totalEvals,
+    optimizer: algorithm,
+  };
 }
 
 /** Set warm-start state from persisted data (e.g. loaded from DragonflyDB on startup) */
@@ -97,6 +170,7 @@ export function checkKillSwitches(
   positionValueUsd: number,
   optimizedParams: RangeParams,
   cycleSec = 900,
+  now = Date.now(),
 ): { useDefaults: boolean; reason: string } {
   // Negative yield: trailing 6h net yield < 0 (dynamic count based on cycle interval)
   const yieldCount = Math.ceil(KS_YIELD_WINDOW_MS / (cycleSec * 1000));
@@ -106,7 +180,7 @@ export function checkKillSwitches(
   }
 
   // Excessive RS in trailing window
-  const windowStart = Date.now() - KS_RS_WINDOW_MS;
+  const windowStart = now - KS_RS_WINDOW_MS;
   const recentRS = state.rsTimestamps.filter((t) => t > windowStart);
   if (recentRS.length > KS_MAX_RS_COUNT) return { useDefaults: true, reason: "excessive_rs" };
 
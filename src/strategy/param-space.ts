@@ -0,0 +1,185 @@
+import type { ForceParams, OptParamKey, OptSpace, ParamBounds, RangeParams } from "../types";
+import { cap } from "../../shared/format";
+import { DEFAULT_FORCE_PARAMS, MTF_WEIGHTS, OPT_PARAM_BOUNDS } from "../config/params";
+
+// ---- Parameter spaces ----
+// A space is the ordered list of dimensions the optimizer searches, with their bounds. The
+// "range" space holds the 5 range params; the "extended" space appends the force-model params
+// (momentum/trend lookbacks and thresholds, trend bias exponent, MTF weights). Vectors decode
+// onto a base ForceParams, so dimensions outside the space keep the strategy's own values.
+
+export const RANGE_KEYS: OptParamKey[] = [
+  "baseMin",
+  "baseMax",
+  "vforceExp",
+  "vforceDivider",
+  "rsThreshold",
+];
+export const FORCE_KEYS: OptParamKey[] = [
+  "momentumLookback",
+  "oversoldFrom",
+  "overboughtFrom",
+  "trendLookback",
+  "biasExp",
+  "mtfM15",
+  "mtfH1",
+  "mtfH4",
+];
+
+export interface ParamSpace {
+  keys: OptParamKey[];
+  bounds: ParamBounds[];
+}
+
+/** Space of `kind`, with per-dimension bound overrides on top of OPT_PARAM_BOUNDS. */
+export function paramSpace(
+  kind: OptSpace = "range",
+  overrides: Partial<Record<OptParamKey, ParamBounds>> = {},
+): ParamSpace {
+  const keys = kind === "extended" ? [...RANGE_KEYS, ...FORCE_KEYS] : RANGE_KEYS;
+  return { keys, bounds: keys.map((k) => overrides[k] ?? OPT_PARAM_BOUNDS[k]) };
+}
+
+export const RANGE_SPACE = paramSpace();
+
+export function clampToBounds(v: number[], bounds: ParamBounds[] = RANGE_SPACE.bounds): number[] {
+  return v.map((x, i) => cap(x, bounds[i].lo, bounds[i].hi));
+}
+
+function getParam(p: ForceParams, key: OptParamKey): number {
+  const mtf = p.mtfWeights ?? MTF_WEIGHTS;
+  switch (key) {
+    case "baseMin":
+      return p.baseRange.min;
+    case "baseMax":
+      return p.baseRange.max;
+    case "vforceExp":
+      return p.baseRange.vforceExp;
+    case "vforceDivider":
+      return p.baseRange.vforceDivider;
+    case "rsThreshold":
+      return p.rsThreshold;
+    case "momentumLookback":
+      return p.momentum.lookback;
+    case "oversoldFrom":
+      return p.momentum.oversoldFrom;
+    case "overboughtFrom":
+      return p.momentum.overboughtFrom;
+    case "trendLookback":
+      return p.trend.lookback;
+    case "biasExp":
+      return p.trend.biasExp;
+    case "mtfM15":
+      return mtf[0];
+    case "mtfH1":
+      return mtf[1];
+    case "mtfH4":
+      return mtf[2];
+  }
+}
+
+function setParam(p: ForceParams, key: OptParamKey, x: number, mtf: number[]) {
+  switch (key) {
+    case "baseMin":
+      p.baseRange.min = x;
+      break;
+    case "baseMax":
+      p.baseRange.max = x;
+      break;
+    case "vforceExp":
+      p.baseRange.vforceExp = x;
+      break;
+    case "vforceDivider":
+      p.baseRange.vforceDivider = x;
+      break;
+    case "rsThreshold":
+      p.rsThreshold = x;
+      break;
+    case "momentumLookback":
+      p.momentum.lookback = Math.round(x);
+      break;
+    case "oversoldFrom":
+      p.momentum.oversoldFrom = x;
+      break;
+    case "overboughtFrom":
+      p.momentum.overboughtFrom = x;
+      break;
+    case "trendLookback":
+      p.trend.lookback = Math.round(x);
+      break;
+    case "biasExp":
+      p.trend.biasExp = x;
+      break;
+    case "mtfM15":
+      mtf[0] = x;
+      break;
+    case "mtfH1":
+      mtf[1] = x;
+      break;
+    case "mtfH4":
+      mtf[2] = x;
+      break;
+  }
+}
+
+/** Vector of `p` in `space`, clamped to its bounds. */
+export function forceParamsToVec(space: ParamSpace, p: ForceParams): number[] {
+  return clampToBounds(
+    space.keys.map((k) => getParam(p, k)),
+    space.bounds,
+  );
+}
+
+/**
+ * Decode a vector of `space` onto `base`: lookbacks round to whole bars and the MTF weights
+ * are normalized to sum 1.
+ */
+export function vecToForceParams(
+  space: ParamSpace,
+  vec: number[],
+  base: ForceParams = DEFAULT_FORCE_PARAMS,
+): ForceParams {
+  const v = clampToBounds(vec, space.bounds);
+  const p: ForceParams = {
+    ...base,
+    momentum: { ...base.momentum },
+    trend: { ...base.trend },
+    baseRange: { ...base.baseRange },
+  };
+  const mtf = [...(base.mtfWeights ?? MTF_WEIGHTS)];
+  space.keys.forEach((k, i) => setParam(p, k, v[i], mtf));
+  if (space.keys.some((k) => k.startsWith("mtf"))) {
+    const total = mtf.reduce((s, w) => s + w, 0);
+    p.mtfWeights = mtf.map((w) => w / total);
+  }
+  return p;
+}
+
+/** Range params carried by force params. */
+export function toRangeParams(p: ForceParams): RangeParams {
+  return {
+    baseMin: p.baseRange.min,
+    baseMax: p.baseRange.max,
+    vforceExp: p.baseRange.vforceExp,
+    vforceDivider: p.baseRange.vforceDivider,
+    rsThreshold: p.rsThreshold,
+  };
+}
+
+export function rangeParamsToVec(p: RangeParams): number[] {
+  return [p.baseMin, p.baseMax, p.vforceExp, p.vforceDivider, p.rsThreshold];
+}
+
+export function vecToRangeParams(v: number[]): RangeParams {
+  return {
+    baseMin: v[0],
+    baseMax: v[1],
+    vforceExp: v[2],
+    vforceDivider: v[3],
+    rsThreshold: v[4],
+  };
+}
+
+export function defaultRangeParams(): RangeParams {
+  return toRangeParams(DEFAULT_FORCE_PARAMS);
+}
@@ -0,0 +1,136 @@
+import type { Candle, ForceParams } from "../types";
+import { H1_MS, H4_MS, M15_MS, MTF_CANDLES, MTF_WEIGHTS, RSI_PERIOD } from "../config/params";
+import { mforce, tforce, vforce } from "./forces";
+import { computeRange } from "./range";
+
+// ---- Simulated forces ----
+// The live cycle blends forces computed on the last MTF_CANDLES of M15, H1 and H4 candles
+// (compositeForces) and turns them into a range with computeRange. The simulator reproduces
+// that at every M15 bar from the bars up to and including it: an H1/H4 bucket still forming at
+// that bar holds only the bars so far. Each force depends on one lookback, so per-bar series
+// are cached per candle array, timeframe and lookback: an optimization pays once for each
+// lookback it visits, and each evaluation only blends and builds ranges.
+
+const FRAMES = [
+  { periodMs: M15_MS, count: MTF_CANDLES.m15 },
+  { periodMs: H1_MS, count: MTF_CANDLES.h1 },
+  { periodMs: H4_MS, count: MTF_CANDLES.h4 },
+];
+
+interface SimFrames {
+  /** Candles of each timeframe as the live cycle would see them at bar i. */
+  window: ((i: number) => Candle[])[];
+  series: Map<string, Float64Array>;
+}
+
+const framesByCandles = new WeakMap<Candle[], SimFrames>();
+
+/** Per-bar timeframe windows: closed buckets, plus the bucket forming at bar i (bars up to i). */
+function timeframeWindow(candles: Candle[], periodMs: number, count: number) {
+  const closed: Candle[] = [];
+  const forming: Candle[] = [];
+  const closedBefore: number[] = [];
+  for (let i = 0; i < candles.length; i++) {
+    const c = candles[i];
+    const key = Math.floor(c.ts / periodMs) * periodMs;
+    const prev = i > 0 ? forming[i - 1] : null;
+    if (prev && prev.ts === key) {
+      forming.push({
+        ...prev,
+        h: Math.max(prev.h, c.h),
+        l: Math.min(prev.l, c.l),
+        c: c.c,
+        v: prev.v + c.v,
+      });
+    } else {
+      if (prev) closed.push(prev);
+      forming.push({ ts: key, o: c.o, h: c.h, l: c.l, c: c.c, v: c.v });
+    }
+    closedBefore.push(closed.length);
+  }
+  return (i: number) => {
+    const k = closedBefore[i];
+    return [...closed.slice(Math.max(0, k - count + 1), k), forming[i]];
+  };
+}
+
+function simFrames(candles: Candle[]): SimFrames {
+  let frames = framesByCandles.get(candles);
+  if (!frames) {
+    frames = {
+      window: FRAMES.map((f) => timeframeWindow(candles, f.periodMs, f.count)),
+      series: new Map(),
+    };
+    framesByCandles.set(candles, frames);
+  }
+  return frames;
+}
+
+/** Per-bar force of one kind on one timeframe, as computeForces would return it. */
+function forceSeries(
+  candles: Candle[],
+  kind: "v" | "m" | "t",
+  frame: number,
+  lookback: number,
+): Float64Array {
+  const frames = simFrames(candles);
+  // mforce only depends on its lookback through the RSI period, min(RSI_PERIOD, lookback)
+  const lb = kind === "m" ? Math.min(lookback, RSI_PERIOD) : lookback;
+  const key = `${kind}:${frame}:${lb}`;
+  let series = frames.series.get(key);
+  if (!series) {
+    series = new Float64Array(candles.length);
+    for (let i = 0; i < candles.length; i++) {
+      const w = frames.window[frame](i);
+      if (kind === "v") series[i] = vforce(w, lb).force;
+      else if (kind === "m")
+        series[i] = mforce(
+          w.map((c) => c.c),
+          lb,
+        ).force;
+      else
+        series[i] = tforce(
+          w.map((c) => c.c),
+          lb,
+        ).force;
+    }
+    frames.series.set(key, series);
+  }
+  return series;
+}
+
+/** Live range (computeRange on MTF-blended forces) at every bar of `candles`. */
+export function simRanges(
+  candles: Candle[],
+  p: ForceParams,
+): { min: Float64Array; max: Float64Array } {
+  const weights = p.mtfWeights ?? MTF_WEIGHTS;
+  const v = FRAMES.map((_, f) => forceSeries(candles, "v", f, p.volatility.lookback));
+  const m = FRAMES.map((_, f) => forceSeries(candles, "m", f, p.momentum.lookback));
+  const t = FRAMES.map((_, f) => forceSeries(candles, "t", f, p.trend.lookback));
+  const min = new Float64Array(candles.length);
+  const max = new Float64Array(candles.length);
+  for (let i = 0; i < candles.length; i++) {
+    let vf = 0,
+      mf = 0,
+      tf = 0;
+    for (let f = 0; f < FRAMES.length; f++) {
+      vf += v[f][i] * weights[f];
+      mf += m[f][i] * weights[f];
+      tf += t[f][i] * weights[f];
+    }
+    // computeRange reads the force values only
+    const range = computeRange(
+      candles[i].c,
+      {
+        v: { force: vf, mean: 0, std: 0 },
+        m: { force: mf, up: 0, down: 0 },
+        t: { force: tf, ma0: 0, ma1: 0 },
+      },
+      p,
+    );
+    min[i] = range.min;
+    max[i] = range.max;
+  }
+  return { min, max };
+}
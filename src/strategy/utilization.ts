@@ -1,13 +1,22 @@
-import type { PoolSnapshot, PoolAnalysis, Forces, PoolConfig } from "../types";
+import type {
+  Candle,
+  PoolSnapshot,
+  PoolAnalysis,
+  PoolApr,
+  Forces,
+  PoolConfig,
+  Range,
+} from "../types";
 import { intervalVolume } from "../data/gecko";
 import { computeRange } from "./range";
-import { SECONDS_PER_YEAR, DEFAULT_FEE } from "../config/params";
+import { SECONDS_PER_YEAR, DEFAULT_FEE, M15_MS } from "../config/params";
 import { fmtPct as pct, fmtUsd as usd } from "../../shared/format";
 import { log } from "../utils";
 
 /**
  * Compute pool analyses for all pools.
  * Pure function: receives snapshots + forces + previous snapshots, returns PoolAnalysis[].
+ * Pools missing from `ranges` ("chain:pool") get computeRange with default params.
  * No side effects — no internal fetching.
  */
 export function computePoolAnalyses(
@@ -17,14 +26,16 @@ export function computePoolAnalyses(
   forces: Forces,
   intervalSec: number,
   now: number,
+  ranges?: Map<string, Range>,
 ): PoolAnalysis[] {
   const analyses: PoolAnalysis[] = [];
   const price = snapshots[0]?.exchangeRate || 1;
-  const range = computeRange(price, forces);
+  const defaultRange = computeRange(price, forces);
 
   for (const snap of snapshots) {
     const key = `${snap.chain}:${snap.pool}`;
     const prev = prevSnapshots.get(key) ?? null;
+    const range = ranges?.get(key) ?? defaultRange;
 
     // Use GeckoTerminal fee_pct as primary source; fallback fee from on-chain is demoted
     const feePct = snap.feePct || DEFAULT_FEE;
@@ -62,3 +73,26 @@ export function computePoolAnalyses(
 
   return analyses.sort((a, b) => b.apr - a.apr);
 }
+
+/**
+ * Base pool APR at each M15 candle, for the fitness simulation: TVL-weighted APR of the
+ * stored pool analyses (`aprs`) in the candle's bucket. Buckets without analyses carry the
+ * last known APR forward; before the first one (or with none at all), `fallback` applies.
+ */
+export function poolAprSeries(candles: Candle[], aprs: PoolApr[], fallback: number): number[] {
+  const buckets = new Map<number, { aprTvl: number; tvl: number }>();
+  for (const a of aprs) {
+    const ts = Math.floor(a.ts / M15_MS) * M15_MS;
+    const tvl = a.tvl || 1;
+    const b = buckets.get(ts) ?? { aprTvl: 0, tvl: 0 };
+    b.aprTvl += a.apr * tvl;
+    b.tvl += tvl;
+    buckets.set(ts, b);
+  }
+  let last = fallback;
+  return candles.map((c) => {
+    const b = buckets.get(Math.floor(c.ts / M15_MS) * M15_MS);
+    if (b) last = b.aprTvl / b.tvl;
+    return last;
+  });
+}
@@ -8,13 +8,16 @@ import type {
   RangeParams,
   RegimeState,
   Candle,
+  StrategyMode,
+  OptimizerId,
+  OptSpace,
   PoolAnalysis as SharedPoolAnalysis,
   AllocationEntry as SharedAllocationEntry,
   PairAllocation as SharedPairAllocation,
   Position as SharedPosition,
   TxLogEntry as SharedTxLogEntry,
 } from "../shared/types";
-export type { ChainId, DecisionType, Forces, RangeParams, RegimeState, Candle };
+export type { ChainId, DecisionType, Forces, RangeParams, RegimeState, Candle, StrategyMode, OptimizerId, OptSpace };
 
 // ---- Chain & Network ----
 
@@ -107,6 +110,12 @@ interface BaseStrategyFields {
   maxPositions: number;
   thresholds: { pra: number; rs: number };
   forceParams?: Partial<ForceParams>;
+  maxPriceDeviation?: number; // pool/quote vs M1 close gap that aborts a mint or swap (default PRICE_DEVIATION_MAX)
+  slippageBps?: Record<string, number>; // per-pool mint slippage by pool address (default DEFAULT_SLIPPAGE_BPS)
+  spendCaps?: Record<string, number>; // per-token spend per POLICY_EPOCH_SEC, by symbol in whole tokens (uncapped when absent)
+  optimizer?: OptimizerId; // range optimizer algorithm (default DEFAULT_OPTIMIZER)
+  optSpace?: OptSpace; // default "range"
+  optBounds?: Partial<Record<OptParamKey, ParamBounds>>; // per-dimension overrides of OPT_PARAM_BOUNDS
 }
 
 // ---- Pair (collector-level config) ----
@@ -121,10 +130,22 @@ export interface PairConfig extends BaseStrategyFields {
 export interface StrategyConfig extends BaseStrategyFields {
   name: string; // e.g. "V1"
   pairId: string; // e.g. "USDC-USDT"
-  pkEnvVar: string; // e.g. "V1_PK"
+  pkEnvVar: string; // e.g. "V1_PK" (legacy plaintext key, see execution/keys.ts)
+  hdIndex?: number; // account index under the keystore's HD mnemonic
   gasReserves?: Record<number, number>;
   allocationPct?: number;
   rpcOverrides?: Record<number, string[]>;
+  mode?: StrategyMode; // default "live"
+  signer?: SignerMode; // default "eoa"
+  safe?: SafeConfig; // required in "safe" mode
+}
+
+/** "eoa": the strategy key holds the funds; "safe": a Safe holds them and the key is its session key. */
+export type SignerMode = "eoa" | "safe";
+
+export interface SafeConfig {
+  address: `0x${string}`; // same CREATE2 address on every chain
+  modules?: Record<number, `0x${string}`>; // BTRPolicyModule per chain; elsewhere Safe transactions signed by the session key
 }
 
 // ---- Force Model (Forces re-exported from @shared/types) ----
@@ -142,6 +163,34 @@ export interface ForceParams {
   confidence: { vforceExp: number; mforceDivider: number };
   baseRange: { min: number; max: number; vforceExp: number; vforceDivider: number };
   rsThreshold: number;
+  mtfWeights?: readonly number[]; // M15/H1/H4 blend (default MTF_WEIGHTS)
+}
+
+// ---- Optimizer ----
+
+/** Optimizer dimensions: the 5 range params, plus the force-model params of the extended space. */
+export type OptParamKey =
+  | keyof RangeParams
+  | "momentumLookback"
+  | "oversoldFrom"
+  | "overboughtFrom"
+  | "trendLookback"
+  | "biasExp"
+  | "mtfM15"
+  | "mtfH1"
+  | "mtfH4";
+
+export interface ParamBounds {
+  lo: number;
+  hi: number;
+}
+
+/** Optimizer result for one pool, persisted per pool ("chain:pool") in DragonflyDB. */
+export interface PoolParams {
+  cluster: string; // fee tier/DEX family cluster it was tuned for (e.g. "v3:0.0001")
+  params: ForceParams; // tuned params computeRange uses for this pool
+  vec: number[]; // best vector in the strategy's param space (warm-start)
+  fitness: number;
 }
 
 // ---- Range ----
@@ -183,6 +232,9 @@ export interface PoolSnapshot extends GeckoPoolData {
 
 export type PoolAnalysis = Omit<SharedPoolAnalysis, "pool"> & { pool: `0x${string}` };
 
+/** Pool APR per M15 bucket (`ts` = bucket start), from stored pool analyses. */
+export type PoolApr = Pick<PoolAnalysis, "pool" | "chain" | "ts" | "apr" | "tvl">;
+
 // ---- Allocation Entry ----
 
 export type AllocationEntry = Omit<SharedAllocationEntry, "pool" | "dex"> & {
@@ -201,25 +253,62 @@ export type PairAllocation = Omit<
 
 export type Position = Omit<
   SharedPosition,
-  "pool" | "dex" | "liquidity" | "amount0" | "amount1"
-> & { pool: `0x${string}`; dex: DexId; liquidity: bigint; amount0: bigint; amount1: bigint };
+  | "pool"
+  | "dex"
+  | "liquidity"
+  | "amount0"
+  | "amount1"
+  | "feesCollected0"
+  | "feesCollected1"
+  | "withdrawn0"
+  | "withdrawn1"
+> & {
+  pool: `0x${string}`;
+  dex: DexId;
+  liquidity: bigint;
+  amount0: bigint;
+  amount1: bigint;
+  feesCollected0?: bigint;
+  feesCollected1?: bigint;
+  withdrawn0?: bigint;
+  withdrawn1?: bigint;
+};
 
 export interface MintResult {
   position: Position | null;
   txHash: `0x${string}`;
   gasUsed: bigint;
   gasPrice: bigint;
+  error?: string; // revert reason of a reverted mint
 }
 
 export interface BurnResult {
   success: boolean;
-  amount0: bigint;
+  amount0: bigint; // total received (principal + fees), pair token order
   amount1: bigint;
+  fees0: bigint; // fee part of amount0/amount1, collected before liquidity was removed
+  fees1: bigint;
   hash: `0x${string}`;
   gasUsed: bigint;
   gasPrice: bigint;
 }
 
+/**
+ * Fee collect + increaseLiquidity on an open position (COMPOUND, PRA increase).
+ * Amounts in pair token order.
+ */
+export interface CompoundResult {
+  success: boolean;
+  fees0: bigint; // collected
+  fees1: bigint;
+  amount0: bigint; // added as liquidity: fees plus any wallet top-up (the rest stays in the wallet)
+  amount1: bigint;
+  liquidity: bigint; // added
+  hash: `0x${string}`; // increase tx (collect tx when nothing was reinvested)
+  gasUsed: bigint; // collect + increase
+  gasPrice: bigint;
+}
+
 // ---- Decision (DecisionType re-exported from @shared/types) ----
 
 export interface Decision {
@@ -230,6 +319,128 @@ export interface Decision {
   improvement: number;
   targetAllocations: AllocationEntry[];
   rangeShifts?: { pool: `0x${string}`; chain: ChainId; oldRange: Range; newRange: Range }[];
+  compounds?: { id: string; pool: `0x${string}`; chain: ChainId; feesUsd: number }[];
+}
+
+// ---- Execution Journal (crash-safe PRA/RS progress, persisted in DragonflyDB) ----
+
+export type JournalStepKind = "burn" | "decrease" | "bridge" | "swap" | "increase" | "mint";
+export type JournalStepStatus = "pending" | "done" | "failed";
+
+export interface JournalStep {
+  kind: JournalStepKind;
+  status: JournalStepStatus;
+  chain: ChainId;
+  ts: number; // last status change
+  pool?: `0x${string}`;
+  positionId?: string; // burn/decrease/increase: stored position id; mint: minted position id
+  valueUsd?: number; // burn: entry value (RS re-mint weights); increase/mint: value to deploy
+  share?: number; // decrease: fraction of the position's liquidity to withdraw
+  apr?: number; // burn: entry APR
+  dstChain?: ChainId; // bridge destination
+  token?: `0x${string}`; // swap/bridge output token
+  amount?: string; // swap/bridge raw input amount
+  balanceBefore?: string; // bridge: destination balance before send (arrival check on resume)
+  txHash?: `0x${string}`; // burn/mint tx, bridge source tx
+  gasUsed?: string; // burn/mint receipt gas units
+  gasPrice?: string; // burn/mint receipt effective gas price (wei)
+  alloc?: AllocationEntry; // mint/increase plan
+  range?: Range; // mint plan
+  error?: string;
+}
+
+export interface ExecutionJournal {
+  id: string;
+  pairId: string;
+  kind: "PRA" | "RS";
+  decisionType: DecisionType;
+  status: "running" | "completed" | "aborted";
+  phase: "burn" | "bridge" | "mint" | "done";
+  paper: boolean;
+  startedTs: number;
+  updatedTs: number;
+  price?: number; // pair price the plan was made at (closed-position exit valuation)
+  allocations?: AllocationEntry[]; // PRA plan
+  shifts?: NonNullable<Decision["rangeShifts"]>; // RS plan
+  steps: JournalStep[];
+  error?: string;
+}
+
+// ---- Closed Positions (archive written on every successful burn) ----
+
+export interface ClosedPosition {
+  id: string; // stored position id
+  pairId: string;
+  pool: `0x${string}`;
+  chain: ChainId;
+  dex: DexId;
+  positionId: string;
+  tickLower: number;
+  tickUpper: number;
+  entryTs: number;
+  closedTs: number;
+  entryPrice: number;
+  exitPrice: number;
+  principalIn0: bigint; // deposited at mint plus fees reinvested by COMPOUND, pair token order
+  principalIn1: bigint;
+  principalOut0: bigint; // withdrawn by decreases and at burn, fees excluded
+  principalOut1: bigint;
+  fees0: bigint; // lifetime fees collected (COMPOUND, decreases, burn)
+  fees1: bigint;
+  principalInUsd: number; // entry value (reinvested fees at cost)
+  principalOutUsd: number; // at exitPrice (decreases valued when withdrawn)
+  feesUsd: number; // at exitPrice
+  netPnlUsd: number; // principalOutUsd + feesUsd - principalInUsd
+  decisionType: DecisionType;
+  txHash: `0x${string}`;
+  paper: boolean;
+}
+
+// ---- Mark-to-Market Valuation ----
+
+/** Live state of one position: raw amounts in pair token order, USD at the current pool price. */
+export interface PositionMark {
+  id: string; // stored position id
+  chain: ChainId;
+  amount0: bigint; // principal currently withdrawable
+  amount1: bigint;
+  fees0: bigint; // uncollected fees
+  fees1: bigint;
+  valueUsd: number; // principal + uncollected fees
+  feesUsd: number;
+  hodlUsd: number; // entry amounts held outside the pool, at the current price
+}
+
+// ---- Position Reconciliation (DragonflyStore vs on-chain) ----
+
+/**
+ * orphan: owned on-chain with liquidity, not in the store
+ * ghost: in the store, zero liquidity / not owned on-chain (or unresolvable `pending:` mint)
+ * mismatch: stored liquidity differs from on-chain
+ * pending: stored `pending:<hash>` id resolved from the mint receipt
+ */
+export type ReconcileIssueKind = "orphan" | "ghost" | "mismatch" | "pending";
+
+export interface ReconcileIssue {
+  kind: ReconcileIssueKind;
+  chain: ChainId;
+  pool: `0x${string}`;
+  dex: DexId;
+  positionId: string; // on-chain id (tokenId / lb:<lower>:<upper>); stored id for ghosts
+  storeId?: string; // DragonflyStore position id
+  tickLower?: number;
+  tickUpper?: number;
+  storedLiquidity?: bigint;
+  onChainLiquidity?: bigint;
+  resolution?: "adopted" | "purged";
+}
+
+export interface ReconcileReport {
+  pairId: string;
+  account: `0x${string}`;
+  ts: number;
+  checked: number; // stored positions inspected
+  issues: ReconcileIssue[];
 }
 
 // ---- Li.Fi ----
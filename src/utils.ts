@@ -122,6 +122,21 @@ export function sortTokensWithAmounts(
 
 export const bigintReplacer = (_: string, v: unknown) => (typeof v === "bigint" ? v.toString() : v);
 
+// ---- Batching ----
+
+/** Run `fn` over `items` with at most `size` calls in flight. */
+export async function inBatches<T, R>(
+  items: T[],
+  size: number,
+  fn: (item: T) => Promise<R>,
+): Promise<R[]> {
+  const out: R[] = [];
+  for (let i = 0; i < items.length; i += size) {
+    out.push(...(await Promise.all(items.slice(i, i + size).map(fn))));
+  }
+  return out;
+}
+
 // ---- Binary search ----
 
 /** Index of first candle with ts > target (upper bound). */
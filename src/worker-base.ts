@@ -26,6 +26,7 @@ import {
 } from "./infra/redis";
 import { loadRpcOverrides, setChainRpcs } from "./config/chains";
 import { invalidateClients } from "./execution/tx";
+import { monitorRpcs } from "./execution/rpc-health";
 import type { RedisClient } from "bun";
 
 export type WorkerType = "collector" | "strategy";
@@ -136,6 +137,7 @@ export async function loadWorkerStrategyConfig(
 
 /**
  * Start heartbeat interval, returning the interval handle.
+ * Each beat also probes the RPC endpoints this worker uses and publishes their health.
  */
 export function startHeartbeat(
   ctx: WorkerBaseContext,
@@ -152,6 +154,7 @@ export function startHeartbeat(
         return;
       }
       await onHeartbeat();
+      await monitorRpcs(redis);
     } catch (e) {
       log.warn(`${type} ${pairId}: heartbeat failed: ${errMsg(e)}`);
     }
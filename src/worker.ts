@@ -3,8 +3,15 @@
  * Reads collected data from shared DragonflyDB keys written by the collector for the same pair.
  * Multiple strategy runners can operate on the same pair (e.g., V1 and V2 strategies).
  */
-import { DragonflyStore } from "./data/store-dragonfly";
+import { DragonflyStore, strategyPrefix } from "./data/store-dragonfly";
 import { startPairLoop, stopAllLoops } from "./scheduler";
+import { withContext } from "./context";
+import { paperExecutor } from "./executor";
+import { PaperLedger } from "./execution/paper";
+import { setNonceRedis } from "./execution/nonce";
+import { setPolicyRedis } from "./execution/policy";
+import { strategySigner } from "./execution/tx";
+import { unlockAccount } from "./execution/keys";
 import { registerPair, getPair, toWorkerState } from "./state";
 import { log } from "./utils";
 import { WORKER_HEARTBEAT_TTL } from "./config/params";
@@ -34,12 +41,26 @@ const strategy = await loadWorkerStrategyConfig(
 const pairId = strategy.pairId;
 ctx.pairId = pairId;
 
-const store = new DragonflyStore(redis, strategyName, "btr:strategy");
-const pk = (process.env[strategy.pkEnvVar] as `0x${string}` | undefined) ?? null;
+const paper = strategy.mode === "paper";
+const store = new DragonflyStore(redis, strategyName, strategyPrefix(strategy.mode));
+// Paper mode never unlocks a key: fills are simulated against a ledger in the store
+const account = paper ? null : await unlockAccount(strategy);
+const ledger = paper ? new PaperLedger(store, strategy) : null;
+// "safe" mode: the key is the Safe's session key, funds and positions sit in the Safe
+const signer = account ? strategySigner(strategy, account) : null;
+if (signer) {
+  setNonceRedis(redis);
+  setPolicyRedis(redis);
+}
+const cycleCtx = ledger
+  ? withContext({ executor: paperExecutor(ledger), valuer: ledger })
+  : undefined;
 
-if (!pk) {
+if (paper) {
+  log.info(`Strategy ${strategyName} running in paper mode (simulated execution)`, { pairId });
+} else if (!signer) {
   log.warn(
-    `No private key for strategy ${strategyName} (${strategy.pkEnvVar}), running in read-only mode`,
+    `No key for strategy ${strategyName} (keystore, hdIndex or ${strategy.pkEnvVar}), running in read-only mode`,
   );
 }
 
@@ -87,7 +108,7 @@ await redis.set(KEYS.workerHeartbeat(strategyName), String(Date.now()), "PX", WO
 sub = await subscribeControl(ctx, "RESTART_STRATEGY", shutdown);
 
 // Start scheduler — pass redis for reading collector data (keyed by pairId)
-startPairLoop(store, strategy, pk, redis);
+startPairLoop(store, strategy, signer, redis, cycleCtx);
 log.info(`Strategy runner ${strategyName} started (pair=${pairId}, pid=${process.pid})`, {
   pairId,
 });
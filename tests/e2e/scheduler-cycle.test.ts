@@ -9,7 +9,7 @@ import { randomBytes } from "crypto";
 import { computeForces } from "../../src/strategy/forces";
 import { computeRange } from "../../src/strategy/range";
 import { checkKillSwitches, defaultRangeParams } from "../../src/strategy/optimizer";
-import { DEFAULT_CAPITAL_USD } from "../../src/config/params";
+import { DEFAULT_CAPITAL_USD, DEFAULT_FORCE_PARAMS } from "../../src/config/params";
 import { synthFromCloses, synthRandomWalk, synthM15, createMockStore } from "../helpers";
 
 const TEST_PAIR = `E2E-${randomBytes(4).toString("hex")}`;
@@ -116,16 +116,22 @@ describe("E2E: scheduler cycle integration", () => {
   });
 
   describe("Phase 3: state persistence round-trip", () => {
-    test("optimizer state persists and loads via DragonflyStore", async () => {
+    test("optimizer state persists and loads per pool via DragonflyStore", async () => {
       const vec = [0.001, 0.05, -1.0, 300, 0.15];
       const fitness = 0.85;
 
-      await store.saveOptimizerState(vec, fitness);
-
-      const loaded = await store.getOptimizerState();
-      expect(loaded).not.toBeNull();
-      expect(loaded!.vec).toEqual(vec);
-      expect(loaded!.fitness).toBeCloseTo(0.85);
+      await store.savePoolParams("1:0xpool", {
+        cluster: "v3:0.0001",
+        params: DEFAULT_FORCE_PARAMS,
+        vec,
+        fitness,
+      });
+
+      const loaded = (await store.getPoolParams())["1:0xpool"];
+      expect(loaded).toBeDefined();
+      expect(loaded.vec).toEqual(vec);
+      expect(loaded.fitness).toBeCloseTo(0.85);
+      expect(loaded.cluster).toBe("v3:0.0001");
     });
 
     test("epoch counter increments", async () => {
@@ -191,32 +191,57 @@ export function isTransientRpcError(msg: string): boolean {
 
 /** Create a mock DragonflyStore for isolated tests. */
 export function createMockStore(positionsMap = new Map<string, any>()) {
-  let optimizerState: { vec: number[]; fitness: number } | null = null;
+  let poolParams: Record<string, any> = {};
   let epoch = 0;
   let regimeSuppress = 0;
   let candleCursor = 0;
+  let ledger: Record<string, string> | null = null;
+  let journal: any = null;
+  let journalHistory: any[] = [];
+  let feeMarks: Record<string, number> | null = null;
+  let closedPositions: any[] = [];
 
   return {
     getPositions: () => Promise.resolve([...positionsMap.values()]),
     savePosition: (p: any) => { positionsMap.set(p.id, p); return Promise.resolve(); },
     deletePosition: (id: string) => { positionsMap.delete(id); return Promise.resolve(); },
-    getOptimizerState: () => Promise.resolve(optimizerState),
-    saveOptimizerState: (vec: number[], fitness: number) => {
-      optimizerState = { vec, fitness };
+    getPoolParams: () => Promise.resolve(structuredClone(poolParams)),
+    savePoolParams: (key: string, p: any) => {
+      poolParams[key] = structuredClone(p);
       return Promise.resolve();
     },
+    dropLegacyOptimizer: () => Promise.resolve(false),
     getEpoch: () => Promise.resolve(epoch),
     incrementEpoch: () => Promise.resolve(++epoch),
     getRegimeSuppressUntil: () => Promise.resolve(regimeSuppress),
     setRegimeSuppressUntil: (e: number) => { regimeSuppress = e; return Promise.resolve(); },
     getLatestCandleTs: () => Promise.resolve(candleCursor),
     setLatestCandleTs: (ts: number) => { candleCursor = ts; return Promise.resolve(); },
+    getLedger: () => Promise.resolve(ledger),
+    saveLedger: (b: Record<string, string>) => { ledger = { ...b }; return Promise.resolve(); },
+    getJournal: () => Promise.resolve(journal ? structuredClone(journal) : null),
+    saveJournal: (j: any) => { journal = structuredClone(j); return Promise.resolve(); },
+    archiveJournal: (j: any) => {
+      journalHistory.unshift(structuredClone(j));
+      journal = null;
+      return Promise.resolve();
+    },
+    getJournalHistory: () => Promise.resolve([...journalHistory]),
+    archiveClosedPosition: (c: any) => { closedPositions.unshift({ ...c }); return Promise.resolve(); },
+    getClosedPositions: (limit?: number) => Promise.resolve(closedPositions.slice(0, limit)),
+    getFeeMarks: () => Promise.resolve(feeMarks),
+    saveFeeMarks: (m: Record<string, number>) => { feeMarks = { ...m }; return Promise.resolve(); },
     deleteAll: () => {
       positionsMap.clear();
-      optimizerState = null;
+      poolParams = {};
       epoch = 0;
       regimeSuppress = 0;
       candleCursor = 0;
+      ledger = null;
+      journal = null;
+      journalHistory = [];
+      feeMarks = null;
+      closedPositions = [];
       return Promise.resolve();
     },
   };
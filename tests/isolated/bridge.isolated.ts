@@ -8,6 +8,8 @@ import type {
   TxLogEntry,
 } from "../../src/types";
 import { createMockStore } from "../helpers";
+import { privateKeyToAccount } from "viem/accounts";
+import type { Signer } from "../../src/execution/tx";
 
 // ---- Track calls ----
 const calls = {
@@ -58,6 +60,14 @@ mock.module("../../src/infra/o2", () => {
   return o;
 });
 
+// Native gas token price for tx_log gas cost (no exchange access in tests)
+const NATIVE_USD = 2000;
+const _realOhlc = await import("../../src/data/ohlc");
+mock.module("../../src/data/ohlc", () => ({
+  ..._realOhlc,
+  fetchNativeUsd: mock(async () => NATIVE_USD),
+}));
+
 let burnResult: {
   success: boolean;
   amount0: bigint;
@@ -135,15 +145,6 @@ mock.module("../../src/strategy/range", () => {
   return r;
 });
 
-const _realTx = await import("../../src/execution/tx");
-mock.module("../../src/execution/tx", () => {
-  const t = { ..._realTx };
-  t.getAccount = mock((_pk: `0x${string}`) => ({
-    address: "0xACCOUNT0000000000000000000000000000000001" as `0x${string}`,
-  })) as typeof t.getAccount;
-  return t;
-});
-
 const { executePRA } = await import("../../src/executor");
 
 // ---- Fixtures ----
@@ -153,7 +154,13 @@ const ETH_USDC = "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48" as `0x${string}`;
 const ETH_USDT = "0xdAC17F958D2ee523a2206206994597C13D831ec7" as `0x${string}`;
 const BSC_USDC = "0x8AC76a51cc950d9822D68b83fE1Ad97B32Cd580d" as `0x${string}`;
 const BSC_USDT = "0x55d398326f99059fF775485246999027B3197955" as `0x${string}`;
-const PK = "0x0000000000000000000000000000000000000000000000000000000000000001" as `0x${string}`;
+const SIGNER: Signer = {
+  mode: "eoa",
+  account: privateKeyToAccount(
+    "0x0000000000000000000000000000000000000000000000000000000000000001",
+  ),
+  address: "0xACCOUNT0000000000000000000000000000000001" as `0x${string}`,
+};
 const fakeStore = mockStore as any;
 
 function makeMultiChainPair(): PairConfig {
@@ -234,7 +241,7 @@ describe("bridgeCrossChain — cross-chain balance deltas", () => {
       { pool: POOL2, chain: 56, dex: "uniswap_v3", pct: 0.5, expectedApr: 0.15 },
     ];
 
-    await executePRA(fakeStore, pair, allocs, "PRA", PK);
+    await executePRA(fakeStore, pair, allocs, "PRA", SIGNER);
 
     const bridgeSwaps = calls.swapCalls.filter((args: unknown[]) => {
       const opts = args[0] as { fromChain: number; toChain: number };
@@ -279,7 +286,7 @@ describe("bridgeCrossChain — cross-chain balance deltas", () => {
       pair,
       [{ pool: POOL1, chain: 1, dex: "uniswap_v3", pct: 1, expectedApr: 0.15 }],
       "PRA",
-      PK,
+      SIGNER,
     );
 
     const bridgeSwaps = calls.swapCalls.filter((args: unknown[]) => {
@@ -304,7 +311,7 @@ describe("bridgeCrossChain — cross-chain balance deltas", () => {
       { pool: POOL2, chain: 56, dex: "uniswap_v3", pct: 0.5, expectedApr: 0.15 },
     ];
 
-    await executePRA(fakeStore, pair, allocs, "PRA", PK);
+    await executePRA(fakeStore, pair, allocs, "PRA", SIGNER);
 
     const bridgeSwaps = calls.swapCalls.filter((args: unknown[]) => {
       const opts = args[0] as { fromChain: number; toChain: number };
@@ -314,7 +321,7 @@ describe("bridgeCrossChain — cross-chain balance deltas", () => {
   });
 
   test("bridge amount reflects surplus magnitude", async () => {
-    // Chain 1 has 80% of total, target is 50% -> surplus of ~30%
+    // Chain 1 has 80% of total, target is 50% of the investable capital
     mockBalanceMap = new Map([
       [`1:${ETH_USDC.toLowerCase()}`, 4000_000000n],
       [`1:${ETH_USDT.toLowerCase()}`, 4000_000000n],
@@ -328,17 +335,19 @@ describe("bridgeCrossChain — cross-chain balance deltas", () => {
       { pool: POOL2, chain: 56, dex: "uniswap_v3", pct: 0.5, expectedApr: 0.15 },
     ];
 
-    await executePRA(fakeStore, pair, allocs, "PRA", PK);
+    await executePRA(fakeStore, pair, allocs, "PRA", SIGNER);
 
     const bridgeSwaps = calls.swapCalls.filter((args: unknown[]) => {
       const opts = args[0] as { fromChain: number; toChain: number };
       return opts.fromChain !== opts.toChain;
     });
-    expect(bridgeSwaps.length).toBeGreaterThanOrEqual(1);
-
-    const opts = bridgeSwaps[0][0] as { amount: bigint };
-    // Surplus is ~30% of 10000 total USD = ~3000 USD -> ~3000_000000 in 6-dec
-    expect(opts.amount).toBeGreaterThan(2000_000000n);
-    expect(opts.amount).toBeLessThan(4000_000000n);
+    // Chain 56 holds 2000 against a 4750 need: its ~2750 shortfall moves, split across both tokens
+    expect(bridgeSwaps).toHaveLength(2);
+    const total = bridgeSwaps.reduce(
+      (sum, args) => sum + (args[0] as { amount: bigint }).amount,
+      0n,
+    );
+    expect(total).toBeGreaterThan(2500_000000n);
+    expect(total).toBeLessThan(3000_000000n);
   });
 });
@@ -7,13 +7,18 @@ import type {
   Forces,
   TxLogEntry,
 } from "../../src/types";
+import { ContractFunctionRevertedError } from "viem";
 import { createMockStore } from "../helpers";
+import { privateKeyToAccount } from "viem/accounts";
+import type { Signer } from "../../src/execution/tx";
 
 // ---- Track calls for assertions ----
 const calls = {
   logTx: [] as any[],
   deletedPositions: [] as string[],
   burnCalls: [] as Position[],
+  decreaseCalls: [] as unknown[],
+  increaseCalls: [] as unknown[],
   mintCalls: [] as unknown[],
   swapCalls: [] as unknown[],
   getBalanceCalls: [] as unknown[],
@@ -23,6 +28,8 @@ function resetCalls() {
   calls.logTx = [];
   calls.deletedPositions = [];
   calls.burnCalls = [];
+  calls.decreaseCalls = [];
+  calls.increaseCalls = [];
   calls.mintCalls = [];
   calls.swapCalls = [];
   calls.getBalanceCalls = [];
@@ -62,10 +69,20 @@ mock.module("../../src/infra/o2", () => {
   return o;
 });
 
+// Native gas token price for tx_log gas cost (no exchange access in tests)
+const NATIVE_USD = 2000;
+const _realOhlc = await import("../../src/data/ohlc");
+mock.module("../../src/data/ohlc", () => ({
+  ..._realOhlc,
+  fetchNativeUsd: mock(async () => NATIVE_USD),
+}));
+
 let burnResult: {
   success: boolean;
   amount0: bigint;
   amount1: bigint;
+  fees0: bigint;
+  fees1: bigint;
   hash: `0x${string}`;
   gasUsed: bigint;
   gasPrice: bigint;
@@ -73,16 +90,23 @@ let burnResult: {
   success: true,
   amount0: 500_000000n,
   amount1: 500_000000n,
+  fees0: 0n,
+  fees1: 0n,
   hash: "0xabc123" as `0x${string}`,
   gasUsed: 150000n,
   gasPrice: 1000000000n,
 };
 
+let mockLiquidity = 0n;
+let mockTxStatus: "success" | "reverted" | null = "success";
+
+let mintError: Error | null = null;
 let mintResult: {
   position: Position | null;
   txHash: `0x${string}`;
   gasUsed: bigint;
   gasPrice: bigint;
+  error?: string;
 } = {
   position: {
     id: "1:0xpool1:1000",
@@ -108,14 +132,43 @@ let mintResult: {
 const _realPositions = await import("../../src/execution/positions");
 mock.module("../../src/execution/positions", () => {
   const p = { ..._realPositions };
-  p.burnPosition = mock(async (pos: Position) => {
-    calls.burnCalls.push(pos);
-    return burnResult;
-  }) as typeof p.burnPosition;
+  p.burnPosition = mock(
+    async (
+      pos: Position,
+      _signer: unknown,
+      _pair: unknown,
+      onSent?: (h: `0x${string}`) => Promise<void>,
+    ) => {
+      calls.burnCalls.push(pos);
+      await onSent?.("0xsent");
+      return burnResult;
+    },
+  ) as typeof p.burnPosition;
+  p.positionLiquidity = mock(async () => mockLiquidity) as typeof p.positionLiquidity;
+  p.poolTickSpacing = mock(async () => 1) as typeof p.poolTickSpacing;
   p.mintPosition = mock(async (...args: unknown[]) => {
     calls.mintCalls.push(args);
+    if (mintError) throw mintError;
     return mintResult;
   }) as typeof p.mintPosition;
+  p.decreasePosition = mock(async (...args: unknown[]) => {
+    calls.decreaseCalls.push(args);
+    return burnResult;
+  }) as typeof p.decreasePosition;
+  p.increasePosition = mock(async (...args: unknown[]) => {
+    calls.increaseCalls.push(args);
+    return {
+      success: true,
+      fees0: 0n,
+      fees1: 0n,
+      amount0: args[3] as bigint,
+      amount1: args[4] as bigint,
+      liquidity: 1000n,
+      hash: "0xincrease" as `0x${string}`,
+      gasUsed: 180000n,
+      gasPrice: 1000000000n,
+    };
+  }) as typeof p.increasePosition;
   return p;
 });
 
@@ -125,8 +178,13 @@ const POOL1_ADDR = "0x0000000000000000000000000000000000000001" as `0x${string}`
 const POOL2_ADDR = "0x0000000000000000000000000000000000000002" as `0x${string}`;
 const TOKEN0_ADDR = "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48" as `0x${string}`;
 const TOKEN1_ADDR = "0xdAC17F958D2ee523a2206206994597C13D831ec7" as `0x${string}`;
-const PRIVATE_KEY =
-  "0x0000000000000000000000000000000000000000000000000000000000000001" as `0x${string}`;
+const SIGNER: Signer = {
+  mode: "eoa",
+  account: privateKeyToAccount(
+    "0x0000000000000000000000000000000000000000000000000000000000000001",
+  ),
+  address: "0xACCOUNT0000000000000000000000000000000001" as `0x${string}`,
+};
 
 const defaultBalances = new Map<string, bigint>();
 
@@ -140,6 +198,7 @@ function setDefaultBalances(bal0: bigint, bal1: bigint) {
 setDefaultBalances(1000_000000n, 1000_000000n);
 
 let mockBalanceMap: Map<string, bigint> | null = null;
+let mockRange: Range | null = null;
 
 const _realSwap = await import("../../src/execution/swap");
 mock.module("../../src/execution/swap", () => {
@@ -161,30 +220,38 @@ const _realRange = await import("../../src/strategy/range");
 mock.module("../../src/strategy/range", () => {
   const r = { ..._realRange };
   r.computeRange = mock(
-    (price: number, _forces: Forces): Range => ({
-      min: price * 0.99,
-      max: price * 1.01,
-      base: price,
-      breadth: 0.02,
-      confidence: 80,
-      trendBias: 0,
-      type: "neutral" as const,
-    }),
+    (price: number, _forces: Forces): Range =>
+      mockRange ?? {
+        min: price * 0.99,
+        max: price * 1.01,
+        base: price,
+        breadth: 0.02,
+        confidence: 80,
+        trendBias: 0,
+        type: "neutral" as const,
+      },
   ) as typeof r.computeRange;
   return r;
 });
 
+// Receipts of journaled txs, read when resuming an interrupted burn
 const _realTx = await import("../../src/execution/tx");
-mock.module("../../src/execution/tx", () => {
-  const t = { ..._realTx };
-  t.getAccount = mock((_pk: `0x${string}`) => ({
-    address: "0xACCOUNT0000000000000000000000000000000001" as `0x${string}`,
-  })) as typeof t.getAccount;
-  return t;
-});
+mock.module("../../src/execution/tx", () => ({
+  ..._realTx,
+  txStatus: mock(async () => mockTxStatus),
+}));
+
+// Pool spot/TWAP for the oracle deviation guard (defaults agree with the M1 close of 1.0)
+let mockPoolPrices = { spot: 1.0, twap: 1.0 as number | null };
+const _realOracle = await import("../../src/execution/oracle");
+mock.module("../../src/execution/oracle", () => ({
+  ..._realOracle,
+  readPoolPrices: mock(async () => mockPoolPrices),
+}));
 
 // ---- Import module under test (after mocks) ----
-const { executePRA, executeRS } = await import("../../src/executor");
+const { executePRA, executeRS, resumeExecution } = await import("../../src/executor");
+const { mintToken0Share } = await import("../../src/execution/ratio");
 
 // ---- Helper factories ----
 
@@ -243,6 +310,8 @@ function resetMocks() {
     success: true,
     amount0: 500_000000n,
     amount1: 500_000000n,
+    fees0: 0n,
+    fees1: 0n,
     hash: "0xburn" as `0x${string}`,
     gasUsed: 150000n,
     gasPrice: 1000000000n,
@@ -254,7 +323,12 @@ function resetMocks() {
     gasPrice: 1000000000n,
   };
   setDefaultBalances(1000_000000n, 1000_000000n);
+  mintError = null;
+  mockRange = null;
   mockBalanceMap = null;
+  mockPoolPrices = { spot: 1.0, twap: 1.0 };
+  mockLiquidity = 0n;
+  mockTxStatus = "success";
 }
 
 // ---- withRetry (tested indirectly through executePRA/RS mint flow) ----
@@ -265,7 +339,7 @@ describe("withRetry (via executePRA)", () => {
   test("mint succeeds on first try", async () => {
     const pair = makePair();
     const allocs = [makeAllocation()];
-    await executePRA(fakeStore, pair, allocs, "PRA", PRIVATE_KEY);
+    await executePRA(fakeStore, pair, allocs, "PRA", SIGNER);
     const mintLogs = calls.logTx.filter((e) => e.opType === "mint");
     expect(mintLogs).toHaveLength(1);
     expect(mintLogs[0].status).toBe("success");
@@ -277,13 +351,13 @@ describe("withRetry (via executePRA)", () => {
 describe("executePRA", () => {
   beforeEach(resetMocks);
 
-  test("burns existing positions before minting", async () => {
-    const pos = makePosition();
+  test("burns positions whose pool left the allocation before minting", async () => {
+    const pos = makePosition(POOL2_ADDR);
     mockPositions.push(pos);
     const pair = makePair();
     const allocs = [makeAllocation()];
 
-    await executePRA(fakeStore, pair, allocs, "PRA", PRIVATE_KEY);
+    await executePRA(fakeStore, pair, allocs, "PRA", SIGNER);
 
     const burnLogs = calls.logTx.filter((e) => e.opType === "burn");
     expect(burnLogs).toHaveLength(1);
@@ -297,12 +371,14 @@ describe("executePRA", () => {
   });
 
   test("aborts if burn fails", async () => {
-    const pos = makePosition();
+    const pos = makePosition(POOL2_ADDR);
     mockPositions.push(pos);
     burnResult = {
       success: false,
       amount0: 0n,
       amount1: 0n,
+      fees0: 0n,
+      fees1: 0n,
       hash: "0xfailed" as `0x${string}`,
       gasUsed: 100000n,
       gasPrice: 1000000000n,
@@ -310,7 +386,7 @@ describe("executePRA", () => {
 
     const pair = makePair();
     const allocs = [makeAllocation()];
-    await executePRA(fakeStore, pair, allocs, "PRA", PRIVATE_KEY);
+    await executePRA(fakeStore, pair, allocs, "PRA", SIGNER);
 
     const burnLogs = calls.logTx.filter((e) => e.opType === "burn");
     expect(burnLogs).toHaveLength(1);
@@ -322,10 +398,41 @@ describe("executePRA", () => {
     expect(mintLogs).toHaveLength(0);
   });
 
+  test("keeps a position already at its target", async () => {
+    // 1000 deployed + 2000 idle: a 1/3 target is within tolerance
+    mockPositions.push(makePosition(POOL1_ADDR, 1, 1000));
+    const pair = makePair();
+    expect(
+      await executePRA(fakeStore, pair, [makeAllocation(POOL1_ADDR, 0.35)], "PRA", SIGNER),
+    ).toBe(0);
+    expect(calls.burnCalls).toHaveLength(0);
+    expect(calls.mintCalls).toHaveLength(0);
+  });
+
+  test("resizes a position in a target pool in place", async () => {
+    mockPositions.push(makePosition(POOL1_ADDR, 1, 1000));
+    const pair = makePair();
+    await executePRA(fakeStore, pair, [makeAllocation(POOL1_ADDR, 1)], "PRA", SIGNER);
+
+    expect(calls.burnCalls).toHaveLength(0);
+    expect(calls.mintCalls).toHaveLength(0);
+    expect(calls.increaseCalls).toHaveLength(1);
+    // Target 95% of 3000; 1850 of the 2000 idle is topped up, split across both tokens
+    const [, , , amt0, amt1] = calls.increaseCalls[0] as bigint[];
+    expect(amt0 + amt1).toBe(1850_000000n);
+    expect(calls.logTx.find((e) => e.opType === "increase")!.targetAllocationPct).toBe(1);
+
+    resetCalls();
+    mockPositions[0] = { ...mockPositions[0], entryValueUsd: 2850 };
+    await executePRA(fakeStore, pair, [makeAllocation(POOL1_ADDR, 0.2)], "PRA", SIGNER);
+    expect(calls.decreaseCalls).toHaveLength(1);
+    expect(calls.logTx.map((e) => e.opType)).toEqual(["decrease"]);
+  });
+
   test("no existing positions: skips burn, proceeds to mint", async () => {
     const pair = makePair();
     const allocs = [makeAllocation()];
-    await executePRA(fakeStore, pair, allocs, "PRA", PRIVATE_KEY);
+    await executePRA(fakeStore, pair, allocs, "PRA", SIGNER);
 
     expect(calls.burnCalls).toHaveLength(0);
     const mintLogs = calls.logTx.filter((e) => e.opType === "mint");
@@ -336,7 +443,7 @@ describe("executePRA", () => {
     setDefaultBalances(0n, 0n);
     const pair = makePair();
     const allocs = [makeAllocation()];
-    await executePRA(fakeStore, pair, allocs, "PRA", PRIVATE_KEY);
+    await executePRA(fakeStore, pair, allocs, "PRA", SIGNER);
 
     const mintLogs = calls.logTx.filter((e) => e.opType === "mint");
     expect(mintLogs).toHaveLength(0);
@@ -350,7 +457,7 @@ describe("executePRA", () => {
     };
     const pair = makePair();
     const allocs = [makeAllocation()];
-    await executePRA(fakeStore, pair, allocs, "PRA", PRIVATE_KEY, forces);
+    await executePRA(fakeStore, pair, allocs, "PRA", SIGNER, forces);
 
     const mintLogs = calls.logTx.filter((e) => e.opType === "mint");
     expect(mintLogs).toHaveLength(1);
@@ -359,7 +466,7 @@ describe("executePRA", () => {
   test("logs target allocation pct on mint", async () => {
     const pair = makePair();
     const allocs = [makeAllocation(POOL1_ADDR, 0.75)];
-    await executePRA(fakeStore, pair, allocs, "PRA", PRIVATE_KEY);
+    await executePRA(fakeStore, pair, allocs, "PRA", SIGNER);
 
     const mintLogs = calls.logTx.filter((e) => e.opType === "mint");
     expect(mintLogs).toHaveLength(1);
@@ -369,7 +476,7 @@ describe("executePRA", () => {
   test("passes correct decision type through to tx log", async () => {
     const pair = makePair();
     const allocs = [makeAllocation()];
-    await executePRA(fakeStore, pair, allocs, "RS", PRIVATE_KEY);
+    await executePRA(fakeStore, pair, allocs, "RS", SIGNER);
 
     for (const entry of calls.logTx) {
       expect(entry.decisionType).toBe("RS");
@@ -384,7 +491,7 @@ describe("executePRA", () => {
       ],
     });
     const allocs = [makeAllocation(POOL1_ADDR, 0.6), makeAllocation(POOL2_ADDR, 0.4)];
-    await executePRA(fakeStore, pair, allocs, "PRA", PRIVATE_KEY);
+    await executePRA(fakeStore, pair, allocs, "PRA", SIGNER);
 
     const mintLogs = calls.logTx.filter((e) => e.opType === "mint");
     expect(mintLogs).toHaveLength(2);
@@ -394,15 +501,17 @@ describe("executePRA", () => {
     setDefaultBalances(10000_000000n, 10000_000000n);
     const pair = makePair();
     const allocs = [makeAllocation(POOL1_ADDR, 0.5)];
-    await executePRA(fakeStore, pair, allocs, "PRA", PRIVATE_KEY);
+    await executePRA(fakeStore, pair, allocs, "PRA", SIGNER);
 
     expect(calls.mintCalls).toHaveLength(1);
     const mintArgs = calls.mintCalls[0] as unknown[];
-    // args: [store, pair, alloc, range, amount0, amount1, privateKey]
+    // args: [store, pair, alloc, range, amount0, amount1, signer]
     const amt0 = mintArgs[4] as bigint;
     const amt1 = mintArgs[5] as bigint;
-    expect(amt0).toBe(4750_000000n); // 50% * 95% (5% cash reserve) of 10000
-    expect(amt1).toBe(4750_000000n);
+    // 50% * 95% (5% cash reserve) of 10000, split at the range's token ratio
+    expect(Number(amt0 + amt1)).toBeCloseTo(9500_000000, -1);
+    const share0 = mintToken0Share("uniswap_v3", mintArgs[3] as Range, 1, 1);
+    expect(Number(amt0) / Number(amt0 + amt1)).toBeCloseTo(share0, 6);
   });
 });
 
@@ -412,11 +521,11 @@ describe("logTransaction (via executePRA)", () => {
   beforeEach(resetMocks);
 
   test("constructs tx log entry with correct fields", async () => {
-    const pos = makePosition();
+    const pos = makePosition(POOL2_ADDR);
     mockPositions.push(pos);
     const pair = makePair();
     const allocs = [makeAllocation()];
-    await executePRA(fakeStore, pair, allocs, "PRA", PRIVATE_KEY);
+    await executePRA(fakeStore, pair, allocs, "PRA", SIGNER);
 
     const burnLog = calls.logTx.find((e) => e.opType === "burn")!;
     expect(burnLog).toBeDefined();
@@ -438,7 +547,7 @@ describe("logTransaction (via executePRA)", () => {
   test("defaults optional fields to zero/empty", async () => {
     const pair = makePair();
     const allocs = [makeAllocation()];
-    await executePRA(fakeStore, pair, allocs, "PRA", PRIVATE_KEY);
+    await executePRA(fakeStore, pair, allocs, "PRA", SIGNER);
 
     const mintLog = calls.logTx.find((e) => e.opType === "mint")!;
     expect(mintLog.inputToken).toBe("");
@@ -453,11 +562,42 @@ describe("logTransaction (via executePRA)", () => {
   test("allocationErrorPct = abs(target - actual)", async () => {
     const pair = makePair();
     const allocs = [makeAllocation(POOL1_ADDR, 0.8)];
-    await executePRA(fakeStore, pair, allocs, "PRA", PRIVATE_KEY);
+    await executePRA(fakeStore, pair, allocs, "PRA", SIGNER);
 
     const mintLog = calls.logTx.find((e) => e.opType === "mint")!;
     expect(mintLog.allocationErrorPct).toBe(Math.abs(0.8 - 0));
   });
+
+  test("records receipt gas in USD at the native token price", async () => {
+    mockPositions.push(makePosition(POOL2_ADDR));
+    await executePRA(fakeStore, makePair(), [makeAllocation()], "PRA", SIGNER);
+
+    const burnLog = calls.logTx.find((e) => e.opType === "burn")!;
+    expect(burnLog.gasUsd).toBeCloseTo(150000 * 1e-9 * NATIVE_USD, 9);
+    const mintLog = calls.logTx.find((e) => e.opType === "mint")!;
+    expect(mintLog.gasUsd).toBeCloseTo(200000 * 1e-9 * NATIVE_USD, 9);
+  });
+
+  test("records the revert reason of a reverted mint", async () => {
+    mintResult = { ...mintResult, position: null, error: "Price slippage check" };
+    await executePRA(fakeStore, makePair(), [makeAllocation()], "PRA", SIGNER);
+
+    const mintLog = calls.logTx.find((e) => e.opType === "mint")!;
+    expect(mintLog.status).toBe("reverted");
+    expect(mintLog.error).toBe("Price slippage check");
+  });
+
+  test("logs a mint that reverts in simulation, without a tx", async () => {
+    mintError = new ContractFunctionRevertedError({
+      abi: [],
+      functionName: "mint",
+      message: "STF",
+    });
+    await executePRA(fakeStore, makePair(), [makeAllocation()], "PRA", SIGNER);
+
+    const mintLog = calls.logTx.find((e) => e.opType === "mint")!;
+    expect(mintLog).toMatchObject({ status: "reverted", txHash: "0x", gasUsed: 0n, error: "STF" });
+  }, 15_000); // one mint retry after RETRY.mint.backoffMs
 });
 
 // ---- executeRS ----
@@ -490,7 +630,7 @@ describe("executeRS", () => {
     const pair = makePair();
     const shifts = [{ pool: POOL1_ADDR, chain: 1, oldRange, newRange }];
 
-    await executeRS(fakeStore, pair, shifts, "RS", PRIVATE_KEY);
+    await executeRS(fakeStore, pair, shifts, "RS", SIGNER);
 
     const burnLogs = calls.logTx.filter((e) => e.opType === "burn");
     expect(burnLogs).toHaveLength(1);
@@ -509,7 +649,7 @@ describe("executeRS", () => {
     const pair = makePair();
     const shifts = [{ pool: POOL2_ADDR, chain: 1, oldRange, newRange }];
 
-    await executeRS(fakeStore, pair, shifts, "RS", PRIVATE_KEY);
+    await executeRS(fakeStore, pair, shifts, "RS", SIGNER);
 
     expect(calls.burnCalls).toHaveLength(0);
     expect(calls.logTx).toHaveLength(0);
@@ -540,7 +680,7 @@ describe("executeRS", () => {
       { pool: POOL1_ADDR, chain: 1, oldRange, newRange },
       { pool: POOL2_ADDR, chain: 1, oldRange, newRange },
     ];
-    await executeRS(fakeStore, pair, shifts, "RS", PRIVATE_KEY);
+    await executeRS(fakeStore, pair, shifts, "RS", SIGNER);
 
     const burnLogs = calls.logTx.filter((e) => e.opType === "burn");
     expect(burnLogs).toHaveLength(2);
@@ -565,7 +705,7 @@ describe("executeRS", () => {
       { pool: POOL2_ADDR, chain: 1, oldRange, newRange },
     ];
 
-    await executeRS(fakeStore, pair, shifts, "RS", PRIVATE_KEY);
+    await executeRS(fakeStore, pair, shifts, "RS", SIGNER);
 
     const mintLogs = calls.logTx.filter((e) => e.opType === "mint");
     expect(mintLogs).toHaveLength(2);
@@ -580,7 +720,7 @@ describe("executeRS", () => {
     const pair = makePair();
     const shifts = [{ pool: POOL1_ADDR, chain: 1, oldRange, newRange }];
 
-    await executeRS(fakeStore, pair, shifts, "RS", PRIVATE_KEY);
+    await executeRS(fakeStore, pair, shifts, "RS", SIGNER);
 
     expect(calls.mintCalls).toHaveLength(1);
     const mintCallArgs = calls.mintCalls[0] as unknown[];
@@ -593,7 +733,7 @@ describe("executeRS", () => {
     const pair = makePair();
     const shifts = [{ pool: POOL1_ADDR, chain: 1, oldRange, newRange }];
 
-    await executeRS(fakeStore, pair, shifts, "RS", PRIVATE_KEY);
+    await executeRS(fakeStore, pair, shifts, "RS", SIGNER);
 
     const mintCallArgs = calls.mintCalls[0] as unknown[];
     const alloc = mintCallArgs[2] as AllocationEntry;
@@ -609,7 +749,7 @@ describe("rebalanceTokenRatio (via executePRA)", () => {
   test("no swap when balances are balanced (imbalance <= 5%)", async () => {
     const pair = makePair();
     const allocs = [makeAllocation()];
-    await executePRA(fakeStore, pair, allocs, "PRA", PRIVATE_KEY);
+    await executePRA(fakeStore, pair, allocs, "PRA", SIGNER);
 
     expect(calls.swapCalls).toHaveLength(0);
   });
@@ -618,10 +758,80 @@ describe("rebalanceTokenRatio (via executePRA)", () => {
     setDefaultBalances(900_000000n, 100_000000n);
     const pair = makePair();
     const allocs = [makeAllocation()];
-    await executePRA(fakeStore, pair, allocs, "PRA", PRIVATE_KEY);
+    await executePRA(fakeStore, pair, allocs, "PRA", SIGNER);
 
     expect(calls.swapCalls.length).toBeGreaterThanOrEqual(1);
   });
+
+  test("swaps towards the target range's token ratio", async () => {
+    // Price near the bottom of the range: the position is mostly token0
+    mockRange = {
+      min: 0.995,
+      max: 1.05,
+      base: 1,
+      breadth: 0.055,
+      confidence: 80,
+      trendBias: 0,
+      type: "neutral",
+    };
+    setDefaultBalances(5000_000000n, 5000_000000n);
+    await executePRA(fakeStore, makePair(), [makeAllocation()], "PRA", SIGNER, {} as Forces);
+
+    const [swap] = calls.swapCalls[0] as [{ fromToken: string; amount: bigint }];
+    expect(swap.fromToken).toBe(TOKEN1_ADDR);
+    const share0 = mintToken0Share("uniswap_v3", mockRange, 1, 1);
+    expect(share0).toBeGreaterThan(0.8);
+    expect(Number(swap.amount) / 1e6).toBeCloseTo(10_000 * share0 - 5000, 0);
+  });
+
+  test("passes the output implied by the M1 close and the pair's deviation limit", async () => {
+    setDefaultBalances(900_000000n, 100_000000n);
+    await executePRA(
+      fakeStore,
+      makePair({ maxPriceDeviation: 0.01 }),
+      [makeAllocation()],
+      "PRA",
+      SIGNER,
+      null,
+      2,
+    );
+
+    const [swap] = calls.swapCalls[0] as [
+      { amount: bigint; expectedOut: bigint; maxDeviation: number },
+    ];
+    expect(swap.maxDeviation).toBe(0.01);
+    expect(Number(swap.expectedOut)).toBeCloseTo(Number(swap.amount) * 2, -1);
+  });
+});
+
+// ---- Oracle deviation guard (via executePRA) ----
+
+describe("oracle deviation guard (via executePRA)", () => {
+  beforeEach(resetMocks);
+
+  test("aborts the mint when the pool price deviates from the M1 close", async () => {
+    mockPoolPrices = { spot: 1.05, twap: 1.0 };
+    await executePRA(fakeStore, makePair(), [makeAllocation()], "PRA", SIGNER);
+
+    expect(calls.mintCalls).toHaveLength(0);
+    const [journal] = await fakeStore.getJournalHistory();
+    expect(journal.steps.find((s: { kind: string }) => s.kind === "mint")?.error).toContain(
+      "spot/candle",
+    );
+  });
+
+  test("mints within the pair's limit, without a TWAP", async () => {
+    mockPoolPrices = { spot: 1.03, twap: null };
+    await executePRA(
+      fakeStore,
+      makePair({ maxPriceDeviation: 0.05 }),
+      [makeAllocation()],
+      "PRA",
+      SIGNER,
+    );
+
+    expect(calls.mintCalls).toHaveLength(1);
+  });
 });
 
 // ---- bridgeCrossChain (tested indirectly via executePRA) ----
@@ -660,7 +870,7 @@ describe("bridgeCrossChain (via executePRA)", () => {
 
     const allocs = [makeAllocation(POOL1_ADDR, 0.5, 1), makeAllocation(POOL2_ADDR, 0.5, 56)];
 
-    await executePRA(fakeStore, pair, allocs, "PRA", PRIVATE_KEY);
+    await executePRA(fakeStore, pair, allocs, "PRA", SIGNER);
 
     // Should have called swapTokens with fromChain !== toChain (cross-chain bridge)
     const bridgeSwaps = calls.swapCalls.filter((args: unknown[]) => {
@@ -674,10 +884,45 @@ describe("bridgeCrossChain (via executePRA)", () => {
     expect(opts.toChain).toBe(56);
   });
 
+  test("compares chain balances in USD at the journal's price", async () => {
+    // 1 token0 at 2000 on chain 1, 2000 token1 on chain 56: both chains already hold half
+    mockBalanceMap = new Map([
+      [`1:${TOKEN0_ADDR.toLowerCase()}`, 1_000000n],
+      [`1:${TOKEN1_ADDR.toLowerCase()}`, 0n],
+      [`56:${BSC_TOKEN0_ADDR.toLowerCase()}`, 0n],
+      [`56:${BSC_TOKEN1_ADDR.toLowerCase()}`, 2000_000000n],
+    ]);
+    const pair = makePair({
+      token0: {
+        symbol: "WETH",
+        decimals: 6,
+        addresses: { 1: TOKEN0_ADDR, 56: BSC_TOKEN0_ADDR } as Record<number, `0x${string}`>,
+      },
+      token1: {
+        symbol: "USDC",
+        decimals: 6,
+        addresses: { 1: TOKEN1_ADDR, 56: BSC_TOKEN1_ADDR } as Record<number, `0x${string}`>,
+      },
+      pools: [
+        { address: POOL1_ADDR, chain: 1, dex: "uniswap_v3" },
+        { address: POOL2_ADDR, chain: 56, dex: "uniswap_v3" },
+      ],
+    });
+    const allocs = [makeAllocation(POOL1_ADDR, 0.5, 1), makeAllocation(POOL2_ADDR, 0.5, 56)];
+
+    await executePRA(fakeStore, pair, allocs, "PRA", SIGNER, null, 2000);
+
+    const bridgeSwaps = calls.swapCalls.filter((args: unknown[]) => {
+      const opts = args[0] as { fromChain: number; toChain: number };
+      return opts.fromChain !== opts.toChain;
+    });
+    expect(bridgeSwaps).toHaveLength(0);
+  });
+
   test("skips bridge when all allocations are on the same chain", async () => {
     const pair = makePair();
     const allocs = [makeAllocation(POOL1_ADDR, 1, 1)];
-    await executePRA(fakeStore, pair, allocs, "PRA", PRIVATE_KEY);
+    await executePRA(fakeStore, pair, allocs, "PRA", SIGNER);
 
     const bridgeSwaps = calls.swapCalls.filter((args: unknown[]) => {
       const opts = args[0] as { fromChain: number; toChain: number };
@@ -686,3 +931,76 @@ describe("bridgeCrossChain (via executePRA)", () => {
     expect(bridgeSwaps).toHaveLength(0);
   });
 });
+
+// ---- Journal resume ----
+
+describe("resumeExecution (interrupted burn)", () => {
+  beforeEach(resetMocks);
+
+  /** A PRA journal left at its burn step after the burn tx `0xsent` was broadcast. */
+  async function interruptedBurn(pos: Position) {
+    const now = Date.now();
+    await fakeStore.saveJournal({
+      id: `pra:${now}`,
+      pairId: "USDC-USDT",
+      kind: "PRA",
+      decisionType: "PRA",
+      status: "running",
+      phase: "burn",
+      paper: false,
+      startedTs: now,
+      updatedTs: now,
+      price: 1,
+      allocations: [],
+      steps: [
+        {
+          kind: "burn",
+          status: "pending",
+          ts: now,
+          chain: pos.chain,
+          pool: pos.pool,
+          positionId: pos.id,
+          txHash: "0xsent",
+        },
+      ],
+    });
+  }
+
+  test("journals the burn tx hash before its receipt wait", async () => {
+    const pos = makePosition(POOL2_ADDR);
+    mockPositions.push(pos);
+    let journaled: string | undefined;
+    const burn = (await import("../../src/execution/positions")).burnPosition as ReturnType<
+      typeof mock
+    >;
+    burn.mockImplementationOnce(async (p: Position, _s: unknown, _pair: unknown, onSent: any) => {
+      calls.burnCalls.push(p);
+      await onSent("0xsent");
+      journaled = (await fakeStore.getJournal())?.steps[0].txHash;
+      return burnResult;
+    });
+    await executePRA(fakeStore, makePair(), [makeAllocation()], "PRA", SIGNER);
+    expect(journaled).toBe("0xsent");
+  });
+
+  test("does not resend a burn whose tx is not mined", async () => {
+    const pos = makePosition(POOL2_ADDR);
+    mockPositions.push(pos);
+    await interruptedBurn(pos);
+    mockTxStatus = null;
+    await resumeExecution(fakeStore, makePair(), SIGNER);
+    expect(calls.burnCalls).toHaveLength(0);
+    expect(calls.deletedPositions).toHaveLength(0);
+    const [last] = await fakeStore.getJournalHistory();
+    expect(last.status).toBe("aborted");
+  });
+
+  test("settles a burn whose liquidity was withdrawn before the restart", async () => {
+    const pos = makePosition(POOL2_ADDR);
+    mockPositions.push(pos);
+    await interruptedBurn(pos);
+    await resumeExecution(fakeStore, makePair(), SIGNER);
+    expect(calls.burnCalls).toHaveLength(1);
+    expect(calls.deletedPositions).toEqual([pos.id]);
+  });
+});
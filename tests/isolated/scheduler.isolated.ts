@@ -17,6 +17,7 @@ let lastIngestedAllocation: any = null;
 
 mock.module("../../src/data/ohlc", () => ({
   fetchLatestM1: mock(async () => []),
+  fetchNativeUsd: mock(async () => null),
   backfill: mock(async () => {}),
   trimCandles: (candles: any[], cutoff: number) => {
     const i = candles.findIndex((c: any) => c.ts >= cutoff);
@@ -38,6 +39,8 @@ mock.module("../../src/data/gecko", () => ({
 mock.module("../../src/executor", () => ({
   executePRA: executePRAMock,
   executeRS: executeRSMock,
+  executeCompound: mock(async () => 0),
+  resumeExecution: mock(async () => 0),
 }));
 
 mock.module("../../src/data/store-o2", () => ({
@@ -46,12 +49,13 @@ mock.module("../../src/data/store-o2", () => ({
   getPairAllocations: mock(async () => (lastIngestedAllocation ? [lastIngestedAllocation] : [])),
   getRecentYields: mock(async () => []),
   getRecentRsTimestamps: mock(async () => []),
-  getTrailingTxCount: mock(async () => 0),
+  getTrailingGasUsd: mock(async () => ({ gasUsd: 0, unpriced: {} })),
   getCandles: mock(async () => []),
   getPoolAnalyses: mock(async () => []),
   getLatestAnalysesForPools: mock(async () => []),
   getTxLogs: mock(async () => []),
   getEpochSnapshots: mock(async () => []),
+  getPoolAprs: mock(async () => []),
 }));
 
 mock.module("../../src/infra/o2", () => ({
@@ -62,8 +66,16 @@ mock.module("../../src/infra/o2", () => ({
   }),
 }));
 
+// Idle wallet balances (epoch portfolio value) are read without hitting an RPC
+const _realSwap = await import("../../src/execution/swap");
+mock.module("../../src/execution/swap", () => ({
+  ..._realSwap,
+  getBalance: mock(async () => 0n),
+}));
+
 const { runSingleCycle } = await import("../../src/scheduler");
 const { registerPair, getPair } = await import("../../src/state");
+const { eoaSigner, getAccount } = await import("../../src/execution/tx");
 
 describe("cycle", () => {
   const poolCfg: PoolConfig = {
@@ -132,7 +144,7 @@ describe("cycle", () => {
     expect(typeof decision.optimalApr).toBe("number");
   });
 
-  test("does not execute when privateKey is null", async () => {
+  test("does not execute without a signer", async () => {
     mockSnapshots = [snapshot];
     await runSingleCycle(mockStore as any, pair, null);
     expect(executePRAMock).not.toHaveBeenCalled();
@@ -163,11 +175,12 @@ describe("cycle", () => {
     expect(rtAfter!.epoch).toBe(epochBefore + 1);
   });
 
-  test("calls executePRA when decision is PRA and privateKey provided", async () => {
+  test("calls executePRA when decision is PRA and a signer is provided", async () => {
     mockSnapshots = [snapshot];
-    const pk =
-      "0x0000000000000000000000000000000000000000000000000000000000000001" as `0x${string}`;
-    const decision = await runSingleCycle(mockStore as any, pair, pk);
+    const signer = eoaSigner(
+      getAccount("0x0000000000000000000000000000000000000000000000000000000000000001"),
+    );
+    const decision = await runSingleCycle(mockStore as any, pair, signer);
     // No existing positions + positive optimalApr -> 100% improvement -> PRA
     expect(decision.type).toBe("PRA");
     expect(executePRAMock).toHaveBeenCalledTimes(1);
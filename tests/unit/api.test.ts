@@ -11,8 +11,8 @@ const mockStore = {
   getPositions: async () => [] as Position[],
   savePosition: async () => {},
   deletePosition: async () => {},
-  getOptimizerState: async () => null,
-  saveOptimizerState: async () => {},
+  getPoolParams: async () => ({}),
+  savePoolParams: async () => {},
   getEpoch: async () => 2,
   incrementEpoch: async () => 3,
   getRegimeSuppressUntil: async () => 0,
@@ -36,9 +36,10 @@ mock.module("../../src/data/store-o2", () => ({
   getPairAllocations: mock(async () => []),
   getTxLogs: mock(async () => []),
   getEpochSnapshots: mock(async () => []),
+  getPoolAprs: mock(async () => []),
   getRecentYields: mock(async () => []),
   getRecentRsTimestamps: mock(async () => []),
-  getTrailingTxCount: mock(async () => 0),
+  getTrailingGasUsd: mock(async () => ({ gasUsd: 0, unpriced: {} })),
 }));
 
 const { registerPair } = await import("../../src/state");
@@ -0,0 +1,188 @@
+import { beforeAll, describe, expect, test } from "bun:test";
+import {
+  runBacktest,
+  summarize,
+  type BacktestData,
+  type BacktestEpoch,
+  type BacktestResult,
+} from "../../src/backtest";
+import { MIN_HOLD_MS, M15_MS } from "../../src/config/params";
+import { USDC, USDT } from "../../src/config/tokens";
+import type { DragonflyStore } from "../../src/data/store-dragonfly";
+import type { PairConfig, PoolAnalysis, PoolSnapshot } from "../../src/types";
+import { createMockStore, makeSnapshot, synthRandomWalk } from "../helpers";
+
+const POOL_A = "0x00000000000000000000000000000000000000a1" as `0x${string}`;
+const POOL_B = "0x00000000000000000000000000000000000000b2" as `0x${string}`;
+
+const pair: PairConfig = {
+  id: "USDC-USDT",
+  token0: USDC,
+  token1: USDT,
+  eoaEnvVar: "PK_USDC_USDT",
+  pools: [
+    { address: POOL_A, chain: 42161, dex: "uni-v3" },
+    { address: POOL_B, chain: 42161, dex: "uni-v3" },
+  ],
+  intervalSec: 900,
+  maxPositions: 3,
+  thresholds: { pra: 0.05, rs: 0.25 },
+};
+
+// 4 days of seeded M1 candles ending at a fixed M15-aligned epoch; replay the last 2 days
+const candles = synthRandomWalk(4 * 1440, 1.0, 0.0002, 7);
+const toTs = candles[candles.length - 1].ts;
+const fromTs = toTs - 2 * 86_400_000;
+
+/** Rolling 24h volume growing by `step` per interval so consecutive diffs are positive. */
+function snapshotSeries(pool: `0x${string}`, step: number): PoolSnapshot[] {
+  const out: PoolSnapshot[] = [];
+  for (let ts = fromTs - M15_MS, i = 0; ts <= toTs; ts += M15_MS, i++) {
+    out.push(
+      makeSnapshot({ pool, chain: 42161, ts, volume24h: 100_000 + step * i, tvl: 2_000_000 }),
+    );
+  }
+  return out;
+}
+
+const snapshots = [...snapshotSeries(POOL_A, 8_000), ...snapshotSeries(POOL_B, 4_000)];
+const opts = { fromTs, toTs, capitalUsd: 10_000, optimize: false };
+
+const run = (data: BacktestData, o: typeof opts = opts) =>
+  runBacktest(createMockStore() as unknown as DragonflyStore, pair, data, o);
+
+describe("runBacktest", () => {
+  let base: BacktestResult;
+  beforeAll(async () => {
+    base = await run({ candles, snapshots, analyses: [] });
+  });
+
+  test("emits one ledger row per interval", () => {
+    const { ledger, summary } = base;
+    expect(ledger.length).toBe(summary.epochs);
+    expect(ledger.length).toBe(2 * 96 + 1);
+    for (let i = 1; i < ledger.length; i++) {
+      expect(ledger[i].ts - ledger[i - 1].ts).toBe(pair.intervalSec * 1000);
+      expect(ledger[i].epoch).toBe(ledger[i - 1].epoch + 1);
+    }
+  });
+
+  test("deploys capital on the first epoch and accrues fees", () => {
+    const { ledger, summary } = base;
+    expect(ledger[0].decision).toBe("PRA");
+    expect(ledger[0].txCount).toBeGreaterThan(0);
+    expect(ledger[0].gasSpentUsd).toBeGreaterThan(0);
+    expect(summary.totalFeesUsd).toBeGreaterThan(0);
+    expect(summary.timeInRangePct).toBeGreaterThan(0);
+  });
+
+  test("ledger PnL reconciles with portfolio value", () => {
+    const { ledger, summary } = base;
+    const sumNet = ledger.reduce((s, e) => s + e.netPnlUsd, 0);
+    expect(summary.netPnlUsd).toBeCloseTo(sumNet, 6);
+    expect(summary.finalValueUsd).toBeCloseTo(10_000 + sumNet, 6);
+    expect(summary.netPnlUsd).toBeCloseTo(
+      summary.totalFeesUsd - summary.totalIlUsd - summary.totalGasUsd,
+      6,
+    );
+  });
+
+  test("compounds accrued fees between rebalances", () => {
+    const compounds = base.ledger.filter((e) => e.decision === "COMPOUND");
+    expect(compounds.length).toBeGreaterThan(0);
+    expect(compounds.every((e) => e.txCount > 0 && e.gasSpentUsd > 0)).toBe(true);
+  });
+
+  test("respects the minimum hold period on replayed timestamps", () => {
+    const rebalTs = base.ledger
+      .filter((e) => e.decision === "PRA" || e.decision === "RS")
+      .map((e) => e.ts);
+    for (let i = 1; i < rebalTs.length; i++) {
+      expect(rebalTs[i] - rebalTs[i - 1]).toBeGreaterThanOrEqual(MIN_HOLD_MS);
+    }
+  });
+
+  test("holds with no pool data", async () => {
+    const { ledger, summary } = await run({ candles, snapshots: [], analyses: [] });
+    expect(summary.decisions.HOLD).toBe(ledger.length);
+    expect(summary.txCount).toBe(0);
+    // Idle capital sits in the pair's tokens: it only moves with the price
+    expect(Math.abs(summary.finalValueUsd - 10_000)).toBeLessThan(200);
+  });
+
+  test("falls back to stored pool analyses when snapshots are missing", async () => {
+    const analyses = snapshots
+      .filter((s) => s.pool === POOL_A)
+      .map(
+        (s) =>
+          ({
+            pool: s.pool,
+            chain: s.chain,
+            ts: s.ts,
+            apr: 0.2,
+            tvl: 2_000_000,
+            feePct: 0.0005,
+          }) as PoolAnalysis,
+      );
+    const { ledger } = await run({ candles, snapshots: [], analyses });
+    expect(ledger[0].decision).toBe("PRA");
+    expect(ledger[0].positionsCount).toBeGreaterThan(0);
+  });
+
+  test("runs the optimizer when enabled", async () => {
+    const short = { ...opts, toTs: fromTs + 4 * M15_MS, optimize: true };
+    const { ledger } = await run({ candles, snapshots, analyses: [] }, short);
+    expect(ledger.length).toBe(5);
+    expect(ledger.every((e) => Number.isFinite(e.portfolioValueUsd))).toBe(true);
+  });
+
+  test("optimizes each fee-tier cluster and mints every pool", async () => {
+    const short = { ...opts, toTs: fromTs + 4 * M15_MS, optimize: true };
+    const tiers = snapshots.map((s) => (s.pool === POOL_B ? { ...s, feePct: 0.003 } : s));
+    const { ledger } = await run({ candles, snapshots: tiers, analyses: [] }, short);
+    expect(ledger[0].decision).toBe("PRA");
+    expect(ledger[0].positionsCount).toBe(2);
+    expect(ledger.every((e) => Number.isFinite(e.portfolioValueUsd))).toBe(true);
+  });
+});
+
+describe("summarize", () => {
+  const row = (
+    ts: number,
+    value: number,
+    decision: BacktestEpoch["decision"] = "HOLD",
+  ): BacktestEpoch => ({
+    epoch: ts,
+    ts,
+    price: 1,
+    decision,
+    txCount: decision === "HOLD" ? 0 : 2,
+    feesEarnedUsd: 1,
+    ilUsd: 0,
+    gasSpentUsd: 0,
+    netPnlUsd: 1,
+    portfolioValueUsd: value,
+    currentApr: 0.1,
+    optimalApr: 0.1,
+    positionsCount: 1,
+    inRangePct: 1,
+    regime: "",
+    killSwitch: "",
+  });
+
+  test("tracks max drawdown from the running peak", () => {
+    const ledger = [row(1, 1000, "PRA"), row(2, 1100), row(3, 990), row(4, 1050)];
+    const s = summarize(ledger, { fromTs: 1, toTs: 4 }, 1000, 900);
+    expect(s.maxDrawdownPct).toBeCloseTo(0.1, 6);
+    expect(s.finalValueUsd).toBe(1050);
+    expect(s.returnPct).toBeCloseTo(0.05, 6);
+    expect(s.decisions).toEqual({ PRA: 1, RS: 0, COMPOUND: 0, HOLD: 3 });
+    expect(s.txCount).toBe(2);
+  });
+
+  test("empty ledger keeps initial capital", () => {
+    const s = summarize([], { fromTs: 0, toTs: 0 }, 500, 900);
+    expect(s.finalValueUsd).toBe(500);
+    expect(s.annualizedReturn).toBe(0);
+  });
+});
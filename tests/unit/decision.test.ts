@@ -1,6 +1,7 @@
 import { describe, expect, test } from "bun:test";
 import { decide, buildPairAllocation } from "../../src/strategy/decision";
 import type { AllocationEntry, Position } from "../../src/types";
+import { COMPOUND_GAS_MULT } from "../../src/config/params";
 import { neutralForces } from "../helpers";
 
 function alloc(i: number, apr: number, pct: number): AllocationEntry {
@@ -121,6 +122,87 @@ describe("decide", () => {
   });
 });
 
+describe("decide COMPOUND", () => {
+  const gasCostUsd = 2;
+  const threshold = gasCostUsd * COMPOUND_GAS_MULT;
+
+  test("COMPOUND positions whose uncollected fees clear the gas threshold", () => {
+    const positions = [position(1, 0.1), position(2, 0.1)];
+    const feesUsd = { [positions[0].id]: threshold + 1, [positions[1].id]: threshold - 1 };
+    const d = decide(
+      [alloc(1, 0.1, 1)],
+      positions,
+      neutralForces(5),
+      1.0,
+      { pra: 0.05, rs: 0.25 },
+      undefined,
+      {
+        gasCostUsd,
+        positionValueUsd: 2000,
+        feesUsd,
+      },
+    );
+    expect(d.type).toBe("COMPOUND");
+    expect(d.compounds).toEqual([
+      { id: positions[0].id, pool: positions[0].pool, chain: 1, feesUsd: threshold + 1 },
+    ]);
+  });
+
+  test("HOLD without fee marks, below threshold or for LB positions", () => {
+    const pos = position(1, 0.1);
+    const lb = { ...position(2, 0.1), positionId: "lb:100:110" };
+    const run = (feesUsd?: Record<string, number>) =>
+      decide(
+        [alloc(1, 0.1, 1)],
+        [pos, lb],
+        neutralForces(5),
+        1.0,
+        { pra: 0.05, rs: 0.25 },
+        undefined,
+        {
+          gasCostUsd,
+          positionValueUsd: 2000,
+          feesUsd,
+        },
+      ).type;
+    expect(run()).toBe("HOLD");
+    expect(run({ [pos.id]: threshold / 2 })).toBe("HOLD");
+    expect(run({ [lb.id]: threshold * 10 })).toBe("HOLD");
+  });
+
+  test("COMPOUND is allowed during the minimum holding period", () => {
+    const pos = position(1, 0.05);
+    const d = decide(
+      [alloc(1, 0.5, 1)],
+      [pos],
+      neutralForces(5),
+      1.0,
+      { pra: 0.05, rs: 0.25 },
+      Date.now() - 3600_000,
+      { gasCostUsd, positionValueUsd: 1000, feesUsd: { [pos.id]: threshold * 2 } },
+    );
+    expect(d.type).toBe("COMPOUND");
+  });
+
+  test("PRA takes precedence over COMPOUND", () => {
+    const pos = position(1, 0.05);
+    const d = decide(
+      [alloc(1, 0.5, 1)],
+      [pos],
+      neutralForces(5),
+      1.0,
+      { pra: 0.05, rs: 0.25 },
+      undefined,
+      {
+        gasCostUsd,
+        positionValueUsd: 100_000,
+        feesUsd: { [pos.id]: threshold * 2 },
+      },
+    );
+    expect(d.type).toBe("PRA");
+  });
+});
+
 describe("buildPairAllocation", () => {
   test("builds allocation from decision", () => {
     const allocations = [alloc(1, 0.15, 1)];
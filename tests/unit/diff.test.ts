@@ -0,0 +1,70 @@
+import { describe, expect, test } from "bun:test";
+import { diffAllocations, positionValueUsd } from "../../src/execution/diff";
+import { CASH_RESERVE_PCT } from "../../src/config/params";
+import { makeAllocation, makePosition } from "../helpers";
+
+const A = "0x00000000000000000000000000000000000000a1" as `0x${string}`;
+const B = "0x00000000000000000000000000000000000000b1" as `0x${string}`;
+const C = "0x00000000000000000000000000000000000000c1" as `0x${string}`;
+
+const investable = (totalUsd: number) => totalUsd * (1 - CASH_RESERVE_PCT);
+
+describe("diffAllocations", () => {
+  test("mints every allocation when nothing is deployed", () => {
+    const allocs = [
+      makeAllocation({ pool: A, chain: 1, pct: 0.6 }),
+      makeAllocation({ pool: B, chain: 8453, pct: 0.4 }),
+    ];
+    const diffs = diffAllocations([], allocs, 10_000);
+    expect(diffs.map((d) => d.action)).toEqual(["mint", "mint"]);
+    expect(diffs[0].targetUsd).toBeCloseTo(0.6 * investable(10_000), 9);
+  });
+
+  test("keeps a position within tolerance of its target", () => {
+    const pos = makePosition({ pool: A, chain: 1, entryValueUsd: 9_500 });
+    const [d] = diffAllocations([pos], [makeAllocation({ pool: A, chain: 1, pct: 1 })], 100);
+    expect(d.action).toBe("keep");
+    expect(d.position).toBe(pos);
+  });
+
+  test("resizes matched positions and burns those left out of the allocation", () => {
+    const a = makePosition({ id: "a", pool: A, chain: 1, entryValueUsd: 5_000 });
+    const b = makePosition({ id: "b", pool: B, chain: 1, entryValueUsd: 3_000 });
+    const c = makePosition({ id: "c", pool: C, chain: 1, entryValueUsd: 2_000 });
+    const allocs = [
+      makeAllocation({ pool: A, chain: 1, pct: 0.2 }),
+      makeAllocation({ pool: B, chain: 1, pct: 0.8 }),
+    ];
+    const diffs = diffAllocations([a, b, c], allocs, 0);
+    expect(diffs.map((d) => [d.action, d.position?.id])).toEqual([
+      ["decrease", "a"],
+      ["increase", "b"],
+      ["burn", "c"],
+    ]);
+    expect(diffs[1].targetUsd - diffs[1].currentUsd).toBeCloseTo(
+      0.8 * investable(10_000) - 3_000,
+      9,
+    );
+  });
+
+  test("increases an undersized LB position in place", () => {
+    const pos = makePosition({ pool: A, chain: 43114, dex: "joe-v2.1", entryValueUsd: 2_000 });
+    const diffs = diffAllocations([pos], [makeAllocation({ pool: A, chain: 43114 })], 8_000);
+    expect(diffs.map((d) => d.action)).toEqual(["increase"]);
+  });
+
+  test("burns and re-mints an oversized LB position instead of decreasing it", () => {
+    const pos = makePosition({ pool: A, chain: 43114, dex: "joe-v2.1", entryValueUsd: 8_000 });
+    const allocs = [
+      makeAllocation({ pool: A, chain: 43114, pct: 0.3 }),
+      makeAllocation({ pool: B, chain: 43114, pct: 0.7 }),
+    ];
+    const diffs = diffAllocations([pos], allocs, 2_000);
+    expect(diffs.map((d) => d.action)).toEqual(["burn", "mint", "mint"]);
+  });
+
+  test("values positions net of partial withdrawals", () => {
+    const pos = makePosition({ entryValueUsd: 5_000, withdrawnUsd: 1_500 });
+    expect(positionValueUsd(pos)).toBe(3_500);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, expect, test } from "bun:test";
+import {
+  gasUsd,
+  quoteOpGasUsd,
+  rebalanceGasUsd,
+  staticGasUnitUsd,
+  staticOpGasUsd,
+  type GasQuote,
+} from "../../src/execution/gas";
+import { GAS_UNITS } from "../../src/config/params";
+import { chainGasCostUsd } from "../../shared/chains";
+
+describe("gasUsd", () => {
+  test("prices gas units at the native token price", () => {
+    expect(gasUsd(100_000n, 20_000_000_000n, 3000)).toBeCloseTo(6, 9); // 0.002 ETH
+  });
+});
+
+describe("quoteOpGasUsd", () => {
+  const quote: GasQuote = {
+    chain: 1,
+    baseFeePerGas: 9_000_000_000n,
+    priorityFeePerGas: 1_000_000_000n,
+    nativeUsd: 2000,
+    ts: 0,
+  };
+
+  test("charges base fee plus priority fee per unit of each operation", () => {
+    const costs = quoteOpGasUsd(quote);
+    for (const op of ["burn", "mint", "swap", "bridge"] as const) {
+      expect(costs[op]).toBeCloseTo(Number(GAS_UNITS[op]) * 10e-9 * 2000, 9);
+    }
+  });
+
+  test("mint costs more than burn", () => {
+    const costs = quoteOpGasUsd(quote);
+    expect(costs.mint).toBeGreaterThan(costs.burn);
+  });
+
+  test("adds the L1 data fee on OP-stack chains", () => {
+    const l1FeeWei = {
+      burn: 10n ** 12n,
+      mint: 2n * 10n ** 12n,
+      swap: 10n ** 13n,
+      bridge: 10n ** 13n,
+    };
+    const l2 = quoteOpGasUsd(quote);
+    const costs = quoteOpGasUsd({ ...quote, chain: 8453, l1FeeWei });
+    for (const op of ["burn", "mint", "swap", "bridge"] as const) {
+      expect(costs[op]).toBeCloseTo(l2[op] + (Number(l1FeeWei[op]) / 1e18) * 2000, 9);
+    }
+  });
+});
+
+describe("staticOpGasUsd", () => {
+  test("one rebalance costs the chain's static estimate", () => {
+    expect(rebalanceGasUsd(staticOpGasUsd(1))).toBeCloseTo(chainGasCostUsd(1), 9);
+    expect(rebalanceGasUsd(staticOpGasUsd(99999))).toBeCloseTo(chainGasCostUsd(99999), 9);
+  });
+
+  test("prices operations at the chain's static cost per gas unit", () => {
+    expect(staticOpGasUsd(1).mint).toBeCloseTo(Number(GAS_UNITS.mint) * staticGasUnitUsd(1), 9);
+  });
+});
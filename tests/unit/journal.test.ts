@@ -0,0 +1,307 @@
+import { describe, expect, test } from "bun:test";
+import { PaperLedger } from "../../src/execution/paper";
+import { paperExecutor } from "../../src/executor";
+import { fixedClock, type Clock } from "../../src/context";
+import { USDC, USDT } from "../../src/config/tokens";
+import { JOURNAL_RESUME_MAX_AGE_MS } from "../../src/config/params";
+import type { DragonflyStore } from "../../src/data/store-dragonfly";
+import type { ExecutionJournal, PairConfig, Range } from "../../src/types";
+import { createMockStore, makeAllocation } from "../helpers";
+
+const ARB_POOL = "0x00000000000000000000000000000000000000a1" as `0x${string}`;
+const BASE_POOL = "0x00000000000000000000000000000000000000b1" as `0x${string}`;
+
+const pair: PairConfig = {
+  id: "USDC-USDT",
+  token0: USDC,
+  token1: USDT,
+  eoaEnvVar: "PK_USDC_USDT",
+  pools: [
+    { address: ARB_POOL, chain: 42161, dex: "uni-v3" },
+    { address: BASE_POOL, chain: 8453, dex: "uni-v3" },
+  ],
+  intervalSec: 900,
+  maxPositions: 3,
+  thresholds: { pra: 0.05, rs: 0.25 },
+};
+
+const range: Range = {
+  min: 0.995,
+  max: 1.005,
+  base: 1,
+  breadth: 0.01,
+  confidence: 1,
+  trendBias: 0,
+  type: "neutral",
+};
+
+function setup(clock?: Clock) {
+  const store = createMockStore() as unknown as DragonflyStore;
+  const ledger = new PaperLedger(store, pair, {
+    capitalUsd: 10_000,
+    readPool: async () => ({ price: 1, fee: 0.0001, tickSpacing: 1 }),
+    readGasPrice: async () => 10_000_000n,
+    clock,
+  });
+  return { store, ledger, exec: paperExecutor(ledger) };
+}
+
+const arbAlloc = makeAllocation({ pool: ARB_POOL, chain: 42161, dex: "uni-v3", pct: 1 });
+const baseAlloc = makeAllocation({ pool: BASE_POOL, chain: 8453, dex: "uni-v3", pct: 1 });
+
+function runningJournal(overrides: Partial<ExecutionJournal>): ExecutionJournal {
+  const now = Date.now();
+  return {
+    id: `pra:${now}`,
+    pairId: pair.id,
+    kind: "PRA",
+    decisionType: "PRA",
+    status: "running",
+    phase: "mint",
+    paper: true,
+    startedTs: now - 60_000,
+    updatedTs: now - 60_000,
+    allocations: [arbAlloc],
+    steps: [],
+    ...overrides,
+  };
+}
+
+describe("execution journal", () => {
+  test("PRA records every step and archives the completed journal", async () => {
+    const { store, exec } = setup();
+    await exec.executePRA(store, pair, [arbAlloc], "PRA", null, null, 1);
+    await exec.executePRA(store, pair, [baseAlloc], "PRA", null, null, 1);
+
+    expect(await store.getJournal()).toBeNull();
+    const [latest, first] = await store.getJournalHistory();
+    expect(first.status).toBe("completed");
+    expect(latest.status).toBe("completed");
+    expect(latest.phase).toBe("done");
+    // Bridges are appended as they are sent, after the planned steps; both tokens move
+    expect(latest.steps.map((s) => [s.kind, s.status])).toEqual([
+      ["burn", "done"],
+      ["mint", "done"],
+      ["bridge", "done"],
+      ["bridge", "done"],
+    ]);
+    expect(latest.steps[1].positionId).toBe((await store.getPositions())[0].id);
+  });
+
+  test("burns archive the closed position with fees split from principal", async () => {
+    const { store, exec } = setup();
+    await exec.executePRA(store, pair, [arbAlloc], "PRA", null, null, 1);
+    const [pos] = await store.getPositions();
+    await store.savePosition({ ...pos, entryTs: pos.entryTs - 365.25 * 86_400_000 });
+    await exec.executePRA(store, pair, [baseAlloc], "PRA", null, null, 1);
+
+    const [closed] = await store.getClosedPositions();
+    expect(closed.id).toBe(pos.id);
+    expect(closed.decisionType).toBe("PRA");
+    expect(closed.paper).toBe(true);
+    expect(closed.exitPrice).toBe(1);
+    expect(closed.fees0 + closed.fees1).toBeGreaterThan(0n);
+    expect(closed.principalOut0 + closed.principalOut1).toBe(pos.amount0 + pos.amount1);
+    expect(closed.feesUsd / closed.principalInUsd).toBeCloseTo(pos.entryApr, 2);
+    expect(closed.netPnlUsd).toBeCloseTo(
+      closed.principalOutUsd + closed.feesUsd - closed.principalInUsd,
+      9,
+    );
+  });
+
+  test("compound reinvests fees in place and counts them in lifetime fees", async () => {
+    const { store, ledger, exec } = setup();
+    await exec.executePRA(store, pair, [arbAlloc], "PRA", null, null, 1);
+    const [pos] = await store.getPositions();
+    const aged = { ...pos, entryTs: pos.entryTs - 365.25 * 86_400_000 };
+    await store.savePosition(aged);
+    const target = { id: pos.id, pool: pos.pool, chain: pos.chain, feesUsd: 0 };
+    expect(await exec.executeCompound(store, pair, [target], "COMPOUND", null, 1)).toBe(1);
+
+    const [compounded] = await store.getPositions();
+    expect(compounded.liquidity).toBeGreaterThan(pos.liquidity);
+    expect(compounded.entryTs).toBe(aged.entryTs);
+    expect(compounded.feesCollectedUsd! / pos.entryValueUsd).toBeCloseTo(pos.entryApr, 2);
+    const [mark] = await ledger.markPositions(pair, [compounded]);
+    expect(mark.feesUsd).toBeLessThan(0.01); // accrual restarts at the compound
+
+    await exec.executePRA(store, pair, [baseAlloc], "PRA", null, null, 1);
+    const [closed] = await store.getClosedPositions();
+    expect(closed.fees0).toBe(compounded.feesCollected0!);
+    expect(closed.principalIn0 + closed.principalIn1).toBe(compounded.amount0 + compounded.amount1);
+  });
+
+  test("PRA only touches positions off their target", async () => {
+    const { store, exec } = setup();
+    await exec.executePRA(store, pair, [arbAlloc], "PRA", null, null, 1);
+    const [pos] = await store.getPositions();
+
+    // Same target: nothing to do
+    expect(await exec.executePRA(store, pair, [arbAlloc], "PRA", null, null, 1)).toBe(0);
+    expect((await store.getJournalHistory())[0].steps).toEqual([]);
+
+    // Half moves to Base: the Arbitrum position is decreased in place, only the difference bridges
+    const split = [
+      { ...arbAlloc, pct: 0.5 },
+      makeAllocation({ pool: BASE_POOL, chain: 8453, dex: "uni-v3", pct: 0.5 }),
+    ];
+    await exec.executePRA(store, pair, split, "PRA", null, null, 1);
+    const [j] = await store.getJournalHistory();
+    expect(j.steps.map((s) => [s.kind, s.status])).toEqual([
+      ["decrease", "done"],
+      ["mint", "done"],
+      ["bridge", "done"],
+      ["bridge", "done"],
+    ]);
+    const arb = (await store.getPositions()).find((p) => p.id === pos.id)!;
+    expect(Number(arb.liquidity) / Number(pos.liquidity)).toBeCloseTo(0.5, 1);
+    expect(arb.withdrawnUsd! / pos.entryValueUsd).toBeCloseTo(0.5, 1);
+    const bridged = j.steps
+      .filter((s) => s.kind === "bridge")
+      .reduce((sum, s) => sum + Number(s.amount) / 1e6, 0);
+    const baseMint = j.steps.find((s) => s.kind === "mint")!;
+    expect(bridged / baseMint.valueUsd!).toBeCloseTo(1, 2); // the shortfall only, not the reserve
+
+    // Back to Arbitrum only: Base is burned, Arbitrum topped up in place
+    await exec.executePRA(store, pair, [arbAlloc], "PRA", null, null, 1);
+    const [back] = await store.getJournalHistory();
+    expect(back.steps.filter((s) => s.kind !== "bridge").map((s) => s.kind)).toEqual([
+      "burn",
+      "increase",
+    ]);
+    const [grown] = await store.getPositions();
+    expect(grown.id).toBe(pos.id);
+    expect(grown.liquidity).toBeGreaterThan(arb.liquidity);
+  });
+
+  test("bridge steps carry the source tx hash", async () => {
+    const { store, exec } = setup();
+    const allocations = [
+      makeAllocation({ pool: ARB_POOL, chain: 42161, dex: "uni-v3", pct: 0.5 }),
+      makeAllocation({ pool: BASE_POOL, chain: 8453, dex: "uni-v3", pct: 0.5 }),
+    ];
+    await exec.executePRA(store, pair, allocations, "PRA", null, null, 1);
+    const [j] = await store.getJournalHistory();
+    const bridge = j.steps.find((s) => s.kind === "bridge")!;
+    expect(bridge.status).toBe("done");
+    expect(bridge.txHash).toMatch(/^0x[0-9a-f]{64}$/);
+    expect(bridge.balanceBefore).toBe("0");
+    expect(j.steps.filter((s) => s.kind === "mint" && s.status === "done")).toHaveLength(2);
+  });
+
+  test("resume mints the pending steps of an interrupted plan", async () => {
+    const { store, exec } = setup();
+    await store.saveJournal(
+      runningJournal({
+        steps: [
+          {
+            kind: "mint",
+            status: "pending",
+            ts: Date.now(),
+            chain: 42161,
+            pool: ARB_POOL,
+            alloc: arbAlloc,
+            range,
+          },
+        ],
+      }),
+    );
+    expect(await exec.resume!(store, pair, null)).toBe(1);
+    expect(await store.getPositions()).toHaveLength(1);
+    const [j] = await store.getJournalHistory();
+    expect(j.status).toBe("completed");
+  });
+
+  test("resume reconciles mints that landed before the crash", async () => {
+    const { store, ledger, exec } = setup();
+    const { position } = await ledger.mint(
+      store,
+      pair,
+      arbAlloc,
+      range,
+      1_000_000_000n,
+      1_000_000_000n,
+    );
+    await store.saveJournal(
+      runningJournal({
+        steps: [
+          {
+            kind: "mint",
+            status: "pending",
+            ts: Date.now(),
+            chain: 42161,
+            pool: ARB_POOL,
+            alloc: arbAlloc,
+            range,
+          },
+        ],
+      }),
+    );
+    expect(await exec.resume!(store, pair, null)).toBe(0);
+    const [j] = await store.getJournalHistory();
+    expect(j.steps[0]).toMatchObject({ status: "done", positionId: position!.id });
+    expect(await store.getPositions()).toHaveLength(1);
+  });
+
+  test("a bridge interrupted before its source tx is failed and not retried", async () => {
+    const { store, exec } = setup();
+    const allocations = [
+      makeAllocation({ pool: ARB_POOL, chain: 42161, dex: "uni-v3", pct: 0.5 }),
+      makeAllocation({ pool: BASE_POOL, chain: 8453, dex: "uni-v3", pct: 0.5 }),
+    ];
+    await store.saveJournal(
+      runningJournal({
+        phase: "bridge",
+        allocations,
+        steps: [
+          { kind: "bridge", status: "pending", ts: Date.now(), chain: 42161, dstChain: 8453 },
+        ],
+      }),
+    );
+    await exec.resume!(store, pair, null);
+    const [j] = await store.getJournalHistory();
+    expect(j.steps.filter((s) => s.kind === "bridge")).toEqual([
+      expect.objectContaining({
+        status: "failed",
+        error: "interrupted before source tx confirmed",
+      }),
+    ]);
+    expect(j.status).toBe("completed");
+  });
+
+  test("stale journals are aborted on restart", async () => {
+    const { store, exec } = setup();
+    const startedTs = Date.now() - JOURNAL_RESUME_MAX_AGE_MS - 1;
+    await store.saveJournal(runningJournal({ startedTs }));
+    expect(await exec.resume!(store, pair, null)).toBe(0);
+    expect(await store.getJournal()).toBeNull();
+    const [j] = await store.getJournalHistory();
+    expect(j).toMatchObject({ status: "aborted", error: "stale on restart" });
+  });
+
+  test("journal timestamps and the stale check follow the ledger clock", async () => {
+    const now = Date.UTC(2025, 0, 1);
+    const { store, exec } = setup(fixedClock(now));
+    // Stale against the wall clock, fresh against the replayed one
+    await store.saveJournal(runningJournal({ startedTs: now - 60_000 }));
+    await exec.resume!(store, pair, null);
+    await exec.executePRA(store, pair, [arbAlloc], "PRA", null, null, 1);
+
+    const [latest, resumed] = await store.getJournalHistory();
+    expect(resumed.status).toBe("completed");
+    expect(latest).toMatchObject({ startedTs: now, updatedTs: now });
+    expect(latest.steps.every((s) => s.ts === now)).toBe(true);
+    expect((await store.getPositions())[0].entryTs).toBe(now);
+  });
+
+  test("a new plan supersedes a running journal", async () => {
+    const { store, exec } = setup();
+    await store.saveJournal(runningJournal({ id: "pra:old" }));
+    await exec.executePRA(store, pair, [arbAlloc], "PRA", null, null, 1);
+    const history = await store.getJournalHistory();
+    expect(history.find((j) => j.id === "pra:old")).toMatchObject({
+      status: "aborted",
+      error: "superseded by a new plan",
+    });
+  });
+});
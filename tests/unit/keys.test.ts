@@ -0,0 +1,110 @@
+import { afterAll, afterEach, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { hexToBytes } from "viem";
+import {
+  decryptKeystore,
+  encryptKeystore,
+  envProvider,
+  KeystoreError,
+  unlockAccount,
+  withoutKeys,
+  type KeystoreV3,
+} from "../../src/execution/keys";
+import { KEYSTORE_MNEMONIC_FILE } from "../../src/config/params";
+
+// Cheap scrypt for tests (production: KEYSTORE_SCRYPT)
+const FAST = { n: 1024, r: 8, p: 1 };
+const PK = "0x0000000000000000000000000000000000000000000000000000000000000001" as const;
+const PK_ADDRESS = "0x7E5F4552091A69125d5DfCb7b8C2659029395Bdf";
+const MNEMONIC = "test test test test test test test test test test test junk";
+
+const dir = mkdtempSync(join(tmpdir(), "btr-keys-"));
+const target = { name: "V1", pkEnvVar: "PK_V1" };
+
+afterEach(() => {
+  delete process.env.KEYSTORE_DIR;
+  delete process.env.KEYSTORE_PASSWORD;
+  delete process.env.PK_V1;
+});
+
+afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+describe("keystore", () => {
+  test("decrypts what it encrypts", () => {
+    const ks = encryptKeystore(hexToBytes(PK), "hunter2", FAST);
+    expect(ks.crypto.kdf).toBe("scrypt");
+    expect(decryptKeystore(ks, "hunter2")).toEqual(hexToBytes(PK));
+  });
+
+  test("refuses a wrong password", () => {
+    const ks = encryptKeystore(hexToBytes(PK), "hunter2", FAST);
+    expect(() => decryptKeystore(ks, "hunter3")).toThrow(KeystoreError);
+  });
+
+  test("decrypts the Web3 Secret Storage pbkdf2 test vector", () => {
+    const ks: KeystoreV3 = {
+      version: 3,
+      crypto: {
+        cipher: "aes-128-ctr",
+        cipherparams: { iv: "6087dab2f9fdbbfaddc31a909735c1e6" },
+        ciphertext: "5318b4d5bcd28de64ee5559e671353e16f075ecae9f99c7a79a38af5f869aa46",
+        kdf: "pbkdf2",
+        kdfparams: {
+          c: 262144,
+          dklen: 32,
+          prf: "hmac-sha256",
+          salt: "ae3cd4e7013836a3df6bd7241b12db061dbe2c6785853cce422d148a624ce0bd",
+        },
+        mac: "517ead924a9d0dc3124507e3393d175ce3ff7c1e96529c6c555ce9e51205e9b2",
+      },
+    };
+    expect(decryptKeystore(ks, "testpassword")).toEqual(
+      hexToBytes("0x7a28b5ba57c53603b0b07b56bba752f7784bf506fa95edc395f5cf6c7514fe9d"),
+    );
+  });
+});
+
+describe("unlockAccount", () => {
+  test("unlocks the strategy's keystore before any env key", async () => {
+    await Bun.write(
+      join(dir, "V1.json"),
+      JSON.stringify(encryptKeystore(hexToBytes(PK), "pw", FAST)),
+    );
+    process.env.KEYSTORE_DIR = dir;
+    process.env.KEYSTORE_PASSWORD = "pw";
+    process.env.PK_V1 = "0x0000000000000000000000000000000000000000000000000000000000000002";
+    expect((await unlockAccount(target))?.address).toBe(PK_ADDRESS);
+  });
+
+  test("derives the strategy's HD account from the encrypted mnemonic", async () => {
+    const secret = new TextEncoder().encode(MNEMONIC);
+    await Bun.write(
+      join(dir, KEYSTORE_MNEMONIC_FILE),
+      JSON.stringify(encryptKeystore(secret, "pw", FAST)),
+    );
+    process.env.KEYSTORE_DIR = dir;
+    process.env.KEYSTORE_PASSWORD = "pw";
+    const account = await unlockAccount({ name: "V2", pkEnvVar: "PK_V2", hdIndex: 1 });
+    expect(account?.address).toBe("0x70997970C51812dc3A010C7d01b50e0d17dc79C8");
+  });
+
+  test("falls back to a plaintext env key, and to no account", async () => {
+    expect(await unlockAccount(target)).toBeNull();
+    process.env.PK_V1 = PK;
+    expect((await unlockAccount(target, [envProvider]))?.address).toBe(PK_ADDRESS);
+  });
+});
+
+describe("withoutKeys", () => {
+  test("drops private key env vars only", () => {
+    const env = { PK_USDC_USDT: "0x1", V1_PK: "0x2", PKG: "x", KEYSTORE_DIR: "/k" };
+    expect(withoutKeys(env)).toEqual({ PKG: "x", KEYSTORE_DIR: "/k" });
+  });
+
+  test("drops configured strategy pkEnvVars whatever their name", () => {
+    const env = { MY_SECRET: "0x1", PK_V1: "0x2", KEYSTORE_DIR: "/k" };
+    expect(withoutKeys(env, ["MY_SECRET"])).toEqual({ KEYSTORE_DIR: "/k" });
+  });
+});
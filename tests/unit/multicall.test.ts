@@ -0,0 +1,91 @@
+import { describe, expect, mock, test } from "bun:test";
+import { ContractFunctionZeroDataError } from "viem";
+import {
+  batchRead,
+  readContracts,
+  type ContractRead,
+  type ReadClient,
+} from "../../src/execution/multicall";
+import { ABIS } from "../../src/config/dexs";
+import { MULTICALL3 } from "../../src/config/params";
+
+const read = (n: number): ContractRead => ({
+  address: `0x${n.toString(16).padStart(40, "0")}`,
+  abi: [ABIS.erc20.balanceOf],
+  functionName: "balanceOf",
+  args: [`0x${"0".repeat(40)}`],
+});
+
+const valueOf = (r: ContractRead) => BigInt(r.address);
+
+function fakeClient(opts: {
+  multicall3?: boolean;
+  multicall?: (contracts: ContractRead[]) => unknown;
+}) {
+  const client = {
+    chain:
+      opts.multicall3 === false
+        ? { id: 1 }
+        : { id: 1, contracts: { multicall3: { address: MULTICALL3 } } },
+    multicall: mock(async ({ contracts }: { contracts: ContractRead[] }) =>
+      opts.multicall
+        ? opts.multicall(contracts)
+        : contracts.map((c) => ({ status: "success", result: valueOf(c) })),
+    ),
+    readContract: mock(async (r: ContractRead) => valueOf(r)),
+  };
+  return client as typeof client & ReadClient;
+}
+
+describe("batchRead", () => {
+  test("sends concurrent reads as one multicall, results in order", async () => {
+    const client = fakeClient({});
+    const out = await readContracts<bigint[]>(client, [read(1), read(2), read(3)]);
+    expect(out).toEqual([1n, 2n, 3n]);
+    expect(client.multicall).toHaveBeenCalledTimes(1);
+    expect(client.readContract).not.toHaveBeenCalled();
+  });
+
+  test("groups reads from separate callers issued together", async () => {
+    const client = fakeClient({});
+    const [a, b] = await Promise.all([batchRead(client, read(4)), batchRead(client, read(5))]);
+    expect([a, b]).toEqual([4n, 5n]);
+    expect(client.multicall).toHaveBeenCalledTimes(1);
+  });
+
+  test("a failing read rejects alone", async () => {
+    const client = fakeClient({
+      multicall: (contracts) =>
+        contracts.map((c, i) =>
+          i === 1
+            ? { status: "failure", error: new Error("reverted") }
+            : { status: "success", result: valueOf(c) },
+        ),
+    });
+    const [ok, bad] = await Promise.allSettled([
+      batchRead(client, read(6)),
+      batchRead(client, read(7)),
+    ]);
+    expect(ok).toEqual({ status: "fulfilled", value: 6n });
+    expect(bad.status).toBe("rejected");
+  });
+
+  test("reads one by one on chains without Multicall3", async () => {
+    const client = fakeClient({ multicall3: false });
+    expect(await readContracts<bigint[]>(client, [read(8), read(9)])).toEqual([8n, 9n]);
+    expect(client.multicall).not.toHaveBeenCalled();
+    expect(client.readContract).toHaveBeenCalledTimes(2);
+  });
+
+  test("stops batching on a chain where Multicall3 returns no data", async () => {
+    const client = fakeClient({
+      multicall: () => {
+        throw new ContractFunctionZeroDataError({ functionName: "aggregate3" });
+      },
+    });
+    expect(await readContracts<bigint[]>(client, [read(10), read(11)])).toEqual([10n, 11n]);
+    expect(await readContracts<bigint[]>(client, [read(12), read(13)])).toEqual([12n, 13n]);
+    expect(client.multicall).toHaveBeenCalledTimes(1);
+    expect(client.readContract).toHaveBeenCalledTimes(4);
+  });
+});
@@ -0,0 +1,66 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import {
+  isOrphanReservation,
+  pendingTxs,
+  reserveNonce,
+  setNonceRedis,
+  settleTx,
+  trackTx,
+  type PendingTx,
+} from "../../src/execution/nonce";
+
+let chainId = 0;
+const SENDER = "0x00000000000000000000000000000000000000aa" as `0x${string}`;
+
+const draft: Omit<PendingTx, "nonce" | "hashes"> = {
+  to: "0x00000000000000000000000000000000000000bb",
+  data: "0x",
+  value: 0n,
+  gas: 21_000n,
+  fees: { maxFeePerGas: 10n, maxPriorityFeePerGas: 1n },
+  sentTs: 0,
+};
+
+/** RPC whose pending count is fixed (lags behind what was sent). */
+const rpc = (count: number) => ({ getTransactionCount: async () => count });
+
+describe("nonce manager", () => {
+  beforeEach(() => {
+    setNonceRedis(null);
+    chainId++; // fresh in-memory state per test
+  });
+
+  test("assigns consecutive nonces while the RPC count lags", async () => {
+    const a = await reserveNonce(chainId, SENDER, rpc(5), draft);
+    const b = await reserveNonce(chainId, SENDER, rpc(5), draft);
+    expect([a.nonce, b.nonce]).toEqual([5, 6]);
+    expect((await pendingTxs(chainId, SENDER)).map((t) => t.nonce)).toEqual([5, 6]);
+  });
+
+  test("concurrent reservations never share a nonce", async () => {
+    const txs = await Promise.all(
+      [1, 2, 3].map(() => reserveNonce(chainId, SENDER, rpc(0), draft)),
+    );
+    expect(txs.map((t) => t.nonce).sort()).toEqual([0, 1, 2]);
+  });
+
+  test("a released nonce is reused, a mined one is not", async () => {
+    const a = await reserveNonce(chainId, SENDER, rpc(3), draft);
+    await settleTx(chainId, SENDER, a.nonce, false); // broadcast failed
+    expect((await reserveNonce(chainId, SENDER, rpc(3), draft)).nonce).toBe(3);
+
+    await settleTx(chainId, SENDER, 3, true);
+    expect((await reserveNonce(chainId, SENDER, rpc(3), draft)).nonce).toBe(4);
+    expect((await pendingTxs(chainId, SENDER)).map((t) => t.nonce)).toEqual([4]);
+  });
+
+  test("round-trips bigint fields and flags only foreign hash-less reservations as orphans", async () => {
+    const tx = await reserveNonce(chainId, SENDER, rpc(0), draft);
+    expect(isOrphanReservation(tx)).toBe(false);
+    await trackTx(chainId, SENDER, { ...tx, hashes: ["0x01"], gas: 2n ** 70n });
+    const [stored] = await pendingTxs(chainId, SENDER);
+    expect(stored.gas).toBe(2n ** 70n);
+    expect(stored.fees.maxFeePerGas).toBe(10n);
+    expect(isOrphanReservation({ ...stored, hashes: [], owner: "other" })).toBe(true);
+  });
+});
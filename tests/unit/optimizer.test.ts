@@ -1,7 +1,12 @@
 import { describe, expect, test, beforeEach } from "bun:test";
-import { parkinsonVolatility, parkinsonVforce } from "../../src/strategy/forces";
+import { compositeForces, parkinsonVolatility, parkinsonVforce } from "../../src/strategy/forces";
+import { computeRange } from "../../src/strategy/range";
+import { simRanges } from "../../src/strategy/sim-forces";
+import { mergeForceParams } from "../../src/scheduler";
 import {
   nelderMead,
+  cmaes,
+  differentialEvolution,
   fitness,
   optimize,
   detectRegime,
@@ -9,18 +14,26 @@ import {
   defaultRangeParams,
   rangeParamsToVec,
   vecToRangeParams,
+  paramSpace,
+  forceParamsToVec,
+  vecToForceParams,
+  RANGE_SPACE,
   resetOptimizer,
   type FitnessContext,
   type KillSwitchState,
 } from "../../src/strategy/optimizer";
 import {
+  DEFAULT_FORCE_PARAMS,
+  OPT_PARAM_BOUNDS,
   NM_MAX_EVALS,
+  OPT_MAX_EVALS,
   REGIME_DISPLACEMENT_STABLE,
   REGIME_DISPLACEMENT_VOLATILE,
   REGIME_SUPPRESS_CYCLES,
   REGIME_VOL_WINDOW,
   REGIME_WIDEN_FACTOR,
   DEFAULT_CAPITAL_USD,
+  FITNESS_TRAIN_SPLIT,
 } from "../../src/config/params";
 import type { Candle } from "../../src/types";
 import { synthRandomWalk, synthM15, synthFlat } from "../helpers";
@@ -34,10 +47,10 @@ function genM15(n: number, base = 1.0, vol = 0.005, seed = SEED): Candle[] {
   return synthM15(synthRandomWalk(n * 15, base, vol, seed));
 }
 
-function baseFitnessCtx(candles?: Candle[]): FitnessContext {
+function baseFitnessCtx(candles = genM15(200)): FitnessContext {
   return {
-    candles: candles ?? genM15(200),
-    baseApr: 0.15,
+    candles,
+    baseAprs: candles.map(() => 0.15),
     poolFee: 0.0005,
     gasCostUsd: 0.5,
     positionValueUsd: 10_000,
@@ -130,15 +143,76 @@ describe("nelderMead", () => {
   });
 });
 
+// ---- Global optimizers ----
+
+describe("global optimizers", () => {
+  // Peak inside OPT_PARAM_BOUNDS, scaled per dimension by the bound width
+  const quadratic = (x: number[]) =>
+    -(
+      ((x[0] - 0.002) / 0.005) ** 2 +
+      ((x[1] - 0.03) / 0.1) ** 2 +
+      (x[2] + 0.3) ** 2 +
+      ((x[3] - 200) / 1000) ** 2 +
+      ((x[4] - 0.2) / 0.25) ** 2
+    );
+  const start = [0.001, 0.02, -0.5, 300, 0.25];
+
+  for (const [name, search] of [
+    ["cmaes", cmaes],
+    ["differentialEvolution", differentialEvolution],
+  ] as const) {
+    test(`${name} finds the optimum of a quadratic within its budget`, () => {
+      const result = search(quadratic, start, OPT_MAX_EVALS);
+      expect(result.fitness).toBeGreaterThan(-1e-3);
+      expect(Math.abs(result.best[3] - 200)).toBeLessThan(25); // within 2.5% of the bound width
+      expect(result.evals).toBeLessThanOrEqual(OPT_MAX_EVALS);
+    });
+
+    test(`${name} crosses a -Infinity plateau`, () => {
+      // Only a narrow band of rsThreshold scores at all, as with overfit rejections
+      const jagged = (x: number[]) => (Math.abs(x[4] - 0.3) < 0.02 ? quadratic(x) : -Infinity);
+      const result = search(jagged, start, OPT_MAX_EVALS);
+      expect(result.fitness).toBeGreaterThan(-Infinity);
+    });
+  }
+});
+
 // ---- Fitness function ----
 
 describe("fitness", () => {
+  test("scores the strategy's force params, not only the range params", () => {
+    const ctx = baseFitnessCtx(genM15(200, 1.0, 0.005, 21));
+    const vec = rangeParamsToVec(defaultRangeParams());
+    const unbiased = mergeForceParams({ trend: { ...DEFAULT_FORCE_PARAMS.trend, biasExp: 0 } });
+    const live = fitness(vec, ctx);
+    expect(Number.isFinite(live)).toBe(true);
+    expect(fitness(vec, { ...ctx, forceParams: unbiased })).not.toBe(live);
+  });
+
   test("returns -Infinity for insufficient candles", () => {
     const ctx = baseFitnessCtx(genM15(5));
     const vec = rangeParamsToVec(defaultRangeParams());
     expect(fitness(vec, ctx)).toBe(-Infinity);
   });
 
+  test("earns the APR series of the simulated bars", () => {
+    const ctx = baseFitnessCtx(genM15(200, 1.0, 0.005, 21));
+    const vec = rangeParamsToVec(defaultRangeParams());
+    const splitIdx = Math.floor(ctx.candles.length * FITNESS_TRAIN_SPLIT);
+    // Validation fitness: a lull in the training window alone leaves it unchanged
+    const lull = ctx.baseAprs.map((a, i) => (i < splitIdx ? a / 2 : a));
+    const spike = ctx.baseAprs.map((a, i) => (i < splitIdx ? a : a * 2));
+    const base = fitness(vec, ctx);
+    expect(fitness(vec, { ...ctx, baseAprs: lull })).toBe(base);
+    expect(fitness(vec, { ...ctx, baseAprs: spike })).toBeGreaterThan(base);
+  });
+
+  test("throws on an APR series misaligned with the candles", () => {
+    const ctx = baseFitnessCtx(genM15(200, 1.0, 0.005, 21));
+    const vec = rangeParamsToVec(defaultRangeParams());
+    expect(() => fitness(vec, { ...ctx, baseAprs: ctx.baseAprs.slice(1) })).toThrow();
+  });
+
   test("wider ranges outperform narrow in volatile trending markets", () => {
     // Deterministic seeded random walk with higher vol
     const ctx = baseFitnessCtx(genM15(300, 1.0, 0.01, SEED));
@@ -196,10 +270,9 @@ describe("fitness", () => {
         c: 1.0,
         v: 1000,
       }));
-    const ctx = baseFitnessCtx();
     const wideVec = [0.003, 0.08, -0.8, 800, 0.35];
-    const fLowVol = fitness(wideVec, { ...ctx, candles: makeCandles(0.001) });
-    const fHighVol = fitness(wideVec, { ...ctx, candles: makeCandles(0.02) });
+    const fLowVol = fitness(wideVec, baseFitnessCtx(makeCandles(0.001)));
+    const fHighVol = fitness(wideVec, baseFitnessCtx(makeCandles(0.02)));
     // Higher vol → higher annualized LVR → lower fitness
     expect(fLowVol).toBeGreaterThan(fHighVol);
   });
@@ -212,7 +285,7 @@ describe("fitness", () => {
     })));
     const ctx: FitnessContext = {
       candles: m15,
-      baseApr: 0.20,
+      baseAprs: m15.map(() => 0.20),
       poolFee: 0.003, // 30bp pool fee → refHalfW = 0.3
       gasCostUsd: 0.01,
       positionValueUsd: 10_000,
@@ -238,7 +311,7 @@ describe("fitness", () => {
     }
     const ctx: FitnessContext = {
       candles,
-      baseApr: 0.10, // moderate APR: positive in flat, negative in wild vol
+      baseAprs: candles.map(() => 0.10), // moderate APR: positive in flat, negative in wild vol
       poolFee: 0.0005,
       gasCostUsd: 0.5,
       positionValueUsd: 10_000,
@@ -265,7 +338,7 @@ describe("fitness", () => {
 describe("optimize", () => {
   beforeEach(() => resetOptimizer("test"));
 
-  test("returns params within OPT_BOUNDS", () => {
+  test("returns params within OPT_PARAM_BOUNDS", () => {
     const ctx = baseFitnessCtx(genM15(200, 1.0, 0.005, 77));
     const result = optimize(ctx, "test");
     expect(result.params.baseMin).toBeGreaterThanOrEqual(0.0001);
@@ -289,6 +362,39 @@ describe("optimize", () => {
     expect(r2.fitness).toBeGreaterThanOrEqual(r1.fitness);
   });
 
+  test("runs the requested algorithm within the shared evaluation budget", () => {
+    const ctx = baseFitnessCtx(genM15(200, 1.0, 0.005, 77));
+    for (const algorithm of ["nelder-mead", "cma-es", "differential-evolution"] as const) {
+      resetOptimizer("test");
+      const result = optimize(ctx, "test", algorithm);
+      expect(result.optimizer).toBe(algorithm);
+      expect(result.evals).toBeGreaterThan(0);
+      // NM shrink steps may overrun the last run's budget by up to DIM evaluations
+      expect(result.evals).toBeLessThanOrEqual(OPT_MAX_EVALS + 5);
+    }
+  });
+
+  test("extended space returns tuned force params within bounds", () => {
+    const ctx = { ...baseFitnessCtx(genM15(200, 1.0, 0.005, 77)), space: paramSpace("extended") };
+    const result = optimize(ctx, "test", "cma-es");
+    const { momentum, trend, mtfWeights } = result.forceParams;
+    expect(result.vec).toHaveLength(13);
+    expect(Number.isInteger(momentum.lookback)).toBe(true);
+    expect(momentum.lookback).toBeGreaterThanOrEqual(OPT_PARAM_BOUNDS.momentumLookback.lo);
+    expect(momentum.lookback).toBeLessThanOrEqual(OPT_PARAM_BOUNDS.momentumLookback.hi);
+    expect(trend.biasExp).toBeLessThanOrEqual(OPT_PARAM_BOUNDS.biasExp.hi);
+    expect(mtfWeights!.reduce((s, w) => s + w, 0)).toBeCloseTo(1, 10);
+    expect(result.params.rsThreshold).toBe(result.forceParams.rsThreshold);
+  });
+
+  test("ignores a warm-start vector from another space", () => {
+    const ctx = baseFitnessCtx(genM15(200, 1.0, 0.005, 77));
+    optimize(ctx, "test");
+    const result = optimize({ ...ctx, space: paramSpace("extended") }, "test", "differential-evolution");
+    expect(result.vec).toHaveLength(13);
+    expect(result.fitness).toBeGreaterThan(-Infinity);
+  });
+
   test("multi-restart evaluates more than a single NM initialization", () => {
     const ctx = baseFitnessCtx(genM15(200, 1.0, 0.005, 33));
     const result = optimize(ctx, "test");
@@ -470,6 +576,20 @@ describe("checkKillSwitches", () => {
     expect(r.reason).toBe("excessive_rs");
   });
 
+  test("RS window is evaluated against the supplied clock", () => {
+    const replayTs = 1_700_000_000_000;
+    const ks: KillSwitchState = {
+      trailingYields: Array(24).fill(0.01),
+      rsTimestamps: Array(9).fill(replayTs - 1000),
+      trailing24hGasUsd: 0,
+    };
+    // Historical timestamps fall outside the wall-clock window...
+    expect(checkKillSwitches(ks, 10_000, defaultRangeParams()).useDefaults).toBe(false);
+    // ...but inside the window of a replay clock
+    const r = checkKillSwitches(ks, 10_000, defaultRangeParams(), 900, replayTs);
+    expect(r.reason).toBe("excessive_rs");
+  });
+
   test("gas budget exceeded triggers defaults", () => {
     const ks: KillSwitchState = {
       trailingYields: Array(24).fill(0.01),
@@ -496,3 +616,62 @@ describe("rangeParams conversion", () => {
     expect(p2.rsThreshold).toBe(p.rsThreshold);
   });
 });
+
+describe("simRanges", () => {
+  test("reproduces the live computeRange on the candles up to each bar", () => {
+    const m15 = genM15(400, 1.0, 0.005, 9);
+    const ranges = simRanges(m15, DEFAULT_FORCE_PARAMS);
+    for (const i of [1, 37, 150, 399]) {
+      const seen = m15.slice(0, i + 1);
+      const live = computeRange(m15[i].c, compositeForces(seen, DEFAULT_FORCE_PARAMS, seen));
+      expect(ranges.min[i]).toBeCloseTo(live.min, 12);
+      expect(ranges.max[i]).toBeCloseTo(live.max, 12);
+    }
+  });
+
+  test("skews ranges with the trend", () => {
+    const m15 = genM15(200, 1.0, 0.005, 9);
+    const ranges = simRanges(m15, DEFAULT_FORCE_PARAMS);
+    // A non-zero trendBias widens one side and narrows the other
+    const skewed = m15.some(
+      (c, i) => Math.abs(ranges.max[i] - c.c - (c.c - ranges.min[i])) > 1e-9 * c.c,
+    );
+    expect(skewed).toBe(true);
+  });
+});
+
+describe("param spaces", () => {
+  test("range space matches the range param vector", () => {
+    expect(forceParamsToVec(RANGE_SPACE, DEFAULT_FORCE_PARAMS)).toEqual(
+      rangeParamsToVec(defaultRangeParams()),
+    );
+  });
+
+  test("bound overrides replace only the given dimensions", () => {
+    const space = paramSpace("extended", { trendLookback: { lo: 24, hi: 36 } });
+    expect(space.keys).toHaveLength(13);
+    expect(space.bounds[space.keys.indexOf("trendLookback")]).toEqual({ lo: 24, hi: 36 });
+    expect(space.bounds[space.keys.indexOf("biasExp")]).toEqual(OPT_PARAM_BOUNDS.biasExp);
+  });
+
+  test("decodes extended vectors onto the base params", () => {
+    const space = paramSpace("extended");
+    const vec = forceParamsToVec(space, DEFAULT_FORCE_PARAMS);
+    vec[space.keys.indexOf("momentumLookback")] = 20.6;
+    vec[space.keys.indexOf("mtfH4")] = 0.9; // weights 0.25, 0.25, 0.9 before normalization
+    vec[space.keys.indexOf("mtfM15")] = 0.25;
+    vec[space.keys.indexOf("mtfH1")] = 0.25;
+    const p = vecToForceParams(space, vec);
+    expect(p.momentum.lookback).toBe(21);
+    expect(p.mtfWeights![0]).toBeCloseTo(0.25 / 1.4, 10);
+    expect(p.mtfWeights![2]).toBeCloseTo(0.9 / 1.4, 10);
+    expect(p.volatility).toEqual(DEFAULT_FORCE_PARAMS.volatility);
+    expect(p.trend.lookback).toBe(DEFAULT_FORCE_PARAMS.trend.lookback);
+  });
+
+  test("range space leaves force-model params and MTF weights untouched", () => {
+    const p = vecToForceParams(RANGE_SPACE, rangeParamsToVec(defaultRangeParams()));
+    expect(p.mtfWeights).toBeUndefined();
+    expect(p.momentum).toEqual(DEFAULT_FORCE_PARAMS.momentum);
+  });
+});
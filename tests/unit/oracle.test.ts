@@ -0,0 +1,70 @@
+import { describe, expect, test } from "bun:test";
+import {
+  checkPriceDeviation,
+  PriceDeviationError,
+  quoteShortfall,
+  twapFromCumulatives,
+} from "../../src/execution/oracle";
+import { TOKENS } from "../../src/config/tokens";
+import type { PairConfig, PoolConfig } from "../../src/types";
+
+const pair: PairConfig = {
+  id: "USDC-USDT",
+  token0: TOKENS.USDC,
+  token1: TOKENS.USDT,
+  eoaEnvVar: "PK_USDC_USDT",
+  pools: [],
+  intervalSec: 900,
+  maxPositions: 3,
+  thresholds: { pra: 0.05, rs: 0.25 },
+};
+const pool: PoolConfig = {
+  address: "0x0000000000000000000000000000000000000001",
+  chain: 1,
+  dex: "uniswap_v3",
+};
+
+describe("twapFromCumulatives", () => {
+  test("averages the tick over the window", () => {
+    // Mean tick 100 over 300s
+    expect(twapFromCumulatives([1_000n, 31_000n], 300)).toBeCloseTo(1.0001 ** 100, 12);
+  });
+
+  test("rounds negative mean ticks towards negative infinity", () => {
+    // -301 / 300 = -1.003 → -2 (as OracleLibrary.consult)
+    expect(twapFromCumulatives([0n, -301n], 300)).toBeCloseTo(1.0001 ** -2, 12);
+    expect(twapFromCumulatives([0n, -300n], 300)).toBeCloseTo(1.0001 ** -1, 12);
+  });
+});
+
+describe("checkPriceDeviation", () => {
+  test("passes when spot, TWAP and candle agree within the limit", () => {
+    expect(() => checkPriceDeviation(pair, pool, { spot: 1.01, twap: 1.005 }, 1)).not.toThrow();
+  });
+
+  test("refuses a spot price away from the candle", () => {
+    expect(() => checkPriceDeviation(pair, pool, { spot: 1.03, twap: null }, 1)).toThrow(
+      PriceDeviationError,
+    );
+  });
+
+  test("refuses a spot price away from the TWAP", () => {
+    // Both within 2% of the candle, but 3% apart: a pool pushed mid-block
+    expect(() => checkPriceDeviation(pair, pool, { spot: 1.015, twap: 0.985 }, 1)).toThrow(
+      "spot/twap",
+    );
+  });
+
+  test("honours the pair's own limit", () => {
+    const loose = { ...pair, maxPriceDeviation: 0.05 };
+    expect(() => checkPriceDeviation(loose, pool, { spot: 1.04, twap: null }, 1)).not.toThrow();
+  });
+});
+
+describe("quoteShortfall", () => {
+  test("measures only quotes below the expected amount", () => {
+    expect(quoteShortfall(1_000n, 970n)).toBeCloseTo(0.03, 12);
+    expect(quoteShortfall(1_000n, 1_050n)).toBe(0);
+    expect(quoteShortfall(0n, 10n)).toBe(0);
+  });
+});
@@ -0,0 +1,327 @@
+import { describe, expect, test } from "bun:test";
+import { PaperLedger, lbAmountsAt, type PaperPoolQuote } from "../../src/execution/paper";
+import { paperExecutor } from "../../src/executor";
+import type { Clock } from "../../src/context";
+import { USDC, USDT } from "../../src/config/tokens";
+import { LB_BIN_ID_OFFSET } from "../../src/config/params";
+import type { DragonflyStore } from "../../src/data/store-dragonfly";
+import type { PairConfig, Range } from "../../src/types";
+import { createMockStore, makeAllocation } from "../helpers";
+
+const V3_POOL = "0x00000000000000000000000000000000000000a1" as `0x${string}`;
+const LB_POOL = "0x00000000000000000000000000000000000000b2" as `0x${string}`;
+
+const pair: PairConfig = {
+  id: "USDC-USDT",
+  token0: USDC,
+  token1: USDT,
+  eoaEnvVar: "PK_USDC_USDT",
+  pools: [
+    { address: V3_POOL, chain: 42161, dex: "uni-v3" },
+    { address: LB_POOL, chain: 43114, dex: "joe-v2.1" },
+  ],
+  intervalSec: 900,
+  maxPositions: 3,
+  thresholds: { pra: 0.05, rs: 0.25 },
+};
+
+const range: Range = {
+  min: 0.995,
+  max: 1.005,
+  base: 1,
+  breadth: 0.01,
+  confidence: 1,
+  trendBias: 0,
+  type: "neutral",
+};
+
+function setup(capitalUsd = 10_000, clock?: Clock) {
+  const quotes: Record<string, PaperPoolQuote> = {
+    [V3_POOL]: { price: 1, fee: 0.0001, tickSpacing: 1 },
+    [LB_POOL]: { price: 1, fee: 0.0001, binStep: 1 },
+  };
+  const store = createMockStore() as unknown as DragonflyStore;
+  const ledger = new PaperLedger(store, pair, {
+    capitalUsd,
+    readPool: async (_pair, pool) => quotes[pool.address],
+    readGasPrice: async () => 10_000_000n,
+    clock,
+  });
+  return { store, ledger, quotes };
+}
+
+const usdc = (chain: number) => USDC.addresses[chain];
+const usdt = (chain: number) => USDT.addresses[chain];
+
+describe("lbAmountsAt", () => {
+  const mid = LB_BIN_ID_OFFSET;
+
+  test("unchanged when the active bin has not moved", () => {
+    const [x, y] = lbAmountsAt(600, 600, mid - 5, mid + 5, mid, mid, 10);
+    expect(x).toBeCloseTo(600, 9);
+    expect(y).toBeCloseTo(600, 9);
+  });
+
+  test("price moving above the range converts all X into Y", () => {
+    const [x, y] = lbAmountsAt(600, 600, mid - 5, mid + 5, mid, mid + 10, 10);
+    expect(x).toBe(0);
+    expect(y).toBeGreaterThan(1200); // X sold at bin prices above 1
+  });
+
+  test("price moving below the range converts all Y into X", () => {
+    const [x, y] = lbAmountsAt(600, 600, mid - 5, mid + 5, mid, mid - 10, 10);
+    expect(y).toBe(0);
+    expect(x).toBeGreaterThan(1200);
+  });
+});
+
+describe("PaperLedger", () => {
+  test("seeds capital on the first pool chain and persists it", async () => {
+    const { store, ledger } = setup();
+    expect(await ledger.getBalance(42161, usdc(42161))).toBe(5_000_000_000n);
+    expect(await ledger.getBalance(42161, usdt(42161))).toBe(5_000_000_000n);
+    expect(await ledger.getBalance(43114, usdc(43114))).toBe(0n);
+    const saved = await store.getLedger();
+    expect(Object.keys(saved!)).toHaveLength(2);
+  });
+
+  test("reloads persisted balances instead of reseeding", async () => {
+    const { store, ledger } = setup();
+    await ledger.getBalance(42161, usdc(42161));
+    await store.saveLedger({ [`42161:${usdc(42161).toLowerCase()}`]: "42" });
+    const reloaded = new PaperLedger(store, pair, { readPool: async () => ({ price: 1, fee: 0 }) });
+    expect(await reloaded.getBalance(42161, usdc(42161))).toBe(42n);
+  });
+
+  test("swap charges pool fee plus haircut", async () => {
+    const { ledger } = setup();
+    const r = await ledger.swap({
+      fromChain: 42161,
+      toChain: 42161,
+      fromToken: usdc(42161),
+      toToken: usdt(42161),
+      amount: 1_000_000_000n,
+    });
+    expect(r!.amountOut).toBe(999_400_000n);
+    expect(await ledger.getBalance(42161, usdc(42161))).toBe(4_000_000_000n);
+    // 1000 * (1 - 0.0001 - 0.0005) = 999.4
+    expect(await ledger.getBalance(42161, usdt(42161))).toBe(5_999_400_000n);
+  });
+
+  test("swap fails on insufficient balance", async () => {
+    const { ledger } = setup();
+    const r = await ledger.swap({
+      fromChain: 43114,
+      toChain: 43114,
+      fromToken: usdc(43114),
+      toToken: usdt(43114),
+      amount: 1n,
+    });
+    expect(r).toBeNull();
+  });
+
+  test("bridge moves value across chains", async () => {
+    const { ledger } = setup();
+    await ledger.swap({
+      fromChain: 42161,
+      toChain: 43114,
+      fromToken: usdc(42161),
+      toToken: usdc(43114),
+      amount: 1_000_000_000n,
+    });
+    expect(await ledger.getBalance(43114, usdc(43114))).toBe(999_000_000n); // 10bp bridge cost
+  });
+
+  test("V3 mint debits balances and records liquidity", async () => {
+    const { store, ledger } = setup();
+    const alloc = makeAllocation({ pool: V3_POOL, chain: 42161, dex: "uni-v3", expectedApr: 0.1 });
+    const r = await ledger.mint(store, pair, alloc, range, 1_000_000_000n, 1_000_000_000n);
+    expect(r.position).not.toBeNull();
+    expect(r.position!.liquidity).toBeGreaterThan(0n);
+    expect(r.gasUsed).toBeGreaterThan(0n);
+    expect(r.txHash).toMatch(/^0x[0-9a-f]{64}$/);
+    const left0 = await ledger.getBalance(42161, usdc(42161));
+    expect(left0).toBe(5_000_000_000n - r.position!.amount0);
+    expect(await store.getPositions()).toHaveLength(1);
+  });
+
+  test("V3 burn returns principal in range and token1 after price runs above", async () => {
+    const { store, ledger, quotes } = setup();
+    const alloc = makeAllocation({ pool: V3_POOL, chain: 42161, dex: "uni-v3", expectedApr: 0 });
+    const { position } = await ledger.mint(
+      store,
+      pair,
+      alloc,
+      range,
+      1_000_000_000n,
+      1_000_000_000n,
+    );
+
+    const same = await ledger.burn(position!, pair);
+    expect(same!.success).toBe(true);
+    expect(Number(same!.amount0 + same!.amount1)).toBeCloseTo(
+      Number(position!.amount0 + position!.amount1),
+      -2,
+    );
+
+    quotes[V3_POOL] = { ...quotes[V3_POOL], price: 1.02 };
+    const above = await ledger.burn(position!, pair);
+    expect(above!.amount0).toBe(0n);
+    expect(above!.amount1).toBeGreaterThan(position!.amount1);
+  });
+
+  test("burn accrues fees at entry APR while in range", async () => {
+    const { store, ledger } = setup();
+    const alloc = makeAllocation({ pool: V3_POOL, chain: 42161, dex: "uni-v3", expectedApr: 0.5 });
+    const { position } = await ledger.mint(
+      store,
+      pair,
+      alloc,
+      range,
+      1_000_000_000n,
+      1_000_000_000n,
+    );
+    const aged = { ...position!, entryTs: position!.entryTs - 365.25 * 86_400_000 };
+    const r = await ledger.burn(aged, pair);
+    const principal = Number(position!.amount0 + position!.amount1);
+    expect(Number(r!.amount0 + r!.amount1) / principal).toBeCloseTo(1.5, 2);
+    expect(Number(r!.fees0 + r!.fees1) / principal).toBeCloseTo(0.5, 2);
+  });
+
+  test("fees accrue over the ledger clock, not the wall clock", async () => {
+    let now = Date.UTC(2025, 0, 1);
+    const { store, ledger } = setup(10_000, { now: () => now });
+    const alloc = makeAllocation({ pool: V3_POOL, chain: 42161, dex: "uni-v3", expectedApr: 0.5 });
+    const { position } = await ledger.mint(
+      store,
+      pair,
+      alloc,
+      range,
+      1_000_000_000n,
+      1_000_000_000n,
+    );
+    expect(position!.entryTs).toBe(now);
+    now += 365.25 * 86_400_000;
+    const r = await ledger.burn(position!, pair);
+    const principal = Number(position!.amount0 + position!.amount1);
+    expect(Number(r!.fees0 + r!.fees1) / principal).toBeCloseTo(0.5, 2);
+  });
+
+  test("marks positions at the value a burn would settle", async () => {
+    const { store, ledger, quotes } = setup();
+    const alloc = makeAllocation({ pool: V3_POOL, chain: 42161, dex: "uni-v3", expectedApr: 0.5 });
+    const { position } = await ledger.mint(
+      store,
+      pair,
+      alloc,
+      range,
+      1_000_000_000n,
+      1_000_000_000n,
+    );
+    const aged = { ...position!, entryTs: position!.entryTs - 365.25 * 86_400_000 };
+    const [mark] = await ledger.markPositions(pair, [aged]);
+    expect(mark.feesUsd / mark.hodlUsd).toBeCloseTo(0.5, 2);
+    expect(mark.valueUsd).toBeCloseTo(mark.hodlUsd + mark.feesUsd, 0);
+
+    quotes[V3_POOL] = { ...quotes[V3_POOL], price: 1.02 };
+    const [out] = await ledger.markPositions(pair, [aged]);
+    expect(out.feesUsd).toBe(0); // out of range: no accrual
+    expect(out.valueUsd).toBeLessThan(out.hodlUsd); // IL versus holding the entry amounts
+    const r = await ledger.burn(aged, pair);
+    expect(out.amount1).toBe(r!.amount1);
+  });
+
+  test("decrease withdraws pro rata of liquidity and increase adds it back", async () => {
+    const { store, ledger } = setup();
+    const alloc = makeAllocation({ pool: V3_POOL, chain: 42161, dex: "uni-v3", expectedApr: 0 });
+    const { position } = await ledger.mint(
+      store,
+      pair,
+      alloc,
+      range,
+      1_000_000_000n,
+      1_000_000_000n,
+    );
+    const before = await ledger.getBalance(42161, usdc(42161));
+    const out = await ledger.decrease(position!, pair, position!.liquidity / 4n);
+    expect(out!.success).toBe(true);
+    expect(Number(out!.amount0)).toBeCloseTo(Number(position!.amount0) / 4, -2);
+    expect(await ledger.getBalance(42161, usdc(42161))).toBe(before + out!.amount0);
+
+    const added = await ledger.increase(position!, pair, out!.amount0, out!.amount1);
+    expect(added!.liquidity).toBeGreaterThan(0n);
+    expect(added!.amount0).toBeLessThanOrEqual(out!.amount0);
+    const lb = { ...position!, dex: "joe-v2.1" as const };
+    expect(await ledger.decrease(lb, pair, 1n)).toBeNull();
+  });
+
+  test("LB mint centers bins on the active price", async () => {
+    const { store, ledger } = setup();
+    await ledger.swap({
+      fromChain: 42161,
+      toChain: 43114,
+      fromToken: usdt(42161),
+      toToken: usdt(43114),
+      amount: 1_000_000_000n,
+    });
+    await ledger.swap({
+      fromChain: 43114,
+      toChain: 43114,
+      fromToken: usdt(43114),
+      toToken: usdc(43114),
+      amount: 400_000_000n,
+    });
+    const alloc = makeAllocation({ pool: LB_POOL, chain: 43114, dex: "joe-v2.1" });
+    const usdcBal = await ledger.getBalance(43114, usdc(43114));
+    const usdtBal = await ledger.getBalance(43114, usdt(43114));
+    const { position } = await ledger.mint(store, pair, alloc, range, usdcBal, usdtBal);
+    expect(position!.positionId).toBe(`lb:${position!.tickLower}:${position!.tickUpper}`);
+    expect((position!.tickLower + position!.tickUpper) / 2).toBe(LB_BIN_ID_OFFSET);
+    expect(await ledger.getBalance(43114, usdc(43114))).toBe(0n);
+  });
+
+  test("LB increase adds at the position's bin composition", async () => {
+    const { store, ledger } = setup();
+    await ledger.swap({
+      fromChain: 42161,
+      toChain: 43114,
+      fromToken: usdt(42161),
+      toToken: usdt(43114),
+      amount: 1_000_000_000n,
+    });
+    await ledger.swap({
+      fromChain: 43114,
+      toChain: 43114,
+      fromToken: usdt(43114),
+      toToken: usdc(43114),
+      amount: 400_000_000n,
+    });
+    const alloc = makeAllocation({ pool: LB_POOL, chain: 43114, dex: "joe-v2.1" });
+    const { position } = await ledger.mint(store, pair, alloc, range, 200_000_000n, 200_000_000n);
+    const usdtBefore = await ledger.getBalance(43114, usdt(43114));
+    const added = await ledger.increase(position!, pair, 100_000_000n, 300_000_000n);
+    expect(added!.success).toBe(true);
+    expect(added!.amount0).toBe(100_000_000n);
+    expect(added!.amount1).toBe(100_000_000n);
+    expect(await ledger.getBalance(43114, usdt(43114))).toBe(usdtBefore - 100_000_000n);
+    expect(await ledger.compound(position!, pair)).toBeNull();
+  });
+});
+
+describe("paperExecutor", () => {
+  test("runs a PRA against the ledger without a private key", async () => {
+    const { store, ledger } = setup();
+    const exec = paperExecutor(ledger);
+    expect(exec.paper).toBe(true);
+    const allocations = [makeAllocation({ pool: V3_POOL, chain: 42161, dex: "uni-v3", pct: 1 })];
+    const txCount = await exec.executePRA(store, pair, allocations, "PRA", null, null, 1);
+    expect(txCount).toBe(1);
+    const positions = await store.getPositions();
+    expect(positions).toHaveLength(1);
+    expect(positions[0].entryValueUsd).toBeGreaterThan(9_000);
+
+    // Re-allocating to the same target keeps the paper position as is
+    expect(await exec.executePRA(store, pair, allocations, "PRA", null, null, 1)).toBe(0);
+    expect(await store.getPositions()).toEqual(positions);
+  });
+});
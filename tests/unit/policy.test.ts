@@ -0,0 +1,190 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import {
+  concat,
+  encodeAbiParameters,
+  encodeFunctionData,
+  toHex,
+  zeroAddress,
+  type PublicClient,
+} from "viem";
+import {
+  bindTxPolicy,
+  PolicyError,
+  recordSpend,
+  vetTx,
+  type TxPolicy,
+} from "../../src/execution/policy";
+import { ABIS, V4_POSITION_MANAGER } from "../../src/config/dexs";
+import {
+  PERMIT2,
+  V4_INCREASE_LIQUIDITY,
+  V4_SETTLE_PAIR,
+  V4_TAKE_PAIR,
+} from "../../src/config/params";
+import { USDC, USDT } from "../../src/config/tokens";
+
+const CHAIN = 1;
+const ACCOUNT = "0x00000000000000000000000000000000000000aa" as `0x${string}`;
+const OTHER = "0x00000000000000000000000000000000000000bb" as `0x${string}`;
+const PM = "0xC36442b4a4522E871399CD717aBDD847Ab11FE88" as `0x${string}`; // Uniswap V3 on mainnet
+const pub = {} as PublicClient; // only Li.Fi calldata is read on-chain
+
+const policy: TxPolicy = { token0: USDC, token1: USDT, pools: [] };
+
+const approve = (spender: `0x${string}`, amount = 1n) =>
+  encodeFunctionData({
+    abi: [ABIS.erc20.approve],
+    functionName: "approve",
+    args: [spender, amount],
+  });
+
+const modify = (actions: number[], params: `0x${string}`[]) =>
+  encodeFunctionData({
+    abi: [ABIS.v4pm.modifyLiquidities],
+    functionName: "modifyLiquidities",
+    args: [
+      encodeAbiParameters(
+        [{ type: "bytes" }, { type: "bytes[]" }],
+        [concat(actions.map((a) => toHex(a, { size: 1 }))), params],
+      ),
+      0n,
+    ],
+  });
+
+const mint = (recipient: `0x${string}`, usdc: bigint) =>
+  encodeFunctionData({
+    abi: [ABIS.univ3.mint],
+    functionName: "mint",
+    args: [
+      {
+        token0: USDC.addresses[CHAIN],
+        token1: USDT.addresses[CHAIN],
+        fee: 100,
+        tickLower: -10,
+        tickUpper: 10,
+        amount0Desired: usdc,
+        amount1Desired: 0n,
+        amount0Min: 0n,
+        amount1Min: 0n,
+        recipient,
+        deadline: 0n,
+      },
+    ],
+  });
+
+afterEach(() => bindTxPolicy(ACCOUNT, null));
+
+describe("vetTx", () => {
+  test("does not vet senders bound to no pair", async () => {
+    expect(await vetTx(pub, CHAIN, ACCOUNT, { to: OTHER, data: "0x" })).toEqual([]);
+  });
+
+  test("refuses targets outside the allowlist", async () => {
+    bindTxPolicy(ACCOUNT, policy);
+    const err = await vetTx(pub, CHAIN, ACCOUNT, { to: OTHER, data: approve(PM) }).catch((e) => e);
+    expect(err).toBeInstanceOf(PolicyError);
+    expect(err.message).toContain("target not allowlisted");
+  });
+
+  test("allows approvals of pair tokens to allowlisted spenders only", async () => {
+    bindTxPolicy(ACCOUNT, policy);
+    const to = USDC.addresses[CHAIN];
+    expect(await vetTx(pub, CHAIN, ACCOUNT, { to, data: approve(PERMIT2) })).toEqual([]);
+    await expect(vetTx(pub, CHAIN, ACCOUNT, { to, data: approve(OTHER) })).rejects.toThrow(
+      `spender ${OTHER} not allowlisted`,
+    );
+  });
+
+  test("bounds approvals by what is left of the epoch cap", async () => {
+    const account = "0x00000000000000000000000000000000000000cc" as `0x${string}`; // own ledger
+    bindTxPolicy(account, { ...policy, spendCaps: { USDC: 100 } });
+    const to = USDC.addresses[CHAIN];
+    await recordSpend(CHAIN, account, [{ token: to, amount: 60_000_000n }]);
+    expect(await vetTx(pub, CHAIN, account, { to, data: approve(PM, 40_000_000n) })).toEqual([]);
+    await expect(
+      vetTx(pub, CHAIN, account, { to, data: approve(PM, 40_000_001n) }),
+    ).rejects.toThrow("USDC approval 40.000001 over the 40 left of the epoch cap");
+    bindTxPolicy(account, null);
+  });
+
+  test("refuses selectors not used on the target", async () => {
+    bindTxPolicy(ACCOUNT, policy);
+    await expect(vetTx(pub, CHAIN, ACCOUNT, { to: PM, data: approve(PERMIT2) })).rejects.toThrow(
+      "not allowed on a pm target",
+    );
+  });
+
+  test("refuses recipients other than the account and native value", async () => {
+    bindTxPolicy(ACCOUNT, policy);
+    await expect(vetTx(pub, CHAIN, ACCOUNT, { to: PM, data: mint(OTHER, 1n) })).rejects.toThrow(
+      "is not the strategy account",
+    );
+    await expect(
+      vetTx(pub, CHAIN, ACCOUNT, { to: PM, data: mint(ACCOUNT, 1n), value: 1n }),
+    ).rejects.toThrow("native value");
+  });
+
+  test("returns a mint's spends and enforces the epoch cap", async () => {
+    bindTxPolicy(ACCOUNT, { ...policy, spendCaps: { USDC: 100 } });
+    const tx = { to: PM, data: mint(ACCOUNT, 60_000_000n) }; // 60 USDC
+    const spends = await vetTx(pub, CHAIN, ACCOUNT, tx);
+    expect(spends).toContainEqual({
+      token: USDC.addresses[CHAIN].toLowerCase(),
+      amount: 60_000_000n,
+    });
+    await recordSpend(CHAIN, ACCOUNT, spends);
+    await expect(vetTx(pub, CHAIN, ACCOUNT, tx)).rejects.toThrow(
+      "USDC spend 60 over the epoch cap (60 of 100 spent)",
+    );
+  });
+
+  test("decodes V4 action batches", async () => {
+    bindTxPolicy(ACCOUNT, policy);
+    const [c0, c1] = [USDC.addresses[CHAIN], USDT.addresses[CHAIN]];
+    const take = (recipient: `0x${string}`) =>
+      encodeAbiParameters(
+        [{ type: "address" }, { type: "address" }, { type: "address" }],
+        [c0, c1, recipient],
+      );
+    const to = V4_POSITION_MANAGER[CHAIN];
+    expect(
+      await vetTx(pub, CHAIN, ACCOUNT, { to, data: modify([V4_TAKE_PAIR], [take(ACCOUNT)]) }),
+    ).toEqual([]);
+    await expect(
+      vetTx(pub, CHAIN, ACCOUNT, { to, data: modify([V4_TAKE_PAIR], [take(OTHER)]) }),
+    ).rejects.toThrow("is not the strategy account");
+    await expect(vetTx(pub, CHAIN, ACCOUNT, { to, data: modify([0x14], ["0x"]) })).rejects.toThrow(
+      "V4 action 0x14 not allowed",
+    );
+  });
+
+  test("allows native value up to the native currency a V4 increase settles", async () => {
+    const eth = { ...USDT, symbol: "ETH", decimals: 18, addresses: { [CHAIN]: zeroAddress } };
+    bindTxPolicy(ACCOUNT, { ...policy, token1: eth });
+    const increase = encodeAbiParameters(
+      [
+        { type: "uint256" },
+        { type: "uint256" },
+        { type: "uint128" },
+        { type: "uint128" },
+        { type: "bytes" },
+      ],
+      [1n, 1n, 5n, 0n, "0x"],
+    );
+    const settle = encodeAbiParameters(
+      [{ type: "address" }, { type: "address" }],
+      [zeroAddress, USDC.addresses[CHAIN]],
+    );
+    const tx = {
+      to: V4_POSITION_MANAGER[CHAIN],
+      data: modify([V4_INCREASE_LIQUIDITY, V4_SETTLE_PAIR], [increase, settle]),
+    };
+    expect(await vetTx(pub, CHAIN, ACCOUNT, { ...tx, value: 5n })).toContainEqual({
+      token: zeroAddress,
+      amount: 5n,
+    });
+    await expect(vetTx(pub, CHAIN, ACCOUNT, { ...tx, value: 6n })).rejects.toThrow(
+      "native value 6 over the 5 the call settles",
+    );
+  });
+});
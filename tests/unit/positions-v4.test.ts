@@ -1,5 +1,9 @@
 import { describe, expect, test } from "bun:test";
-import { tickToSqrtPriceX96, computeLiquidity } from "../../src/execution/positions-v4";
+import {
+  tickToSqrtPriceX96,
+  computeLiquidity,
+  amountsForLiquidity,
+} from "../../src/execution/positions-v4";
 import { Q96, V4_MAX_TICK } from "../../src/config/params";
 
 // ---- tickToSqrtPriceX96 ----
@@ -151,3 +155,21 @@ describe("computeLiquidity", () => {
     expect(large).toBeGreaterThan(small);
   });
 });
+
+// ---- amountsForLiquidity ----
+
+describe("amountsForLiquidity", () => {
+  test("round-trips computeLiquidity in range", () => {
+    const sqrtP = tickToSqrtPriceX96(0);
+    const L = computeLiquidity(sqrtP, -50, 50, 10n ** 24n, 10n ** 24n);
+    const [a0, a1] = amountsForLiquidity(sqrtP, -50, 50, L);
+    expect(a0 <= 10n ** 24n && a1 <= 10n ** 24n).toBe(true);
+    expect(Number(a0 < a1 ? a0 : a1) / 1e24).toBeCloseTo(1, 6);
+  });
+
+  test("holds a single token outside the range", () => {
+    const L = 10n ** 20n;
+    expect(amountsForLiquidity(tickToSqrtPriceX96(-100), -50, 50, L)[1]).toBe(0n);
+    expect(amountsForLiquidity(tickToSqrtPriceX96(100), -50, 50, L)[0]).toBe(0n);
+  });
+});
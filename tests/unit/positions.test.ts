@@ -1,6 +1,8 @@
 import { describe, expect, test } from "bun:test";
 import {
   applySlippage,
+  applySlippageMax,
+  poolSlippageBps,
   extractTokenIdFromLogs,
   extractCollectedAmounts,
 } from "../../src/execution/positions";
@@ -49,6 +51,29 @@ describe("applySlippage", () => {
   });
 });
 
+// ---- applySlippageMax / poolSlippageBps ----
+
+describe("applySlippageMax", () => {
+  test("adds slippage and one wei of rounding", () => {
+    expect(applySlippageMax(10000n)).toBe(10051n);
+    expect(applySlippageMax(10000n, 100)).toBe(10101n);
+    expect(applySlippageMax(0n)).toBe(1n);
+  });
+});
+
+describe("poolSlippageBps", () => {
+  const pair = { slippageBps: { "0xAbC0000000000000000000000000000000000001": 200 } } as any;
+
+  test("uses the pool's setting, matching addresses case-insensitively", () => {
+    expect(poolSlippageBps(pair, "0xabc0000000000000000000000000000000000001")).toBe(200);
+  });
+
+  test("falls back to the default for other pools", () => {
+    expect(poolSlippageBps(pair, "0x0000000000000000000000000000000000000002")).toBe(50);
+    expect(poolSlippageBps({} as any, "0x0000000000000000000000000000000000000002")).toBe(50);
+  });
+});
+
 // ---- extractTokenIdFromLogs ----
 
 const ERC721_TRANSFER_SIG =
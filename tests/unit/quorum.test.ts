@@ -0,0 +1,83 @@
+import { afterAll, afterEach, describe, expect, test } from "bun:test";
+import { agrees, quorumRead, QuorumError } from "../../src/execution/quorum";
+import { setChainRpcs } from "../../src/config/chains";
+import { invalidateClients } from "../../src/execution/tx";
+import { ABIS } from "../../src/config/dexs";
+
+// Local JSON-RPC endpoints: each reports a head block and a balanceOf result
+const CHAIN = 43114; // 2s blocks: heads may be 3 blocks apart
+const servers: ReturnType<typeof Bun.serve>[] = [];
+
+function endpoint(head: number, balance: bigint): string {
+  const server = Bun.serve({
+    port: 0,
+    async fetch(req) {
+      const { id, method } = (await req.json()) as { id: number; method: string };
+      const result =
+        method === "eth_blockNumber"
+          ? `0x${head.toString(16)}`
+          : `0x${balance.toString(16).padStart(64, "0")}`;
+      return Response.json({ jsonrpc: "2.0", id, result });
+    },
+  });
+  servers.push(server);
+  return `http://localhost:${server.port}`;
+}
+
+const balanceOf = {
+  address: "0x0000000000000000000000000000000000000001" as const,
+  abi: [ABIS.erc20.balanceOf],
+  functionName: "balanceOf",
+  args: ["0x0000000000000000000000000000000000000002"],
+};
+
+afterEach(() => {
+  delete process.env.RPC_QUORUM;
+  setChainRpcs(CHAIN, []);
+  invalidateClients(CHAIN);
+});
+
+afterAll(() => {
+  for (const s of servers) s.stop(true);
+});
+
+describe("agrees", () => {
+  test("compares tuples element-wise, numbers within tolerance", () => {
+    expect(agrees([1000n, 5, "0xab"], [1000n, 5, "0xab"])).toBe(true);
+    expect(agrees([1000n, 5], [1001n, 5])).toBe(false);
+    expect(agrees([1000n, 5], [1001n, 5], 0.001)).toBe(true);
+    expect(agrees({ tick: 10 }, { tick: 11 })).toBe(false);
+    expect(agrees("0xab", "0xac")).toBe(false);
+  });
+});
+
+describe("quorumRead", () => {
+  test("returns the value when endpoints agree", async () => {
+    process.env.RPC_QUORUM = "2";
+    setChainRpcs(CHAIN, [endpoint(100, 42n), endpoint(99, 42n)]);
+    expect(await quorumRead<bigint>(CHAIN, balanceOf)).toBe(42n);
+  });
+
+  test("refuses when endpoints disagree", async () => {
+    process.env.RPC_QUORUM = "2";
+    setChainRpcs(CHAIN, [endpoint(100, 42n), endpoint(100, 41n)]);
+    const err = await quorumRead(CHAIN, balanceOf).catch((e) => e);
+    expect(err).toBeInstanceOf(QuorumError);
+    expect(err.message).toContain("disagree on balanceOf");
+  });
+
+  test("refuses when an endpoint is several blocks behind", async () => {
+    process.env.RPC_QUORUM = "2";
+    const stale = endpoint(90, 42n);
+    setChainRpcs(CHAIN, [endpoint(100, 42n), stale]);
+    const err = await quorumRead(CHAIN, balanceOf).catch((e) => e);
+    expect(err).toBeInstanceOf(QuorumError);
+    expect(err.message).toContain(`${stale} is 10 blocks behind`);
+  });
+
+  test("reads a single endpoint when quorum is off", async () => {
+    setChainRpcs(CHAIN, [endpoint(100, 7n), endpoint(100, 8n)]);
+    invalidateClients(CHAIN); // as on RPC_CHANGED
+    expect(await quorumRead<bigint>(CHAIN, balanceOf)).toBe(7n);
+  });
+});
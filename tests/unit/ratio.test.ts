@@ -0,0 +1,94 @@
+import { describe, expect, test } from "bun:test";
+import {
+  clmmToken0Share,
+  lbToken0Share,
+  mintToken0Share,
+  positionToken0Share,
+  splitByShare,
+} from "../../src/execution/ratio";
+import {
+  amountsForLiquidity,
+  computeLiquidity,
+  tickToSqrtPriceX96,
+} from "../../src/execution/positions-v4";
+import { priceToTick } from "../../shared/format";
+import { rangeToTicks } from "../../src/strategy/range";
+import type { Range } from "../../src/types";
+
+const range = (min: number, max: number): Range => ({
+  min,
+  max,
+  base: 1,
+  breadth: max - min,
+  confidence: 1,
+  trendBias: 0,
+  type: "neutral",
+});
+
+describe("clmmToken0Share", () => {
+  test("is all token0 below the range and all token1 above it", () => {
+    expect(clmmToken0Share(0.9, -100, 100)).toBe(1);
+    expect(clmmToken0Share(1.1, -100, 100)).toBe(0);
+  });
+
+  test("leans towards token0 when the price sits near the lower bound", () => {
+    expect(clmmToken0Share(1, -50, 2000)).toBeGreaterThan(0.9);
+    expect(clmmToken0Share(1, -2000, 50)).toBeLessThan(0.1);
+  });
+
+  test("amounts split at the share are used in full by computeLiquidity", () => {
+    const [lower, upper] = [-300, 900];
+    const share0 = clmmToken0Share(1, lower, upper);
+    const [h0, h1] = splitByShare(10_000, share0, 1);
+    const [a0, a1] = [BigInt(Math.floor(h0 * 1e6)), BigInt(Math.floor(h1 * 1e6))];
+    const sqrtP = tickToSqrtPriceX96(priceToTick(1));
+    const liquidity = computeLiquidity(sqrtP, lower, upper, a0, a1);
+    const [used0, used1] = amountsForLiquidity(sqrtP, lower, upper, liquidity);
+    expect(Number(used0) / Number(a0)).toBeCloseTo(1, 4);
+    expect(Number(used1) / Number(a1)).toBeCloseTo(1, 4);
+  });
+});
+
+describe("mintToken0Share", () => {
+  test("LB funds both sides of the symmetric bin layout equally", () => {
+    expect(lbToken0Share()).toBe(0.5);
+    expect(mintToken0Share("joe-v2.1", range(0.9, 1.3), 1, 1)).toBe(0.5);
+  });
+
+  test("CLMM share follows the target range", () => {
+    expect(mintToken0Share("uni-v3", range(0.999, 1.05), 1, 1)).toBeGreaterThan(0.9);
+  });
+
+  test("CLMM share is taken over the range aligned to the pool's tick spacing", () => {
+    const r = range(0.999, 1.05);
+    const { tickLower, tickUpper } = rangeToTicks(r, 200);
+    expect(mintToken0Share("uni-v3", r, 1, 200)).toBeCloseTo(
+      clmmToken0Share(1, tickLower, tickUpper),
+      12,
+    );
+    expect(mintToken0Share("uni-v3", r, 1, 200)).not.toBeCloseTo(
+      mintToken0Share("uni-v3", r, 1, 1),
+      3,
+    );
+  });
+});
+
+describe("positionToken0Share", () => {
+  test("LB increases fund both sides of the position's bins equally", () => {
+    const pos = { dex: "joe-v2.1" as const, tickLower: 8_388_598, tickUpper: 8_388_618 };
+    expect(positionToken0Share(pos, 1.2)).toBe(0.5);
+  });
+
+  test("CLMM increases follow the position's ticks", () => {
+    const pos = { dex: "uni-v3" as const, tickLower: -100, tickUpper: 100 };
+    expect(positionToken0Share(pos, 0.9)).toBe(1);
+  });
+});
+
+describe("splitByShare", () => {
+  test("values token0 at the pair price", () => {
+    const [a0, a1] = splitByShare(1_000, 0.25, 2);
+    expect(a0).toBe(125);
+    expect(a1).toBe(750);
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, expect, test } from "bun:test";
+import { diffPositions, lbRuns, type OnChainPosition } from "../../src/execution/reconcile";
+import { makePosition } from "../helpers";
+
+const POOL = "0x00000000000000000000000000000000000000a1" as `0x${string}`;
+const LB_POOL = "0x00000000000000000000000000000000000000b2" as `0x${string}`;
+
+function onChain(overrides?: Partial<OnChainPosition>): OnChainPosition {
+  return {
+    chain: 1,
+    pool: POOL,
+    dex: "uni-v3",
+    positionId: "42",
+    tickLower: -100,
+    tickUpper: 100,
+    liquidity: 5000n,
+    ...overrides,
+  };
+}
+
+describe("diffPositions", () => {
+  test("reports nothing when store and chain agree", () => {
+    const issues = diffPositions([makePosition({ pool: POOL })], [onChain()], new Map());
+    expect(issues).toEqual([]);
+  });
+
+  test("flags owned positions missing from the store as orphans", () => {
+    const issues = diffPositions(
+      [],
+      [onChain({ positionId: "7" }), onChain({ positionId: "8", liquidity: 0n })],
+      new Map(),
+    );
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ kind: "orphan", positionId: "7", onChainLiquidity: 5000n });
+  });
+
+  test("flags stored positions with no on-chain liquidity as ghosts", () => {
+    const stored = [
+      makePosition({ id: "a", pool: POOL, positionId: "42" }),
+      makePosition({ id: "b", pool: POOL, positionId: "43" }),
+    ];
+    const issues = diffPositions(stored, [onChain({ positionId: "43", liquidity: 0n })], new Map());
+    expect(issues.map((i) => [i.kind, i.storeId])).toEqual([
+      ["ghost", "a"],
+      ["ghost", "b"],
+    ]);
+  });
+
+  test("flags liquidity drift beyond tolerance only", () => {
+    const stored = [
+      makePosition({ id: "a", pool: POOL, positionId: "1", liquidity: 1_000_000n }),
+      makePosition({ id: "b", pool: POOL, positionId: "2", liquidity: 0n }),
+    ];
+    const issues = diffPositions(
+      stored,
+      [
+        onChain({ positionId: "1", liquidity: 1_000_100n }),
+        onChain({ positionId: "2", liquidity: 900n }),
+      ],
+      new Map(),
+    );
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({
+      kind: "mismatch",
+      storeId: "b",
+      storedLiquidity: 0n,
+      onChainLiquidity: 900n,
+    });
+  });
+
+  test("resolves pending mints from their receipt tokenId", () => {
+    const stored = [
+      makePosition({ id: "a", pool: POOL, positionId: "pending:0xabc" }),
+      makePosition({ id: "b", pool: POOL, positionId: "pending:0xdef" }),
+    ];
+    const resolved = new Map([
+      ["a", "99"],
+      ["b", null],
+    ]);
+    const issues = diffPositions(stored, [onChain({ positionId: "99" })], resolved);
+    expect(issues).toEqual([
+      expect.objectContaining({
+        kind: "pending",
+        storeId: "a",
+        positionId: "99",
+        onChainLiquidity: 5000n,
+      }),
+      expect.objectContaining({ kind: "ghost", storeId: "b", positionId: "pending:0xdef" }),
+    ]);
+  });
+
+  test("matches LB positions on bin overlap", () => {
+    const stored = [
+      makePosition({
+        id: "lb",
+        pool: LB_POOL,
+        dex: "joe-v2.1",
+        positionId: "lb:10:20",
+        tickLower: 10,
+        tickUpper: 20,
+        liquidity: 0n,
+      }),
+      makePosition({
+        id: "gone",
+        pool: LB_POOL,
+        dex: "joe-v2.1",
+        positionId: "lb:40:45",
+        tickLower: 40,
+        tickUpper: 45,
+        liquidity: 0n,
+      }),
+    ];
+    const runs = [
+      onChain({
+        pool: LB_POOL,
+        dex: "joe-v2.1",
+        positionId: "lb:12:18",
+        tickLower: 12,
+        tickUpper: 18,
+        liquidity: 10n,
+      }),
+      onChain({
+        pool: LB_POOL,
+        dex: "joe-v2.1",
+        positionId: "lb:60:61",
+        tickLower: 60,
+        tickUpper: 61,
+        liquidity: 3n,
+      }),
+    ];
+    const issues = diffPositions(stored, runs, new Map());
+    expect(issues.map((i) => [i.kind, i.positionId])).toEqual([
+      ["ghost", "lb:40:45"],
+      ["orphan", "lb:60:61"],
+    ]);
+  });
+});
+
+describe("lbRuns", () => {
+  test("groups contiguous owned bins", () => {
+    const ids = [1, 2, 3, 4, 5, 7, 8];
+    const bals = [0n, 5n, 5n, 0n, 1n, 2n, 2n];
+    expect(lbRuns(ids, bals)).toEqual([
+      { lower: 2, upper: 3, total: 10n },
+      { lower: 5, upper: 5, total: 1n },
+      { lower: 7, upper: 8, total: 4n },
+    ]);
+  });
+});
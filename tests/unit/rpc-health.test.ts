@@ -0,0 +1,121 @@
+import { describe, expect, test } from "bun:test";
+import { custom, HttpRequestError } from "viem";
+import {
+  isEndpointFault,
+  rankRpcs,
+  recordRpcBlock,
+  recordRpcCall,
+  refreshRank,
+  rpcHealth,
+  trackTransport,
+} from "../../src/execution/rpc-health";
+
+// Chain 1 (12s blocks); every test registers its own endpoint list, which resets the ranking
+const CHAIN = 1;
+let n = 0;
+const urls = (count: number) => Array.from({ length: count }, () => `https://rpc${++n}.test`);
+
+function sample(url: string, latencyMs: number, times = 3, ok = true) {
+  for (let i = 0; i < times; i++) recordRpcCall(CHAIN, url, latencyMs, ok);
+}
+
+const health = (url: string) => rpcHealth(CHAIN).find((h) => h.url === url)!;
+
+describe("rpcHealth", () => {
+  test("scores by latency, inflated by errors and block lag", () => {
+    const [fast, flaky, stale] = urls(3);
+    sample(fast, 100);
+    sample(flaky, 100);
+    recordRpcCall(CHAIN, flaky, 100, false);
+    sample(stale, 100);
+    recordRpcBlock(CHAIN, fast, 1_000);
+    recordRpcBlock(CHAIN, flaky, 1_000);
+    recordRpcBlock(CHAIN, stale, 999);
+
+    expect(health(fast).score).toBeCloseTo(100, 6);
+    expect(health(flaky).errorRate).toBeCloseTo(0.2, 6);
+    expect(health(flaky).score).toBeGreaterThan(health(fast).score);
+    expect(health(stale).blockLag).toBe(1);
+    expect(health(stale).score).toBeCloseTo(100 + 12_000, 6);
+  });
+
+  test("ejects endpoints that error too often or trail the head", () => {
+    const [ok, failing, behind] = urls(3);
+    sample(ok, 50);
+    sample(failing, 50, 3, false);
+    sample(behind, 50);
+    recordRpcBlock(CHAIN, ok, 2_000);
+    recordRpcBlock(CHAIN, behind, 1_990); // 120s behind on 12s blocks
+    expect(health(ok).ejected).toBe(false);
+    expect(health(failing).ejected).toBe(true);
+    expect(health(behind).ejected).toBe(true);
+  });
+});
+
+describe("refreshRank", () => {
+  test("keeps configured order until endpoints have enough samples", () => {
+    const rpcs = urls(2);
+    expect(rankRpcs(CHAIN, rpcs)).toEqual(rpcs);
+    recordRpcCall(CHAIN, rpcs[1], 10, true);
+    expect(refreshRank(CHAIN)).toBe(false);
+    expect(rankRpcs(CHAIN, rpcs)).toEqual(rpcs);
+  });
+
+  test("promotes a clearly faster endpoint and drops ejected ones", () => {
+    const [a, b, c] = urls(3);
+    rankRpcs(CHAIN, [a, b, c]);
+    sample(a, 400);
+    sample(b, 100);
+    sample(c, 100, 3, false);
+    expect(refreshRank(CHAIN)).toBe(true);
+    expect(rankRpcs(CHAIN, [a, b, c])).toEqual([b, a]);
+  });
+
+  test("does not switch primary for a marginal gain", () => {
+    const [a, b] = urls(2);
+    rankRpcs(CHAIN, [a, b]);
+    sample(a, 110);
+    sample(b, 100);
+    expect(refreshRank(CHAIN)).toBe(false);
+    expect(rankRpcs(CHAIN, [a, b])[0]).toBe(a);
+  });
+
+  test("keeps the best endpoint when all are ejected", () => {
+    const [a, b] = urls(2);
+    rankRpcs(CHAIN, [a, b]);
+    sample(a, 500, 3, false);
+    sample(b, 100, 3, false);
+    refreshRank(CHAIN);
+    expect(rankRpcs(CHAIN, [a, b])).toEqual([b]);
+  });
+});
+
+describe("trackTransport", () => {
+  test("records latency, head block and transport faults, not reverts", async () => {
+    const [url] = urls(1);
+    const transport = trackTransport(
+      CHAIN,
+      url,
+      custom({
+        request: async ({ method }) => {
+          if (method === "eth_blockNumber") return "0x10";
+          if (method === "eth_call") throw new Error("execution reverted");
+          throw new HttpRequestError({ url });
+        },
+      }),
+    );
+    const { request } = transport({ retryCount: 0 }); // one attempt per call keeps counts exact
+    await request({ method: "eth_blockNumber" });
+    await expect(request({ method: "eth_call" })).rejects.toThrow();
+    await expect(request({ method: "eth_getBalance" })).rejects.toThrow();
+    const h = health(url);
+    expect(h.blockNumber).toBe(16);
+    expect(h.samples).toBe(2);
+    expect(h.errorRate).toBeCloseTo(0.2, 6);
+  });
+
+  test("classifies connection errors as endpoint faults", () => {
+    expect(isEndpointFault(new HttpRequestError({ url: "https://x.test" }))).toBe(true);
+    expect(isEndpointFault(new Error("execution reverted"))).toBe(false);
+  });
+});
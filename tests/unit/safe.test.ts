@@ -0,0 +1,113 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import {
+  createPublicClient,
+  decodeFunctionData,
+  encodeAbiParameters,
+  encodeFunctionData,
+  http,
+  keccak256,
+  recoverAddress,
+  toHex,
+  zeroHash,
+  type PublicClient,
+} from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { adapterId, wrapSafeTx } from "../../src/execution/safe";
+import { strategySigner } from "../../src/execution/tx";
+import { ABIS } from "../../src/config/dexs";
+import { LIFI_DIAMOND } from "../../src/config/params";
+import { USDC } from "../../src/config/tokens";
+
+const CHAIN = 1;
+const SESSION_KEY = privateKeyToAccount(
+  "0x0000000000000000000000000000000000000000000000000000000000000002",
+);
+const SAFE = "0x0000000000000000000000000000000000000500" as `0x${string}`;
+const MODULE = "0x0000000000000000000000000000000000000600" as `0x${string}`;
+const PM = "0xC36442b4a4522E871399CD717aBDD847Ab11FE88" as `0x${string}`; // Uniswap V3 on mainnet
+const SAFE_NONCE = 7n;
+
+// Stub Safe: answers nonce() and getTransactionHash() (hash of the encoded call) over eth_call
+const stubAbi = [ABIS.safe.nonce, ABIS.safe.getTransactionHash];
+let safeTxHash: { args: readonly unknown[]; hash: `0x${string}` } | null = null;
+const server = Bun.serve({
+  port: 0,
+  async fetch(req) {
+    const { id, method, params } = (await req.json()) as {
+      id: number;
+      method: string;
+      params: [{ to: string; data: `0x${string}` }];
+    };
+    if (method !== "eth_call" || params[0].to.toLowerCase() !== SAFE.toLowerCase())
+      return Response.json({ jsonrpc: "2.0", id, error: { code: -32601, message: method } });
+    const call = decodeFunctionData({ abi: stubAbi, data: params[0].data });
+    const result =
+      call.functionName === "nonce"
+        ? encodeAbiParameters([{ type: "uint256" }], [SAFE_NONCE])
+        : keccak256(params[0].data);
+    if (call.functionName === "getTransactionHash") safeTxHash = { args: call.args, hash: result };
+    return Response.json({ jsonrpc: "2.0", id, result });
+  },
+});
+const pub = createPublicClient({
+  transport: http(`http://localhost:${server.port}`),
+}) as PublicClient;
+
+afterAll(() => server.stop(true));
+
+const approve = encodeFunctionData({
+  abi: [ABIS.erc20.approve],
+  functionName: "approve",
+  args: [PM, 1n],
+});
+const tx = { to: USDC.addresses[CHAIN], data: approve, value: 0n };
+
+describe("adapterId", () => {
+  test("maps Li.Fi, CLMM position managers and approvals to their adapters", () => {
+    expect(adapterId(CHAIN, LIFI_DIAMOND, "0x")).toBe(toHex("lifi", { size: 32 }));
+    expect(adapterId(CHAIN, PM, "0x")).toBe(toHex("univ3", { size: 32 }));
+    expect(adapterId(CHAIN, tx.to, approve)).toBe(toHex("erc20", { size: 32 }));
+    expect(adapterId(CHAIN, SAFE, "0x")).toBe(zeroHash);
+  });
+});
+
+describe("wrapSafeTx", () => {
+  test("wraps as a module execution where the chain has a module", async () => {
+    const safe = { address: SAFE, modules: { [CHAIN]: MODULE } };
+    const sent = await wrapSafeTx(pub, CHAIN, safe, SESSION_KEY, tx);
+    expect(sent.to).toBe(MODULE);
+    expect(sent.value).toBe(0n);
+    const { args } = decodeFunctionData({ abi: [ABIS.policyModule.execute], data: sent.data });
+    expect(args).toEqual([toHex("erc20", { size: 32 }), tx.to, approve, 0n, SAFE, 0n]);
+  });
+
+  test("wraps as a Safe transaction at the Safe's nonce, signed by the session key", async () => {
+    const sent = await wrapSafeTx(pub, CHAIN, { address: SAFE }, SESSION_KEY, tx);
+    expect(sent.to).toBe(SAFE);
+    const { args } = decodeFunctionData({ abi: [ABIS.safe.execTransaction], data: sent.data });
+    expect(args.slice(0, 4)).toEqual([tx.to, 0n, approve, 0]);
+    expect(safeTxHash!.args).toEqual([...args.slice(0, 9), SAFE_NONCE]);
+
+    // The signature recovers to the session key over the hash the Safe computed
+    const signer = await recoverAddress({ hash: safeTxHash!.hash, signature: args[9] });
+    expect(signer).toBe(SESSION_KEY.address);
+  });
+});
+
+describe("strategySigner", () => {
+  test("signs for the EOA by default and for the Safe in safe mode", () => {
+    const eoa = strategySigner({ name: "S1" }, SESSION_KEY);
+    expect(eoa).toMatchObject({ mode: "eoa", address: SESSION_KEY.address });
+    const safe = strategySigner(
+      { name: "S1", signer: "safe", safe: { address: SAFE } },
+      SESSION_KEY,
+    );
+    expect(safe).toMatchObject({ mode: "safe", account: SESSION_KEY, address: SAFE });
+  });
+
+  test("refuses safe mode without a Safe", () => {
+    expect(() => strategySigner({ name: "S1", signer: "safe" }, SESSION_KEY)).toThrow(
+      "needs a safe address",
+    );
+  });
+});
@@ -1,6 +1,17 @@
-import { describe, expect, test } from "bun:test";
+import { describe, expect, test, mock } from "bun:test";
 import { DEFAULT_FORCE_PARAMS } from "../../src/config/params";
-import { mergeForceParams } from "../../src/scheduler";
+import {
+  mergeForceParams,
+  poolClusters,
+  poolTargetRanges,
+  runSingleCycle,
+} from "../../src/scheduler";
+import { NEUTRAL_FORCES } from "../../src/strategy/forces";
+import { fixedClock, type CycleContext } from "../../src/context";
+import { eoaSigner, getAccount } from "../../src/execution/tx";
+import { registerPair } from "../../src/state";
+import type { PairConfig, PoolAnalysis, PoolConfig, Range } from "../../src/types";
+import { createMockStore, makeSnapshot, synthRandomWalk } from "../helpers";
 
 describe("mergeForceParams", () => {
   test("returns defaults when no partial provided", () => {
@@ -59,3 +70,237 @@ describe("mergeForceParams", () => {
     expect(r2.rsThreshold).toBe(DEFAULT_FORCE_PARAMS.rsThreshold);
   });
 });
+
+describe("poolClusters", () => {
+  const pools: PoolConfig[] = [
+    { address: "0x00000000000000000000000000000000000000a1", chain: 1, dex: "uni-v3" },
+    { address: "0x00000000000000000000000000000000000000a2", chain: 8453, dex: "uni-v3" },
+    { address: "0x00000000000000000000000000000000000000a3", chain: 1, dex: "uni-v3" },
+  ];
+
+  test("groups pools by DEX family and fee tier", () => {
+    const clusters = poolClusters(pools, [
+      makeSnapshot({ pool: pools[0].address, chain: 1, feePct: 0.0005, tvl: 1_000_000 }),
+      makeSnapshot({ pool: pools[1].address, chain: 8453, feePct: 0.0005, tvl: 3_000_000 }),
+      makeSnapshot({ pool: pools[2].address, chain: 1, feePct: 0.003, tvl: 1_000_000 }),
+    ]);
+    expect(clusters.map((c) => c.key).sort()).toEqual(["v3:0.0005", "v3:0.003"]);
+    const low = clusters.find((c) => c.key === "v3:0.0005")!;
+    expect(low.pools).toEqual([`1:${pools[0].address}`, `8453:${pools[1].address}`]);
+    expect(low.tvl).toBe(4_000_000);
+  });
+
+  test("joins pools without a snapshot through their stored analysis", () => {
+    const stored = { pool: pools[2].address, chain: 1, feePct: 0.003, tvl: 500_000, apr: 0.4 };
+    const clusters = poolClusters(pools, [], [stored as PoolAnalysis]);
+    expect(clusters).toEqual([
+      {
+        key: "v3:0.003",
+        pools: [`1:${pools[2].address}`],
+        feePct: 0.003,
+        baseApr: 0.4,
+        tvl: 500_000,
+      },
+    ]);
+  });
+});
+
+describe("poolTargetRanges", () => {
+  const pools: PoolConfig[] = [
+    { address: "0x00000000000000000000000000000000000000b1", chain: 1, dex: "uni-v3" },
+    { address: "0x00000000000000000000000000000000000000b2", chain: 1, dex: "uni-v3" },
+  ];
+  const params = mergeForceParams();
+  const tuned = mergeForceParams({ baseRange: { min: 0.05, max: 0.2 }, rsThreshold: 0.4 });
+
+  test("ranges each pool with its tuned params, others with the strategy params", () => {
+    const { ranges, rsThresholds } = poolTargetRanges(
+      pools,
+      new Map([[`1:${pools[1].address}`, tuned]]),
+      params,
+      NEUTRAL_FORCES,
+      1,
+      1,
+      () => NEUTRAL_FORCES,
+    );
+    const base = ranges.get(`1:${pools[0].address}`)!;
+    const wide = ranges.get(`1:${pools[1].address}`)!;
+    expect(wide.max - wide.min).toBeGreaterThan(base.max - base.min);
+    expect(rsThresholds.get(`1:${pools[0].address}`)).toBe(params.rsThreshold);
+    expect(rsThresholds.get(`1:${pools[1].address}`)).toBe(0.4);
+  });
+
+  test("recomputes forces only for a distinct force model", () => {
+    const lookbacks = mergeForceParams({ volatility: { lookback: 48, criticalForce: 20 } });
+    const forcesFor = mock(() => NEUTRAL_FORCES);
+    poolTargetRanges(
+      pools,
+      new Map([
+        [`1:${pools[0].address}`, tuned],
+        [`1:${pools[1].address}`, lookbacks],
+      ]),
+      params,
+      NEUTRAL_FORCES,
+      1,
+      1,
+      forcesFor,
+    );
+    expect(forcesFor).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("runSingleCycle with injected context", () => {
+  const pool = "0x00000000000000000000000000000000000000c1" as `0x${string}`;
+  const pair: PairConfig = {
+    id: "CTX-TEST",
+    token0: { symbol: "USDC", decimals: 6, addresses: {} },
+    token1: { symbol: "USDT", decimals: 6, addresses: {} },
+    eoaEnvVar: "PK_CTX_TEST",
+    pools: [{ address: pool, chain: 42161, dex: "uni-v3" }],
+    intervalSec: 900,
+    maxPositions: 3,
+    thresholds: { pra: 0.05, rs: 0.25 },
+  };
+  const candles = synthRandomWalk(50, 1.0, 0.0002, 3);
+  const now = candles[candles.length - 1].ts + 60_000;
+
+  function fixtureContext(): CycleContext {
+    return {
+      clock: fixedClock(now),
+      candles: { fetchLatestM1: async () => candles },
+      snapshots: {
+        fetchPoolSnapshots: async () => [
+          makeSnapshot({ pool, chain: 42161, ts: now, volume24h: 2_000_000, tvl: 2_000_000 }),
+        ],
+      },
+      o2: {
+        getLastSnapshot: async () => null,
+        getRecentYields: async () => [],
+        getRecentRsTimestamps: async () => [],
+        getTrailingGasUsd: async () => ({ gasUsd: 0, unpriced: {} }),
+        getEpochSnapshots: async () => [],
+        getPoolAprs: async () => [],
+      },
+      executor: { executePRA: mock(async () => 2), executeRS: mock(async () => 0) },
+    };
+  }
+
+  test("stamps the decision with the injected clock", async () => {
+    const store = createMockStore();
+    registerPair(pair.id, store as any, pair);
+    const d = await runSingleCycle(store as any, pair, null, undefined, fixtureContext());
+    expect(d.ts).toBe(now);
+    expect(d.targetAllocations.length).toBeGreaterThan(0);
+  });
+
+  test("routes execution through the injected executor", async () => {
+    const store = createMockStore();
+    registerPair(pair.id, store as any, pair);
+    const ctx = fixtureContext();
+    const signer = eoaSigner(
+      getAccount("0x0000000000000000000000000000000000000000000000000000000000000001"),
+    );
+    const d = await runSingleCycle(store as any, pair, signer, undefined, ctx);
+    expect(d.type).toBe("PRA");
+    expect(ctx.executor.executePRA).toHaveBeenCalledTimes(1);
+  });
+
+  test("executes without a private key only for paper executors", async () => {
+    const run = async (paper: boolean) => {
+      const store = createMockStore();
+      registerPair(pair.id, store as any, pair);
+      const ctx = fixtureContext();
+      ctx.executor.paper = paper;
+      await runSingleCycle(store as any, pair, null, undefined, ctx);
+      return ctx.executor.executePRA;
+    };
+    expect(await run(false)).not.toHaveBeenCalled();
+    expect(await run(true)).toHaveBeenCalledTimes(1);
+  });
+
+  test("is reproducible for the same context", async () => {
+    const run = async () => {
+      const store = createMockStore();
+      registerPair(pair.id, store as any, pair);
+      return runSingleCycle(store as any, pair, null, undefined, fixtureContext());
+    };
+    const [a, b] = [await run(), await run()];
+    expect(a).toEqual(b);
+  });
+
+  describe("per-pool params", () => {
+    const pools = ["c2", "c3", "c4"].map(
+      (s) => `0x00000000000000000000000000000000000000${s}` as `0x${string}`,
+    );
+    const multi: PairConfig = {
+      ...pair,
+      id: "CTX-POOLS",
+      pools: pools.map((address) => ({ address, chain: 42161, dex: "uni-v3" as const })),
+    };
+    const fees = [0.0001, 0.0005, 0.0005];
+
+    function multiContext(m1 = candles): CycleContext {
+      const end = m1[m1.length - 1].ts + 60_000;
+      return {
+        ...fixtureContext(),
+        clock: fixedClock(end),
+        candles: { fetchLatestM1: async () => m1 },
+        snapshots: {
+          fetchPoolSnapshots: async () =>
+            pools.map((p, i) =>
+              makeSnapshot({
+                pool: p,
+                chain: 42161,
+                ts: end,
+                feePct: fees[i],
+                volume24h: 2_000_000,
+                tvl: 2_000_000,
+              }),
+            ),
+        },
+      };
+    }
+
+    test("optimizes one fee tier/DEX family cluster per cycle and stores params per pool", async () => {
+      const store = createMockStore();
+      registerPair(multi.id, store as any, multi);
+      const ctx = multiContext(synthRandomWalk(3000, 1.0, 0.0005, 5));
+      await runSingleCycle(store as any, multi, null, undefined, ctx);
+      const first = await store.getPoolParams();
+      expect(Object.keys(first).sort()).toEqual([`42161:${pools[1]}`, `42161:${pools[2]}`].sort());
+
+      await runSingleCycle(store as any, multi, null, undefined, ctx);
+      const saved = await store.getPoolParams();
+      expect(Object.keys(saved).sort()).toEqual(pools.map((p) => `42161:${p}`).sort());
+      expect(saved[`42161:${pools[0]}`].cluster).toBe("v3:0.0001");
+      expect(saved[`42161:${pools[1]}`].cluster).toBe("v3:0.0005");
+      expect(saved[`42161:${pools[2]}`]).toEqual(saved[`42161:${pools[1]}`]);
+    });
+
+    test("mints each pool with the range from its own stored params", async () => {
+      const store = createMockStore();
+      registerPair(multi.id, store as any, multi);
+      const wide = mergeForceParams({
+        baseRange: { ...DEFAULT_FORCE_PARAMS.baseRange, min: 0.05, max: 0.1 },
+      });
+      await store.savePoolParams(`42161:${pools[0]}`, {
+        cluster: "v3:0.0001",
+        params: wide,
+        vec: [],
+        fitness: 0,
+      });
+      const ctx = multiContext();
+      const signer = eoaSigner(
+        getAccount("0x0000000000000000000000000000000000000000000000000000000000000001"),
+      );
+      await runSingleCycle(store as any, multi, signer, undefined, ctx);
+      const calls = (ctx.executor.executePRA as ReturnType<typeof mock>).mock.calls;
+      expect(calls).toHaveLength(1);
+      const ranges = calls[0][7] as Map<string, Range>;
+      const tuned = ranges.get(`42161:${pools[0]}`)!;
+      const untuned = ranges.get(`42161:${pools[1]}`)!;
+      expect(tuned.breadth).toBeGreaterThan(untuned.breadth);
+      expect(untuned).toEqual(ranges.get(`42161:${pools[2]}`)!);
+    });
+  });
+});
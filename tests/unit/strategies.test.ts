@@ -1,5 +1,6 @@
-import { describe, expect, test } from "bun:test";
+import { afterEach, describe, expect, test } from "bun:test";
 import { configEntryToStrategy, strategyToConfigEntry } from "../../src/config/strategies";
+import { loadSafe } from "../../src/config/config-utils";
 import { KEYS } from "../../src/infra/redis";
 import { TOKENS } from "../../src/config/tokens";
 import type { StrategyConfigEntry } from "../../shared/types";
@@ -209,3 +210,34 @@ describe("Redis KEYS: strategy namespace", () => {
   });
 });
 
+
+// ---------------------------------------------------------------------------
+// loadSafe()
+// ---------------------------------------------------------------------------
+
+describe("loadSafe", () => {
+  const SAFE = "0x3416cf6c708da44db2624d63ea0aaef7113527c6";
+  const MODULE = "0xbe3ad6a5669dc0b8b12febc03608860c31e2eef6";
+
+  afterEach(() => {
+    delete process.env.T1_SAFE;
+    delete process.env.T1_SAFE_MODULES;
+  });
+
+  test("parses the Safe address and its per-chain modules", () => {
+    process.env.T1_SAFE = SAFE;
+    process.env.T1_SAFE_MODULES = `1:${MODULE}, 42161:${MODULE}`;
+    expect(loadSafe("T1")).toEqual({ address: SAFE, modules: { 1: MODULE, 42161: MODULE } });
+  });
+
+  test("skips module entries with a bad chain or address", () => {
+    process.env.T1_SAFE = SAFE;
+    process.env.T1_SAFE_MODULES = `mainnet:${MODULE},1:0xdead,${MODULE},8453:${MODULE}`;
+    expect(loadSafe("T1")).toEqual({ address: SAFE, modules: { 8453: MODULE } });
+  });
+
+  test("rejects an invalid Safe address", () => {
+    process.env.T1_SAFE = "0x1234";
+    expect(loadSafe("T1")).toBeUndefined();
+  });
+});
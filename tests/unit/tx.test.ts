@@ -0,0 +1,64 @@
+import { describe, expect, test } from "bun:test";
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  encodeErrorResult,
+  ExecutionRevertedError,
+  parseAbi,
+} from "viem";
+import { bumpFees, replaceAfterMs, revertReason } from "../../src/execution/tx";
+import { TX_REPLACE_MIN_MS } from "../../src/config/params";
+
+describe("bumpFees", () => {
+  test("raises both fees by at least the replacement bump", () => {
+    const prev = { maxFeePerGas: 100n, maxPriorityFeePerGas: 10n };
+    const next = bumpFees(prev, { maxFeePerGas: 50n, maxPriorityFeePerGas: 1n });
+    expect(next.maxFeePerGas).toBe(113n); // +12.5%, rounded up
+    expect(next.maxPriorityFeePerGas).toBe(12n);
+  });
+
+  test("follows the market when the estimate moved further", () => {
+    const next = bumpFees(
+      { maxFeePerGas: 100n, maxPriorityFeePerGas: 10n, legacy: true },
+      { maxFeePerGas: 300n, maxPriorityFeePerGas: 400n },
+    );
+    expect(next.maxPriorityFeePerGas).toBe(400n);
+    expect(next.maxFeePerGas).toBe(400n); // never below the priority fee
+    expect(next.legacy).toBe(true);
+  });
+});
+
+describe("replaceAfterMs", () => {
+  test("waits a few blocks, floored on fast chains", () => {
+    expect(replaceAfterMs(1)).toBe(60_000); // 5 x 12s
+    expect(replaceAfterMs(42161)).toBe(TX_REPLACE_MIN_MS);
+  });
+});
+
+describe("revertReason", () => {
+  test("reads revert strings and decoded custom errors", () => {
+    const revertString = new ContractFunctionRevertedError({
+      abi: [],
+      functionName: "mint",
+      message: "Price slippage check",
+    });
+    expect(revertReason(revertString)).toBe("Price slippage check");
+
+    const abi = parseAbi([
+      "error MaximumAmountExceeded(uint128 maximumAmount, uint128 amountRequested)",
+    ]);
+    const data = encodeErrorResult({ abi, errorName: "MaximumAmountExceeded", args: [10n, 12n] });
+    const custom = new ContractFunctionRevertedError({
+      abi,
+      data,
+      functionName: "modifyLiquidities",
+    });
+    expect(revertReason(custom)).toBe("MaximumAmountExceeded(10, 12)");
+  });
+
+  test("unwraps node revert errors and ignores other failures", () => {
+    const node = new ExecutionRevertedError({ message: "execution reverted: STF" });
+    expect(revertReason(new BaseError("call failed", { cause: node }))).toContain("STF");
+    expect(revertReason(new Error("fetch failed"))).toBeNull();
+  });
+});
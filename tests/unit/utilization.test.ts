@@ -1,6 +1,6 @@
 import { describe, expect, test } from "bun:test";
-import { computePoolAnalyses } from "../../src/strategy/utilization";
-import type { PoolSnapshot, PoolConfig } from "../../src/types";
+import { computePoolAnalyses, poolAprSeries } from "../../src/strategy/utilization";
+import type { Candle, PoolApr, PoolSnapshot, PoolConfig } from "../../src/types";
 import { neutralForces } from "../helpers";
 
 function snap(pool: string, chain: number, overrides: Partial<PoolSnapshot> = {}): PoolSnapshot {
@@ -129,3 +129,41 @@ describe("computePoolAnalyses", () => {
     expect(analyses[0].tforce).toBe(30);
   });
 });
+
+describe("poolAprSeries", () => {
+  const M15 = 900_000;
+  const candles: Candle[] = Array.from({ length: 6 }, (_, i) => ({
+    ts: i * M15,
+    o: 1,
+    h: 1,
+    l: 1,
+    c: 1,
+    v: 0,
+  }));
+  const apr = (ts: number, value: number, tvl = 1_000_000): PoolApr => ({
+    pool: pool1.address,
+    chain: pool1.chain,
+    ts,
+    apr: value,
+    tvl,
+  });
+
+  test("aligns analyses to the candle buckets, TVL-weighted", () => {
+    const series = poolAprSeries(
+      candles,
+      [apr(0, 0.1, 3_000_000), apr(0, 0.2, 1_000_000), apr(M15 + 60_000, 0.3)],
+      0,
+    );
+    expect(series[0]).toBeCloseTo(0.125, 10);
+    expect(series[1]).toBe(0.3);
+  });
+
+  test("carries the last APR across gaps, fallback before the first one", () => {
+    const series = poolAprSeries(candles, [apr(2 * M15, 0.4), apr(4 * M15, 0.1)], 0.05);
+    expect(series).toEqual([0.05, 0.05, 0.4, 0.4, 0.1, 0.1]);
+  });
+
+  test("no analyses: fallback throughout", () => {
+    expect(poolAprSeries(candles, [], 0.2)).toEqual(candles.map(() => 0.2));
+  });
+});
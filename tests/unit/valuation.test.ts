@@ -0,0 +1,134 @@
+import { describe, expect, test } from "bun:test";
+import {
+  feesFromGrowth,
+  journalGasWei,
+  pairPrice,
+  summarizeMarks,
+  toMark,
+} from "../../src/execution/valuation";
+import { USDC } from "../../src/config/tokens";
+import type { ExecutionJournal, PairConfig, PositionMark, TokenConfig } from "../../src/types";
+import { makePosition } from "../helpers";
+
+const Q128 = 1n << 128n;
+
+const WETH: TokenConfig = {
+  symbol: "WETH",
+  decimals: 18,
+  addresses: { 1: "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2" },
+};
+
+const ethPair: PairConfig = {
+  id: "WETH-USDC",
+  token0: WETH,
+  token1: USDC,
+  eoaEnvVar: "PK_WETH_USDC",
+  pools: [],
+  intervalSec: 900,
+  maxPositions: 3,
+  thresholds: { pra: 0.05, rs: 0.25 },
+};
+
+function mark(overrides: Partial<PositionMark>): PositionMark {
+  return {
+    id: "p",
+    chain: 1,
+    amount0: 0n,
+    amount1: 0n,
+    fees0: 0n,
+    fees1: 0n,
+    valueUsd: 0,
+    feesUsd: 0,
+    hodlUsd: 0,
+    ...overrides,
+  };
+}
+
+describe("feesFromGrowth", () => {
+  test("scales fee growth by liquidity in Q128", () => {
+    expect(feesFromGrowth(1000n, 5n * Q128, 2n * Q128)).toBe(3000n);
+  });
+
+  test("handles fee growth counters wrapping past 2^256", () => {
+    const last = (1n << 256n) - Q128;
+    expect(feesFromGrowth(10n, Q128, last)).toBe(20n);
+  });
+});
+
+describe("pairPrice", () => {
+  test("orients raw sorted prices to the pair and adjusts decimals", () => {
+    const chain = 1;
+    // USDC sorts before WETH on mainnet: raw price is WETH wei per USDC unit
+    const state = { token0: USDC.addresses[chain]!, price: 1e12 / 2000 };
+    expect(pairPrice(ethPair, chain, state)).toBeCloseTo(2000, 6);
+  });
+});
+
+describe("toMark", () => {
+  test("values principal, fees and HODL at the current price", () => {
+    const pos = makePosition({ amount0: 10n ** 18n, amount1: 2000n * 10n ** 6n });
+    const m = toMark(
+      ethPair,
+      pos,
+      [5n * 10n ** 17n, 3000n * 10n ** 6n],
+      [0n, 10n * 10n ** 6n],
+      2000,
+    );
+    expect(m.feesUsd).toBeCloseTo(10, 9);
+    expect(m.valueUsd).toBeCloseTo(1000 + 3000 + 10, 6);
+    expect(m.hodlUsd).toBeCloseTo(4000, 6);
+  });
+});
+
+describe("summarizeMarks", () => {
+  test("fees earned are the growth of uncollected fees since the last snapshot", () => {
+    const marks = [
+      mark({ id: "a", valueUsd: 1010, feesUsd: 10, hodlUsd: 1005 }),
+      mark({ id: "b", valueUsd: 502, feesUsd: 2, hodlUsd: 500 }),
+    ];
+    const s = summarizeMarks(marks, { a: 7, gone: 50 });
+    expect(s.portfolioValueUsd).toBe(1512);
+    expect(s.feesUncollectedUsd).toBe(12);
+    expect(s.feesEarnedUsd).toBe(3 + 2);
+    expect(s.hodlValueUsd).toBe(1505);
+    expect(s.ilUsd).toBe(1505 - 1500);
+  });
+
+  test("a fee collection never counts as negative earnings", () => {
+    const s = summarizeMarks([mark({ id: "a", feesUsd: 1 })], { a: 9 });
+    expect(s.feesEarnedUsd).toBe(0);
+  });
+
+  test("fees collected by compounds and burns count as earned", () => {
+    // a: compounded 10 (9 marked before) and accrued 1 since; burned: collected 6 at its burn
+    const marks = [mark({ id: "a", valueUsd: 1001, feesUsd: 1, hodlUsd: 1000 })];
+    const s = summarizeMarks(marks, { a: 9, burned: 4 }, { a: 10, burned: 6 });
+    expect(s.feesEarnedUsd).toBe(1 + 10 - 9 + (6 - 4));
+  });
+
+  test("idle wallet balances join the portfolio value, not the IL", () => {
+    const marks = [mark({ id: "a", valueUsd: 1010, feesUsd: 10, hodlUsd: 1005 })];
+    const s = summarizeMarks(marks, {}, {}, 250);
+    expect(s.portfolioValueUsd).toBe(1260);
+    expect(s.ilUsd).toBe(1005 - 1000);
+  });
+});
+
+describe("journalGasWei", () => {
+  test("sums receipt gas of burn and mint steps per chain", () => {
+    const j = {
+      steps: [
+        { kind: "burn", status: "done", ts: 0, chain: 1, gasUsed: "100", gasPrice: "5" },
+        { kind: "mint", status: "failed", ts: 0, chain: 1, gasUsed: "50", gasPrice: "4" },
+        { kind: "swap", status: "done", ts: 0, chain: 1 },
+        { kind: "mint", status: "done", ts: 0, chain: 8453, gasUsed: "10", gasPrice: "1" },
+      ],
+    } as unknown as ExecutionJournal;
+    expect(journalGasWei(j)).toEqual(
+      new Map([
+        [1, 700n],
+        [8453, 10n],
+      ]),
+    );
+  });
+});